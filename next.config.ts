@@ -1,6 +1,8 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
+  // opusscript loads its WebAssembly binary from disk next to its own module
+  serverExternalPackages: ['opusscript'],
   images: {
     remotePatterns: [
       {
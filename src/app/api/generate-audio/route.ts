@@ -1,45 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_SAMPLE_RATE } from '@/lib/tts/speech-renderer';
+import { parseAudioRequest, renderAudioRequest, streamAudioRequest } from '@/lib/tts/audio-request';
+import {
+  DEFAULT_FLAC_COMPRESSION_LEVEL,
+  DEFAULT_MP3_BITRATE,
+  DEFAULT_OPUS_BITRATE,
+  DEFAULT_OPUS_COMPLEXITY,
+  DEFAULT_OUTPUT_FORMAT,
+  DEFAULT_WAV_BIT_DEPTH,
+  DEFAULT_WAV_SAMPLE_RATE,
+  FLAC_COMPRESSION_LEVELS,
+  MP3_BITRATE_MODES,
+  MP3_BITRATES,
+  OPUS_BITRATE_RANGE,
+  OPUS_COMPLEXITY_RANGE,
+  OUTPUT_FORMATS,
+  WAV_BIT_DEPTHS,
+  WAV_CHANNEL_COUNTS,
+  WAV_ENCODINGS,
+  WAV_SAMPLE_RATES
+} from '@/lib/audio-formats';
+import { MAX_METADATA_FIELD_LENGTH, METADATA_TEXT_FIELDS } from '@/lib/audio-metadata';
+import { NORMALIZATION_LOCALES } from '@/lib/text-normalizer';
+import { MAX_TEXT_LENGTH, STREAM_CHUNK_LENGTH } from '@/lib/text-chunker';
+import { INPUT_FORMATS, MAX_BREAK_SECONDS } from '@/lib/ssml';
+import { DEFAULT_TURN_GAP, TURN_GAP_RANGE } from '@/lib/dialogue-script';
+import {
+  DEFAULT_TRUE_PEAK,
+  LOUDNESS_HEADERS,
+  LOUDNESS_PRESETS,
+  LOUDNESS_TARGET_RANGE,
+  loudnessHeaders,
+  TRUE_PEAK_RANGE
+} from '@/lib/loudness';
+import {
+  defaultEffect,
+  EFFECT_TYPES,
+  EFFECTS,
+  EQ_BAND_PARAMETERS,
+  EQ_BAND_SHAPES,
+  MAX_EFFECTS,
+  MAX_EQ_BANDS,
+  REVERB_ROOMS
+} from '@/lib/audio-effects';
+import { DEFAULT_MUSIC_BED, MAX_MUSIC_BED_BYTES, MUSIC_BED_LEVELS, MUSIC_BEDS } from '@/lib/music-bed';
+import {
+  DEFAULT_PAUSES,
+  DEFAULT_SILENCE,
+  MAX_SILENCE_RANGE,
+  PAUSE_RANGES,
+  SILENCE_PADDING_RANGE,
+  SILENCE_THRESHOLD_RANGE
+} from '@/lib/silence';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { text, rate = 1, pitch = 1, volume = 1, voiceName } = body;
-
-    // Validate input
-    if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    const parsed = parseAudioRequest(body);
+    if (parsed.error !== undefined) {
       return NextResponse.json(
-        { error: 'Text is required and must be a non-empty string' },
+        { error: parsed.error, issues: parsed.issues },
         { status: 400 }
       );
     }
 
-    if (text.length > 5000) {
-      return NextResponse.json(
-        { error: 'Text must be less than 5000 characters' },
-        { status: 400 }
-      );
+    // Streamed WAV has no length up front; the client plays it as it arrives
+    if (parsed.request.stream) {
+      const headers = new Headers();
+      headers.set('Content-Type', OUTPUT_FORMATS.wav.contentType);
+      headers.set('Cache-Control', 'no-store');
+      headers.set('X-Content-Type-Options', 'nosniff');
+
+      return new NextResponse(streamAudioRequest(parsed.request, request.signal), {
+        status: 200,
+        headers
+      });
     }
 
-    // Normalize settings
-    const normalizedRate = Math.max(0.1, Math.min(10, rate));
-    const normalizedPitch = Math.max(0, Math.min(2, pitch));
-    const normalizedVolume = Math.max(0, Math.min(1, volume));
-
-    // Generate a high-quality WAV file with actual audio content
-    const audioBuffer = generateAudioWAV(text, {
-      rate: normalizedRate,
-      pitch: normalizedPitch,
-      volume: normalizedVolume,
-      voiceName
-    });
+    const { blob: audioBlob, loudness } = await renderAudioRequest(parsed.request);
+    const output = OUTPUT_FORMATS[parsed.request.outputFormat];
 
     // Set appropriate headers for audio download
-    const headers = new Headers();
-    headers.set('Content-Type', 'audio/wav');
-    headers.set('Content-Disposition', `attachment; filename="speech-${Date.now()}.wav"`);
-    headers.set('Content-Length', audioBuffer.byteLength.toString());
+    const headers = new Headers(loudnessHeaders(loudness));
+    headers.set('Content-Type', output.contentType);
+    headers.set('Content-Disposition', `attachment; filename="speech-${Date.now()}.${output.extension}"`);
+    headers.set('Content-Length', audioBlob.size.toString());
 
-    return new NextResponse(audioBuffer, {
+    return new NextResponse(audioBlob, {
       status: 200,
       headers
     });
@@ -53,147 +100,139 @@ export async function POST(request: NextRequest) {
   }
 }
 
-interface AudioSettings {
-  rate: number;
-  pitch: number;
-  volume: number;
-  voiceName?: string;
-}
-
-function generateAudioWAV(text: string, settings: AudioSettings): ArrayBuffer {
-  // Calculate duration based on text length and speaking rate
-  const wordsPerMinute = 155 * settings.rate; // Average speaking rate adjusted by rate
-  const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
-  const baseDuration = Math.max(2, (wordCount / wordsPerMinute) * 60);
-  const duration = Math.ceil(baseDuration);
-  
-  const sampleRate = 44100;
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const numSamples = sampleRate * duration;
-  const dataSize = numSamples * numChannels * (bitsPerSample / 8);
-  const fileSize = 44 + dataSize;
-
-  const buffer = new ArrayBuffer(fileSize);
-  const view = new DataView(buffer);
-
-  // Write WAV header
-  const writeString = (offset: number, str: string) => {
-    for (let i = 0; i < str.length; i++) {
-      view.setUint8(offset + i, str.charCodeAt(i));
-    }
-  };
-
-  // RIFF chunk descriptor
-  writeString(0, 'RIFF');
-  view.setUint32(4, fileSize - 8, true);
-  writeString(8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true); // Sub-chunk size
-  view.setUint16(20, 1, true);  // Audio format (PCM)
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true); // Byte rate
-  view.setUint16(32, numChannels * (bitsPerSample / 8), true); // Block align
-  view.setUint16(34, bitsPerSample, true);
-
-  // data sub-chunk
-  writeString(36, 'data');
-  view.setUint32(40, dataSize, true);
-
-  // Generate audio data with more sophisticated waveform
-  const baseFreq = 200; // Lower base frequency for speech-like sound
-  const volume = settings.volume;
-  
-  for (let i = 0; i < numSamples; i++) {
-    const time = i / sampleRate;
-    const progress = i / numSamples;
-    
-    // Create a more complex waveform that mimics speech patterns
-    let sample = 0;
-    
-    // Character-based frequency modulation
-    const charIndex = Math.floor(progress * text.length);
-    const char = text.charAt(charIndex);
-    const charCode = char.charCodeAt(0);
-    
-    // Vowels and consonants have different frequency characteristics
-    const isVowel = 'aeiouAEIOU'.includes(char);
-    const baseCharFreq = baseFreq + (charCode % 300);
-    
-    if (char === ' ') {
-      // Brief pause for spaces
-      sample = 0;
-    } else if (isVowel) {
-      // Vowels: Lower frequency, more harmonics
-      const freq1 = baseCharFreq * (1 + settings.pitch * 0.5);
-      const freq2 = freq1 * 2.1;
-      const freq3 = freq1 * 3.2;
-      
-      sample = (
-        Math.sin(2 * Math.PI * freq1 * time) * 0.6 +
-        Math.sin(2 * Math.PI * freq2 * time) * 0.3 +
-        Math.sin(2 * Math.PI * freq3 * time) * 0.1
-      );
-    } else {
-      // Consonants: Higher frequency, more noise-like
-      const freq = baseCharFreq * (1.5 + settings.pitch * 0.8);
-      const noise = (Math.random() - 0.5) * 0.3;
-      
-      sample = Math.sin(2 * Math.PI * freq * time) * 0.7 + noise;
-    }
-    
-    // Apply envelope to make it more speech-like
-    const fadeTime = Math.min(0.1, duration * 0.05); // 5% fade or max 100ms
-    let envelope = 1;
-    
-    if (time < fadeTime) {
-      envelope = time / fadeTime;
-    } else if (time > duration - fadeTime) {
-      envelope = (duration - time) / fadeTime;
-    }
-    
-    // Apply rate-based modulation (faster rate = slightly higher pitch and more compressed)
-    const rateModulation = 1 + (settings.rate - 1) * 0.2;
-    sample *= rateModulation;
-    
-    // Apply volume and envelope
-    sample *= volume * envelope * 0.3; // Keep volume reasonable
-    
-    // Convert to 16-bit integer
-    const intSample = Math.max(-32768, Math.min(32767, Math.round(sample * 32767)));
-    view.setInt16(44 + i * 2, intSample, true);
-  }
-
-  return buffer;
-}
-
 export async function GET() {
   return NextResponse.json({
     service: 'Audio Generation API',
-    version: '1.0.0',
+    version: '2.0.0',
     status: 'active',
     description: 'Generates downloadable audio files from text with voice settings',
     features: [
       'Text-to-audio conversion',
       'Customizable voice settings (rate, pitch, volume)',
-      'High-quality WAV output',
-      'Speech-like waveform generation',
-      'Character-based frequency modulation'
+      'WAV output at 8 to 48 kHz as 16/24-bit PCM, 32-bit float, μ-law or A-law',
+      'MP3 output at constant or variable bitrate',
+      'Ogg Opus and FLAC output',
+      'Embedded metadata: RIFF INFO for WAV, ID3v2.4 for MP3, Vorbis comments for Ogg Opus and FLAC',
+      'Offline Klatt-style formant synthesis',
+      'Rule-based letter-to-sound conversion',
+      'Klatt duration rules and intonation contours',
+      'Locale-aware normalization of numbers, dates, currency and abbreviations',
+      'SSML input with break, prosody, emphasis, say-as, sub and phoneme',
+      'Dialogue scripts with a voice for each speaker',
+      'Streaming WAV output that starts playing while the rest renders',
+      'Adjustable pauses after commas, sentences and paragraphs',
+      'Silence trimming at the start and end, and a cap on silences inside the audio',
+      'Effects chain: filters, parametric EQ, de-esser, compressor, limiter, noise gate and reverb',
+      'Music beds, built in or uploaded as WAV, looped to the speech and ducked under it',
+      'ITU-R BS.1770 loudness measurement and normalization to a LUFS target under a true-peak ceiling',
+      'Sentence-aware chunking for long-form text'
     ],
+    inputFormats: INPUT_FORMATS,
+    supportedLocales: Object.keys(NORMALIZATION_LOCALES),
     limits: {
-      maxTextLength: 5000,
+      maxTextLength: MAX_TEXT_LENGTH,
+      maxBreakSeconds: MAX_BREAK_SECONDS,
       rateRange: [0.1, 10],
       pitchRange: [0, 2],
-      volumeRange: [0, 1]
+      volumeRange: [0, 1],
+      turnGapRange: TURN_GAP_RANGE
+    },
+    script: {
+      fields: ['speakers', 'turnGap'],
+      speakerFields: ['rate', 'pitch', 'volume', 'voiceName', 'locale'],
+      defaultTurnGap: DEFAULT_TURN_GAP
     },
     outputFormat: {
-      type: 'audio/wav',
-      sampleRate: 44100,
+      default: DEFAULT_OUTPUT_FORMAT,
+      sampleRate: DEFAULT_SAMPLE_RATE,
       channels: 1,
-      bitsPerSample: 16
+      formats: {
+        wav: {
+          type: OUTPUT_FORMATS.wav.contentType,
+          sampleRates: WAV_SAMPLE_RATES,
+          defaultSampleRate: DEFAULT_WAV_SAMPLE_RATE,
+          bitDepths: WAV_BIT_DEPTHS,
+          defaultBitDepth: DEFAULT_WAV_BIT_DEPTH,
+          channels: WAV_CHANNEL_COUNTS,
+          encodings: WAV_ENCODINGS
+        },
+        mp3: {
+          type: OUTPUT_FORMATS.mp3.contentType,
+          bitrates: MP3_BITRATES,
+          defaultBitrate: DEFAULT_MP3_BITRATE,
+          bitrateModes: MP3_BITRATE_MODES
+        },
+        opus: {
+          type: OUTPUT_FORMATS.opus.contentType,
+          container: 'ogg',
+          sampleRate: 48000,
+          bitrateRange: OPUS_BITRATE_RANGE,
+          defaultBitrate: DEFAULT_OPUS_BITRATE,
+          complexityRange: OPUS_COMPLEXITY_RANGE,
+          defaultComplexity: DEFAULT_OPUS_COMPLEXITY
+        },
+        flac: {
+          type: OUTPUT_FORMATS.flac.contentType,
+          bitsPerSample: 16,
+          compressionLevels: FLAC_COMPRESSION_LEVELS,
+          defaultCompressionLevel: DEFAULT_FLAC_COMPRESSION_LEVEL
+        }
+      }
+    },
+    pauses: {
+      field: 'pauses',
+      ranges: PAUSE_RANGES,
+      defaults: DEFAULT_PAUSES
+    },
+    silence: {
+      field: 'silence',
+      paddingRange: SILENCE_PADDING_RANGE,
+      maxSilenceRange: MAX_SILENCE_RANGE,
+      thresholdRange: SILENCE_THRESHOLD_RANGE,
+      defaults: DEFAULT_SILENCE
+    },
+    effects: {
+      field: 'effects',
+      maxEffects: MAX_EFFECTS,
+      maxEqBands: MAX_EQ_BANDS,
+      types: Object.fromEntries(
+        EFFECT_TYPES.map(type => [type, { ...EFFECTS[type], example: defaultEffect(type) }])
+      ),
+      eqBandShapes: EQ_BAND_SHAPES,
+      eqBandParameters: EQ_BAND_PARAMETERS,
+      reverbRooms: REVERB_ROOMS
+    },
+    music: {
+      field: 'music',
+      beds: MUSIC_BEDS,
+      upload: {
+        bed: 'upload',
+        data: 'base64 PCM or 32-bit float WAV',
+        maxBytes: MAX_MUSIC_BED_BYTES
+      },
+      levels: MUSIC_BED_LEVELS,
+      example: DEFAULT_MUSIC_BED
+    },
+    loudness: {
+      fields: ['loudnessTarget', 'truePeak'],
+      targetRange: LOUDNESS_TARGET_RANGE,
+      truePeakRange: TRUE_PEAK_RANGE,
+      defaultTruePeak: DEFAULT_TRUE_PEAK,
+      presets: LOUDNESS_PRESETS,
+      headers: Object.values(LOUDNESS_HEADERS)
+    },
+    streaming: {
+      field: 'stream',
+      type: OUTPUT_FORMATS.wav.contentType,
+      sampleRate: DEFAULT_SAMPLE_RATE,
+      bitDepth: 16,
+      channels: 1,
+      chunkLength: STREAM_CHUNK_LENGTH
+    },
+    metadata: {
+      fields: [...METADATA_TEXT_FIELDS, 'includeSourceText'],
+      maxFieldLength: MAX_METADATA_FIELD_LENGTH,
+      generated: ['language', 'voice', 'settings', 'createdAt', 'software', 'sourceHash']
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderLongForm } from '@/lib/tts/long-form';
+import { trimSilence } from '@/lib/tts/silence-trimmer';
+import { buildParts, resolveAudioSettings, resolveScriptSettings } from '@/lib/tts/speech-parts';
+import {
+  buildCues,
+  buildTimings,
+  CAPTION_DURATION_RANGE,
+  CAPTION_FORMATS,
+  CAPTION_LINE_LENGTH_RANGE,
+  CAPTION_LINES_RANGE,
+  CaptionFormat,
+  DEFAULT_CAPTION_OPTIONS,
+  formatSrt,
+  formatVtt
+} from '@/lib/captions';
+import { MAX_TEXT_LENGTH, RENDER_CHUNK_LENGTH } from '@/lib/text-chunker';
+import { INPUT_FORMATS, validateSsml } from '@/lib/ssml';
+import { validateScriptOptions } from '@/lib/dialogue-script';
+import { DEFAULT_PAUSES, DEFAULT_SILENCE, trimsSilence, validateSilenceOptions } from '@/lib/silence';
+import { MUSIC_BED_LEVELS } from '@/lib/music-bed';
+
+// Renders the same audio as /api/generate-audio for the same text, voice,
+// pause and silence settings, and returns when each word and sentence is
+// heard in it. A music bed's intro delays the voice in the file, so it is
+// sent as musicIntro (and its outro as musicOutro) without the bed itself.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      text,
+      rate = 1,
+      pitch = 1,
+      volume = 1,
+      voiceName,
+      locale,
+      format = 'text',
+      speakers,
+      turnGap,
+      pauses = DEFAULT_PAUSES,
+      silence = DEFAULT_SILENCE,
+      musicIntro = 0,
+      musicOutro = 0,
+      captionFormat = 'vtt',
+      maxLineLength = DEFAULT_CAPTION_OPTIONS.maxLineLength,
+      maxLines = DEFAULT_CAPTION_OPTIONS.maxLines,
+      maxCueDuration = DEFAULT_CAPTION_OPTIONS.maxCueDuration
+    } = body;
+
+    // Validate input
+    if (!text || typeof text !== 'string' || text.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Text is required and must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Text must be less than ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!INPUT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${INPUT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.keys(CAPTION_FORMATS).includes(captionFormat)) {
+      return NextResponse.json(
+        { error: `Caption format must be one of: ${Object.keys(CAPTION_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limits: [string, unknown, [number, number]][] = [
+      ['Maximum line length', maxLineLength, CAPTION_LINE_LENGTH_RANGE],
+      ['Maximum lines', maxLines, CAPTION_LINES_RANGE],
+      ['Maximum cue duration', maxCueDuration, CAPTION_DURATION_RANGE],
+      ['Music intro', musicIntro, MUSIC_BED_LEVELS.intro.range],
+      ['Music outro', musicOutro, MUSIC_BED_LEVELS.outro.range]
+    ];
+    for (const [label, value, [min, max]] of limits) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        return NextResponse.json(
+          { error: `${label} must be between ${min} and ${max}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const scriptError = validateScriptOptions(speakers, turnGap);
+    if (scriptError) {
+      return NextResponse.json(
+        { error: scriptError },
+        { status: 400 }
+      );
+    }
+
+    const silenceError = validateSilenceOptions(pauses, silence);
+    if (silenceError) {
+      return NextResponse.json(
+        { error: silenceError },
+        { status: 400 }
+      );
+    }
+
+    if (format === 'ssml') {
+      const issues = validateSsml(text);
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid SSML', issues },
+          { status: 400 }
+        );
+      }
+    }
+
+    const settings = resolveAudioSettings({ rate, pitch, volume, voiceName, locale });
+    const script = resolveScriptSettings(speakers, turnGap, settings);
+    const rendered = await renderLongForm(buildParts(text, format, settings, script, RENDER_CHUNK_LENGTH, pauses));
+    const audio = trimsSilence(silence) ? trimSilence(rendered, silence) : rendered;
+
+    // Moved as the mixer moves them. Word ranges only exist for plain text
+    // and scripts, where they point into the input.
+    const words = audio.words.map(word => ({ ...word, start: word.start + musicIntro, end: word.end + musicIntro }));
+    const duration = audio.duration + musicIntro + musicOutro;
+    const timings = buildTimings(words, duration, format !== 'ssml' ? text : undefined);
+    const cues = buildCues(timings, {
+      maxLineLength: Math.round(maxLineLength),
+      maxLines: Math.round(maxLines),
+      maxCueDuration
+    });
+
+    if (captionFormat === 'json') {
+      return NextResponse.json({ ...timings, cues });
+    }
+
+    const output = CAPTION_FORMATS[captionFormat as CaptionFormat];
+    const captions = captionFormat === 'srt' ? formatSrt(cues) : formatVtt(cues);
+
+    const headers = new Headers();
+    headers.set('Content-Type', `${output.contentType}; charset=utf-8`);
+    headers.set('Content-Disposition', `attachment; filename="captions-${Date.now()}.${output.extension}"`);
+
+    return new NextResponse(captions, {
+      status: 200,
+      headers
+    });
+
+  } catch (error) {
+    console.error('Caption generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate captions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    service: 'Caption Generation API',
+    version: '1.0.0',
+    status: 'active',
+    description: 'Times every word and sentence of the audio /api/generate-audio renders and returns captions for it',
+    captionFormats: Object.fromEntries(
+      Object.entries(CAPTION_FORMATS).map(([format, { contentType }]) => [format, contentType])
+    ),
+    defaults: DEFAULT_CAPTION_OPTIONS,
+    timing: ['rate', 'voiceName', 'locale', 'format', 'speakers', 'turnGap', 'pauses', 'silence', 'musicIntro', 'musicOutro'],
+    limits: {
+      maxTextLength: MAX_TEXT_LENGTH,
+      maxLineLength: CAPTION_LINE_LENGTH_RANGE,
+      maxLines: CAPTION_LINES_RANGE,
+      maxCueDuration: CAPTION_DURATION_RANGE
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { JOB_ID_PATTERN } from '@/lib/jobs';
+import { loudnessHeaders } from '@/lib/loudness';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!JOB_ID_PATTERN.test(id)) {
+    return NextResponse.json(
+      { error: 'Invalid job id' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const queue = getJobQueue();
+    const job = await queue.get(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    if (job.status !== 'completed') {
+      return NextResponse.json(
+        { error: `Job is ${job.status}`, job },
+        { status: 409 }
+      );
+    }
+
+    const result = await queue.readAudio(id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Job audio not found' },
+        { status: 404 }
+      );
+    }
+
+    const headers = new Headers(result.job.loudness ? loudnessHeaders(result.job.loudness) : undefined);
+    headers.set('Content-Type', result.job.contentType);
+    headers.set('Content-Disposition', `attachment; filename="speech-${id}.${result.job.extension}"`);
+    headers.set('Content-Length', result.audio.length.toString());
+
+    return new NextResponse(result.audio, {
+      status: 200,
+      headers
+    });
+  } catch (error) {
+    console.error('Render job audio error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read render job audio' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { isFinished, JOB_ID_PATTERN } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const invalidId = () => NextResponse.json(
+  { error: 'Invalid job id' },
+  { status: 400 }
+);
+
+const notFound = () => NextResponse.json(
+  { error: 'Job not found' },
+  { status: 404 }
+);
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!JOB_ID_PATTERN.test(id)) return invalidId();
+
+  try {
+    const job = await getJobQueue().get(id);
+    if (!job) return notFound();
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Render job read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read render job' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job. A job that has already finished is removed
+// along with its audio.
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!JOB_ID_PATTERN.test(id)) return invalidId();
+
+  try {
+    const queue = getJobQueue();
+    const job = await queue.get(id);
+    if (!job) return notFound();
+
+    if (!isFinished(job.status)) {
+      return NextResponse.json({ job: await queue.cancel(id) });
+    }
+
+    // The queue keeps a job it is still running, whatever was read above
+    if (!(await queue.delete(id))) {
+      return NextResponse.json(
+        { error: 'Job is still running', job },
+        { status: 409 }
+      );
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Render job delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel render job' },
+      { status: 500 }
+    );
+  }
+}
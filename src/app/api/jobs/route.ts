@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAudioRequest } from '@/lib/tts/audio-request';
+import { getJobQueue } from '@/lib/job-queue';
+import { JOB_STATUSES } from '@/lib/jobs';
+
+// Queue a render. Takes the same body as /api/generate-audio and answers at
+// once with the job; poll its statusUrl and download audioUrl when it is done.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseAudioRequest(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error, issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.request.stream) {
+      return NextResponse.json(
+        { error: 'Render jobs are not streamed; use /api/generate-audio to stream audio' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobQueue().submit(parsed.request);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Too many render jobs are waiting; try again later' },
+        { status: 503, headers: { 'Retry-After': '30' } }
+      );
+    }
+
+    return NextResponse.json(
+      { job },
+      { status: 202, headers: { Location: job.statusUrl } }
+    );
+  } catch (error) {
+    console.error('Render job submit error:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue render job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    service: 'Render Jobs API',
+    version: '1.0.0',
+    status: 'active',
+    description: 'Renders audio files in the background with progress reporting and cancellation',
+    endpoints: {
+      'POST /api/jobs': 'Queue a render; the body is the same as for POST /api/generate-audio',
+      'GET /api/jobs/:id': 'Status, stage and progress of a job, with its loudness and word timings once completed',
+      'GET /api/jobs/:id/audio': 'Download the audio of a completed job',
+      'DELETE /api/jobs/:id': 'Cancel a queued or running job, or remove a finished one'
+    },
+    statuses: JOB_STATUSES
+  });
+}
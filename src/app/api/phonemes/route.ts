@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { textToPhonemes } from '@/lib/tts/g2p';
+import { lexiconSize } from '@/lib/tts/lexicon';
+import { normalizeText } from '@/lib/text-normalizer';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, locale } = body;
+
+    // Validate input
+    if (!text || typeof text !== 'string' || text.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Text is required and must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > 5000) {
+      return NextResponse.json(
+        { error: 'Text must be less than 5000 characters' },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeText(text, {
+      locale: typeof locale === 'string' ? locale : undefined
+    });
+    const pronunciation = textToPhonemes(normalized.text);
+
+    return NextResponse.json({
+      text,
+      normalizedText: normalized.text,
+      phonemes: pronunciation.phonemes,
+      words: pronunciation.words
+    });
+
+  } catch (error) {
+    console.error('Phoneme conversion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to convert text to phonemes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    service: 'Grapheme-to-Phoneme Debug API',
+    version: '1.0.0',
+    status: 'active',
+    description: 'Returns the phoneme sequence the server synthesizer uses for a piece of text',
+    features: [
+      'Text normalization for numbers, dates, currency and abbreviations',
+      'Bundled English pronunciation lexicon',
+      'Inflection handling for plurals, past tense and common suffixes',
+      'Letter-to-sound fallback rules for unknown words',
+      'Primary and secondary stress marking'
+    ],
+    lexiconEntries: lexiconSize(),
+    limits: {
+      maxTextLength: 5000
+    },
+    outputFormat: {
+      alphabet: 'ARPAbet',
+      stressMarks: { primary: 1, secondary: 2, unstressed: 0 },
+      sources: ['lexicon', 'morphology', 'rules', 'spelled']
+    },
+    supportedMethods: ['GET', 'POST']
+  });
+}
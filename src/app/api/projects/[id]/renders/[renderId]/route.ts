@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OUTPUT_FORMATS, outputFormatForType } from '@/lib/audio-formats';
+import { deleteRenderAudio, readProject, readRenderAudio, writeRenderAudio } from '@/lib/project-files';
+import { PROJECT_ID_PATTERN } from '@/lib/projects';
+
+// Audio of a single render, stored as uploaded. It is only ever served as
+// one of the output formats and as an attachment, so an upload cannot be
+// opened as a page on this origin.
+const MAX_RENDER_BYTES = 200 * 1024 * 1024;
+
+interface RouteContext {
+  params: Promise<{ id: string; renderId: string }>;
+}
+
+const validIds = ({ id, renderId }: { id: string; renderId: string }) =>
+  PROJECT_ID_PATTERN.test(id) && PROJECT_ID_PATTERN.test(renderId);
+
+const invalidId = () => NextResponse.json(
+  { error: 'Invalid project or render id' },
+  { status: 400 }
+);
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const ids = await params;
+  if (!validIds(ids)) return invalidId();
+
+  try {
+    const audio = await readRenderAudio(ids.id, ids.renderId);
+    const render = (await readProject(ids.id))?.renders.find(r => r.id === ids.renderId);
+    const format = render && outputFormatForType(render.type);
+    if (!audio || !format) {
+      return NextResponse.json(
+        { error: 'Render not found' },
+        { status: 404 }
+      );
+    }
+
+    const { contentType, extension } = OUTPUT_FORMATS[format];
+    const headers = new Headers();
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Length', audio.length.toString());
+    headers.set('Content-Disposition', `attachment; filename="${ids.renderId}.${extension}"`);
+    headers.set('X-Content-Type-Options', 'nosniff');
+
+    return new NextResponse(new Uint8Array(audio), {
+      status: 200,
+      headers
+    });
+  } catch (error) {
+    console.error('Render read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read render' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const ids = await params;
+  if (!validIds(ids)) return invalidId();
+
+  try {
+    // Audio only goes beside a saved project
+    if (!(await readProject(ids.id))) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const audio = new Uint8Array(await request.arrayBuffer());
+    if (audio.length === 0 || audio.length > MAX_RENDER_BYTES) {
+      return NextResponse.json(
+        { error: `Render audio must be between 1 byte and ${MAX_RENDER_BYTES / (1024 * 1024)} MB` },
+        { status: 400 }
+      );
+    }
+
+    await writeRenderAudio(ids.id, ids.renderId, audio);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Render write error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save render' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const ids = await params;
+  if (!validIds(ids)) return invalidId();
+
+  try {
+    await deleteRenderAudio(ids.id, ids.renderId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Render delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete render' },
+      { status: 500 }
+    );
+  }
+}
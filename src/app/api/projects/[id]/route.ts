@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteProject, readProject, writeProject } from '@/lib/project-files';
+import { Project, PROJECT_ID_PATTERN, validateProject } from '@/lib/projects';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const invalidId = () => NextResponse.json(
+  { error: 'Invalid project id' },
+  { status: 400 }
+);
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!PROJECT_ID_PATTERN.test(id)) return invalidId();
+
+  try {
+    const project = await readProject(id);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Project read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read project' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace a project record. Render audio is uploaded separately.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!PROJECT_ID_PATTERN.test(id)) return invalidId();
+
+  try {
+    const body = await request.json();
+    const validationError = validateProject(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const project = body as Project;
+    if (project.id !== id) {
+      return NextResponse.json(
+        { error: 'Project id does not match the URL' },
+        { status: 400 }
+      );
+    }
+
+    await writeProject(project);
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('Project write error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save project' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!PROJECT_ID_PATTERN.test(id)) return invalidId();
+
+  try {
+    await deleteProject(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Project delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
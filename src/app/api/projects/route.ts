@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listProjects } from '@/lib/project-files';
+
+// Projects in the shared server store, most recently changed first
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Project list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list projects' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { INPUT_FORMATS, normalizeSsml, parseSsml, validateSsml, SsmlSegment } from '@/lib/ssml';
+import { parseScript } from '@/lib/dialogue-script';
+import { chunkSpeech, MAX_TEXT_LENGTH, MAX_UTTERANCE_SECONDS, speechChunkLength } from '@/lib/text-chunker';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { text, rate = 1, pitch = 1, volume = 1, voiceName } = body;
+    const { text, rate = 1, pitch = 1, volume = 1, voiceName, locale, format = 'text' } = body;
 
     // Validate input
     if (!text || typeof text !== 'string' || text.trim().length === 0) {
@@ -13,13 +16,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (text.length > 5000) {
+    if (text.length > MAX_TEXT_LENGTH) {
       return NextResponse.json(
-        { error: 'Text must be less than 5000 characters' },
+        { error: `Text must be less than ${MAX_TEXT_LENGTH} characters` },
         { status: 400 }
       );
     }
 
+    if (!INPUT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${INPUT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // SSML is validated here and returned as segments the client can chain
+    // into Web Speech utterances
+    let segments: SsmlSegment[] | undefined;
+    if (format === 'ssml') {
+      const issues = validateSsml(text);
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid SSML', issues },
+          { status: 400 }
+        );
+      }
+      const normalization = { locale: typeof locale === 'string' ? locale : undefined };
+      segments = normalizeSsml(parseSsml(text, normalization), normalization).segments;
+    }
+
     // Note: This is a server-side endpoint that would typically use a TTS service
     // For now, we'll return instructions to use client-side Web Speech API
     // In a real implementation, you could integrate with services like:
@@ -35,8 +60,18 @@ export async function POST(request: NextRequest) {
         rate: Math.max(0.1, Math.min(10, rate)),
         pitch: Math.max(0, Math.min(2, pitch)),
         volume: Math.max(0, Math.min(1, volume)),
-        voiceName
+        voiceName,
+        format
       },
+      segments,
+      // Long text is spoken as a chain of short utterances, a sentence each
+      chunks: format === 'text'
+        ? chunkSpeech(text, Math.max(0.1, Math.min(10, rate))).map(({ start, end }) => ({ start, end }))
+        : undefined,
+      // Scripts are spoken turn by turn, each in its speaker's voice
+      turns: format === 'script'
+        ? parseScript(text).turns.map(({ speaker, start, end }) => ({ speaker, start, end }))
+        : undefined,
       instructions: {
         clientSide: 'Use the Web Speech API in the browser for text-to-speech conversion',
         alternatives: [
@@ -68,14 +103,20 @@ export async function GET() {
       'Client-side Web Speech API integration',
       'Text validation and sanitization',
       'Voice settings normalization',
+      'SSML validation and segmentation',
+      'Dialogue script parsing into speaker turns',
+      'Sentence-aware chunking for long text',
       'Error handling and logging'
     ],
     limits: {
-      maxTextLength: 5000,
+      maxTextLength: MAX_TEXT_LENGTH,
+      speechChunkLength: speechChunkLength(), // at rate 1, in proportion to the rate
+      maxUtteranceSeconds: MAX_UTTERANCE_SECONDS,
       rateRange: [0.1, 10],
       pitchRange: [0, 2],
       volumeRange: [0, 1]
     },
+    inputFormats: INPUT_FORMATS,
     supportedMethods: ['POST'],
     note: 'This endpoint provides configuration and fallback support. Primary TTS functionality uses client-side Web Speech API.'
   });
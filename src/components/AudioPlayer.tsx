@@ -3,19 +3,44 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
 import { Progress } from "@/components/ui/progress";
+import WaveformView from "./WaveformView";
 import { formatTime, estimateDuration } from "@/lib/audio-utils";
+import { StreamPlayerStatus } from "@/lib/stream-player";
+import { formatLoudness, LoudnessMeasurement } from "@/lib/loudness";
+import { Timings } from "@/lib/captions";
 
 interface AudioPlayerProps {
   isPlaying: boolean;
   isPaused: boolean;
   text: string;
   rate: number;
+  // Real playback position reported by the speech manager
+  position?: { elapsed: number; duration: number };
   onPlay: () => void;
   onPause: () => void;
   onStop: () => void;
+  // Jump to a point on the timeline, in seconds
+  onSeek?: (seconds: number) => void;
+  // Skip to the next sentence or back to the previous one
+  onSkip?: (direction: 1 | -1) => void;
   onDownload: () => void;
   isDownloading: boolean;
+  // Server render progress of the download, 0 to 100
+  downloadProgress?: number | null;
+  // What the server measured in the last download
+  loudness?: LoudnessMeasurement | null;
+  // The last download, drawn as a waveform and spectrogram, and when each
+  // word and sentence is heard in it
+  rendered?: { blob: Blob; timings: Timings | null } | null;
+  // Play the server render as it streams in
+  onStream?: () => void;
+  onStopStream?: () => void;
+  streamStatus?: StreamPlayerStatus;
+  // Caption file timed against the downloaded audio
+  onDownloadCaptions?: () => void;
+  isDownloadingCaptions?: boolean;
   disabled?: boolean;
 }
 
@@ -24,52 +49,45 @@ export default function AudioPlayer({
   isPaused,
   text,
   rate,
+  position,
   onPlay,
   onPause,
   onStop,
+  onSeek,
+  onSkip,
   onDownload,
   isDownloading,
+  downloadProgress = null,
+  loudness = null,
+  rendered = null,
+  onStream,
+  onStopStream,
+  streamStatus,
+  onDownloadCaptions,
+  isDownloadingCaptions = false,
   disabled = false
 }: AudioPlayerProps) {
-  const [progress, setProgress] = useState(0);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [estimatedDuration, setEstimatedDuration] = useState(0);
+  // Slider position while the user drags it
+  const [dragTime, setDragTime] = useState<number | null>(null);
 
-  // Estimate and update duration when text or rate changes
+  // Estimate duration when text or rate changes
   useEffect(() => {
-    const estimatedDuration = estimateDuration(text, rate);
-    setDuration(estimatedDuration);
+    setEstimatedDuration(estimateDuration(text, rate));
   }, [text, rate]);
 
-  // Update progress when playing
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | null = null;
-
-    if (isPlaying && !isPaused) {
-      interval = setInterval(() => {
-        setCurrentTime(prev => {
-          const newTime = prev + 0.1;
-          const progressPercentage = duration > 0 ? (newTime / duration) * 100 : 0;
-          setProgress(Math.min(progressPercentage, 100));
-          return newTime;
-        });
-      }, 100);
-    }
+  // While playing, the manager measures elapsed time and refines the duration
+  // as each segment finishes
+  const isActive = isPlaying || isPaused;
+  const playbackTime = isActive && position ? position.elapsed : 0;
+  const duration = isActive && position && position.duration > 0 ? position.duration : estimatedDuration;
+  const currentTime = dragTime ?? Math.min(playbackTime, duration);
+  const canSeek = isActive && !!onSeek && duration > 0;
 
-    return () => {
-      if (interval) {
-        clearInterval(interval);
-      }
-    };
-  }, [isPlaying, isPaused, duration]);
-
-  // Reset progress when stopped
-  useEffect(() => {
-    if (!isPlaying && !isPaused) {
-      setProgress(0);
-      setCurrentTime(0);
-    }
-  }, [isPlaying, isPaused]);
+  const handleSeekCommit = (value: number[]) => {
+    setDragTime(null);
+    onSeek?.(value[0]);
+  };
 
   const handlePlayPause = () => {
     if (isPlaying && !isPaused) {
@@ -93,6 +111,7 @@ export default function AudioPlayer({
   };
 
   const canPlay = text.trim().length > 0 && !disabled;
+  const isStreaming = streamStatus?.state === "connecting" || streamStatus?.state === "playing";
 
   return (
     <Card className="w-full">
@@ -103,11 +122,36 @@ export default function AudioPlayer({
             <span>{formatTime(currentTime)}</span>
             <span>{formatTime(duration)}</span>
           </div>
-          <Progress value={progress} className="w-full h-2" />
+          <Slider
+            aria-label="Playback position"
+            min={0}
+            max={Math.max(duration, 0.1)}
+            step={0.1}
+            value={[currentTime]}
+            onValueChange={(value) => setDragTime(value[0])}
+            onValueCommit={handleSeekCommit}
+            disabled={!canSeek}
+            className="w-full"
+          />
         </div>
 
         {/* Control Buttons */}
-        <div className="flex items-center justify-center space-x-4 mb-4">
+        <div className="flex flex-wrap items-center justify-center gap-4 mb-4">
+          {/* Previous Sentence Button */}
+          {onSkip && (
+            <Button
+              onClick={() => onSkip(-1)}
+              disabled={!isActive}
+              variant="ghost"
+              size="lg"
+              className="px-3 py-3"
+              aria-label="Previous sentence"
+              title="Previous sentence"
+            >
+              ⏮️
+            </Button>
+          )}
+
           {/* Play/Pause Button */}
           <Button
             onClick={handlePlayPause}
@@ -119,6 +163,21 @@ export default function AudioPlayer({
             {getPlayButtonText()}
           </Button>
 
+          {/* Next Sentence Button */}
+          {onSkip && (
+            <Button
+              onClick={() => onSkip(1)}
+              disabled={!isActive}
+              variant="ghost"
+              size="lg"
+              className="px-3 py-3"
+              aria-label="Next sentence"
+              title="Next sentence"
+            >
+              ⏭️
+            </Button>
+          )}
+
           {/* Stop Button */}
           <Button
             onClick={onStop}
@@ -140,8 +199,37 @@ export default function AudioPlayer({
             className="px-6 py-3"
           >
             <span className="mr-2">⬇️</span>
-            {isDownloading ? "Generating..." : "Download"}
+            {isDownloading ? (downloadProgress !== null ? `Generating ${downloadProgress}%` : "Generating...") : "Download"}
           </Button>
+
+          {/* Stream Button */}
+          {onStream && (
+            <Button
+              onClick={isStreaming ? onStopStream : onStream}
+              disabled={!canPlay && !isStreaming}
+              variant="secondary"
+              size="lg"
+              className="px-6 py-3"
+              title="Play the server render while it is still being generated"
+            >
+              <span className="mr-2">{isStreaming ? "⏹️" : "⚡"}</span>
+              {isStreaming ? "Stop stream" : "Stream"}
+            </Button>
+          )}
+
+          {/* Download Captions Button */}
+          {onDownloadCaptions && (
+            <Button
+              onClick={onDownloadCaptions}
+              disabled={!canPlay || isDownloadingCaptions}
+              variant="secondary"
+              size="lg"
+              className="px-6 py-3"
+            >
+              <span className="mr-2">💬</span>
+              {isDownloadingCaptions ? "Generating..." : "Download captions"}
+            </Button>
+          )}
         </div>
 
         {/* Status Display */}
@@ -169,10 +257,39 @@ export default function AudioPlayer({
           {isDownloading && (
             <div className="text-blue-600 font-medium mt-2">
               🔄 Generating audio file...
+              {downloadProgress !== null && (
+                <Progress value={downloadProgress} className="mt-2 max-w-xs mx-auto" />
+              )}
+            </div>
+          )}
+          {streamStatus?.state === "connecting" && (
+            <div className="text-blue-600 font-medium mt-2">
+              ⚡ Connecting to the server...
+            </div>
+          )}
+          {streamStatus?.state === "playing" && (
+            <div className="text-green-600 font-medium mt-2">
+              ⚡ Streaming {formatTime(streamStatus.received)} received
+              {streamStatus.latency !== null && (
+                <span className="text-gray-500 font-normal"> · first audio after {streamStatus.latency} ms</span>
+              )}
+            </div>
+          )}
+          {streamStatus?.state === "error" && (
+            <div className="text-red-600 font-medium mt-2">
+              ❌ Streaming failed: {streamStatus.error}
+            </div>
+          )}
+          {isDownloadingCaptions && (
+            <div className="text-blue-600 font-medium mt-2">
+              🔄 Generating captions...
             </div>
           )}
         </div>
 
+        {/* Waveform of the last download */}
+        {rendered && <WaveformView blob={rendered.blob} timings={rendered.timings} />}
+
         {/* Audio Info */}
         {text.trim().length > 0 && (
           <div className="mt-4 pt-4 border-t border-gray-200">
@@ -189,6 +306,14 @@ export default function AudioPlayer({
                 <span>Estimated Duration:</span>
                 <span className="font-medium">{formatTime(duration)}</span>
               </div>
+              {loudness && (
+                <div className="flex justify-between">
+                  <span>Last Download Loudness:</span>
+                  <span className="font-medium" title={loudness.gain !== 0 ? `Normalized by ${loudness.gain.toFixed(1)} dB` : undefined}>
+                    {formatLoudness(loudness)}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatTime, VoiceSettings } from "@/lib/audio-utils";
+import { ExportOptions, OUTPUT_FORMATS } from "@/lib/audio-formats";
+import { AUDIOBOOK_PACKAGES, AudiobookPackage } from "@/lib/audiobook";
+import { AudiobookChapterState, useAudiobook } from "@/hooks/use-audiobook";
+
+interface AudiobookBuilderProps {
+  settings: VoiceSettings;
+  exportOptions: ExportOptions;
+}
+
+const STATUS_LABELS = {
+  pending: "Waiting",
+  rendering: "Rendering...",
+  done: "Done",
+  failed: "Failed"
+};
+
+function ChapterStatusText({ chapter, renderKey }: { chapter: AudiobookChapterState; renderKey: string }) {
+  if (chapter.status === "failed") {
+    return <span className="text-red-600" title={chapter.error ?? undefined}>❌ {chapter.error ?? STATUS_LABELS.failed}</span>;
+  }
+  if (chapter.status === "done" && chapter.renderKey !== renderKey) {
+    return <span className="text-orange-500">Settings changed</span>;
+  }
+  if (chapter.status === "done") {
+    return <span className="text-green-700">✅ {chapter.duration !== null ? formatTime(chapter.duration) : STATUS_LABELS.done}</span>;
+  }
+  if (chapter.status === "rendering") {
+    return <span className="text-blue-600 animate-pulse">{STATUS_LABELS.rendering}</span>;
+  }
+  return <span className="text-gray-500">{STATUS_LABELS.pending}</span>;
+}
+
+export default function AudiobookBuilder({ settings, exportOptions }: AudiobookBuilderProps) {
+  const audiobook = useAudiobook(settings, exportOptions);
+  const { book, chapters, progress, isRendering, isPackaging, isComplete, renderKey } = audiobook;
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const hasFailed = chapters.some((chapter) => chapter.included && chapter.status === "failed");
+  const hasStarted = chapters.some((chapter) => chapter.status !== "pending");
+  const chapterFormat = audiobook.packageFormat === "mp3" ? "MP3" : OUTPUT_FORMATS[exportOptions.outputFormat].label;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Audiobook</CardTitle>
+          <div className="flex gap-2">
+            {book && (
+              <Button variant="ghost" size="sm" onClick={audiobook.close} disabled={isPackaging}>
+                Close
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isRendering || isPackaging}>
+              📖 {book ? "Choose Another EPUB" : "Choose EPUB"}
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".epub,application/epub+zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) audiobook.load(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {audiobook.error && <p className="text-sm text-red-600">{audiobook.error}</p>}
+
+        {!book ? (
+          <p className="text-sm text-gray-500">
+            Turn an EPUB into an audiobook with the current voice settings. Each chapter is rendered on the server
+            and can be retried on its own if it fails.
+          </p>
+        ) : (
+          <>
+            <div>
+              <p className="font-medium">{book.title}</p>
+              {book.author && <p className="text-sm text-gray-600">{book.author}</p>}
+            </div>
+
+            {/* Package */}
+            <div className="space-y-2">
+              <Label htmlFor="audiobook-package-select">Package</Label>
+              <Select
+                value={audiobook.packageFormat}
+                onValueChange={(value) => audiobook.setPackageFormat(value as AudiobookPackage)}
+                disabled={isRendering || isPackaging}
+              >
+                <SelectTrigger id="audiobook-package-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AUDIOBOOK_PACKAGES).map(([value, info]) => (
+                    <SelectItem key={value} value={value}>
+                      {info.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {AUDIOBOOK_PACKAGES[audiobook.packageFormat].description}. Chapters are rendered as {chapterFormat}.
+              </p>
+            </div>
+
+            {/* Progress */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>{progress.done} of {progress.total} chapters rendered</span>
+                {progress.total > 0 && <span>{Math.round((progress.done / progress.total) * 100)}%</span>}
+              </div>
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+            </div>
+
+            {/* Chapters */}
+            <ol className="max-h-80 overflow-y-auto divide-y rounded-md border">
+              {chapters.map((chapter, index) => (
+                <li key={index} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <Checkbox
+                    id={`audiobook-chapter-${index}`}
+                    checked={chapter.included}
+                    onCheckedChange={(checked) => audiobook.toggle(index, checked === true)}
+                    disabled={isRendering}
+                    aria-label={`Include ${chapter.title}`}
+                  />
+                  <label htmlFor={`audiobook-chapter-${index}`} className="flex-1 truncate">
+                    {chapter.title}
+                  </label>
+                  <span className="shrink-0 text-xs text-gray-500">
+                    {chapter.text.split(/\s+/).filter(Boolean).length.toLocaleString()} words
+                  </span>
+                  <span className="shrink-0 w-32 text-right text-xs truncate">
+                    <ChapterStatusText chapter={chapter} renderKey={renderKey} />
+                  </span>
+                </li>
+              ))}
+            </ol>
+
+            {/* Actions */}
+            <div className="flex flex-wrap gap-2">
+              {isRendering ? (
+                <Button variant="outline" onClick={audiobook.cancel}>
+                  Stop
+                </Button>
+              ) : (
+                <Button onClick={audiobook.render} disabled={isPackaging || isComplete || progress.total === 0}>
+                  {hasFailed ? "Retry Failed Chapters" : hasStarted ? "Resume Rendering" : "Render Chapters"}
+                </Button>
+              )}
+              <Button variant="outline" onClick={audiobook.download} disabled={!isComplete || isRendering || isPackaging}>
+                {isPackaging ? "Packaging..." : `⬇️ Download ${audiobook.packageFormat.toUpperCase()}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CAPTION_DURATION_RANGE,
+  CAPTION_FORMATS,
+  CAPTION_LINE_LENGTH_RANGE,
+  CAPTION_LINES_RANGE,
+  CaptionFormat,
+  CaptionOptions
+} from "@/lib/captions";
+
+interface CaptionSettingsProps {
+  format: CaptionFormat;
+  options: CaptionOptions;
+  onFormatChange: (format: CaptionFormat) => void;
+  onOptionsChange: (options: CaptionOptions) => void;
+  disabled?: boolean;
+}
+
+export default function CaptionSettings({ format, options, onFormatChange, onOptionsChange, disabled = false }: CaptionSettingsProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Captions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Format */}
+        <div className="space-y-2">
+          <Label htmlFor="caption-format-select">Format</Label>
+          <Select value={format} onValueChange={(value) => onFormatChange(value as CaptionFormat)} disabled={disabled}>
+            <SelectTrigger id="caption-format-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CAPTION_FORMATS).map(([value, info]) => (
+                <SelectItem key={value} value={value}>
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Line Length */}
+        <div className="space-y-3">
+          <div className="flex justify-between">
+            <Label htmlFor="caption-line-length-slider">Max Line Length</Label>
+            <span className="text-sm text-gray-600">{options.maxLineLength} characters</span>
+          </div>
+          <Slider
+            id="caption-line-length-slider"
+            min={CAPTION_LINE_LENGTH_RANGE[0]}
+            max={CAPTION_LINE_LENGTH_RANGE[1]}
+            step={1}
+            value={[options.maxLineLength]}
+            onValueChange={(value) => onOptionsChange({ ...options, maxLineLength: value[0] })}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+
+        {/* Lines per Cue */}
+        <div className="space-y-3">
+          <div className="flex justify-between">
+            <Label htmlFor="caption-lines-slider">Lines per Caption</Label>
+            <span className="text-sm text-gray-600">{options.maxLines}</span>
+          </div>
+          <Slider
+            id="caption-lines-slider"
+            min={CAPTION_LINES_RANGE[0]}
+            max={CAPTION_LINES_RANGE[1]}
+            step={1}
+            value={[options.maxLines]}
+            onValueChange={(value) => onOptionsChange({ ...options, maxLines: value[0] })}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+
+        {/* Cue Duration */}
+        <div className="space-y-3">
+          <div className="flex justify-between">
+            <Label htmlFor="caption-duration-slider">Max Caption Duration</Label>
+            <span className="text-sm text-gray-600">{options.maxCueDuration.toFixed(1)}s</span>
+          </div>
+          <Slider
+            id="caption-duration-slider"
+            min={CAPTION_DURATION_RANGE[0]}
+            max={CAPTION_DURATION_RANGE[1]}
+            step={0.5}
+            value={[options.maxCueDuration]}
+            onValueChange={(value) => onOptionsChange({ ...options, maxCueDuration: value[0] })}
+            disabled={disabled}
+            className="w-full"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { DragEvent, ReactNode, useRef, useState } from "react";
+import { DOCUMENT_ACCEPT } from "@/lib/document-import";
+
+interface DocumentDropZoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+const hasFiles = (event: DragEvent) => Array.from(event.dataTransfer.types).includes("Files");
+
+// Accepts a document dropped anywhere over its children
+export default function DocumentDropZone({ onFile, disabled = false, children }: DocumentDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // Entering a child fires dragenter before the parent's dragleave
+  const depth = useRef(0);
+
+  const handleDragEnter = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    depth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = () => {
+    depth.current = Math.max(0, depth.current - 1);
+    if (depth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    depth.current = 0;
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed border-blue-500 bg-blue-50/90 pointer-events-none">
+          <span className="text-lg font-medium text-blue-700">📄 Drop a document to import it</span>
+          <span className="text-xs text-blue-600">{DOCUMENT_ACCEPT.replace(/,/g, " ")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { requestServerAudio, VoiceSettings as VoiceSettingsType } from "@/lib/audio-utils";
+import {
+  AudioEffect,
+  defaultEffect,
+  describeEffect,
+  EFFECT_CHAIN_PRESETS,
+  EFFECT_TYPES,
+  effectParameters,
+  EffectParameter,
+  EFFECTS,
+  EffectType,
+  EqBand,
+  EqBandShape,
+  EQ_BAND_PARAMETERS,
+  EQ_BAND_SHAPES,
+  MAX_EFFECTS,
+  MAX_EQ_BANDS,
+  REVERB_ROOMS,
+  ReverbRoom
+} from "@/lib/audio-effects";
+
+interface EffectsPanelProps {
+  effects: AudioEffect[];
+  onEffectsChange: (effects: AudioEffect[]) => void;
+  settings: VoiceSettingsType;
+  text: string; // the start of it is used for previews
+  disabled?: boolean;
+}
+
+// Long enough to hear the effects, short enough to render in a moment
+const PREVIEW_LENGTH = 200;
+const PREVIEW_FALLBACK = "She sells sea shells by the sea shore, and the shells she sells are surely seashells.";
+
+const EQ_BAND_SHAPE_LABELS: Record<EqBandShape, string> = {
+  peak: "Peak",
+  lowshelf: "Low shelf",
+  highshelf: "High shelf"
+};
+
+// The first sentences of the text, up to the preview length
+function previewText(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return PREVIEW_FALLBACK;
+  if (trimmed.length <= PREVIEW_LENGTH) return trimmed;
+  const slice = trimmed.slice(0, PREVIEW_LENGTH);
+  const end = Math.max(slice.lastIndexOf(". "), slice.lastIndexOf("! "), slice.lastIndexOf("? "));
+  return end > 0 ? slice.slice(0, end + 1) : slice;
+}
+
+interface ParameterSliderProps {
+  id: string;
+  parameter: EffectParameter;
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+}
+
+function ParameterSlider({ id, parameter, value, onChange, disabled }: ParameterSliderProps) {
+  const display = parameter.unit ? `${value} ${parameter.unit}`.replace(" :", ":") : `${Math.round(value * 100)}%`;
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between">
+        <Label htmlFor={id} className="text-xs">{parameter.label}</Label>
+        <span className="text-xs text-gray-600">{display}</span>
+      </div>
+      <Slider
+        id={id}
+        min={parameter.range[0]}
+        max={parameter.range[1]}
+        step={parameter.step}
+        value={[value]}
+        onValueChange={(next) => onChange(next[0])}
+        disabled={disabled}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+export default function EffectsPanel({ effects, onEffectsChange, settings, text, disabled = false }: EffectsPanelProps) {
+  const [previewing, setPreviewing] = useState<"wet" | "dry" | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const stopPreview = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const handlePreview = async (mode: "wet" | "dry") => {
+    stopPreview();
+    setPreviewing(mode);
+    setPreviewError(null);
+    try {
+      const blob = await requestServerAudio(previewText(text), settings, "text", {
+        outputFormat: "wav",
+        effects: mode === "wet" ? effects : []
+      });
+      const url = URL.createObjectURL(blob);
+      urlRef.current = url;
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      await audio.play();
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : "Preview failed");
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const update = (index: number, changes: Partial<Record<string, unknown>>) => {
+    onEffectsChange(effects.map((effect, i) => (i === index ? ({ ...effect, ...changes } as AudioEffect) : effect)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onEffectsChange(next);
+  };
+
+  const updateBand = (index: number, bands: EqBand[], bandIndex: number, changes: Partial<EqBand>) => {
+    update(index, { bands: bands.map((band, i) => (i === bandIndex ? { ...band, ...changes } : band)) });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Effects</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Chain presets */}
+        <div className="space-y-2">
+          <Label htmlFor="effects-preset-select">Chain</Label>
+          <Select
+            value=""
+            onValueChange={(value) => onEffectsChange(EFFECT_CHAIN_PRESETS[value].effects)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="effects-preset-select">
+              <SelectValue placeholder="Load a preset chain..." />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EFFECT_CHAIN_PRESETS).map(([name, preset]) => (
+                <SelectItem key={name} value={name}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {effects.length === 0
+              ? "No effects: downloads are the renderer's own output."
+              : "Effects run top to bottom on downloads, jobs and streams, before loudness normalization."}
+          </p>
+        </div>
+
+        {/* The chain */}
+        {effects.map((effect, index) => (
+          <div key={index} className="space-y-3 rounded-md border p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{index + 1}. {EFFECTS[effect.type].label}</p>
+                <p className="text-xs text-gray-500">{describeEffect(effect)}</p>
+              </div>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move ${EFFECTS[effect.type].label} up`}
+                >
+                  ↑
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === effects.length - 1}
+                  aria-label={`Move ${EFFECTS[effect.type].label} down`}
+                >
+                  ↓
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  onClick={() => onEffectsChange(effects.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  aria-label={`Remove ${EFFECTS[effect.type].label}`}
+                >
+                  ×
+                </Button>
+              </div>
+            </div>
+
+            {effectParameters(effect).map(({ name, parameter, value }) => (
+              <ParameterSlider
+                key={name}
+                id={`effect-${index}-${name}`}
+                parameter={parameter}
+                value={value}
+                onChange={(changed) => update(index, { [name]: changed })}
+                disabled={disabled}
+              />
+            ))}
+
+            {effect.type === "reverb" && (
+              <div className="space-y-2">
+                <Label htmlFor={`effect-${index}-room`} className="text-xs">Room</Label>
+                <Select
+                  value={effect.room}
+                  onValueChange={(value) => update(index, { room: value as ReverbRoom })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id={`effect-${index}-room`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REVERB_ROOMS).map(([room, info]) => (
+                      <SelectItem key={room} value={room}>
+                        {info.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {effect.type === "eq" && (
+              <>
+                {effect.bands.map((band, bandIndex) => (
+                  <div key={bandIndex} className="space-y-2 border-t pt-2">
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={band.shape}
+                        onValueChange={(value) => updateBand(index, effect.bands, bandIndex, { shape: value as EqBandShape })}
+                        disabled={disabled}
+                      >
+                        <SelectTrigger aria-label={`Band ${bandIndex + 1} shape`} className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EQ_BAND_SHAPES.map((shape) => (
+                            <SelectItem key={shape} value={shape}>
+                              {EQ_BAND_SHAPE_LABELS[shape]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="px-2"
+                        onClick={() => update(index, { bands: effect.bands.filter((_, i) => i !== bandIndex) })}
+                        disabled={disabled}
+                        aria-label={`Remove band ${bandIndex + 1}`}
+                      >
+                        ×
+                      </Button>
+                    </div>
+                    {(Object.keys(EQ_BAND_PARAMETERS) as (keyof typeof EQ_BAND_PARAMETERS)[]).map((name) => (
+                      <ParameterSlider
+                        key={name}
+                        id={`effect-${index}-band-${bandIndex}-${name}`}
+                        parameter={EQ_BAND_PARAMETERS[name]}
+                        value={band[name]}
+                        onChange={(value) => updateBand(index, effect.bands, bandIndex, { [name]: value })}
+                        disabled={disabled}
+                      />
+                    ))}
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update(index, { bands: [...effect.bands, { shape: "peak", frequency: 1000, gain: 0, q: 1 }] })}
+                  disabled={disabled || effect.bands.length >= MAX_EQ_BANDS}
+                >
+                  Add band
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+
+        {/* Add */}
+        <div className="flex gap-2">
+          <Select
+            value=""
+            onValueChange={(value) => onEffectsChange([...effects, defaultEffect(value as EffectType)])}
+            disabled={disabled || effects.length >= MAX_EFFECTS}
+          >
+            <SelectTrigger aria-label="Add an effect">
+              <SelectValue placeholder="Add an effect..." />
+            </SelectTrigger>
+            <SelectContent>
+              {EFFECT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {EFFECTS[type].label}: {EFFECTS[type].description.toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => onEffectsChange([])} disabled={disabled || effects.length === 0}>
+            Clear
+          </Button>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => handlePreview("wet")}
+              disabled={previewing !== null || effects.length === 0}
+            >
+              {previewing === "wet" ? "Rendering..." : "🎧 Preview"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handlePreview("dry")}
+              disabled={previewing !== null}
+              title="The same preview without effects, to compare"
+            >
+              {previewing === "dry" ? "Rendering..." : "Dry"}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">Renders the first sentences of your text on the server.</p>
+          {previewError && <p className="text-xs text-red-600">{previewError}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_FLAC_COMPRESSION_LEVEL,
+  DEFAULT_OPUS_COMPLEXITY,
+  DEFAULT_WAV_BIT_DEPTH,
+  DEFAULT_WAV_SAMPLE_RATE,
+  defaultBitrate,
+  ExportOptions,
+  FLAC_COMPRESSION_LEVELS,
+  isOutputFormat,
+  Mp3BitrateMode,
+  MP3_BITRATES,
+  OPUS_BITRATE_RANGE,
+  OPUS_COMPLEXITY_RANGE,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  TELEPHONY_SAMPLE_RATE,
+  WAV_SAMPLE_RATES,
+  WavBitDepth,
+  WavEncoding
+} from "@/lib/audio-formats";
+import {
+  DEFAULT_TRUE_PEAK,
+  LOUDNESS_PRESETS,
+  LOUDNESS_TARGET_RANGE,
+  loudnessPreset,
+  LoudnessPresetName,
+  TRUE_PEAK_RANGE
+} from "@/lib/loudness";
+
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  disabled?: boolean;
+}
+
+export default function ExportSettings({ options, onOptionsChange, disabled = false }: ExportSettingsProps) {
+  const { outputFormat } = options;
+  const bitrate = options.bitrate ?? defaultBitrate(outputFormat);
+
+  const handleFormatChange = (value: string) => {
+    if (!isOutputFormat(value)) return;
+    // Bitrates mean different things per codec, so switching starts from the new default
+    onOptionsChange({ ...options, outputFormat: value as OutputFormat, bitrate: defaultBitrate(value) });
+  };
+
+  const handleEncodingChange = (value: string) => {
+    const encoding = value as WavEncoding;
+    // G.711 is nearly always played back by telephone systems at 8 kHz
+    const sampleRate = encoding === "pcm" ? options.sampleRate : TELEPHONY_SAMPLE_RATE;
+    onOptionsChange({ ...options, encoding, sampleRate });
+  };
+
+  const preset = loudnessPreset(options.loudnessTarget, options.truePeak);
+
+  const handleLoudnessChange = (value: string) => {
+    if (value === "off") {
+      onOptionsChange({ ...options, loudnessTarget: undefined, truePeak: undefined });
+    } else if (value === "custom") {
+      onOptionsChange({
+        ...options,
+        loudnessTarget: options.loudnessTarget ?? LOUDNESS_PRESETS.podcast.target,
+        truePeak: options.truePeak ?? DEFAULT_TRUE_PEAK
+      });
+    } else {
+      const { target, truePeak } = LOUDNESS_PRESETS[value as LoudnessPresetName];
+      onOptionsChange({ ...options, loudnessTarget: target, truePeak });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Download Format</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Format */}
+        <div className="space-y-2">
+          <Label htmlFor="format-select">Format</Label>
+          <Select value={outputFormat} onValueChange={handleFormatChange} disabled={disabled}>
+            <SelectTrigger id="format-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(OUTPUT_FORMATS).map(([format, info]) => (
+                <SelectItem key={format} value={format}>
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* WAV */}
+        {outputFormat === "wav" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="wav-encoding-select">Encoding</Label>
+              <Select value={options.encoding ?? "pcm"} onValueChange={handleEncodingChange} disabled={disabled}>
+                <SelectTrigger id="wav-encoding-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pcm">PCM</SelectItem>
+                  <SelectItem value="mulaw">μ-law (telephony)</SelectItem>
+                  <SelectItem value="alaw">A-law (telephony)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {(options.encoding ?? "pcm") === "pcm" && (
+              <div className="space-y-2">
+                <Label htmlFor="wav-bit-depth-select">Bit Depth</Label>
+                <Select
+                  value={String(options.bitDepth ?? DEFAULT_WAV_BIT_DEPTH)}
+                  onValueChange={(value) => onOptionsChange({ ...options, bitDepth: Number(value) as WavBitDepth })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="wav-bit-depth-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="16">16-bit</SelectItem>
+                    <SelectItem value="24">24-bit</SelectItem>
+                    <SelectItem value="32">32-bit float</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="wav-sample-rate-select">Sample Rate</Label>
+              <Select
+                value={String(options.sampleRate ?? DEFAULT_WAV_SAMPLE_RATE)}
+                onValueChange={(value) => onOptionsChange({ ...options, sampleRate: Number(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="wav-sample-rate-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WAV_SAMPLE_RATES.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {rate / 1000} kHz
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wav-channels-select">Channels</Label>
+              <Select
+                value={String(options.channels ?? 1)}
+                onValueChange={(value) => onOptionsChange({ ...options, channels: Number(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="wav-channels-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Mono</SelectItem>
+                  <SelectItem value="2">Stereo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {/* MP3 */}
+        {outputFormat === "mp3" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="mp3-bitrate-select">Bitrate</Label>
+              <Select
+                value={String(bitrate)}
+                onValueChange={(value) => onOptionsChange({ ...options, bitrate: Number(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="mp3-bitrate-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MP3_BITRATES.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value} kbps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mp3-mode-select">Bitrate Mode</Label>
+              <Select
+                value={options.bitrateMode ?? "cbr"}
+                onValueChange={(value) => onOptionsChange({ ...options, bitrateMode: value as Mp3BitrateMode })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="mp3-mode-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cbr">Constant (CBR)</SelectItem>
+                  <SelectItem value="vbr">Variable (VBR)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {/* Opus */}
+        {outputFormat === "opus" && (
+          <>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor="opus-bitrate-slider">Bitrate</Label>
+                <span className="text-sm text-gray-600">{bitrate} kbps</span>
+              </div>
+              <Slider
+                id="opus-bitrate-slider"
+                min={OPUS_BITRATE_RANGE[0]}
+                max={OPUS_BITRATE_RANGE[1]}
+                step={2}
+                value={[bitrate ?? OPUS_BITRATE_RANGE[0]]}
+                onValueChange={(value) => onOptionsChange({ ...options, bitrate: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor="opus-complexity-slider">Complexity</Label>
+                <span className="text-sm text-gray-600">{options.complexity ?? DEFAULT_OPUS_COMPLEXITY}</span>
+              </div>
+              <Slider
+                id="opus-complexity-slider"
+                min={OPUS_COMPLEXITY_RANGE[0]}
+                max={OPUS_COMPLEXITY_RANGE[1]}
+                step={1}
+                value={[options.complexity ?? DEFAULT_OPUS_COMPLEXITY]}
+                onValueChange={(value) => onOptionsChange({ ...options, complexity: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Faster</span>
+                <span>Better</span>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* FLAC */}
+        {outputFormat === "flac" && (
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label htmlFor="flac-level-slider">Compression Level</Label>
+              <span className="text-sm text-gray-600">{options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL}</span>
+            </div>
+            <Slider
+              id="flac-level-slider"
+              min={FLAC_COMPRESSION_LEVELS[0]}
+              max={FLAC_COMPRESSION_LEVELS[FLAC_COMPRESSION_LEVELS.length - 1]}
+              step={1}
+              value={[options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL]}
+              onValueChange={(value) => onOptionsChange({ ...options, compressionLevel: value[0] })}
+              disabled={disabled}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Faster</span>
+              <span>Smaller</span>
+            </div>
+          </div>
+        )}
+
+        {/* Loudness */}
+        <div className="space-y-2 pt-2 border-t">
+          <Label htmlFor="loudness-select">Loudness</Label>
+          <Select value={preset} onValueChange={handleLoudnessChange} disabled={disabled}>
+            <SelectTrigger id="loudness-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">As rendered</SelectItem>
+              {Object.entries(LOUDNESS_PRESETS).map(([name, info]) => (
+                <SelectItem key={name} value={name}>
+                  {info.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {preset === "off"
+              ? "The level is measured but left as the renderer made it."
+              : preset === "custom"
+                ? "Normalized to your own target."
+                : `${LOUDNESS_PRESETS[preset].description}: ${LOUDNESS_PRESETS[preset].target} LUFS, peaks at most ${LOUDNESS_PRESETS[preset].truePeak} dBTP.`}
+          </p>
+        </div>
+        {preset === "custom" && (
+          <>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor="loudness-target-slider">Target</Label>
+                <span className="text-sm text-gray-600">{options.loudnessTarget} LUFS</span>
+              </div>
+              <Slider
+                id="loudness-target-slider"
+                min={LOUDNESS_TARGET_RANGE[0]}
+                max={LOUDNESS_TARGET_RANGE[1]}
+                step={1}
+                value={[options.loudnessTarget ?? LOUDNESS_PRESETS.podcast.target]}
+                onValueChange={(value) => onOptionsChange({ ...options, loudnessTarget: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor="true-peak-slider">True Peak Ceiling</Label>
+                <span className="text-sm text-gray-600">{options.truePeak ?? DEFAULT_TRUE_PEAK} dBTP</span>
+              </div>
+              <Slider
+                id="true-peak-slider"
+                min={TRUE_PEAK_RANGE[0]}
+                max={TRUE_PEAK_RANGE[1]}
+                step={0.5}
+                value={[options.truePeak ?? DEFAULT_TRUE_PEAK]}
+                onValueChange={(value) => onOptionsChange({ ...options, truePeak: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { MouseEvent, useEffect, useRef } from "react";
+import { TextRange } from "@/lib/text-chunker";
+import { cn } from "@/lib/utils";
+
+interface HighlightedTextProps {
+  text: string;
+  word: TextRange | null;
+  className?: string;
+  // Called with the character offset of a clicked word
+  onWordClick?: (offset: number) => void;
+}
+
+// Character offset under the pointer, counted from the start of container
+function offsetFromPoint(container: HTMLElement, x: number, y: number): number | null {
+  let node: Node | null = null;
+  let nodeOffset = 0;
+
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    if (position) {
+      node = position.offsetNode;
+      nodeOffset = position.offset;
+    }
+  } else if (document.caretRangeFromPoint) {
+    const range = document.caretRangeFromPoint(x, y);
+    if (range) {
+      node = range.startContainer;
+      nodeOffset = range.startOffset;
+    }
+  }
+  if (!node || !container.contains(node)) return null;
+
+  const before = document.createRange();
+  before.setStart(container, 0);
+  before.setEnd(node, nodeOffset);
+  return before.toString().length;
+}
+
+// Read-only view of the input text that marks the word being spoken
+export default function HighlightedText({ text, word, className, onWordClick }: HighlightedTextProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: "nearest" });
+  }, [word?.start]);
+
+  const range = word && word.end > word.start && word.end <= text.length ? word : null;
+
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onWordClick || !containerRef.current) return;
+    // Leave text selections alone
+    if (window.getSelection()?.toString()) return;
+    const offset = offsetFromPoint(containerRef.current, event.clientX, event.clientY);
+    if (offset !== null && /\S/.test(text[offset] || "")) onWordClick(offset);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      aria-live="off"
+      onClick={handleClick}
+      title={onWordClick ? "Click a word to play from there" : undefined}
+      className={cn(
+        onWordClick && "cursor-pointer",
+        "border-input dark:bg-input/30 w-full overflow-y-auto rounded-md border bg-transparent px-3 py-2 text-base shadow-xs whitespace-pre-wrap break-words md:text-sm",
+        className
+      )}
+    >
+      {range ? (
+        <>
+          {text.slice(0, range.start)}
+          <mark ref={markRef} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">
+            {text.slice(range.start, range.end)}
+          </mark>
+          {text.slice(range.end)}
+        </>
+      ) : (
+        text
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MAX_METADATA_FIELD_LENGTH, MetadataInput } from "@/lib/audio-metadata";
+
+interface MetadataSettingsProps {
+  metadata: MetadataInput;
+  onMetadataChange: (metadata: MetadataInput) => void;
+  disabled?: boolean;
+}
+
+const TEXT_FIELDS: { field: "title" | "author" | "album" | "comment"; label: string; placeholder: string }[] = [
+  { field: "title", label: "Title", placeholder: "Chapter 1" },
+  { field: "author", label: "Author", placeholder: "Your name" },
+  { field: "album", label: "Album / Project", placeholder: "Project name" },
+  { field: "comment", label: "Comment", placeholder: "Notes about this file" }
+];
+
+export default function MetadataSettings({ metadata, onMetadataChange, disabled = false }: MetadataSettingsProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">File Details</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`metadata-${field}`}>{label}</Label>
+            <Input
+              id={`metadata-${field}`}
+              value={metadata[field] ?? ""}
+              placeholder={placeholder}
+              maxLength={MAX_METADATA_FIELD_LENGTH}
+              onChange={(e) => onMetadataChange({ ...metadata, [field]: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+
+        {/* Source text */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metadata-source-text" className="text-sm">Embed full source text</Label>
+          <Switch
+            id="metadata-source-text"
+            checked={metadata.includeSourceText ?? false}
+            onCheckedChange={(checked) => onMetadataChange({ ...metadata, includeSourceText: checked })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Language, voice, settings, the time of generation and a hash of the text are always included.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { encodeMusicBedFile } from "@/lib/audio-utils";
+import {
+  DEFAULT_MUSIC_BED,
+  MAX_MUSIC_BED_SECONDS,
+  missingBedAudio,
+  MUSIC_BED_LEVELS,
+  MUSIC_BEDS,
+  MusicBedInput,
+  MusicBedLevel,
+  MusicBedName
+} from "@/lib/music-bed";
+
+interface MusicBedSettingsProps {
+  music?: MusicBedInput;
+  onMusicChange: (music: MusicBedInput | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function MusicBedSettings({ music, onMusicChange, disabled = false }: MusicBedSettingsProps) {
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleBedChange = (value: string) => {
+    setUploadError(null);
+    if (value === "none") {
+      onMusicChange(undefined);
+    } else if (value === "upload") {
+      fileInput.current?.click();
+    } else {
+      // Levels carry over from bed to bed; the upload stays behind
+      onMusicChange({ ...DEFAULT_MUSIC_BED, ...music, bed: value as MusicBedName, data: undefined, fileName: undefined });
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setIsDecoding(true);
+    setUploadError(null);
+    try {
+      const data = await encodeMusicBedFile(file);
+      onMusicChange({ ...DEFAULT_MUSIC_BED, ...music, bed: "upload", data, fileName: file.name });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Failed to read the music file");
+    } finally {
+      setIsDecoding(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const missingUpload = missingBedAudio(music);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Music Bed</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Bed */}
+        <div className="space-y-2">
+          <Label htmlFor="music-bed-select">Music</Label>
+          <Select value={music?.bed ?? "none"} onValueChange={handleBedChange} disabled={disabled || isDecoding}>
+            <SelectTrigger id="music-bed-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {Object.entries(MUSIC_BEDS).map(([name, info]) => (
+                <SelectItem key={name} value={name}>
+                  {info.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="upload">{music?.fileName ? `🎵 ${music.fileName}` : "Upload a file..."}</SelectItem>
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".wav,.mp3,audio/wav,audio/mpeg"
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files?.[0])}
+          />
+          <p className="text-xs text-gray-500">
+            {isDecoding
+              ? "Decoding..."
+              : music === undefined
+                ? "Downloads are the voice alone. Streams never carry music."
+                : music.bed === "upload"
+                  ? `WAV or MP3, looped to the length of the speech; only the first ${MAX_MUSIC_BED_SECONDS / 60} minutes are used.`
+                  : `${MUSIC_BEDS[music.bed].description}, generated to the length of the speech.`}
+          </p>
+          {missingUpload && (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-amber-600">Uploaded files are not saved with projects. Choose {music?.fileName ?? "the file"} again.</p>
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={disabled}>
+                Choose
+              </Button>
+            </div>
+          )}
+          {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
+        </div>
+
+        {/* Levels */}
+        {music &&
+          (Object.keys(MUSIC_BED_LEVELS) as MusicBedLevel[]).map((name) => {
+            const level = MUSIC_BED_LEVELS[name];
+            return (
+              <div key={name} className="space-y-3">
+                <div className="flex justify-between">
+                  <Label htmlFor={`music-${name}-slider`}>{level.label}</Label>
+                  <span className="text-sm text-gray-600">
+                    {name === "ducking" ? `-${music[name]}` : music[name]} {level.unit}
+                  </span>
+                </div>
+                <Slider
+                  id={`music-${name}-slider`}
+                  min={level.range[0]}
+                  max={level.range[1]}
+                  step={level.step}
+                  value={[music[name]]}
+                  onValueChange={(value) => onMusicChange({ ...music, [name]: value[0] })}
+                  disabled={disabled}
+                  className="w-full"
+                />
+              </div>
+            );
+          })}
+      </CardContent>
+    </Card>
+  );
+}
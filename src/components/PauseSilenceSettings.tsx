@@ -0,0 +1,194 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_PAUSES,
+  DEFAULT_SILENCE,
+  MAX_SILENCE_RANGE,
+  PAUSE_RANGES,
+  PauseSettings,
+  SILENCE_PADDING_RANGE,
+  SILENCE_THRESHOLD_RANGE,
+  SilenceSettings
+} from "@/lib/silence";
+
+interface PauseSilenceSettingsProps {
+  pauses?: PauseSettings;
+  silence?: SilenceSettings;
+  onPausesChange: (pauses: PauseSettings | undefined) => void;
+  onSilenceChange: (silence: SilenceSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+const PAUSE_LABELS: Record<keyof PauseSettings, string> = {
+  comma: "After Commas",
+  sentence: "After Sentences",
+  paragraph: "After Paragraphs"
+};
+
+// A capped silence starts at one second, the longest pause worth keeping in
+// most narration
+const DEFAULT_MAX_SILENCE = 1;
+
+export default function PauseSilenceSettings({
+  pauses,
+  silence,
+  onPausesChange,
+  onSilenceChange,
+  disabled = false
+}: PauseSilenceSettingsProps) {
+  const current = silence ?? DEFAULT_SILENCE;
+
+  // Back to undefined once nothing is trimmed, so requests stay as they were
+  const updateSilence = (changes: Partial<SilenceSettings>) => {
+    const next = { ...current, ...changes };
+    onSilenceChange(next.trimStart || next.trimEnd || next.maxSilence !== null ? next : undefined);
+  };
+
+  const trimming = current.trimStart || current.trimEnd;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Pauses &amp; Silence</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Pauses */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pauses-custom" className="text-sm">Custom pause lengths</Label>
+            <Switch
+              id="pauses-custom"
+              checked={pauses !== undefined}
+              onCheckedChange={(checked) => onPausesChange(checked ? DEFAULT_PAUSES : undefined)}
+              disabled={disabled}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            {pauses
+              ? "Playback speaks each clause separately with these gaps between; downloads pause for the same time."
+              : "The voice pauses as it sees fit."}
+          </p>
+        </div>
+
+        {pauses &&
+          (Object.keys(PAUSE_LABELS) as (keyof PauseSettings)[]).map((name) => (
+            <div key={name} className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor={`pause-${name}-slider`}>{PAUSE_LABELS[name]}</Label>
+                <span className="text-sm text-gray-600">{pauses[name].toFixed(2)} s</span>
+              </div>
+              <Slider
+                id={`pause-${name}-slider`}
+                min={PAUSE_RANGES[name][0]}
+                max={PAUSE_RANGES[name][1]}
+                step={0.05}
+                value={[pauses[name]]}
+                onValueChange={(value) => onPausesChange({ ...pauses, [name]: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </div>
+          ))}
+
+        {/* Trimming */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="silence-trim-start" className="text-sm">Trim silence at the start</Label>
+            <Switch
+              id="silence-trim-start"
+              checked={current.trimStart}
+              onCheckedChange={(checked) => updateSilence({ trimStart: checked })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="silence-trim-end" className="text-sm">Trim silence at the end</Label>
+            <Switch
+              id="silence-trim-end"
+              checked={current.trimEnd}
+              onCheckedChange={(checked) => updateSilence({ trimEnd: checked })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        {trimming && (
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label htmlFor="silence-padding-slider">Padding</Label>
+              <span className="text-sm text-gray-600">{current.padding.toFixed(2)} s</span>
+            </div>
+            <Slider
+              id="silence-padding-slider"
+              min={SILENCE_PADDING_RANGE[0]}
+              max={SILENCE_PADDING_RANGE[1]}
+              step={0.01}
+              value={[current.padding]}
+              onValueChange={(value) => updateSilence({ padding: value[0] })}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        {/* Longest silence */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="silence-cap" className="text-sm">Cap long silences</Label>
+            <Switch
+              id="silence-cap"
+              checked={current.maxSilence !== null}
+              onCheckedChange={(checked) => updateSilence({ maxSilence: checked ? DEFAULT_MAX_SILENCE : null })}
+              disabled={disabled}
+            />
+          </div>
+          {current.maxSilence !== null && (
+            <>
+              <div className="flex justify-between">
+                <Label htmlFor="silence-max-slider">Longest Silence</Label>
+                <span className="text-sm text-gray-600">{current.maxSilence.toFixed(1)} s</span>
+              </div>
+              <Slider
+                id="silence-max-slider"
+                min={MAX_SILENCE_RANGE[0]}
+                max={MAX_SILENCE_RANGE[1]}
+                step={0.1}
+                value={[current.maxSilence]}
+                onValueChange={(value) => updateSilence({ maxSilence: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </>
+          )}
+          <p className="text-xs text-gray-500">
+            Also shortens SSML breaks, pauses and gaps between speakers during playback.
+          </p>
+        </div>
+
+        {silence && (
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label htmlFor="silence-threshold-slider">Silence Threshold</Label>
+              <span className="text-sm text-gray-600">{current.threshold} dBFS</span>
+            </div>
+            <Slider
+              id="silence-threshold-slider"
+              min={SILENCE_THRESHOLD_RANGE[0]}
+              max={SILENCE_THRESHOLD_RANGE[1]}
+              step={1}
+              value={[current.threshold]}
+              onValueChange={(value) => updateSilence({ threshold: value[0] })}
+              disabled={disabled}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500">Downloads count anything quieter than this as silence.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
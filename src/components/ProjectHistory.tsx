@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatTime } from "@/lib/audio-utils";
+import { audioFileExtension } from "@/lib/audio-formats";
+import { Project, ProjectRender } from "@/lib/projects";
+
+interface ProjectHistoryProps {
+  project: Project;
+  loadAudio: (render: ProjectRender) => Promise<Blob | null>;
+  onDownload: (render: ProjectRender) => void;
+  onDelete: (render: ProjectRender) => void;
+  onRerender: () => void;
+  isRendering: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function ProjectHistory({ project, loadAudio, onDownload, onDelete, onRerender, isRendering }: ProjectHistoryProps) {
+  // Object URL of the render being previewed
+  const [preview, setPreview] = useState<{ renderId: string; url: string } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  // A different project has different renders
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError(null);
+  }, [project.id]);
+
+  const handlePreview = async (render: ProjectRender) => {
+    setPreviewError(null);
+    const audio = await loadAudio(render).catch(() => null);
+    if (!audio) {
+      setPreviewError("The audio for this render could not be loaded.");
+      return;
+    }
+    setPreview({ renderId: render.id, url: URL.createObjectURL(audio) });
+  };
+
+  // Newest first
+  const renders = [...project.renders].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Render History</CardTitle>
+          <Button variant="outline" size="sm" onClick={onRerender} disabled={isRendering || !project.text.trim()}>
+            {isRendering ? "Rendering..." : "Re-render"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preview && (
+          <audio key={preview.url} src={preview.url} controls autoPlay className="w-full" />
+        )}
+        {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+
+        {renders.length === 0 ? (
+          <p className="text-sm text-gray-500">Downloads of &quot;{project.name}&quot; are kept here.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Created</TableHead>
+                <TableHead>Format</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {renders.map((render) => (
+                <TableRow key={render.id} data-state={preview?.renderId === render.id ? "selected" : undefined}>
+                  <TableCell>{new Date(render.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="uppercase">{audioFileExtension(render.type)}</TableCell>
+                  <TableCell>{render.duration !== null ? formatTime(render.duration) : "—"}</TableCell>
+                  <TableCell>{formatSize(render.size)}</TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => handlePreview(render)}>
+                      Play
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDownload(render)}>
+                      Download
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-red-600" onClick={() => onDelete(render)}>
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatDistanceToNow } from "date-fns";
+import { matchesSearch, MAX_PROJECT_NAME_LENGTH, Project, PROJECT_STORAGES, ProjectStorage } from "@/lib/projects";
+
+interface ProjectLibraryProps {
+  projects: Project[];
+  currentId: string | null;
+  storage: ProjectStorage;
+  error: string | null;
+  renderingId: string | null; // project being re-rendered
+  onStorageChange: (storage: ProjectStorage) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRerender: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ProjectLibrary({
+  projects,
+  currentId,
+  storage,
+  error,
+  renderingId,
+  onStorageChange,
+  onOpen,
+  onNew,
+  onRename,
+  onDuplicate,
+  onRerender,
+  onDelete
+}: ProjectLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<Project | null>(null);
+
+  const visible = useMemo(() => projects.filter(project => matchesSearch(project, query)), [projects, query]);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="space-y-3 p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Library</h2>
+          <Button variant="outline" size="sm" onClick={onNew}>
+            New Project
+          </Button>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="project-storage-select" className="text-xs text-gray-500">Saved in</Label>
+          <Select value={storage} onValueChange={(value) => onStorageChange(value as ProjectStorage)}>
+            <SelectTrigger id="project-storage-select" className="h-8 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROJECT_STORAGES).map(([value, info]) => (
+                <SelectItem key={value} value={value}>
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">{PROJECT_STORAGES[storage].description}</p>
+        </div>
+        <SidebarInput
+          type="search"
+          placeholder="Search projects..."
+          aria-label="Search projects"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>
+            {query.trim() ? `${visible.length} of ${projects.length} projects` : `${projects.length} projects`}
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {visible.map((project) => (
+                <SidebarMenuItem key={project.id}>
+                  {renaming?.id === project.id ? (
+                    <SidebarInput
+                      autoFocus
+                      aria-label="Project name"
+                      value={renaming.name}
+                      maxLength={MAX_PROJECT_NAME_LENGTH}
+                      onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenaming(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        size="lg"
+                        isActive={project.id === currentId}
+                        onClick={() => onOpen(project.id)}
+                      >
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate">{project.name}</span>
+                          <span className="truncate text-xs text-gray-500">
+                            {renderingId === project.id
+                              ? "Rendering..."
+                              : `${formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })} • ${project.renders.length} renders`}
+                          </span>
+                        </div>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label={`Actions for ${project.name}`}>
+                            ⋯
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent
+                          side="right"
+                          align="start"
+                          // Keep focus on the rename field instead of the menu button
+                          onCloseAutoFocus={(e) => e.preventDefault()}
+                        >
+                          <DropdownMenuItem onSelect={() => setRenaming({ id: project.id, name: project.name })}>
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => onDuplicate(project.id)}>
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onSelect={() => onRerender(project.id)}
+                            disabled={renderingId !== null || !project.text.trim()}
+                          >
+                            Re-render
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem variant="destructive" onSelect={() => setDeleting(project)}>
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+            {visible.length === 0 && (
+              <p className="px-2 py-4 text-sm text-gray-500">
+                {projects.length === 0 ? "Projects are saved here as you type." : "No projects match your search."}
+              </p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      {error && (
+        <SidebarFooter>
+          <p className="text-xs text-red-600">{error}</p>
+        </SidebarFooter>
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &quot;{deleting?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and its {deleting?.renders.length ?? 0} renders will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) onDelete(deleting.id);
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+}
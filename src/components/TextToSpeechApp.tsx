@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
@@ -8,15 +8,66 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import AudioPlayer from "./AudioPlayer";
+import HighlightedText from "./HighlightedText";
 import VoiceSettings from "./VoiceSettings";
+import EffectsPanel from "./EffectsPanel";
+import MusicBedSettings from "./MusicBedSettings";
+import PauseSilenceSettings from "./PauseSilenceSettings";
+import ExportSettings from "./ExportSettings";
+import MetadataSettings from "./MetadataSettings";
+import CaptionSettings from "./CaptionSettings";
+import ProjectLibrary from "./ProjectLibrary";
+import ProjectHistory from "./ProjectHistory";
+import DocumentDropZone from "./DocumentDropZone";
+import AudiobookBuilder from "./AudiobookBuilder";
 import { 
   TextToSpeechManager, 
+  TTSOptions,
+  DialogueSettings,
   VoiceSettings as VoiceSettingsType, 
   createAudioBlob, 
+  createCaptionsBlob,
   downloadAudio,
-  downloadAudioWithProgress
+  downloadFile,
+  downloadAudioWithProgress,
+  getAudioDuration,
+  getReportedLoudness,
+  getReportedTimings,
+  loadVoices,
+  requestAudioStream,
+  restoreDialogueSettings,
+  restoreVoiceSettings,
+  saveDialogueSettings,
+  saveVoiceSettings
 } from "@/lib/audio-utils";
+import { MAX_TEXT_LENGTH } from "@/lib/text-chunker";
+import { DEFAULT_OUTPUT_FORMAT, ExportOptions } from "@/lib/audio-formats";
+import { MetadataInput } from "@/lib/audio-metadata";
+import { LoudnessMeasurement, LOUDNESS_PRESETS } from "@/lib/loudness";
+import { missingBedAudio, withoutBedAudio } from "@/lib/music-bed";
+import { CAPTION_FORMATS, CaptionFormat, CaptionOptions, DEFAULT_CAPTION_OPTIONS, Timings } from "@/lib/captions";
+import { MAX_PROJECT_NAME_LENGTH, Project, ProjectRender } from "@/lib/projects";
+import { DOCUMENT_ACCEPT, DOCUMENT_KINDS, importDocument } from "@/lib/document-import";
+import { useSpeechProgress } from "@/hooks/use-speech-progress";
+import { useStreamPlayer } from "@/hooks/use-stream-player";
+import { useProjectLibrary } from "@/hooks/use-project-library";
+import { InputFormat, looksLikeSsml, parseSsml, ssmlToPlainText, textToSsml, validateSsml } from "@/lib/ssml";
+import { DEFAULT_TURN_GAP, parseScript, scriptToPlainText } from "@/lib/dialogue-script";
+
+const INPUT_FORMAT_LABELS: Record<InputFormat, string> = {
+  text: "Text",
+  ssml: "SSML",
+  script: "Script"
+};
+
+const INPUT_PLACEHOLDERS: Record<InputFormat, string> = {
+  text: "Type or paste your text here...",
+  ssml: '<speak>Hello <break time="500ms"/> <emphasis>world</emphasis>!</speak>',
+  script: "ALICE: Good morning, Bob.\nBOB: Morning! Ready for the meeting?"
+};
 
 const SAMPLE_TEXTS = [
   "Hello! Welcome to our text-to-speech application. This tool converts your written text into natural-sounding speech that you can play and download.",
@@ -25,14 +76,18 @@ const SAMPLE_TEXTS = [
   "To be or not to be, that is the question. Whether 'tis nobler in the mind to suffer the slings and arrows of outrageous fortune, or to take arms against a sea of troubles."
 ];
 
-const MAX_CHARACTER_LIMIT = 5000;
-
 export default function TextToSpeechApp() {
   // Text and UI state
   const [text, setText] = useState("");
   const [isSupported, setIsSupported] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [isDownloadingCaptions, setIsDownloadingCaptions] = useState(false);
+  const [inputFormat, setInputFormat] = useState<InputFormat>("text");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
 
   // Voice settings state
   const [voiceSettings, setVoiceSettings] = useState<VoiceSettingsType>({
@@ -42,10 +97,63 @@ export default function TextToSpeechApp() {
     voice: null
   });
 
+  // Speaker voices for dialogue scripts
+  const [dialogue, setDialogue] = useState<DialogueSettings>({ cast: {}, turnGap: DEFAULT_TURN_GAP });
+
+  // Download format and encoder settings
+  // Downloads are normalized to the podcast target unless the user changes it,
+  // so files from different sessions play at the same loudness
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    outputFormat: DEFAULT_OUTPUT_FORMAT,
+    loudnessTarget: LOUDNESS_PRESETS.podcast.target,
+    truePeak: LOUDNESS_PRESETS.podcast.truePeak
+  });
+  const [loudness, setLoudness] = useState<LoudnessMeasurement | null>(null);
+  // The last download and its word timings, for the waveform
+  const [rendered, setRendered] = useState<{ blob: Blob; timings: Timings | null } | null>(null);
+  const [metadata, setMetadata] = useState<MetadataInput>({});
+  const [captionFormat, setCaptionFormat] = useState<CaptionFormat>("vtt");
+  const [captionOptions, setCaptionOptions] = useState<CaptionOptions>(DEFAULT_CAPTION_OPTIONS);
+
   // TTS manager and playback state
   const [ttsManager, setTtsManager] = useState<TextToSpeechManager | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const playback = useSpeechProgress(ttsManager);
+  const stream = useStreamPlayer();
+  const { isPlaying, isPaused } = playback;
+
+  // Project library: the editor is saved to the open project as it changes
+  const [renderingProjectId, setRenderingProjectId] = useState<string | null>(null);
+
+  const applyProject = useCallback(async (project: Project | null) => {
+    setImportNotice(null);
+    if (!project) {
+      setText("");
+      setError(null);
+      return;
+    }
+    const voices = await loadVoices();
+    setText(project.text);
+    setInputFormat(project.format);
+    setVoiceSettings(restoreVoiceSettings(project.voiceSettings, voices));
+    setDialogue(project.dialogue
+      ? restoreDialogueSettings(project.dialogue, voices)
+      : { cast: {}, turnGap: DEFAULT_TURN_GAP });
+    setExportOptions(project.exportOptions);
+    setError(null);
+  }, []);
+
+  const library = useProjectLibrary(applyProject);
+  const { autosave } = library;
+
+  useEffect(() => {
+    autosave({
+      text,
+      format: inputFormat,
+      voiceSettings: saveVoiceSettings(voiceSettings),
+      dialogue: saveDialogueSettings(dialogue),
+      exportOptions: { ...exportOptions, music: withoutBedAudio(exportOptions.music) }
+    });
+  }, [autosave, text, inputFormat, voiceSettings, dialogue, exportOptions]);
 
   // Initialize TTS manager
   useEffect(() => {
@@ -60,56 +168,106 @@ export default function TextToSpeechApp() {
     }
   }, []);
 
-  // Update playback state
-  const updatePlaybackState = useCallback(() => {
-    if (ttsManager) {
-      const state = ttsManager.getState();
-      setIsPlaying(state.isPlaying);
-      setIsPaused(state.isPaused);
-    }
-  }, [ttsManager]);
-
-  // Polling for playback state updates
-  useEffect(() => {
-    const interval = setInterval(updatePlaybackState, 100);
-    return () => clearInterval(interval);
-  }, [updatePlaybackState]);
-
   const handleTextChange = (value: string) => {
-    if (value.length <= MAX_CHARACTER_LIMIT) {
+    if (value.length <= MAX_TEXT_LENGTH) {
       setText(value);
       setError(null);
     }
   };
 
   const handleSampleTextSelect = (sampleText: string) => {
-    setText(sampleText);
+    setText(inputFormat === "ssml" ? textToSsml(sampleText) : sampleText);
+  };
+
+  // Switching to or from SSML converts the current text so nothing is lost
+  const handleFormatChange = (format: InputFormat) => {
+    if (format === "ssml") {
+      if (text.trim() && !looksLikeSsml(text)) setText(textToSsml(text));
+    } else if (looksLikeSsml(text) && validateSsml(text).length === 0) {
+      setText(ssmlToPlainText(parseSsml(text)));
+    }
+    setInputFormat(format);
+    setError(null);
+  };
+
+  // An imported document opens as a new project named after it
+  const handleImportFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await importDocument(file);
+      ttsManager?.stop();
+      await library.startNew(imported.title?.slice(0, MAX_PROJECT_NAME_LENGTH) || undefined);
+      const truncated = imported.text.length > MAX_TEXT_LENGTH;
+      setText(truncated ? imported.text.slice(0, MAX_TEXT_LENGTH) : imported.text);
+      if (inputFormat === "ssml") setInputFormat("text");
+
+      const chapters = imported.kind === "epub" ? `, ${imported.chapters.length} chapters` : "";
+      setImportNotice(
+        `Imported ${file.name} (${DOCUMENT_KINDS[imported.kind].label}${chapters}).` +
+        (truncated ? ` Only the first ${MAX_TEXT_LENGTH.toLocaleString()} characters fit in the editor.` : "")
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import the file");
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
   };
 
   const handleClearText = () => {
     setText("");
+    setImportNotice(null);
     if (ttsManager) {
       ttsManager.stop();
     }
   };
 
-  const handlePlay = async () => {
-    if (!ttsManager || !text.trim()) return;
+  // Untrimmed so word offsets line up with the text on screen
+  const getSpeechOptions = (): TTSOptions => ({
+    text,
+    voice: voiceSettings.voice,
+    rate: voiceSettings.rate,
+    pitch: voiceSettings.pitch,
+    volume: voiceSettings.volume,
+    format: inputFormat,
+    dialogue,
+    pauses: exportOptions.pauses,
+    maxSilence: exportOptions.silence?.maxSilence
+  });
 
+  // Playing, seeking and skipping all resolve when playback reaches the end
+  const runPlayback = async (start: (options: TTSOptions) => Promise<void>) => {
     try {
       setError(null);
-      await ttsManager.speak({
-        text: text.trim(),
-        voice: voiceSettings.voice,
-        rate: voiceSettings.rate,
-        pitch: voiceSettings.pitch,
-        volume: voiceSettings.volume
-      });
+      await start(getSpeechOptions());
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to play speech");
     }
   };
 
+  const handlePlay = () => {
+    if (!ttsManager || !text.trim()) return;
+    stream.stop();
+    runPlayback((options) => ttsManager.speak(options));
+  };
+
+  // Seeking restarts speech with the current voice settings
+  const handleSeek = (seconds: number) => {
+    if (!ttsManager) return;
+    runPlayback((options) => ttsManager.seekTime(seconds, options));
+  };
+
+  const handleWordClick = (offset: number) => {
+    if (!ttsManager) return;
+    runPlayback((options) => ttsManager.seek(offset, options));
+  };
+
+  const handleSkip = (direction: 1 | -1) => {
+    if (!ttsManager) return;
+    runPlayback((options) => ttsManager.skipSentence(direction, options));
+  };
+
   const handlePause = () => {
     if (!ttsManager) return;
     
@@ -125,24 +283,55 @@ export default function TextToSpeechApp() {
     ttsManager.stop();
   };
 
+  // Play the server's render while it is still being generated, instead of
+  // waiting for the whole file
+  const handleStream = () => {
+    if (!text.trim()) return;
+    ttsManager?.stop();
+    setError(null);
+    stream.play((signal) => requestAudioStream(text.trim(), voiceSettings, inputFormat, metadata, dialogue, exportOptions, signal));
+  };
+
   const handleDownload = async () => {
     if (!text.trim() || isDownloading) return;
 
     setIsDownloading(true);
+    setDownloadProgress(0);
     setError(null);
 
     try {
-      // Use the enhanced download function with better error handling
-      const audioBlob = await createAudioBlob(text.trim(), voiceSettings);
+      // Rendered as a server job so the player can show how far along it is
+      const audioBlob = await createAudioBlob(
+        text.trim(),
+        voiceSettings,
+        inputFormat,
+        exportOptions,
+        metadata,
+        dialogue,
+        (progress) => setDownloadProgress(Math.round(progress * 100))
+      );
       
       if (!audioBlob || audioBlob.size === 0) {
         throw new Error("Failed to generate audio file - empty result");
       }
+      setLoudness(getReportedLoudness(audioBlob));
+
+      // The render job reports when each word is heard; a file rendered some
+      // other way is drawn without them
+      setRendered({ blob: audioBlob, timings: getReportedTimings(audioBlob) });
 
       const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-');
-      const filename = `speech-${timestamp}.wav`;
+      // downloadAudio adds the extension for the format the server returned
+      const filename = `speech-${timestamp}`;
       
       await downloadAudio(audioBlob, filename);
+
+      // Keep the render with the open project
+      const duration = await getAudioDuration(audioBlob);
+      await library.recordRender(null, audioBlob, saveVoiceSettings(voiceSettings), duration).catch((err) => {
+        const message = err instanceof Error ? err.message : "unknown error";
+        setError(`The file was downloaded but could not be added to the library: ${message}`);
+      });
       
       // Show success message briefly
       setTimeout(() => {
@@ -155,12 +344,106 @@ export default function TextToSpeechApp() {
       setError(`Download failed: ${errorMessage}. Please try again or use the Play button to hear the speech.`);
     } finally {
       setIsDownloading(false);
+      setDownloadProgress(null);
+    }
+  };
+
+  const handleDownloadCaptions = async () => {
+    if (!text.trim() || isDownloadingCaptions) return;
+
+    setIsDownloadingCaptions(true);
+    setError(null);
+
+    try {
+      const captionsBlob = await createCaptionsBlob(
+        text.trim(),
+        voiceSettings,
+        inputFormat,
+        captionFormat,
+        captionOptions,
+        dialogue,
+        exportOptions
+      );
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-');
+      await downloadFile(captionsBlob, `captions-${timestamp}.${CAPTION_FORMATS[captionFormat].extension}`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to generate captions";
+      console.error('Caption download error:', err);
+      setError(`Caption download failed: ${errorMessage}`);
+    } finally {
+      setIsDownloadingCaptions(false);
+    }
+  };
+
+  // Render a project again with the settings saved in it
+  const handleRerender = async (id: string) => {
+    if (renderingProjectId) return;
+
+    setRenderingProjectId(id);
+    setError(null);
+
+    try {
+      await library.save();
+      const project = await library.load(id);
+      if (missingBedAudio(project.exportOptions.music)) {
+        const fileName = project.exportOptions.music?.fileName ?? "its music bed file";
+        throw new Error(`Uploaded files are not saved with projects. Open the project and choose ${fileName} again.`);
+      }
+      const voices = await loadVoices();
+      const dialogueSettings = project.dialogue ? restoreDialogueSettings(project.dialogue, voices) : undefined;
+      const audioBlob = await createAudioBlob(
+        project.text.trim(),
+        restoreVoiceSettings(project.voiceSettings, voices),
+        project.format,
+        project.exportOptions,
+        metadata,
+        dialogueSettings
+      );
+      const duration = await getAudioDuration(audioBlob);
+      await library.recordRender(id, audioBlob, project.voiceSettings, duration);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to render project";
+      setError(`Re-render failed: ${errorMessage}`);
+    } finally {
+      setRenderingProjectId(null);
+    }
+  };
+
+  const handleDownloadRender = async (render: ProjectRender) => {
+    const project = library.current;
+    if (!project) return;
+
+    try {
+      const audioBlob = await library.getAudio(project.id, render.id);
+      if (!audioBlob) throw new Error("The audio for this render is missing");
+      const timestamp = render.createdAt.slice(0, 19).replace(/[:.]/g, '-');
+      const baseName = project.name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'speech';
+      await downloadAudio(audioBlob, `${baseName}-${timestamp}`);
+    } catch (err) {
+      setError(`Download failed: ${err instanceof Error ? err.message : "unknown error"}`);
     }
   };
 
+  // Library actions report failures in the main error banner
+  const runLibraryAction = (action: Promise<unknown>) => {
+    action.catch((err) => setError(err instanceof Error ? err.message : "Project library error"));
+  };
+
+  // SSML problems are shown inline and block playback until fixed
+  const ssmlIssues = useMemo(
+    () => (inputFormat === "ssml" && text.trim() ? validateSsml(text) : []),
+    [inputFormat, text]
+  );
+  const script = useMemo(() => (inputFormat === "script" ? parseScript(text) : null), [inputFormat, text]);
+  const spokenText = useMemo(() => {
+    if (script) return scriptToPlainText(script);
+    return inputFormat === "ssml" && text.trim() && ssmlIssues.length === 0 ? ssmlToPlainText(parseSsml(text)) : text;
+  }, [inputFormat, text, ssmlIssues, script]);
+
+  const currentProject = library.current;
   const characterCount = text.length;
-  const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
-  const isTextValid = text.trim().length > 0;
+  const wordCount = spokenText.split(/\s+/).filter(word => word.length > 0).length;
+  const isTextValid = spokenText.trim().length > 0 && ssmlIssues.length === 0;
 
   if (!isSupported) {
     return (
@@ -175,163 +458,315 @@ export default function TextToSpeechApp() {
   }
 
   return (
-    <div className="min-h-screen p-4 md:p-6 lg:p-8">
-      <div className="max-w-6xl mx-auto space-y-6">
-        {/* Header */}
-        <div className="text-center space-y-4">
-          <div className="space-y-2">
-            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-              Text to Audio
-            </h1>
-            <p className="text-gray-600 text-lg">
-              Convert your text to natural-sounding speech with customizable voice settings
-            </p>
-          </div>
+    <SidebarProvider defaultOpen={false}>
+      <ProjectLibrary
+        projects={library.projects}
+        currentId={currentProject?.id ?? null}
+        storage={library.storage}
+        error={library.error}
+        renderingId={renderingProjectId}
+        onStorageChange={library.setStorage}
+        onOpen={(id) => {
+          ttsManager?.stop();
+          runLibraryAction(library.open(id));
+        }}
+        onNew={() => {
+          ttsManager?.stop();
+          runLibraryAction(library.startNew());
+        }}
+        onRename={(id, name) => runLibraryAction(library.rename(id, name))}
+        onDuplicate={(id) => runLibraryAction(library.duplicate(id))}
+        onRerender={handleRerender}
+        onDelete={(id) => runLibraryAction(library.remove(id))}
+      />
+      <SidebarInset className="bg-transparent">
+        <div className="min-h-screen p-4 md:p-6 lg:p-8">
+          <div className="max-w-6xl mx-auto space-y-6">
+            {/* Library toggle and open project */}
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <SidebarTrigger aria-label="Toggle project library" />
+              <span className="truncate">{currentProject ? currentProject.name : "Unsaved project"}</span>
+            </div>
+
+            {/* Header */}
+            <div className="text-center space-y-4">
+              <div className="space-y-2">
+                <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                  Text to Audio
+                </h1>
+                <p className="text-gray-600 text-lg">
+                  Convert your text to natural-sounding speech with customizable voice settings
+                </p>
+              </div>
           
-          {/* Features badges */}
-          <div className="flex flex-wrap justify-center gap-2">
-            <Badge variant="secondary">🎵 Natural Speech</Badge>
-            <Badge variant="secondary">⚙️ Voice Controls</Badge>
-            <Badge variant="secondary">⬇️ Download Audio</Badge>
-            <Badge variant="secondary">📱 Responsive</Badge>
-          </div>
-        </div>
+              {/* Features badges */}
+              <div className="flex flex-wrap justify-center gap-2">
+                <Badge variant="secondary">🎵 Natural Speech</Badge>
+                <Badge variant="secondary">⚙️ Voice Controls</Badge>
+                <Badge variant="secondary">⬇️ Download Audio</Badge>
+                <Badge variant="secondary">📱 Responsive</Badge>
+              </div>
+            </div>
 
-        {/* Error Display */}
-        {error && (
-          <Alert variant="destructive">
-            <AlertDescription>{error}</AlertDescription>
-          </Alert>
-        )}
-
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Main Content */}
-          <div className="lg:col-span-2 space-y-6">
-            {/* Text Input */}
-            <Card>
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <CardTitle>Text Input</CardTitle>
-                  <div className="flex items-center space-x-2 text-sm text-gray-600">
-                    <span>{wordCount} words</span>
-                    <span>•</span>
-                    <span className={characterCount > MAX_CHARACTER_LIMIT * 0.9 ? "text-orange-500" : ""}>
-                      {characterCount}/{MAX_CHARACTER_LIMIT} characters
-                    </span>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="text-input">Enter text to convert to speech</Label>
-                  <Textarea
-                    id="text-input"
-                    placeholder="Type or paste your text here..."
-                    value={text}
-                    onChange={(e) => handleTextChange(e.target.value)}
-                    className="min-h-[200px] resize-y"
-                    maxLength={MAX_CHARACTER_LIMIT}
-                  />
-                </div>
-
-                {/* Sample Texts and Actions */}
-                <Tabs defaultValue="samples" className="w-full">
-                  <TabsList className="grid w-full grid-cols-2">
-                    <TabsTrigger value="samples">Sample Texts</TabsTrigger>
-                    <TabsTrigger value="actions">Actions</TabsTrigger>
-                  </TabsList>
-                  
-                  <TabsContent value="samples" className="space-y-3">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                      {SAMPLE_TEXTS.map((sample, index) => (
-                        <Button
-                          key={index}
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleSampleTextSelect(sample)}
-                          className="text-left h-auto p-3 justify-start"
-                        >
-                          <span className="truncate">
-                            {sample.substring(0, 60)}...
+            {/* Error Display */}
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Main Content */}
+              <div className="lg:col-span-2 space-y-6">
+                {/* Text Input */}
+                <DocumentDropZone onFile={handleImportFile} disabled={isImporting || isPlaying}>
+                  <Card>
+                    <CardHeader>
+                      <div className="flex justify-between items-center">
+                        <CardTitle>Text Input</CardTitle>
+                        <div className="flex items-center space-x-2 text-sm text-gray-600">
+                          <span>{wordCount} words</span>
+                          <span>•</span>
+                          <span className={characterCount > MAX_TEXT_LENGTH * 0.9 ? "text-orange-500" : ""}>
+                            {characterCount.toLocaleString()}/{MAX_TEXT_LENGTH.toLocaleString()} characters
                           </span>
-                        </Button>
-                      ))}
-                    </div>
-                  </TabsContent>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                          <Label htmlFor="text-input">
+                            {inputFormat === "ssml" && "Enter SSML markup to convert to speech"}
+                            {inputFormat === "script" && "Enter a script with one \"SPEAKER: line\" per turn"}
+                            {inputFormat === "text" && "Enter text to convert to speech"}
+                          </Label>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => fileInput.current?.click()}
+                              disabled={isImporting || isPlaying}
+                              title="Import .txt, .md, .html, .docx, .epub, .srt or .vtt, or drop a file here"
+                            >
+                              {isImporting ? "Importing..." : "📄 Import File"}
+                            </Button>
+                            <input
+                              ref={fileInput}
+                              type="file"
+                              accept={DOCUMENT_ACCEPT}
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImportFile(file);
+                              }}
+                            />
+                            <Select value={inputFormat} onValueChange={(value) => handleFormatChange(value as InputFormat)}>
+                              <SelectTrigger id="input-format-select" className="w-28" aria-label="Input format">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(INPUT_FORMAT_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>
+                                    {label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        {isPlaying && inputFormat !== "ssml" ? (
+                          <HighlightedText
+                            text={text}
+                            word={playback.word}
+                            onWordClick={handleWordClick}
+                            className="min-h-[200px] max-h-[480px]"
+                          />
+                        ) : (
+                          <Textarea
+                            id="text-input"
+                            placeholder={INPUT_PLACEHOLDERS[inputFormat]}
+                            value={text}
+                            onChange={(e) => handleTextChange(e.target.value)}
+                            className="min-h-[200px] resize-y"
+                            maxLength={MAX_TEXT_LENGTH}
+                          />
+                        )}
+                        {ssmlIssues.length > 0 && (
+                          <p className="text-sm text-red-600">
+                            SSML error: {ssmlIssues[0].message}
+                            {ssmlIssues.length > 1 && ` (and ${ssmlIssues.length - 1} more)`}
+                          </p>
+                        )}
+                        {importNotice && <p className="text-sm text-gray-500">{importNotice}</p>}
+                      </div>
+
+                      {/* Sample Texts and Actions */}
+                      <Tabs defaultValue="samples" className="w-full">
+                        <TabsList className="grid w-full grid-cols-2">
+                          <TabsTrigger value="samples">Sample Texts</TabsTrigger>
+                          <TabsTrigger value="actions">Actions</TabsTrigger>
+                        </TabsList>
                   
-                  <TabsContent value="actions" className="space-y-3">
-                    <div className="flex flex-wrap gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleClearText}
-                        disabled={!text}
-                      >
-                        Clear Text
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          const words = text.split(/\s+/);
-                          setText(words.slice(0, Math.ceil(words.length / 2)).join(' '));
-                        }}
-                        disabled={!text}
-                      >
-                        Keep First Half
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setText(text.toUpperCase())}
-                        disabled={!text}
-                      >
-                        UPPERCASE
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setText(text.toLowerCase())}
-                        disabled={!text}
-                      >
-                        lowercase
-                      </Button>
-                    </div>
-                  </TabsContent>
-                </Tabs>
-              </CardContent>
-            </Card>
-
-            {/* Audio Player */}
-            <AudioPlayer
-              isPlaying={isPlaying}
-              isPaused={isPaused}
-              text={text}
-              rate={voiceSettings.rate}
-              onPlay={handlePlay}
-              onPause={handlePause}
-              onStop={handleStop}
-              onDownload={handleDownload}
-              isDownloading={isDownloading}
-              disabled={!isTextValid}
-            />
-          </div>
+                        <TabsContent value="samples" className="space-y-3">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {SAMPLE_TEXTS.map((sample, index) => (
+                              <Button
+                                key={index}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleSampleTextSelect(sample)}
+                                className="text-left h-auto p-3 justify-start"
+                              >
+                                <span className="truncate">
+                                  {sample.substring(0, 60)}...
+                                </span>
+                              </Button>
+                            ))}
+                          </div>
+                        </TabsContent>
+                  
+                        <TabsContent value="actions" className="space-y-3">
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleClearText}
+                              disabled={!text}
+                            >
+                              Clear Text
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                const words = text.split(/\s+/);
+                                setText(words.slice(0, Math.ceil(words.length / 2)).join(' '));
+                              }}
+                              disabled={!text || inputFormat === "ssml"}
+                            >
+                              Keep First Half
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setText(text.toUpperCase())}
+                              disabled={!text || inputFormat === "ssml"}
+                            >
+                              UPPERCASE
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setText(text.toLowerCase())}
+                              disabled={!text || inputFormat === "ssml"}
+                            >
+                              lowercase
+                            </Button>
+                          </div>
+                        </TabsContent>
+                      </Tabs>
+                    </CardContent>
+                  </Card>
+                </DocumentDropZone>
 
-          {/* Voice Settings Sidebar */}
-          <div className="lg:col-span-1">
-            <VoiceSettings
-              settings={voiceSettings}
-              onSettingsChange={setVoiceSettings}
-              disabled={isPlaying && !isPaused}
-            />
-          </div>
-        </div>
+                {/* Audio Player */}
+                <AudioPlayer
+                  isPlaying={isPlaying}
+                  isPaused={isPaused}
+                  text={spokenText}
+                  rate={voiceSettings.rate}
+                  position={{ elapsed: playback.elapsed, duration: playback.duration }}
+                  onPlay={handlePlay}
+                  onPause={handlePause}
+                  onStop={handleStop}
+                  onSeek={handleSeek}
+                  onSkip={handleSkip}
+                  onDownload={handleDownload}
+                  isDownloading={isDownloading}
+                  downloadProgress={downloadProgress}
+                  loudness={loudness}
+                  rendered={rendered}
+                  onStream={handleStream}
+                  onStopStream={stream.stop}
+                  streamStatus={stream.status}
+                  onDownloadCaptions={handleDownloadCaptions}
+                  isDownloadingCaptions={isDownloadingCaptions}
+                  disabled={!isTextValid}
+                />
 
-        {/* Footer */}
-        <div className="text-center text-sm text-gray-500 pt-6">
-          <p>Built with Web Speech API • Works best in Chrome, Firefox, Safari & Edge</p>
+                {/* Renders of the open project */}
+                {currentProject && (
+                  <ProjectHistory
+                    project={currentProject}
+                    loadAudio={(render) => library.getAudio(currentProject.id, render.id)}
+                    onDownload={handleDownloadRender}
+                    onDelete={(render) => runLibraryAction(library.deleteRender(currentProject.id, render.id))}
+                    onRerender={() => handleRerender(currentProject.id)}
+                    isRendering={renderingProjectId === currentProject.id}
+                  />
+                )}
+
+                {/* Audiobook */}
+                <AudiobookBuilder settings={voiceSettings} exportOptions={exportOptions} />
+              </div>
+
+              {/* Voice Settings Sidebar */}
+              <div className="lg:col-span-1 space-y-6">
+                <VoiceSettings
+                  settings={voiceSettings}
+                  onSettingsChange={setVoiceSettings}
+                  speakers={script?.speakers}
+                  dialogue={dialogue}
+                  onDialogueChange={setDialogue}
+                  disabled={isPlaying && !isPaused}
+                />
+                <EffectsPanel
+                  effects={exportOptions.effects ?? []}
+                  onEffectsChange={(effects) => setExportOptions({ ...exportOptions, effects })}
+                  settings={voiceSettings}
+                  text={text}
+                  disabled={isDownloading}
+                />
+                <MusicBedSettings
+                  music={exportOptions.music}
+                  onMusicChange={(music) => setExportOptions({ ...exportOptions, music })}
+                  disabled={isDownloading}
+                />
+                <PauseSilenceSettings
+                  pauses={exportOptions.pauses}
+                  silence={exportOptions.silence}
+                  onPausesChange={(pauses) => setExportOptions({ ...exportOptions, pauses })}
+                  onSilenceChange={(silence) => setExportOptions({ ...exportOptions, silence })}
+                  disabled={isDownloading}
+                />
+                <ExportSettings
+                  options={exportOptions}
+                  onOptionsChange={setExportOptions}
+                  disabled={isDownloading}
+                />
+                <MetadataSettings
+                  metadata={metadata}
+                  onMetadataChange={setMetadata}
+                  disabled={isDownloading}
+                />
+                <CaptionSettings
+                  format={captionFormat}
+                  options={captionOptions}
+                  onFormatChange={setCaptionFormat}
+                  onOptionsChange={setCaptionOptions}
+                  disabled={isDownloadingCaptions}
+                />
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="text-center text-sm text-gray-500 pt-6">
+              <p>Built with Web Speech API • Works best in Chrome, Firefox, Safari & Edge</p>
+            </div>
+          </div>
         </div>
-      </div>
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  downloadFile,
+  matchVoice,
+  saveVoiceSettings,
+  VoiceSettings as VoiceSettingsType
+} from "@/lib/audio-utils";
+import { exportPresets, importPresets, MAX_PRESET_NAME_LENGTH, VoicePreset } from "@/lib/voice-presets";
+import { useVoicePresets } from "@/hooks/use-voice-presets";
+
+interface VoicePresetManagerProps {
+  settings: VoiceSettingsType;
+  voices: SpeechSynthesisVoice[];
+  onApply: (settings: VoiceSettingsType) => void;
+  disabled?: boolean;
+}
+
+// A preset is active when the current settings are exactly what it sets
+const isActive = (preset: VoicePreset, settings: VoiceSettingsType) =>
+  preset.settings.rate === settings.rate &&
+  preset.settings.pitch === settings.pitch &&
+  preset.settings.volume === settings.volume &&
+  (preset.settings.voiceName === null || preset.settings.voiceName === settings.voice?.name);
+
+export default function VoicePresetManager({ settings, voices, onApply, disabled = false }: VoicePresetManagerProps) {
+  const { presets, userPresets, save, remove, add } = useVoicePresets();
+  const [name, setName] = useState("");
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleApply = (preset: VoicePreset) => {
+    const { voiceName, voiceLang } = preset.settings;
+    const { voice, match } = matchVoice(voiceName, voiceLang, voices);
+    onApply({
+      rate: preset.settings.rate,
+      pitch: preset.settings.pitch,
+      volume: preset.settings.volume,
+      voice: voiceName === null ? settings.voice : voice ?? settings.voice
+    });
+
+    // Say when the preset's own voice is not installed here
+    if (voiceName !== null && (match === "language" || match === "none")) {
+      const substitute = voice ?? settings.voice;
+      setNotice({
+        text: `${voiceName}${voiceLang ? ` (${voiceLang})` : ""} is not installed; using ${substitute ? substitute.name : "the default voice"} instead.`,
+        isError: false
+      });
+    } else {
+      setNotice(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    save(name, saveVoiceSettings(settings));
+    setNotice({ text: `Saved "${name.trim()}".`, isError: false });
+    setName("");
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(userPresets)], { type: "application/json" });
+    downloadFile(blob, "voice-presets.json");
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      add(imported);
+      setNotice({ text: `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}.`, isError: false });
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : "Failed to import presets", isError: true });
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Presets</Label>
+      <div className="flex flex-wrap gap-2">
+        {presets.map((preset) => (
+          <div key={preset.id} className="flex items-center">
+            <Button
+              variant={isActive(preset, settings) ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleApply(preset)}
+              disabled={disabled}
+              title={`Rate ${preset.settings.rate}x, pitch ${preset.settings.pitch}, volume ${Math.round(preset.settings.volume * 100)}%${preset.settings.voiceName ? `, ${preset.settings.voiceName}` : ""}`}
+              className={preset.builtIn ? "" : "rounded-r-none"}
+            >
+              {preset.name}
+            </Button>
+            {!preset.builtIn && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => remove(preset.id)}
+                aria-label={`Delete preset ${preset.name}`}
+                className="rounded-l-none border-l-0 px-2"
+              >
+                ×
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Save current settings */}
+      <div className="flex gap-2">
+        <Input
+          aria-label="Preset name"
+          placeholder="Name these settings..."
+          value={name}
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          className="h-8"
+        />
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim()}>
+          Save
+        </Button>
+      </div>
+
+      {/* Share presets as JSON */}
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" onClick={() => fileInput.current?.click()}>
+          Import
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleExport} disabled={userPresets.length === 0}>
+          Export
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+
+      {notice && (
+        <p className={`text-xs ${notice.isError ? "text-red-600" : "text-gray-500"}`}>{notice.text}</p>
+      )}
+    </div>
+  );
+}
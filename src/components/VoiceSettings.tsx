@@ -5,15 +5,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { VoiceSettings as VoiceSettingsType } from "@/lib/audio-utils";
+import { DialogueSettings, VoiceSettings as VoiceSettingsType } from "@/lib/audio-utils";
+import { TURN_GAP_RANGE } from "@/lib/dialogue-script";
+import VoicePresetManager from "./VoicePresetManager";
 
 interface VoiceSettingsProps {
   settings: VoiceSettingsType;
   onSettingsChange: (settings: VoiceSettingsType) => void;
+  // Speakers of a dialogue script, voiced through the cast in dialogue
+  speakers?: string[];
+  dialogue?: DialogueSettings;
+  onDialogueChange?: (dialogue: DialogueSettings) => void;
   disabled?: boolean;
 }
 
-export default function VoiceSettings({ settings, onSettingsChange, disabled = false }: VoiceSettingsProps) {
+export default function VoiceSettings({
+  settings,
+  onSettingsChange,
+  speakers = [],
+  dialogue,
+  onDialogueChange,
+  disabled = false
+}: VoiceSettingsProps) {
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
 
   useEffect(() => {
@@ -43,6 +56,99 @@ export default function VoiceSettings({ settings, onSettingsChange, disabled = f
     };
   }, [settings, onSettingsChange]);
 
+  const handleSpeakerChange = (speaker: string, speakerSettings: VoiceSettingsType) => {
+    if (!dialogue || !onDialogueChange) return;
+    onDialogueChange({ ...dialogue, cast: { ...dialogue.cast, [speaker]: speakerSettings } });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Voice Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <VoicePresetManager
+          settings={settings}
+          voices={voices}
+          onApply={onSettingsChange}
+          disabled={disabled}
+        />
+
+        <VoiceControls
+          idPrefix=""
+          settings={settings}
+          voices={voices}
+          onSettingsChange={onSettingsChange}
+          disabled={disabled}
+        />
+
+        {/* Voice Info */}
+        {settings.voice && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+            <div className="text-sm space-y-1">
+              <div><strong>Voice:</strong> {settings.voice.name}</div>
+              <div><strong>Language:</strong> {settings.voice.lang}</div>
+              <div><strong>Local:</strong> {settings.voice.localService ? 'Yes' : 'No'}</div>
+            </div>
+          </div>
+        )}
+
+        {/* Speaker Cast */}
+        {dialogue && speakers.length > 0 && (
+          <div className="space-y-6 border-t pt-6">
+            <div className="space-y-1">
+              <h3 className="font-medium">Speaker Cast</h3>
+              <p className="text-xs text-gray-500">
+                Each speaker starts with the voice above. Lines before the first speaker label use it too.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor="turn-gap-slider">Pause Between Turns</Label>
+                <span className="text-sm text-gray-600">{dialogue.turnGap.toFixed(1)}s</span>
+              </div>
+              <Slider
+                id="turn-gap-slider"
+                min={TURN_GAP_RANGE[0]}
+                max={TURN_GAP_RANGE[1]}
+                step={0.1}
+                value={[dialogue.turnGap]}
+                onValueChange={(value) => onDialogueChange?.({ ...dialogue, turnGap: value[0] })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </div>
+
+            {speakers.map((speaker, index) => (
+              <div key={speaker} className="space-y-4 p-3 bg-gray-50 rounded-lg">
+                <div className="font-medium text-sm">{speaker}</div>
+                <VoiceControls
+                  idPrefix={`speaker-${index}-`}
+                  settings={dialogue.cast[speaker] ?? settings}
+                  voices={voices}
+                  onSettingsChange={(speakerSettings) => handleSpeakerChange(speaker, speakerSettings)}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface VoiceControlsProps {
+  idPrefix: string;
+  settings: VoiceSettingsType;
+  voices: SpeechSynthesisVoice[];
+  onSettingsChange: (settings: VoiceSettingsType) => void;
+  disabled: boolean;
+}
+
+// Voice, rate, pitch and volume for the default voice or one speaker
+function VoiceControls({ idPrefix, settings, voices, onSettingsChange, disabled }: VoiceControlsProps) {
   const handleVoiceChange = (voiceName: string) => {
     const selectedVoice = voices.find(voice => voice.name === voiceName) || null;
     onSettingsChange({ ...settings, voice: selectedVoice });
@@ -61,111 +167,95 @@ export default function VoiceSettings({ settings, onSettingsChange, disabled = f
   };
 
   return (
-    <Card className="w-full">
-      <CardHeader>
-        <CardTitle className="text-lg font-semibold">Voice Settings</CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Voice Selection */}
-        <div className="space-y-2">
-          <Label htmlFor="voice-select">Voice</Label>
-          <Select
-            value={settings.voice?.name || ""}
-            onValueChange={handleVoiceChange}
-            disabled={disabled || voices.length === 0}
-          >
-            <SelectTrigger id="voice-select">
-              <SelectValue placeholder="Select a voice..." />
-            </SelectTrigger>
-            <SelectContent>
-              {voices.map((voice) => (
-                <SelectItem key={voice.name} value={voice.name}>
-                  {voice.name} ({voice.lang})
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+    <>
+      {/* Voice Selection */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}voice-select`}>Voice</Label>
+        <Select
+          value={settings.voice?.name || ""}
+          onValueChange={handleVoiceChange}
+          disabled={disabled || voices.length === 0}
+        >
+          <SelectTrigger id={`${idPrefix}voice-select`}>
+            <SelectValue placeholder="Select a voice..." />
+          </SelectTrigger>
+          <SelectContent>
+            {voices.map((voice) => (
+              <SelectItem key={voice.name} value={voice.name}>
+                {voice.name} ({voice.lang})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
 
-        {/* Speaking Rate */}
-        <div className="space-y-3">
-          <div className="flex justify-between">
-            <Label htmlFor="rate-slider">Speaking Rate</Label>
-            <span className="text-sm text-gray-600">{settings.rate.toFixed(1)}x</span>
-          </div>
-          <Slider
-            id="rate-slider"
-            min={0.5}
-            max={2}
-            step={0.1}
-            value={[settings.rate]}
-            onValueChange={handleRateChange}
-            disabled={disabled}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-gray-500">
-            <span>Slow</span>
-            <span>Normal</span>
-            <span>Fast</span>
-          </div>
+      {/* Speaking Rate */}
+      <div className="space-y-3">
+        <div className="flex justify-between">
+          <Label htmlFor={`${idPrefix}rate-slider`}>Speaking Rate</Label>
+          <span className="text-sm text-gray-600">{settings.rate.toFixed(1)}x</span>
         </div>
-
-        {/* Pitch */}
-        <div className="space-y-3">
-          <div className="flex justify-between">
-            <Label htmlFor="pitch-slider">Pitch</Label>
-            <span className="text-sm text-gray-600">{settings.pitch.toFixed(1)}</span>
-          </div>
-          <Slider
-            id="pitch-slider"
-            min={0.5}
-            max={2}
-            step={0.1}
-            value={[settings.pitch]}
-            onValueChange={handlePitchChange}
-            disabled={disabled}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-gray-500">
-            <span>Low</span>
-            <span>Normal</span>
-            <span>High</span>
-          </div>
+        <Slider
+          id={`${idPrefix}rate-slider`}
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={[settings.rate]}
+          onValueChange={handleRateChange}
+          disabled={disabled}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Slow</span>
+          <span>Normal</span>
+          <span>Fast</span>
         </div>
+      </div>
 
-        {/* Volume */}
-        <div className="space-y-3">
-          <div className="flex justify-between">
-            <Label htmlFor="volume-slider">Volume</Label>
-            <span className="text-sm text-gray-600">{Math.round(settings.volume * 100)}%</span>
-          </div>
-          <Slider
-            id="volume-slider"
-            min={0}
-            max={1}
-            step={0.1}
-            value={[settings.volume]}
-            onValueChange={handleVolumeChange}
-            disabled={disabled}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-gray-500">
-            <span>Quiet</span>
-            <span>Loud</span>
-          </div>
+      {/* Pitch */}
+      <div className="space-y-3">
+        <div className="flex justify-between">
+          <Label htmlFor={`${idPrefix}pitch-slider`}>Pitch</Label>
+          <span className="text-sm text-gray-600">{settings.pitch.toFixed(1)}</span>
+        </div>
+        <Slider
+          id={`${idPrefix}pitch-slider`}
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={[settings.pitch]}
+          onValueChange={handlePitchChange}
+          disabled={disabled}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Low</span>
+          <span>Normal</span>
+          <span>High</span>
         </div>
+      </div>
 
-        {/* Voice Info */}
-        {settings.voice && (
-          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-            <div className="text-sm space-y-1">
-              <div><strong>Voice:</strong> {settings.voice.name}</div>
-              <div><strong>Language:</strong> {settings.voice.lang}</div>
-              <div><strong>Local:</strong> {settings.voice.localService ? 'Yes' : 'No'}</div>
-            </div>
-          </div>
-        )}
-      </CardContent>
-    </Card>
+      {/* Volume */}
+      <div className="space-y-3">
+        <div className="flex justify-between">
+          <Label htmlFor={`${idPrefix}volume-slider`}>Volume</Label>
+          <span className="text-sm text-gray-600">{Math.round(settings.volume * 100)}%</span>
+        </div>
+        <Slider
+          id={`${idPrefix}volume-slider`}
+          min={0}
+          max={1}
+          step={0.1}
+          value={[settings.volume]}
+          onValueChange={handleVolumeChange}
+          disabled={disabled}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Quiet</span>
+          <span>Loud</span>
+        </div>
+      </div>
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,319 @@
+"use client";
+
+import { MouseEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { DecodedAudio, formatTime } from "@/lib/audio-utils";
+import { TimedText, Timings } from "@/lib/captions";
+import { FFT_SIZE, Spectrogram, spectrogramPalette } from "@/lib/spectrogram";
+import { useAudioAnalysis } from "@/hooks/use-audio-analysis";
+
+interface WaveformViewProps {
+  blob: Blob;
+  // When each word and sentence is heard in the file, once known
+  timings?: Timings | null;
+}
+
+interface TimeView {
+  start: number; // seconds
+  span: number;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64, 128];
+const CANVAS_HEIGHT = 96;
+const MIN_WORD_SPACING = 4; // average pixels between word marks before they are left out
+const WAVEFORM_COLOR = "#3b82f6";
+const SENTENCE_COLOR = "#dc2626";
+const WORD_COLOR = "rgba(107, 114, 128, 0.45)";
+
+// A canvas the size it is shown at, in device pixels, with its context
+// scaled back to CSS pixels
+function prepareCanvas(canvas: HTMLCanvasElement, width: number): CanvasRenderingContext2D | null {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(CANVAS_HEIGHT * ratio);
+  const context = canvas.getContext("2d");
+  context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return context;
+}
+
+// Peak-to-peak of the samples under each pixel, with sentence and word
+// boundaries over it
+function drawWaveform(
+  canvas: HTMLCanvasElement,
+  width: number,
+  audio: DecodedAudio,
+  view: TimeView,
+  timings: Timings | null
+) {
+  const context = prepareCanvas(canvas, width);
+  if (!context) return;
+  const { samples, sampleRate } = audio;
+  const middle = CANVAS_HEIGHT / 2;
+  const first = view.start * sampleRate;
+  const perPixel = (view.span * sampleRate) / width;
+
+  context.fillStyle = WAVEFORM_COLOR;
+  for (let x = 0; x < width; x++) {
+    const from = Math.max(0, Math.floor(first + x * perPixel));
+    const to = Math.min(samples.length, Math.max(from + 1, Math.floor(first + (x + 1) * perPixel)));
+    if (from >= samples.length) break;
+    let min = 1;
+    let max = -1;
+    for (let i = from; i < to; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    context.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+  }
+
+  if (!timings) return;
+  const toX = (seconds: number) => ((seconds - view.start) / view.span) * width;
+  const visible = (timed: TimedText) => timed.end >= view.start && timed.start <= view.start + view.span;
+
+  const words = timings.words.filter(visible);
+  if (words.length > 0 && width / words.length >= MIN_WORD_SPACING) {
+    context.fillStyle = WORD_COLOR;
+    context.font = "10px sans-serif";
+    words.forEach((word, index) => {
+      const x = toX(word.start);
+      context.fillRect(Math.round(x), 0, 1, CANVAS_HEIGHT);
+      // Labels where they fit before the next word
+      const next = words[index + 1] ? toX(words[index + 1].start) : width;
+      if (context.measureText(word.text).width + 6 < next - x) {
+        context.fillStyle = "#374151";
+        context.fillText(word.text, x + 3, CANVAS_HEIGHT - 4);
+        context.fillStyle = WORD_COLOR;
+      }
+    });
+  }
+
+  context.fillStyle = SENTENCE_COLOR;
+  for (const sentence of timings.sentences.filter(visible)) {
+    context.fillRect(Math.round(toX(sentence.start)), 0, 2, CANVAS_HEIGHT);
+  }
+}
+
+// Spectrogram as an image, a column per frame with low frequencies at the
+// bottom
+function spectrogramImage(spectrogram: Spectrogram): HTMLCanvasElement {
+  const { frames, bins, levels } = spectrogram;
+  const canvas = document.createElement("canvas");
+  canvas.width = frames;
+  canvas.height = bins;
+  const context = canvas.getContext("2d");
+  if (!context) return canvas;
+
+  const image = context.createImageData(frames, bins);
+  const palette = spectrogramPalette();
+  for (let frame = 0; frame < frames; frame++) {
+    for (let bin = 0; bin < bins; bin++) {
+      const color = levels[frame * bins + bin] * 4;
+      const pixel = ((bins - 1 - bin) * frames + frame) * 4;
+      image.data[pixel] = palette[color];
+      image.data[pixel + 1] = palette[color + 1];
+      image.data[pixel + 2] = palette[color + 2];
+      image.data[pixel + 3] = 255;
+    }
+  }
+  context.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function drawSpectrogram(
+  canvas: HTMLCanvasElement,
+  width: number,
+  spectrogram: Spectrogram,
+  image: HTMLCanvasElement,
+  view: TimeView
+) {
+  const context = prepareCanvas(canvas, width);
+  if (!context) return;
+  // Frames are centred half an FFT into their window
+  const { hop, sampleRate, bins } = spectrogram;
+  const firstFrame = (view.start * sampleRate - FFT_SIZE / 2) / hop;
+  const frameCount = (view.span * sampleRate) / hop;
+  context.drawImage(image, firstFrame, 0, frameCount, bins, 0, 0, width, CANVAS_HEIGHT);
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export default function WaveformView({ blob, timings = null }: WaveformViewProps) {
+  const { audio, spectrogram, isAnalyzing, error } = useAudioAnalysis(blob);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [width, setWidth] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const container = useRef<HTMLDivElement>(null);
+  const waveformCanvas = useRef<HTMLCanvasElement>(null);
+  const spectrogramCanvas = useRef<HTMLCanvasElement>(null);
+  const player = useRef<HTMLAudioElement | null>(null);
+
+  const duration = audio?.duration ?? 0;
+  const span = duration / zoom;
+  const view = useMemo(() => ({ start: viewStart, span }), [viewStart, span]);
+  const image = useMemo(() => (spectrogram ? spectrogramImage(spectrogram) : null), [spectrogram]);
+
+  // The rendered file plays here, apart from the speech controls
+  useEffect(() => {
+    const url = URL.createObjectURL(blob);
+    const element = new Audio(url);
+    element.onplay = () => setIsPlaying(true);
+    element.onpause = () => setIsPlaying(false);
+    element.onended = () => setIsPlaying(false);
+    player.current = element;
+    setCurrentTime(0);
+    setViewStart(0);
+    setZoom(1);
+    return () => {
+      element.pause();
+      URL.revokeObjectURL(url);
+      player.current = null;
+    };
+  }, [blob]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (player.current) setCurrentTime(player.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  // Turn the page when the playhead runs off it
+  useEffect(() => {
+    if (isPlaying && (currentTime < viewStart || currentTime > viewStart + span)) {
+      setViewStart(clamp(currentTime, 0, duration - span));
+    }
+  }, [isPlaying, currentTime, viewStart, span, duration]);
+
+  useEffect(() => {
+    const element = container.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+    observer.observe(element);
+    setWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (waveformCanvas.current && audio && width > 0) drawWaveform(waveformCanvas.current, width, audio, view, timings);
+  }, [audio, view, timings, width]);
+
+  useEffect(() => {
+    if (spectrogramCanvas.current && spectrogram && image && width > 0) {
+      drawSpectrogram(spectrogramCanvas.current, width, spectrogram, image, view);
+    }
+  }, [spectrogram, image, view, width]);
+
+  // Zoom around the playhead when it is in view, or the middle otherwise
+  const handleZoom = (direction: 1 | -1) => {
+    const index = clamp(ZOOM_LEVELS.indexOf(zoom) + direction, 0, ZOOM_LEVELS.length - 1);
+    const nextSpan = duration / ZOOM_LEVELS[index];
+    const inView = currentTime >= viewStart && currentTime <= viewStart + span;
+    const centre = inView ? currentTime : viewStart + span / 2;
+    setZoom(ZOOM_LEVELS[index]);
+    setViewStart(clamp(centre - nextSpan / 2, 0, duration - nextSpan));
+  };
+
+  const handleSeek = (event: MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const time = clamp(viewStart + ((event.clientX - rect.left) / rect.width) * span, 0, duration);
+    if (player.current) player.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const handlePlayPause = () => {
+    const element = player.current;
+    if (!element) return;
+    if (isPlaying) element.pause();
+    else element.play().catch(() => setIsPlaying(false));
+  };
+
+  const sentence = timings?.sentences.find((timed) => currentTime >= timed.start && currentTime < timed.end);
+  const playheadLeft = span > 0 ? ((currentTime - viewStart) / span) * 100 : 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button onClick={handlePlayPause} disabled={!audio} variant="outline" size="sm">
+            <span className="mr-1">{isPlaying ? "⏸️" : "▶️"}</span>
+            {isPlaying ? "Pause render" : "Play render"}
+          </Button>
+          <span className="text-sm text-gray-600">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button onClick={() => handleZoom(-1)} disabled={!audio || zoom === ZOOM_LEVELS[0]} variant="ghost" size="sm" aria-label="Zoom out">
+            ➖
+          </Button>
+          <span className="text-xs text-gray-500 w-10 text-center">{zoom}×</span>
+          <Button
+            onClick={() => handleZoom(1)}
+            disabled={!audio || zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+            variant="ghost"
+            size="sm"
+            aria-label="Zoom in"
+          >
+            ➕
+          </Button>
+        </div>
+      </div>
+
+      <div ref={container} className="relative w-full">
+        <canvas
+          ref={waveformCanvas}
+          onClick={handleSeek}
+          className="block w-full bg-gray-50 rounded cursor-pointer"
+          style={{ height: CANVAS_HEIGHT }}
+          aria-label="Waveform; click to seek"
+        />
+        <canvas
+          ref={spectrogramCanvas}
+          onClick={handleSeek}
+          className="block w-full mt-1 bg-black rounded cursor-pointer"
+          style={{ height: CANVAS_HEIGHT }}
+          aria-label="Spectrogram; click to seek"
+        />
+        {audio && playheadLeft >= 0 && playheadLeft <= 100 && (
+          <div className="absolute top-0 bottom-0 w-px bg-green-600 pointer-events-none" style={{ left: `${playheadLeft}%` }} />
+        )}
+      </div>
+
+      {zoom > 1 && (
+        <Slider
+          aria-label="Scroll the waveform"
+          min={0}
+          max={Math.max(duration - span, 0.01)}
+          step={0.01}
+          value={[viewStart]}
+          onValueChange={(value) => setViewStart(value[0])}
+          className="w-full"
+        />
+      )}
+
+      <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {formatTime(viewStart)} – {formatTime(viewStart + span)}
+          {spectrogram && ` · 0 to ${(spectrogram.sampleRate / 2000).toFixed(1)} kHz`}
+        </span>
+        <span>
+          {error
+            ? `❌ ${error}`
+            : isAnalyzing
+              ? "🔄 Analysing..."
+              : timings
+                ? "Red: sentences · grey: words · click to seek"
+                : "Click to seek"}
+        </span>
+      </div>
+      {sentence && <p className="text-sm text-gray-700 italic">{sentence.text}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import * as React from "react"
+
+import { decodeAudioBlob, DecodedAudio } from "@/lib/audio-utils"
+import { Spectrogram, SpectrogramResponse } from "@/lib/spectrogram"
+
+// Decode a rendered file and compute its spectrogram in a worker. A new blob
+// replaces the analysis of the last; the worker stops with the component.
+export function useAudioAnalysis(blob: Blob | null) {
+  const [audio, setAudio] = React.useState<DecodedAudio | null>(null)
+  const [spectrogram, setSpectrogram] = React.useState<Spectrogram | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const worker = React.useRef<Worker | null>(null)
+  const requestId = React.useRef(0)
+
+  React.useEffect(() => () => worker.current?.terminate(), [])
+
+  React.useEffect(() => {
+    const id = ++requestId.current
+    setAudio(null)
+    setSpectrogram(null)
+    setError(null)
+    if (!blob) {
+      setIsAnalyzing(false)
+      return
+    }
+
+    setIsAnalyzing(true)
+    decodeAudioBlob(blob)
+      .then((decoded) => {
+        if (id !== requestId.current) return
+        setAudio(decoded)
+
+        if (!worker.current) {
+          worker.current = new Worker(new URL("../lib/spectrogram-worker.ts", import.meta.url))
+        }
+        worker.current.onmessage = (event: MessageEvent<SpectrogramResponse>) => {
+          if (event.data.id !== requestId.current) return
+          if (event.data.spectrogram) setSpectrogram(event.data.spectrogram)
+          else setError(event.data.error)
+          setIsAnalyzing(false)
+        }
+        worker.current.postMessage({ id, samples: decoded.samples, sampleRate: decoded.sampleRate })
+      })
+      .catch((err) => {
+        if (id !== requestId.current) return
+        setError(err instanceof Error ? err.message : "Failed to decode the audio")
+        setIsAnalyzing(false)
+      })
+  }, [blob])
+
+  return { audio, spectrogram, isAnalyzing, error }
+}
@@ -0,0 +1,167 @@
+import * as React from "react"
+
+import { downloadFile, getAudioDuration, VoiceSettings } from "@/lib/audio-utils"
+import { ExportOptions } from "@/lib/audio-formats"
+import {
+  AudiobookPackage,
+  chapterExportOptions,
+  DEFAULT_AUDIOBOOK_PACKAGE,
+  packageMp3,
+  packageZip,
+  renderChapter,
+  safeFileName
+} from "@/lib/audiobook"
+import { ImportedDocument, importDocument } from "@/lib/document-import"
+
+export type ChapterStatus = "pending" | "rendering" | "done" | "failed"
+
+export interface AudiobookChapterState {
+  title: string
+  text: string
+  included: boolean
+  status: ChapterStatus
+  audio: Blob | null
+  duration: number | null
+  renderKey: string | null // settings the audio was rendered with
+  error: string | null
+}
+
+// Audio rendered with different settings no longer belongs in the book
+const renderKeyFor = (settings: VoiceSettings, exportOptions: ExportOptions) =>
+  JSON.stringify([settings.voice?.name ?? null, settings.rate, settings.pitch, settings.volume, exportOptions])
+
+// Chapters render one at a time. A chapter that fails is marked and the rest
+// carry on; rendering again picks up only chapters without current audio.
+export function useAudiobook(settings: VoiceSettings, exportOptions: ExportOptions) {
+  const [book, setBook] = React.useState<ImportedDocument | null>(null)
+  const [chapters, setChapters] = React.useState<AudiobookChapterState[]>([])
+  const [packageFormat, setPackageFormat] = React.useState<AudiobookPackage>(DEFAULT_AUDIOBOOK_PACKAGE)
+  const [isRendering, setIsRendering] = React.useState(false)
+  const [isPackaging, setIsPackaging] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const chaptersRef = React.useRef(chapters)
+  chaptersRef.current = chapters
+  const controller = React.useRef<AbortController | null>(null)
+
+  const options = React.useMemo(
+    () => chapterExportOptions(packageFormat, exportOptions),
+    [packageFormat, exportOptions]
+  )
+  const renderKey = renderKeyFor(settings, options)
+
+  const update = React.useCallback((index: number, change: Partial<AudiobookChapterState>) => {
+    setChapters(list => {
+      const next = list.map((chapter, i) => (i === index ? { ...chapter, ...change } : chapter))
+      chaptersRef.current = next
+      return next
+    })
+  }, [])
+
+  const load = React.useCallback(async (file: File) => {
+    controller.current?.abort()
+    setError(null)
+    try {
+      const imported = await importDocument(file)
+      if (imported.kind !== "epub") throw new Error("Audiobooks are built from EPUB files")
+      setBook(imported)
+      setChapters(imported.chapters.map(chapter => ({
+        ...chapter,
+        included: true,
+        status: "pending",
+        audio: null,
+        duration: null,
+        renderKey: null,
+        error: null
+      })))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the book")
+    }
+  }, [])
+
+  const close = React.useCallback(() => {
+    controller.current?.abort()
+    setBook(null)
+    setChapters([])
+    setError(null)
+  }, [])
+
+  const toggle = React.useCallback((index: number, included: boolean) => {
+    update(index, { included })
+  }, [update])
+
+  const render = React.useCallback(async () => {
+    if (!book) return
+    const abort = new AbortController()
+    controller.current = abort
+    setIsRendering(true)
+    setError(null)
+    const info = { title: book.title ?? "Audiobook", author: book.author }
+
+    for (let index = 0; index < chaptersRef.current.length; index++) {
+      const chapter = chaptersRef.current[index]
+      if (!chapter.included || (chapter.status === "done" && chapter.renderKey === renderKey)) continue
+      update(index, { status: "rendering", error: null })
+      try {
+        const audio = await renderChapter(info, chapter, settings, options, abort.signal)
+        const duration = await getAudioDuration(audio)
+        update(index, { status: "done", audio, duration, renderKey })
+      } catch (err) {
+        if (abort.signal.aborted) {
+          update(index, { status: chapter.audio ? "done" : "pending" })
+          break
+        }
+        update(index, { status: "failed", error: err instanceof Error ? err.message : "Rendering failed" })
+      }
+    }
+
+    if (controller.current === abort) controller.current = null
+    setIsRendering(false)
+  }, [book, settings, options, renderKey, update])
+
+  const cancel = React.useCallback(() => {
+    controller.current?.abort()
+  }, [])
+
+  React.useEffect(() => () => controller.current?.abort(), [])
+
+  const included = chapters.filter(chapter => chapter.included)
+  const ready = included.filter(chapter => chapter.status === "done" && chapter.renderKey === renderKey)
+  const isComplete = included.length > 0 && ready.length === included.length
+
+  const download = React.useCallback(async () => {
+    if (!book || !isComplete) return
+    setIsPackaging(true)
+    setError(null)
+    try {
+      const info = { title: book.title ?? "Audiobook", author: book.author }
+      const rendered = included.map(chapter => ({ title: chapter.title, text: chapter.text, audio: chapter.audio! }))
+      const blob = packageFormat === "mp3"
+        ? await packageMp3(info, rendered, settings)
+        : await packageZip(info, rendered)
+      await downloadFile(blob, `${safeFileName(info.title)}.${packageFormat}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to package the audiobook")
+    } finally {
+      setIsPackaging(false)
+    }
+  }, [book, isComplete, included, packageFormat, settings])
+
+  return {
+    book,
+    chapters,
+    packageFormat,
+    setPackageFormat,
+    renderKey,
+    isRendering,
+    isPackaging,
+    isComplete,
+    progress: { done: ready.length, total: included.length },
+    error,
+    load,
+    close,
+    toggle,
+    render,
+    cancel,
+    download
+  }
+}
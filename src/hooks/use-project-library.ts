@@ -0,0 +1,232 @@
+import * as React from "react"
+
+import { SavedVoiceSettings } from "@/lib/audio-utils"
+import {
+  createProject,
+  DEFAULT_PROJECT_STORAGE,
+  isProjectStorage,
+  Project,
+  ProjectDraft,
+  ProjectStorage,
+  sortProjects
+} from "@/lib/projects"
+import { addRender, duplicateProject, openProjectStore, removeRender } from "@/lib/project-store"
+
+// Which store is used and which project was open survive a reload
+const STORAGE_KEY = "text-to-audio:project-storage"
+const LAST_PROJECT_KEY = "text-to-audio:last-project"
+
+// Editor changes are saved once typing pauses
+const AUTOSAVE_DELAY = 800
+
+const sameDraft = (project: Project, draft: ProjectDraft) =>
+  project.text === draft.text &&
+  project.format === draft.format &&
+  JSON.stringify([project.voiceSettings, project.dialogue, project.exportOptions]) ===
+    JSON.stringify([draft.voiceSettings, draft.dialogue, draft.exportOptions])
+
+// The open project follows the editor: it is created when text is first
+// typed and saved as it changes. onOpen receives a project to load into the
+// editor, or null to clear it.
+export function useProjectLibrary(onOpen: (project: Project | null) => void) {
+  const [storage, setStorageState] = React.useState<ProjectStorage>(DEFAULT_PROJECT_STORAGE)
+  const store = React.useMemo(() => openProjectStore(storage), [storage])
+  const [projects, setProjects] = React.useState<Project[]>([])
+  const [current, setCurrent] = React.useState<Project | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Latest record of the open project and editor state. Writes run one at a
+  // time so an autosave never overtakes a render being added.
+  const currentRef = React.useRef<Project | null>(null)
+  const draftRef = React.useRef<ProjectDraft | null>(null)
+  const writes = React.useRef<Promise<unknown>>(Promise.resolve())
+  const timer = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+  const newNameRef = React.useRef<string | undefined>(undefined)
+  const onOpenRef = React.useRef(onOpen)
+  onOpenRef.current = onOpen
+
+  const enqueue = React.useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const run = writes.current.then(task)
+    writes.current = run.catch(() => undefined)
+    return run
+  }, [])
+
+  const fail = React.useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : "Project library error")
+  }, [])
+
+  // Keep the list in step with a saved project
+  const track = React.useCallback((project: Project) => {
+    setProjects(list => sortProjects([project, ...list.filter(p => p.id !== project.id)]))
+    if (currentRef.current?.id === project.id) {
+      currentRef.current = project
+      setCurrent(project)
+    }
+  }, [])
+
+  const select = React.useCallback((project: Project | null) => {
+    if (timer.current) clearTimeout(timer.current)
+    timer.current = null
+    draftRef.current = null
+    newNameRef.current = undefined
+    currentRef.current = project
+    setCurrent(project)
+    if (project) localStorage.setItem(LAST_PROJECT_KEY, project.id)
+    else localStorage.removeItem(LAST_PROJECT_KEY)
+  }, [])
+
+  // Save the latest editor state now, creating the project if needed
+  const flush = React.useCallback(() => {
+    if (timer.current) clearTimeout(timer.current)
+    timer.current = null
+    return enqueue(async () => {
+      const draft = draftRef.current
+      const base = currentRef.current
+      if (!draft || (base && sameDraft(base, draft))) return base
+      if (!base && !draft.text.trim()) return null
+
+      const project = base
+        ? { ...base, ...draft, updatedAt: new Date().toISOString() }
+        : createProject(draft, newNameRef.current)
+      await store.save(project)
+      if (!base) {
+        currentRef.current = project
+        localStorage.setItem(LAST_PROJECT_KEY, project.id)
+      }
+      track(project)
+      return project
+    })
+  }, [enqueue, store, track])
+
+  const autosave = React.useCallback((draft: ProjectDraft) => {
+    draftRef.current = draft
+    if (timer.current) clearTimeout(timer.current)
+    timer.current = setTimeout(() => {
+      flush().catch(fail)
+    }, AUTOSAVE_DELAY)
+  }, [flush, fail])
+
+  // Load the preferred store once, then list it and reopen the last project
+  const [storageLoaded, setStorageLoaded] = React.useState(false)
+  React.useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (isProjectStorage(saved)) setStorageState(saved)
+    setStorageLoaded(true)
+  }, [])
+
+  React.useEffect(() => {
+    if (!storageLoaded) return
+    let cancelled = false
+    store.list()
+      .then(async list => {
+        if (cancelled) return
+        setProjects(list)
+        setError(null)
+        const lastId = localStorage.getItem(LAST_PROJECT_KEY)
+        const last = lastId && !currentRef.current ? list.find(p => p.id === lastId) : undefined
+        if (last) {
+          select(last)
+          onOpenRef.current(last)
+        }
+      })
+      .catch(err => {
+        if (!cancelled) fail(err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [store, storageLoaded, select, fail])
+
+  // Switching stores keeps the editor; its text becomes a new project there
+  const setStorage = React.useCallback((value: ProjectStorage) => {
+    localStorage.setItem(STORAGE_KEY, value)
+    select(null)
+    setProjects([])
+    setStorageState(value)
+  }, [select])
+
+  const open = React.useCallback(async (id: string) => {
+    await flush()
+    const project = await store.get(id)
+    if (!project) throw new Error("Project not found")
+    select(project)
+    onOpenRef.current(project)
+  }, [flush, store, select])
+
+  // The next project created takes the given name instead of one from its text
+  const startNew = React.useCallback(async (name?: string) => {
+    await flush()
+    select(null)
+    newNameRef.current = name
+    onOpenRef.current(null)
+  }, [flush, select])
+
+  const load = React.useCallback(async (id: string) => {
+    if (currentRef.current?.id === id) return currentRef.current
+    const project = await store.get(id)
+    if (!project) throw new Error("Project not found")
+    return project
+  }, [store])
+
+  const rename = React.useCallback((id: string, name: string) => enqueue(async () => {
+    const project = { ...await load(id), name, updatedAt: new Date().toISOString() }
+    await store.save(project)
+    track(project)
+  }), [enqueue, load, store, track])
+
+  const duplicate = React.useCallback((id: string) => enqueue(async () => {
+    const project = await load(id)
+    track(await duplicateProject(store, project, `${project.name} (copy)`))
+  }), [enqueue, load, store, track])
+
+  const remove = React.useCallback((id: string) => enqueue(async () => {
+    await store.delete(id)
+    setProjects(list => list.filter(p => p.id !== id))
+    if (currentRef.current?.id === id) {
+      select(null)
+      onOpenRef.current(null)
+    }
+  }), [enqueue, store, select])
+
+  // Add a render to a project, or to the open one (saving the editor first)
+  const recordRender = React.useCallback(async (
+    id: string | null,
+    audio: Blob,
+    voiceSettings: SavedVoiceSettings,
+    duration: number | null
+  ) => {
+    const target = id ?? (await flush())?.id
+    if (!target) return
+    await enqueue(async () => {
+      track(await addRender(store, await load(target), audio, voiceSettings, duration))
+    })
+  }, [flush, enqueue, load, store, track])
+
+  const deleteRender = React.useCallback((id: string, renderId: string) => enqueue(async () => {
+    track(await removeRender(store, await load(id), renderId))
+  }), [enqueue, load, store, track])
+
+  const getAudio = React.useCallback(
+    (id: string, renderId: string) => store.getAudio(id, renderId),
+    [store]
+  )
+
+  return {
+    storage,
+    setStorage,
+    projects,
+    current,
+    error,
+    autosave,
+    save: flush,
+    open,
+    startNew,
+    load,
+    rename,
+    duplicate,
+    remove,
+    recordRender,
+    deleteRender,
+    getAudio
+  }
+}
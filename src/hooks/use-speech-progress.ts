@@ -0,0 +1,37 @@
+import * as React from "react"
+
+import { PlaybackState, TextToSpeechManager } from "@/lib/audio-utils"
+
+// Boundary events drive the word highlight; the interval keeps elapsed time
+// moving between them and covers browsers that never fire them
+const REFRESH_INTERVAL = 100
+
+const IDLE_STATE: PlaybackState = {
+  isPlaying: false,
+  isPaused: false,
+  isIdle: true,
+  segmentIndex: 0,
+  segmentCount: 0,
+  elapsed: 0,
+  duration: 0,
+  word: null,
+  wordEstimated: false
+}
+
+export function useSpeechProgress(manager: TextToSpeechManager | null) {
+  const [state, setState] = React.useState<PlaybackState>(IDLE_STATE)
+
+  React.useEffect(() => {
+    if (!manager) return
+    const refresh = () => setState(manager.getState())
+    const unsubscribe = manager.subscribe(setState)
+    const interval = setInterval(refresh, REFRESH_INTERVAL)
+    refresh()
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [manager])
+
+  return state
+}
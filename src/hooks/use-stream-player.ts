@@ -0,0 +1,32 @@
+import * as React from "react"
+
+import { IDLE_STREAM_STATUS, StreamPlayer, StreamPlayerStatus } from "@/lib/stream-player"
+
+// One stream player for the component, stopped when it unmounts
+export function useStreamPlayer() {
+  const [status, setStatus] = React.useState<StreamPlayerStatus>(IDLE_STREAM_STATUS)
+  const player = React.useRef<StreamPlayer | null>(null)
+
+  const getPlayer = React.useCallback(() => {
+    if (!player.current) player.current = new StreamPlayer(setStatus)
+    return player.current
+  }, [])
+
+  const play = React.useCallback(
+    (open: (signal: AbortSignal) => Promise<ReadableStream<Uint8Array>>) => getPlayer().play(open),
+    [getPlayer]
+  )
+
+  const stop = React.useCallback(() => {
+    player.current?.stop()
+  }, [])
+
+  React.useEffect(() => () => player.current?.stop(), [])
+
+  return {
+    status,
+    isActive: status.state === "connecting" || status.state === "playing",
+    play,
+    stop
+  }
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+
+import { SavedVoiceSettings } from "@/lib/audio-utils"
+import {
+  BUILT_IN_PRESETS,
+  createPreset,
+  exportPresets,
+  importPresets,
+  mergePresets,
+  VoicePreset
+} from "@/lib/voice-presets"
+
+// User presets are kept in the same JSON as an exported presets file
+const PRESETS_KEY = "text-to-audio:voice-presets"
+
+function loadUserPresets(): VoicePreset[] {
+  const saved = localStorage.getItem(PRESETS_KEY)
+  if (!saved) return []
+  try {
+    return importPresets(saved)
+  } catch {
+    return []
+  }
+}
+
+export function useVoicePresets() {
+  const [userPresets, setUserPresets] = React.useState<VoicePreset[]>([])
+
+  React.useEffect(() => {
+    setUserPresets(loadUserPresets())
+  }, [])
+
+  const update = React.useCallback((change: (presets: VoicePreset[]) => VoicePreset[]) => {
+    setUserPresets(presets => {
+      const next = change(presets)
+      localStorage.setItem(PRESETS_KEY, exportPresets(next))
+      return next
+    })
+  }, [])
+
+  const save = React.useCallback((name: string, settings: SavedVoiceSettings) => {
+    update(presets => mergePresets(presets, [createPreset(name, settings)]))
+  }, [update])
+
+  const remove = React.useCallback((id: string) => {
+    update(presets => presets.filter(preset => preset.id !== id))
+  }, [update])
+
+  const add = React.useCallback((added: VoicePreset[]) => {
+    update(presets => mergePresets(presets, added))
+  }, [update])
+
+  return {
+    presets: [...BUILT_IN_PRESETS, ...userPresets],
+    userPresets,
+    save,
+    remove,
+    add
+  }
+}
@@ -0,0 +1,315 @@
+// Audio effects
+//
+// Post-processing for rendered speech: filters, a parametric EQ, a de-esser,
+// dynamics and reverb, applied in the order they are listed in a request's
+// `effects` array. This module only describes the effects and checks their
+// settings, so the effects panel and the server share one set of defaults
+// and limits; the DSP is in tts/effects.ts.
+
+export type EffectType = 'highpass' | 'lowpass' | 'eq' | 'deesser' | 'compressor' | 'limiter' | 'gate' | 'reverb';
+
+export type EqBandShape = 'peak' | 'lowshelf' | 'highshelf';
+
+export interface EqBand {
+  shape: EqBandShape;
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number;
+}
+
+export type ReverbRoom = 'booth' | 'room' | 'hall' | 'cathedral';
+
+export interface HighPassEffect { type: 'highpass'; frequency: number; q: number }
+export interface LowPassEffect { type: 'lowpass'; frequency: number; q: number }
+export interface EqEffect { type: 'eq'; bands: EqBand[] }
+export interface DeEsserEffect { type: 'deesser'; frequency: number; threshold: number; reduction: number }
+export interface CompressorEffect {
+  type: 'compressor';
+  threshold: number; // dBFS
+  ratio: number;
+  attack: number; // ms
+  release: number; // ms
+  makeup: number; // dB
+}
+export interface LimiterEffect { type: 'limiter'; ceiling: number; release: number }
+export interface GateEffect { type: 'gate'; threshold: number; range: number; attack: number; hold: number; release: number }
+export interface ReverbEffect { type: 'reverb'; room: ReverbRoom; mix: number }
+
+export type AudioEffect =
+  | HighPassEffect
+  | LowPassEffect
+  | EqEffect
+  | DeEsserEffect
+  | CompressorEffect
+  | LimiterEffect
+  | GateEffect
+  | ReverbEffect;
+
+export interface EffectParameter {
+  label: string;
+  unit: string;
+  range: [number, number];
+  step: number;
+}
+
+export type EffectOfType<T extends EffectType> = Extract<AudioEffect, { type: T }>;
+
+// The numeric settings of an effect type, the ones EFFECTS gives ranges for
+export type EffectParameterName<T extends EffectType> = {
+  [K in keyof EffectOfType<T>]: EffectOfType<T>[K] extends number ? K : never;
+}[keyof EffectOfType<T>];
+
+export interface EffectInfo<T extends EffectType> {
+  label: string;
+  description: string;
+  parameters: Record<EffectParameterName<T>, EffectParameter>; // numeric settings besides bands and room
+}
+
+const frequency = (label = 'Frequency'): EffectParameter => ({ label, unit: 'Hz', range: [20, 20000], step: 10 });
+const q: EffectParameter = { label: 'Q', unit: '', range: [0.1, 18], step: 0.1 };
+
+export const EFFECTS: { [T in EffectType]: EffectInfo<T> } = {
+  highpass: {
+    label: 'High-pass filter',
+    description: 'Removes rumble below the cutoff',
+    parameters: { frequency: frequency('Cutoff'), q }
+  },
+  lowpass: {
+    label: 'Low-pass filter',
+    description: 'Removes hiss above the cutoff',
+    parameters: { frequency: frequency('Cutoff'), q }
+  },
+  eq: {
+    label: 'Parametric EQ',
+    description: 'Boosts or cuts bands of frequencies',
+    parameters: {}
+  },
+  deesser: {
+    label: 'De-esser',
+    description: 'Softens harsh "s" and "t" sounds',
+    parameters: {
+      frequency: { label: 'Frequency', unit: 'Hz', range: [2000, 12000], step: 100 },
+      threshold: { label: 'Threshold', unit: 'dB', range: [-60, 0], step: 1 },
+      reduction: { label: 'Max reduction', unit: 'dB', range: [0, 24], step: 1 }
+    }
+  },
+  compressor: {
+    label: 'Compressor',
+    description: 'Evens out loud and quiet passages',
+    parameters: {
+      threshold: { label: 'Threshold', unit: 'dB', range: [-60, 0], step: 1 },
+      ratio: { label: 'Ratio', unit: ':1', range: [1, 20], step: 0.5 },
+      attack: { label: 'Attack', unit: 'ms', range: [0.1, 200], step: 0.1 },
+      release: { label: 'Release', unit: 'ms', range: [5, 2000], step: 5 },
+      makeup: { label: 'Makeup gain', unit: 'dB', range: [0, 24], step: 0.5 }
+    }
+  },
+  limiter: {
+    label: 'Limiter',
+    description: 'Holds peaks under a ceiling',
+    parameters: {
+      ceiling: { label: 'Ceiling', unit: 'dB', range: [-24, 0], step: 0.5 },
+      release: { label: 'Release', unit: 'ms', range: [5, 1000], step: 5 }
+    }
+  },
+  gate: {
+    label: 'Noise gate',
+    description: 'Quietens the gaps between words',
+    parameters: {
+      threshold: { label: 'Threshold', unit: 'dB', range: [-90, 0], step: 1 },
+      range: { label: 'Range', unit: 'dB', range: [0, 90], step: 1 },
+      attack: { label: 'Attack', unit: 'ms', range: [0.1, 100], step: 0.1 },
+      hold: { label: 'Hold', unit: 'ms', range: [0, 500], step: 5 },
+      release: { label: 'Release', unit: 'ms', range: [5, 2000], step: 5 }
+    }
+  },
+  reverb: {
+    label: 'Reverb',
+    description: 'Places the voice in a room',
+    parameters: {
+      mix: { label: 'Mix', unit: '', range: [0, 1], step: 0.05 }
+    }
+  }
+};
+
+export const EFFECT_TYPES = Object.keys(EFFECTS) as EffectType[];
+
+export const EQ_BAND_SHAPES: EqBandShape[] = ['peak', 'lowshelf', 'highshelf'];
+export const EQ_BAND_PARAMETERS: Record<'frequency' | 'gain' | 'q', EffectParameter> = {
+  frequency: frequency(),
+  gain: { label: 'Gain', unit: 'dB', range: [-24, 24], step: 0.5 },
+  q
+};
+
+export interface ReverbRoomInfo {
+  label: string;
+  size: number; // comb feedback, 0 to 1
+  damping: number; // 0 to 1
+  preDelay: number; // ms
+}
+
+export const REVERB_ROOMS: Record<ReverbRoom, ReverbRoomInfo> = {
+  booth: { label: 'Vocal booth', size: 0.3, damping: 0.7, preDelay: 2 },
+  room: { label: 'Small room', size: 0.55, damping: 0.5, preDelay: 8 },
+  hall: { label: 'Concert hall', size: 0.8, damping: 0.35, preDelay: 20 },
+  cathedral: { label: 'Cathedral', size: 0.92, damping: 0.2, preDelay: 40 }
+};
+
+export const MAX_EFFECTS = 16;
+export const MAX_EQ_BANDS = 8;
+
+export function defaultEffect(type: EffectType): AudioEffect {
+  switch (type) {
+    case 'highpass':
+      return { type, frequency: 80, q: 0.707 };
+    case 'lowpass':
+      return { type, frequency: 12000, q: 0.707 };
+    case 'eq':
+      return {
+        type,
+        bands: [
+          { shape: 'lowshelf', frequency: 200, gain: 0, q: 0.707 },
+          { shape: 'peak', frequency: 3000, gain: 0, q: 1 },
+          { shape: 'highshelf', frequency: 8000, gain: 0, q: 0.707 }
+        ]
+      };
+    case 'deesser':
+      return { type, frequency: 6000, threshold: -30, reduction: 8 };
+    case 'compressor':
+      return { type, threshold: -20, ratio: 3, attack: 10, release: 120, makeup: 3 };
+    case 'limiter':
+      return { type, ceiling: -1, release: 60 };
+    case 'gate':
+      return { type, threshold: -50, range: 20, attack: 2, hold: 50, release: 150 };
+    case 'reverb':
+      return { type, room: 'room', mix: 0.2 };
+  }
+}
+
+// Ready-made chains for the effects panel
+export const EFFECT_CHAIN_PRESETS: Record<string, { label: string; effects: AudioEffect[] }> = {
+  narration: {
+    label: 'Narration polish',
+    effects: [
+      defaultEffect('highpass'),
+      defaultEffect('deesser'),
+      defaultEffect('compressor'),
+      defaultEffect('limiter')
+    ]
+  },
+  radio: {
+    label: 'Radio voice',
+    effects: [
+      { type: 'highpass', frequency: 100, q: 0.707 },
+      {
+        type: 'eq',
+        bands: [
+          { shape: 'lowshelf', frequency: 180, gain: 3, q: 0.707 },
+          { shape: 'peak', frequency: 3500, gain: 4, q: 1.2 }
+        ]
+      },
+      { type: 'compressor', threshold: -24, ratio: 6, attack: 3, release: 80, makeup: 6 },
+      defaultEffect('limiter')
+    ]
+  },
+  telephone: {
+    label: 'Telephone',
+    effects: [
+      { type: 'highpass', frequency: 300, q: 0.9 },
+      { type: 'lowpass', frequency: 3400, q: 0.9 },
+      { type: 'compressor', threshold: -18, ratio: 4, attack: 5, release: 100, makeup: 4 }
+    ]
+  },
+  hall: {
+    label: 'Announcer in a hall',
+    effects: [defaultEffect('compressor'), { type: 'reverb', room: 'hall', mix: 0.3 }]
+  }
+};
+
+// An effect's numeric settings with their ranges and current values, in the
+// order EFFECTS lists them
+export function effectParameters<T extends EffectType>(
+  effect: EffectOfType<T>
+): { name: EffectParameterName<T>; parameter: EffectParameter; value: number }[] {
+  const parameters: Record<EffectParameterName<T>, EffectParameter> = EFFECTS[effect.type as T].parameters;
+  return (Object.keys(parameters) as EffectParameterName<T>[]).map(name => ({
+    name,
+    parameter: parameters[name],
+    value: effect[name] as number
+  }));
+}
+
+function checkNumber(value: unknown, parameter: EffectParameter, name: string): string | null {
+  const [min, max] = parameter.range;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    return `${name} must be a number from ${min} to ${max}`;
+  }
+  return null;
+}
+
+// Check a request's effects array. Every setting is required, so a stored
+// chain always means the same thing.
+export function validateEffects(input: unknown): string | null {
+  if (input === undefined) return null;
+  if (!Array.isArray(input)) return 'Effects must be an array';
+  if (input.length > MAX_EFFECTS) return `At most ${MAX_EFFECTS} effects can be chained`;
+
+  for (const [index, effect] of input.entries()) {
+    const label = `Effect ${index + 1}`;
+    if (typeof effect !== 'object' || effect === null || Array.isArray(effect)) return `${label} must be an object`;
+    const fields = effect as Record<string, unknown>;
+    if (!EFFECT_TYPES.includes(fields.type as EffectType)) {
+      return `${label} type must be one of: ${EFFECT_TYPES.join(', ')}`;
+    }
+    const info = EFFECTS[fields.type as EffectType];
+
+    for (const [name, parameter] of Object.entries(info.parameters)) {
+      const error = checkNumber(fields[name], parameter, `${label} ${name}`);
+      if (error) return error;
+    }
+
+    if (fields.type === 'reverb' && !Object.keys(REVERB_ROOMS).includes(fields.room as string)) {
+      return `${label} room must be one of: ${Object.keys(REVERB_ROOMS).join(', ')}`;
+    }
+
+    if (fields.type === 'eq') {
+      if (!Array.isArray(fields.bands) || fields.bands.length > MAX_EQ_BANDS) {
+        return `${label} bands must be an array of at most ${MAX_EQ_BANDS} bands`;
+      }
+      for (const [bandIndex, band] of fields.bands.entries()) {
+        const bandLabel = `${label} band ${bandIndex + 1}`;
+        if (typeof band !== 'object' || band === null) return `${bandLabel} must be an object`;
+        const bandFields = band as Record<string, unknown>;
+        if (!EQ_BAND_SHAPES.includes(bandFields.shape as EqBandShape)) {
+          return `${bandLabel} shape must be one of: ${EQ_BAND_SHAPES.join(', ')}`;
+        }
+        for (const [name, parameter] of Object.entries(EQ_BAND_PARAMETERS)) {
+          const error = checkNumber(bandFields[name], parameter, `${bandLabel} ${name}`);
+          if (error) return error;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Short description of an effect's settings, for lists
+export function describeEffect(effect: AudioEffect): string {
+  switch (effect.type) {
+    case 'highpass':
+    case 'lowpass':
+      return `${effect.frequency} Hz`;
+    case 'eq':
+      return effect.bands.map(band => `${band.gain > 0 ? '+' : ''}${band.gain} dB @ ${band.frequency} Hz`).join(', ') || 'flat';
+    case 'deesser':
+      return `${effect.frequency} Hz, up to -${effect.reduction} dB`;
+    case 'compressor':
+      return `${effect.threshold} dB, ${effect.ratio}:1`;
+    case 'limiter':
+      return `${effect.ceiling} dB ceiling`;
+    case 'gate':
+      return `${effect.threshold} dB, -${effect.range} dB`;
+    case 'reverb':
+      return `${REVERB_ROOMS[effect.room].label}, ${Math.round(effect.mix * 100)}% wet`;
+  }
+}
@@ -0,0 +1,121 @@
+// Audio output formats
+//
+// The formats /api/generate-audio can return and the ranges of their encoder
+// parameters. Nothing here imports an encoder, so the client can build its
+// download options from the same lists the server validates against.
+
+import type { AudioEffect } from './audio-effects';
+import type { MusicBedInput } from './music-bed';
+import type { PauseSettings, SilenceSettings } from './silence';
+
+export type OutputFormat = 'wav' | 'mp3' | 'opus' | 'flac';
+
+export interface OutputFormatInfo {
+  label: string;
+  contentType: string;
+  extension: string;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  wav: { label: 'WAV (uncompressed)', contentType: 'audio/wav', extension: 'wav' },
+  mp3: { label: 'MP3', contentType: 'audio/mpeg', extension: 'mp3' },
+  opus: { label: 'Ogg Opus', contentType: 'audio/ogg; codecs=opus', extension: 'opus' },
+  flac: { label: 'FLAC (lossless)', contentType: 'audio/flac', extension: 'flac' }
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'wav';
+
+export type Mp3BitrateMode = 'cbr' | 'vbr';
+
+export const MP3_BITRATES = [32, 40, 48, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320] as const;
+export type Mp3Bitrate = typeof MP3_BITRATES[number];
+export const MP3_BITRATE_MODES: Mp3BitrateMode[] = ['cbr', 'vbr'];
+export const DEFAULT_MP3_BITRATE: Mp3Bitrate = 128;
+
+export const OPUS_BITRATE_RANGE: [number, number] = [6, 256];
+export const DEFAULT_OPUS_BITRATE = 32;
+export const OPUS_COMPLEXITY_RANGE: [number, number] = [0, 10];
+export const DEFAULT_OPUS_COMPLEXITY = 10;
+
+// WAV files can be written at other rates than the renderer's; G.711 μ-law
+// and A-law are 8-bit codecs for telephony, so bit depth only applies to PCM
+export const WAV_SAMPLE_RATES = [8000, 16000, 22050, 24000, 44100, 48000];
+export const DEFAULT_WAV_SAMPLE_RATE = 44100;
+export const WAV_BIT_DEPTHS = [16, 24, 32] as const; // 32 is floating point
+export type WavBitDepth = typeof WAV_BIT_DEPTHS[number];
+export const DEFAULT_WAV_BIT_DEPTH: WavBitDepth = 16;
+export const WAV_CHANNEL_COUNTS = [1, 2];
+export type WavEncoding = 'pcm' | 'mulaw' | 'alaw';
+export const WAV_ENCODINGS: WavEncoding[] = ['pcm', 'mulaw', 'alaw'];
+export const TELEPHONY_SAMPLE_RATE = 8000;
+
+export const FLAC_COMPRESSION_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+export const DEFAULT_FLAC_COMPRESSION_LEVEL = 5;
+
+// Encoder parameters sent with a download request; each format reads its own
+export interface ExportOptions {
+  outputFormat: OutputFormat;
+  bitrate?: number; // kbps, for MP3 and Opus
+  bitrateMode?: Mp3BitrateMode;
+  complexity?: number; // Opus
+  compressionLevel?: number; // FLAC
+  sampleRate?: number; // WAV
+  bitDepth?: WavBitDepth; // WAV
+  channels?: number; // WAV
+  encoding?: WavEncoding; // WAV
+  loudnessTarget?: number; // LUFS, any format; unset keeps the rendered level
+  truePeak?: number; // dBTP ceiling for loudness normalization
+  effects?: AudioEffect[]; // applied before loudness normalization
+  music?: MusicBedInput; // mixed under the voice after the effects
+  pauses?: PauseSettings; // unset keeps the renderer's own
+  silence?: SilenceSettings; // trimmed before the effects
+}
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && Object.keys(OUTPUT_FORMATS).includes(value);
+}
+
+export function isMp3Bitrate(value: unknown): value is Mp3Bitrate {
+  return MP3_BITRATES.includes(value as Mp3Bitrate);
+}
+
+export function isWavBitDepth(value: unknown): value is WavBitDepth {
+  return WAV_BIT_DEPTHS.includes(value as WavBitDepth);
+}
+
+// Default bitrate of the formats that take one
+export function defaultBitrate(format: OutputFormat): number | undefined {
+  if (format === 'mp3') return DEFAULT_MP3_BITRATE;
+  if (format === 'opus') return DEFAULT_OPUS_BITRATE;
+  return undefined;
+}
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/webm': 'webm'
+};
+
+// File extension for a MIME type such as "audio/ogg; codecs=opus"
+export function audioFileExtension(type: string): string {
+  const [mimeType, ...parameters] = type.toLowerCase().split(';').map(part => part.trim());
+  if (mimeType === 'audio/ogg' && parameters.includes('codecs=opus')) return 'opus';
+  return EXTENSIONS_BY_TYPE[mimeType] || 'wav';
+}
+
+// The output format a stored render's MIME type names, or null for anything
+// else. Browsers write parameters without spaces, so they are compared
+// trimmed: "audio/ogg;codecs=opus" is Opus.
+export function outputFormatForType(type: string): OutputFormat | null {
+  const normalize = (value: string) => value.toLowerCase().split(';').map(part => part.trim()).join(';');
+  const format = (Object.keys(OUTPUT_FORMATS) as OutputFormat[])
+    .find(name => normalize(OUTPUT_FORMATS[name].contentType) === normalize(type));
+  return format ?? null;
+}
@@ -0,0 +1,61 @@
+// Audio file metadata
+//
+// What a downloaded file says about itself. The user fills in the descriptive
+// fields; the server adds the language, voice, settings, time of generation
+// and the source text or its hash, and each encoder writes the result in its
+// container's own tag format.
+
+// Fields the user supplies with a download request
+export interface MetadataInput {
+  title?: string;
+  author?: string;
+  album?: string; // album or project
+  comment?: string;
+  includeSourceText?: boolean; // embed the full text, not only its hash
+}
+
+export const METADATA_TEXT_FIELDS = ['title', 'author', 'album', 'comment'] as const;
+export const MAX_METADATA_FIELD_LENGTH = 1000;
+
+export interface AudioMetadata {
+  title?: string;
+  author?: string;
+  album?: string;
+  comment?: string;
+  language?: string; // BCP 47 tag such as "en-GB"
+  voice?: string;
+  settings: string;
+  createdAt: string; // ISO 8601
+  software: string;
+  sourceHash: string; // SHA-256 of the input text, in hex
+  sourceText?: string;
+}
+
+export const METADATA_SOFTWARE = 'Text to Audio';
+
+// Rate, pitch and volume as one readable line
+export function describeSettings(settings: { rate: number; pitch: number; volume: number }): string {
+  return `rate ${settings.rate}, pitch ${settings.pitch}, volume ${settings.volume}`;
+}
+
+// Returns a message for the first invalid field, or null
+export function validateMetadataInput(input: unknown): string | null {
+  if (input === undefined) return null;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Metadata must be an object';
+  }
+
+  const fields = input as Record<string, unknown>;
+  for (const field of METADATA_TEXT_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') return `Metadata ${field} must be a string`;
+    if (value.length > MAX_METADATA_FIELD_LENGTH) {
+      return `Metadata ${field} must be at most ${MAX_METADATA_FIELD_LENGTH} characters`;
+    }
+  }
+  if (fields.includeSourceText !== undefined && typeof fields.includeSourceText !== 'boolean') {
+    return 'Metadata includeSourceText must be a boolean';
+  }
+  return null;
+}
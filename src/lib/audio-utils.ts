@@ -1,5 +1,18 @@
 // Audio utility functions for text-to-speech functionality
 
+import { NormalizedText, normalizeText, toSourceRange } from './text-normalizer';
+import { InputFormat, parseSsml, SsmlProsody, ssmlToPlainText } from './ssml';
+import { chunkSpeech, splitSentences, TextRange } from './text-chunker';
+import { audioFileExtension, DEFAULT_OUTPUT_FORMAT, ExportOptions } from './audio-formats';
+import { MetadataInput } from './audio-metadata';
+import { CaptionFormat, CaptionOptions, DEFAULT_CAPTION_OPTIONS, Timings } from './captions';
+import { castVoice, DEFAULT_TURN_GAP, parseScript, scriptToPlainText } from './dialogue-script';
+import { isFinished, RenderJobView } from './jobs';
+import { LoudnessMeasurement, LOUDNESS_PRESETS, readLoudnessHeaders } from './loudness';
+import { MAX_MUSIC_BED_SECONDS, MUSIC_BED_SAMPLE_RATE } from './music-bed';
+import { PauseSettings } from './silence';
+import { encodeWav } from './tts/wav-encoder';
+
 export interface VoiceSettings {
   rate: number;
   pitch: number;
@@ -7,19 +20,221 @@ export interface VoiceSettings {
   voice: SpeechSynthesisVoice | null;
 }
 
+// Voice settings in a form that can be stored: browser voices are kept by
+// name and language and looked up again when restored
+export interface SavedVoiceSettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceName: string | null;
+  voiceLang: string | null;
+}
+
+export function saveVoiceSettings(settings: VoiceSettings): SavedVoiceSettings {
+  return {
+    rate: settings.rate,
+    pitch: settings.pitch,
+    volume: settings.volume,
+    voiceName: settings.voice?.name ?? null,
+    voiceLang: settings.voice?.lang ?? null
+  };
+}
+
+// How closely an installed voice matched a saved one
+export type VoiceMatch = 'exact' | 'name' | 'language' | 'none';
+
+// Language tags compare case-insensitively, with "_" as some platforms write it
+const languageTag = (lang: string) => lang.replace(/_/g, '-').toLowerCase();
+
+// Find a saved voice among the installed ones: by name and language, then by
+// name, then another voice for the same language, then one for the same base
+// language ("en-AU" for "en-GB"). Among language matches the browser's
+// default voice wins.
+export function matchVoice(
+  name: string | null,
+  lang: string | null,
+  voices: SpeechSynthesisVoice[]
+): { voice: SpeechSynthesisVoice | null; match: VoiceMatch } {
+  const tag = lang ? languageTag(lang) : null;
+  const byName = name !== null ? voices.filter(v => v.name === name) : [];
+  const exact = byName.find(v => tag !== null && languageTag(v.lang) === tag);
+  if (exact) return { voice: exact, match: 'exact' };
+  if (byName.length > 0) return { voice: byName[0], match: 'name' };
+  if (tag === null) return { voice: null, match: 'none' };
+
+  const base = tag.split('-')[0];
+  const sameLanguage = voices.filter(v => languageTag(v.lang) === tag);
+  const sameBase = voices.filter(v => languageTag(v.lang).split('-')[0] === base);
+  for (const candidates of [sameLanguage, sameBase]) {
+    const voice = candidates.find(v => v.default) || candidates[0];
+    if (voice) return { voice, match: 'language' };
+  }
+  return { voice: null, match: 'none' };
+}
+
+// Settings with the saved voice, or the fallback when nothing installed fits
+export function restoreVoiceSettings(
+  saved: SavedVoiceSettings,
+  voices: SpeechSynthesisVoice[],
+  fallback: SpeechSynthesisVoice | null = null
+): VoiceSettings {
+  const { voice } = matchVoice(saved.voiceName, saved.voiceLang, voices);
+  return { rate: saved.rate, pitch: saved.pitch, volume: saved.volume, voice: voice ?? fallback };
+}
+
+export interface SavedDialogueSettings {
+  cast: Record<string, SavedVoiceSettings>;
+  turnGap: number;
+}
+
+export function saveDialogueSettings(dialogue: DialogueSettings): SavedDialogueSettings {
+  const cast = Object.fromEntries(Object.entries(dialogue.cast).map(([name, voice]) => [name, saveVoiceSettings(voice)]));
+  return { cast, turnGap: dialogue.turnGap };
+}
+
+export function restoreDialogueSettings(saved: SavedDialogueSettings, voices: SpeechSynthesisVoice[]): DialogueSettings {
+  const cast = Object.fromEntries(
+    Object.entries(saved.cast).map(([name, voice]) => [name, restoreVoiceSettings(voice, voices)])
+  );
+  return { cast, turnGap: saved.turnGap };
+}
+
+// Installed voices. Some browsers list none until voiceschanged fires, so
+// wait for it, but not forever.
+export function loadVoices(timeoutMs = 2000): Promise<SpeechSynthesisVoice[]> {
+  const synth = window.speechSynthesis;
+  const voices = synth.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    const timer = setTimeout(done, timeoutMs);
+    synth.addEventListener('voiceschanged', done);
+  });
+}
+
 export interface TTSOptions {
   text: string;
   voice?: SpeechSynthesisVoice | null;
   rate?: number;
   pitch?: number;
   volume?: number;
+  // Expand numbers, dates, abbreviations etc. before speaking (default true)
+  normalize?: boolean;
+  // Normalization locale; defaults to the voice language
+  locale?: string;
+  // Treat text as SSML markup or a dialogue script (default "text")
+  format?: InputFormat;
+  // Speaker voices and the gap between turns, for scripts
+  dialogue?: DialogueSettings;
+  // Pauses after commas, sentences and paragraphs of plain text and scripts,
+  // as timed gaps between utterances; unset leaves them to the browser
+  pauses?: PauseSettings;
+  // Longest timed gap in seconds; longer breaks, turn gaps and pauses are cut
+  maxSilence?: number | null;
+}
+
+// Voice for each speaker of a dialogue script, by name as written in it
+export type SpeakerCast = Record<string, VoiceSettings>;
+
+export interface DialogueSettings {
+  cast: SpeakerCast;
+  turnGap: number; // seconds
+}
+
+// An utterance to speak, or a pause in seconds between utterances.
+// Utterances are created as they are reached so long texts start at once.
+interface QueuedUtterance {
+  options: TTSOptions;
+  sourceStart: number | null; // offset of the utterance text in the text given to speak()
+}
+
+type PlaybackStep = QueuedUtterance | number;
+
+// The utterance being spoken and the last word boundary reported for it
+interface ActiveUtterance {
+  text: string;
+  normalized: NormalizedText | null;
+  sourceStart: number | null;
+  word: TextRange | null;
+  charIndex: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const sameProsody = (a: SsmlProsody, b: SsmlProsody) =>
+  a.rate === b.rate && a.pitch === b.pitch && a.volume === b.volume;
+
+export interface PlaybackState {
+  isPlaying: boolean;
+  isPaused: boolean;
+  isIdle: boolean;
+  segmentIndex: number; // queue position being played, -1 when idle
+  segmentCount: number;
+  elapsed: number; // seconds of playback, excluding pauses
+  duration: number; // measured for finished segments, estimated for the rest
+  // Word being spoken, as offsets into the text given to speak(). Estimated
+  // from timing when the browser does not fire boundary events.
+  word: TextRange | null;
+  wordEstimated: boolean;
+}
+
+export type PlaybackListener = (state: PlaybackState) => void;
+
+// Where to start playing: a character offset into the text, or a point on
+// the playback timeline in seconds
+type PlaybackStart = { offset: number } | { time: number };
+
+// Clauses of a sentence, split after its commas
+function clauseRanges(text: string, sentence: TextRange): TextRange[] {
+  const clauses: TextRange[] = [];
+  const comma = /,\s+/g;
+  comma.lastIndex = sentence.start;
+  let start = sentence.start;
+  let match: RegExpExecArray | null;
+  while ((match = comma.exec(text)) && match.index < sentence.end) {
+    clauses.push({ start, end: match.index + 1 });
+    start = match.index + match[0].length;
+  }
+  if (start < sentence.end) clauses.push({ start, end: sentence.end });
+  return clauses;
+}
+
+// Start of the word containing index
+function wordStartAt(text: string, index: number): number {
+  let start = Math.max(0, Math.min(index, text.length));
+  while (start > 0 && /\S/.test(text[start - 1])) start--;
+  return start;
+}
+
+// End of the word starting at index, for engines that omit charLength
+function wordEndAt(text: string, index: number): number {
+  const match = /^\S+/.exec(text.slice(index));
+  return index + (match ? match[0].length : 0);
 }
 
 export class TextToSpeechManager {
   private synth: SpeechSynthesis;
-  private utterance: SpeechSynthesisUtterance | null = null;
+  private active: ActiveUtterance | null = null;
+  private listeners = new Set<PlaybackListener>();
   private isPlaying = false;
   private isPaused = false;
+  private session = 0;
+  private options: TTSOptions | null = null; // last options played, for seeking
+
+  // Sentence-sized queue: Chromium silently stops utterances after ~15 seconds
+  private queue: PlaybackStep[] = [];
+  private queueIndex = -1;
+  private segmentDurations: number[] = [];
+  private segmentLeads: number[] = []; // seconds skipped at the start of a segment by a seek
+  private segmentElapsed = 0; // playing time banked for the current segment
+  private segmentResumedAt: number | null = null;
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private settle: { resolve: () => void; reject: (error: Error) => void } | null = null;
 
   constructor() {
     this.synth = window.speechSynthesis;
@@ -32,78 +247,458 @@ export class TextToSpeechManager {
 
   // Create and configure utterance
   createUtterance(options: TTSOptions): SpeechSynthesisUtterance {
-    const utterance = new SpeechSynthesisUtterance(options.text);
+    const text = options.normalize === false
+      ? options.text
+      : normalizeText(options.text, { locale: options.locale || options.voice?.lang }).text;
+    const utterance = new SpeechSynthesisUtterance(text);
     
     if (options.voice) {
       utterance.voice = options.voice;
     }
     
     utterance.rate = options.rate || 1;
-    utterance.pitch = options.pitch || 1;
-    utterance.volume = options.volume || 1;
+    utterance.pitch = options.pitch ?? 1;
+    utterance.volume = options.volume ?? 1;
 
     return utterance;
   }
 
-  // Speak text with options
+  // Split plain text into sentence-sized utterances. With pause lengths set,
+  // each clause is spoken on its own with the pauses as timed gaps between.
+  private createTextSteps(options: TTSOptions, offset = 0): PlaybackStep[] {
+    const { text, pauses } = options;
+    const rate = options.rate || 1;
+    if (!pauses) {
+      return chunkSpeech(text, rate).map(chunk => ({
+        options: { ...options, text: chunk.text },
+        sourceStart: offset + chunk.start
+      }));
+    }
+
+    const steps: PlaybackStep[] = [];
+    const sentences = splitSentences(text);
+    sentences.forEach((sentence, index) => {
+      if (index > 0) {
+        const paragraphBreak = /\n\s*\n/.test(text.slice(sentences[index - 1].end, sentence.start));
+        steps.push((paragraphBreak ? pauses.paragraph : pauses.sentence) / rate);
+      }
+      clauseRanges(text, sentence).forEach((clause, clauseIndex) => {
+        if (clauseIndex > 0 && pauses.comma > 0) steps.push(pauses.comma / rate);
+        for (const chunk of chunkSpeech(text.slice(clause.start, clause.end), rate)) {
+          steps.push({ options: { ...options, text: chunk.text }, sourceStart: offset + clause.start + chunk.start });
+        }
+      });
+    });
+    return steps;
+  }
+
+  // Split SSML into utterances with per-segment rate, pitch and volume.
+  // Web Speech has no silence primitive, so breaks become timed gaps. SSML
+  // segments do not keep source offsets, so words are not highlighted.
+  private createSsmlSteps(options: TTSOptions): PlaybackStep[] {
+    const locale = options.locale || options.voice?.lang;
+    const document = parseSsml(options.text, { locale });
+    const steps: PlaybackStep[] = [];
+    let pending: { text: string; prosody: SsmlProsody; normalized: boolean } | null = null;
+
+    const flush = () => {
+      if (pending && pending.text.trim()) {
+        const { prosody, normalized } = pending;
+        const text = pending.text.replace(/\s+/g, ' ').trim();
+        const rate = clamp((options.rate || 1) * prosody.rate, 0.1, 10);
+        for (const chunk of chunkSpeech(text, rate)) {
+          steps.push({
+            options: {
+              ...options,
+              text: chunk.text,
+              normalize: options.normalize !== false && !normalized,
+              locale,
+              rate,
+              pitch: clamp((options.pitch ?? 1) * prosody.pitch, 0, 2),
+              volume: clamp((options.volume ?? 1) * prosody.volume, 0, 1)
+            },
+            sourceStart: null
+          });
+        }
+      }
+      pending = null;
+    };
+
+    for (const segment of document.segments) {
+      if (segment.type === 'break') {
+        flush();
+        steps.push(segment.duration);
+      } else if (pending && sameProsody(pending.prosody, segment.prosody) && pending.normalized === segment.normalized) {
+        pending.text += segment.text;
+      } else {
+        flush();
+        pending = { text: segment.text, prosody: segment.prosody, normalized: segment.normalized };
+      }
+    }
+    flush();
+
+    return steps;
+  }
+
+  // Split a dialogue script into utterances in each speaker's voice, with a
+  // timed gap between turns. Speakers without a voice use the options' own.
+  private createScriptSteps(options: TTSOptions): PlaybackStep[] {
+    const { cast, turnGap } = options.dialogue ?? { cast: {}, turnGap: DEFAULT_TURN_GAP };
+    const steps: PlaybackStep[] = [];
+
+    parseScript(options.text).turns.forEach((turn, index) => {
+      if (index > 0 && turnGap > 0) steps.push(turnGap);
+      const voice = castVoice(cast, turn.speaker);
+      const turnOptions = voice
+        ? { ...options, voice: voice.voice ?? options.voice, rate: voice.rate, pitch: voice.pitch, volume: voice.volume }
+        : options;
+      steps.push(...this.createTextSteps({ ...turnOptions, text: turn.text }, turn.start));
+    });
+
+    return steps;
+  }
+
+  private createSteps(options: TTSOptions): PlaybackStep[] {
+    let steps: PlaybackStep[];
+    if (options.format === 'ssml') steps = this.createSsmlSteps(options);
+    else if (options.format === 'script') steps = this.createScriptSteps(options);
+    else steps = this.createTextSteps(options);
+
+    const { maxSilence } = options;
+    if (maxSilence === undefined || maxSilence === null) return steps;
+    return steps.map(step => (typeof step === 'number' ? Math.min(step, maxSilence) : step));
+  }
+
+  // Speak text with options; resolves when the last queued segment finishes
   speak(options: TTSOptions): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isPlaying) {
+    return this.play(options, { offset: 0 });
+  }
+
+  // Restart from a character offset into the text, with new settings if
+  // given. SSML keeps no source offsets, so it is sought by time instead.
+  seek(offset: number, options?: TTSOptions): Promise<void> {
+    const target = options || this.options;
+    if (!target) return Promise.resolve();
+    if (target.format === 'ssml') {
+      const { duration } = this.getState();
+      return this.play(target, { time: duration * (offset / Math.max(1, target.text.length)) });
+    }
+    return this.play(target, { offset });
+  }
+
+  // Restart from a point on the playback timeline, in seconds
+  seekTime(seconds: number, options?: TTSOptions): Promise<void> {
+    const target = options || this.options;
+    if (!target) return Promise.resolve();
+    return this.play(target, { time: seconds });
+  }
+
+  // Jump to the start of the next sentence, or back to the start of the
+  // current one (the previous one when already at its first word). SSML
+  // moves between utterances.
+  skipSentence(direction: 1 | -1, options?: TTSOptions): Promise<void> {
+    const target = options || this.options;
+    if (!target) return Promise.resolve();
+
+    if (target.format === 'ssml') {
+      const index = Math.max(0, this.queueIndex);
+      const next = Math.max(0, Math.min(this.queue.length, index + direction));
+      const time = this.segmentDurations.slice(0, next).reduce((sum, duration) => sum + duration, 0);
+      return this.play(target, { time });
+    }
+
+    const offset = this.currentOffset();
+    const sentences = splitSentences(target.text);
+    let current = sentences.length - 1;
+    while (current > 0 && sentences[current].start > offset) current--;
+    if (sentences.length === 0) return Promise.resolve();
+
+    if (direction > 0) {
+      if (current + 1 >= sentences.length) {
         this.stop();
+        return Promise.resolve();
       }
+      return this.play(target, { offset: sentences[current + 1].start });
+    }
+    const sentence = sentences[current];
+    const atFirstWord = offset <= wordEndAt(target.text, sentence.start);
+    return this.play(target, { offset: sentences[atFirstWord ? Math.max(0, current - 1) : current].start });
+  }
 
-      this.utterance = this.createUtterance(options);
-      
-      this.utterance.onstart = () => {
-        this.isPlaying = true;
-        this.isPaused = false;
-      };
+  // Character offset being spoken, for text-format playback
+  private currentOffset(): number {
+    const highlight = this.currentWord();
+    if (highlight) return highlight.word.start;
+    const step = this.queue[this.queueIndex];
+    return step !== undefined && typeof step !== 'number' && step.sourceStart !== null ? step.sourceStart : 0;
+  }
 
-      this.utterance.onend = () => {
-        this.isPlaying = false;
-        this.isPaused = false;
-        resolve();
-      };
+  // Queue the whole text and start playing from the given position. Steps
+  // before it keep their estimated durations so the timeline stays whole.
+  private play(options: TTSOptions, start: PlaybackStart): Promise<void> {
+    if (this.isPlaying) {
+      this.stop();
+    }
 
-      this.utterance.onerror = (event) => {
-        this.isPlaying = false;
-        this.isPaused = false;
-        reject(new Error(`Speech synthesis error: ${event.error}`));
-      };
+    const steps = this.createSteps(options);
+    const durations = steps.map(step =>
+      typeof step === 'number' ? step : estimateDuration(step.options.text, step.options.rate || 1)
+    );
+    const leads = steps.map(() => 0);
+
+    let index = 0;
+    let offset = 'offset' in start ? start.offset : null;
+    if ('time' in start) {
+      let remaining = Math.max(0, start.time);
+      while (index < steps.length - 1 && remaining >= durations[index]) {
+        remaining -= durations[index];
+        index++;
+      }
+      // Plain text can start mid-utterance at the word reached by then
+      const step = steps[index];
+      if (step !== undefined && typeof step !== 'number' && step.sourceStart !== null && durations[index] > 0) {
+        offset = step.sourceStart + Math.floor(step.options.text.length * Math.min(1, remaining / durations[index]));
+      }
+    }
+
+    // SSML steps have no source offsets and always start from the top
+    if (offset !== null && offset > 0) {
+      const target = offset;
+      index = steps.findIndex(step =>
+        typeof step !== 'number' && step.sourceStart !== null && step.sourceStart + step.options.text.length > target
+      );
+      if (index === -1) index = steps.length;
+
+      const step = steps[index];
+      if (step !== undefined && typeof step !== 'number' && step.sourceStart !== null) {
+        const from = wordStartAt(options.text, Math.max(offset, step.sourceStart));
+        if (from > step.sourceStart) {
+          const text = step.options.text.slice(from - step.sourceStart);
+          steps[index] = { options: { ...step.options, text }, sourceStart: from };
+          const remaining = estimateDuration(text, step.options.rate || 1);
+          leads[index] = Math.max(0, durations[index] - remaining);
+          durations[index] = remaining;
+        }
+      }
+    }
+
+    this.session++;
+    this.options = options;
+    this.queue = steps;
+    this.segmentDurations = durations;
+    this.segmentLeads = leads;
 
-      this.synth.speak(this.utterance);
+    return new Promise((resolve, reject) => {
+      this.settle = { resolve, reject };
+      this.isPlaying = true;
+      this.isPaused = false;
+      this.playSegment(index);
     });
   }
 
+  // Start the queue entry at index, or finish when the queue is exhausted
+  private playSegment(index: number): void {
+    const session = this.session;
+    this.queueIndex = index;
+    this.segmentElapsed = 0;
+    this.segmentResumedAt = Date.now();
+    this.active = null;
+
+    if (index >= this.queue.length) {
+      this.finish();
+      return;
+    }
+
+    const step = this.queue[index];
+    if (typeof step === 'number') {
+      this.startGap(step * 1000);
+      this.emit();
+      return;
+    }
+
+    // Normalize here rather than in createUtterance so boundary offsets can
+    // be mapped back onto the original text
+    const { options, sourceStart } = step;
+    const normalized = options.normalize === false
+      ? null
+      : normalizeText(options.text, { locale: options.locale || options.voice?.lang });
+    const utterance = this.createUtterance({ ...options, text: normalized ? normalized.text : options.text, normalize: false });
+    const active: ActiveUtterance = { text: utterance.text, normalized, sourceStart, word: null, charIndex: 0 };
+    this.active = active;
+
+    utterance.onboundary = (event) => {
+      if (session !== this.session) return;
+      active.charIndex = event.charIndex;
+      if (event.name === 'word') {
+        const end = event.charLength ? event.charIndex + event.charLength : wordEndAt(active.text, event.charIndex);
+        active.word = { start: event.charIndex, end };
+      }
+      this.emit();
+    };
+    utterance.onend = () => {
+      if (session !== this.session) return;
+      this.segmentDurations[index] = this.segmentLeads[index] + this.currentSegmentElapsed();
+      this.playSegment(index + 1);
+    };
+    utterance.onerror = (event) => {
+      if (session !== this.session) return;
+      this.finish(new Error(`Speech synthesis error: ${event.error}`));
+    };
+    this.synth.speak(utterance);
+    this.emit();
+  }
+
+  // Breaks are timed gaps between utterances
+  private startGap(milliseconds: number): void {
+    const index = this.queueIndex;
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = null;
+      this.playSegment(index + 1);
+    }, milliseconds);
+  }
+
+  private currentSegmentElapsed(): number {
+    const running = this.segmentResumedAt !== null ? (Date.now() - this.segmentResumedAt) / 1000 : 0;
+    return this.segmentElapsed + running;
+  }
+
+  // Settle the pending speak() promise and return to idle
+  private finish(error?: Error): void {
+    const settle = this.settle;
+    this.session++;
+    this.settle = null;
+    this.active = null;
+    this.queue = [];
+    this.queueIndex = -1;
+    this.segmentDurations = [];
+    this.segmentLeads = [];
+    this.segmentElapsed = 0;
+    this.segmentResumedAt = null;
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    this.isPlaying = false;
+    this.isPaused = false;
+
+    this.emit();
+    if (error) settle?.reject(error);
+    else settle?.resolve();
+  }
+
+  // Word being spoken in source-text offsets: the last boundary event, or a
+  // guess from elapsed time while none has arrived for this utterance
+  private currentWord(): { word: TextRange; estimated: boolean } | null {
+    const active = this.active;
+    if (!active || active.sourceStart === null) return null;
+
+    let word = active.word;
+    let estimated = false;
+    if (!word) {
+      const expected = this.segmentDurations[this.queueIndex] || 1;
+      const target = Math.min(0.999, this.currentSegmentElapsed() / expected) * active.text.length;
+      const words = Array.from(active.text.matchAll(/\S+/g));
+      const match = words.find(w => (w.index ?? 0) + w[0].length > target) || words[words.length - 1];
+      if (!match) return null;
+      word = { start: match.index ?? 0, end: (match.index ?? 0) + match[0].length };
+      estimated = true;
+    }
+
+    const range = active.normalized ? toSourceRange(active.normalized, word.start, word.end) : word;
+    return {
+      word: { start: active.sourceStart + range.start, end: active.sourceStart + range.end },
+      estimated
+    };
+  }
+
+  // Listen for boundary, segment and play-state changes
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    if (this.listeners.size === 0) return;
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
   // Pause speech
   pause(): void {
-    if (this.isPlaying && !this.isPaused) {
+    if (!this.isPlaying || this.isPaused) return;
+
+    this.segmentElapsed = this.currentSegmentElapsed();
+    this.segmentResumedAt = null;
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    } else {
       this.synth.pause();
-      this.isPaused = true;
     }
+    this.isPaused = true;
+    this.emit();
   }
 
   // Resume speech
   resume(): void {
-    if (this.isPaused) {
+    if (!this.isPaused) return;
+
+    this.segmentResumedAt = Date.now();
+    const step = this.queue[this.queueIndex];
+    if (typeof step === 'number') {
+      this.startGap(Math.max(0, step - this.segmentElapsed) * 1000);
+    } else {
       this.synth.resume();
-      this.isPaused = false;
     }
+    this.isPaused = false;
+    this.emit();
   }
 
-  // Stop speech
+  // Stop speech and drop the rest of the queue
   stop(): void {
     this.synth.cancel();
-    this.isPlaying = false;
-    this.isPaused = false;
+    // Chromium stays paused across cancel() and would swallow the next speak()
+    if (this.synth.paused) this.synth.resume();
+    this.finish();
   }
 
   // Get current state
-  getState() {
+  getState(): PlaybackState {
+    const index = this.queueIndex;
+    const highlight = this.currentWord();
+    let elapsed = 0;
+    let duration = 0;
+
+    this.segmentDurations.forEach((segmentDuration, i) => {
+      if (i < index) {
+        elapsed += segmentDuration;
+        duration += segmentDuration;
+      } else if (i === index) {
+        const current = this.currentSegmentElapsed();
+        // Boundary events tell how far through the utterance we are
+        const active = this.active;
+        const spoken = active && active.charIndex > 0 ? active.charIndex / active.text.length : 0;
+        const expected = spoken > 0.2 ? current / spoken : segmentDuration;
+        const lead = this.segmentLeads[i] || 0;
+        elapsed += lead + current;
+        duration += lead + Math.max(current, expected);
+      } else {
+        duration += segmentDuration;
+      }
+    });
+
     return {
       isPlaying: this.isPlaying,
       isPaused: this.isPaused,
-      isIdle: !this.isPlaying && !this.isPaused
+      isIdle: !this.isPlaying && !this.isPaused,
+      segmentIndex: index,
+      segmentCount: this.queue.length,
+      elapsed,
+      duration,
+      word: highlight ? highlight.word : null,
+      wordEstimated: highlight ? highlight.estimated : false
     };
   }
 
@@ -113,34 +708,319 @@ export class TextToSpeechManager {
   }
 }
 
-// Create audio blob using server-side TTS API
-export async function createAudioBlob(text: string, settings: VoiceSettings): Promise<Blob> {
+// Request fields voicing each speaker of a script with the server renderer
+function dialogueFields(format: InputFormat, dialogue?: DialogueSettings) {
+  if (format !== 'script' || !dialogue) return {};
+  const speakers = Object.fromEntries(
+    Object.entries(dialogue.cast).map(([name, voice]) => [name, {
+      rate: voice.rate,
+      pitch: voice.pitch,
+      volume: voice.volume,
+      voiceName: voice.voice?.name,
+      locale: voice.voice?.lang
+    }])
+  );
+  return { speakers, turnGap: dialogue.turnGap };
+}
+
+// Body of a request to render audio on the server
+function audioRequestBody(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat,
+  exportOptions: ExportOptions,
+  metadata?: MetadataInput,
+  dialogue?: DialogueSettings
+) {
+  return {
+    text: text.trim(),
+    rate: settings.rate,
+    pitch: settings.pitch,
+    volume: settings.volume,
+    voiceName: settings.voice?.name || 'default',
+    locale: settings.voice?.lang,
+    format,
+    ...dialogueFields(format, dialogue),
+    ...exportOptions,
+    metadata
+  };
+}
+
+// Loudness the server measured in the audio it returned, by blob
+const reportedLoudness = new WeakMap<Blob, LoudnessMeasurement>();
+
+export function getReportedLoudness(blob: Blob): LoudnessMeasurement | null {
+  return reportedLoudness.get(blob) ?? null;
+}
+
+// When each word and sentence is heard in audio from a render job, by blob
+const reportedTimings = new WeakMap<Blob, Timings>();
+
+export function getReportedTimings(blob: Blob): Timings | null {
+  return reportedTimings.get(blob) ?? null;
+}
+
+// Render audio on the server, throwing with the server's message when it
+// refuses the request
+export async function requestServerAudio(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat = 'text',
+  exportOptions: ExportOptions = { outputFormat: DEFAULT_OUTPUT_FORMAT },
+  metadata?: MetadataInput,
+  dialogue?: DialogueSettings,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const response = await fetch('/api/generate-audio', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(audioRequestBody(text, settings, format, exportOptions, metadata, dialogue)),
+    signal
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Audio generation failed with status ${response.status}`);
+  }
+  const blob = await response.blob();
+  const loudness = readLoudnessHeaders(response.headers);
+  if (loudness) reportedLoudness.set(blob, loudness);
+  return blob;
+}
+
+// Decode a music bed file in the browser, which reads MP3 as well as WAV,
+// and return it as base64 16-bit mono WAV for the server's mixer. Long files
+// are cut to the longest bed a request can carry.
+export async function encodeMusicBedFile(file: File): Promise<string> {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
   try {
-    // First, try to use server-side TTS API for better audio file generation
-    const response = await fetch('/api/generate-audio', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: text.trim(),
-        rate: settings.rate,
-        pitch: settings.pitch,
-        volume: settings.volume,
-        voiceName: settings.voice?.name || 'default'
-      })
-    });
+    decoded = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`${file.name} is not an audio file this browser can decode`);
+  } finally {
+    context.close();
+  }
+
+  // Rendering offline to one channel resamples and mixes down in one go
+  const duration = Math.min(decoded.duration, MAX_MUSIC_BED_SECONDS);
+  const sampleCount = Math.ceil(duration * MUSIC_BED_SAMPLE_RATE);
+  const offline = new OfflineAudioContext(1, sampleCount, MUSIC_BED_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = (await offline.startRendering()).getChannelData(0);
+  const samples = Int16Array.from(rendered, sample => Math.max(-32768, Math.min(32767, Math.round(sample * 32767))));
+
+  const wav = await encodeWav({ chunks: [samples], sampleRate: MUSIC_BED_SAMPLE_RATE, sampleCount, duration, words: [] });
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(wav);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+// Ask the server to stream its render as 16-bit WAV, for playback while the
+// rest is still being synthesized
+export async function requestAudioStream(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat = 'text',
+  metadata?: MetadataInput,
+  dialogue?: DialogueSettings,
+  processing: Pick<ExportOptions, 'effects' | 'pauses' | 'silence'> = {},
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch('/api/generate-audio', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...audioRequestBody(text, settings, format, {
+        outputFormat: 'wav',
+        effects: processing.effects,
+        pauses: processing.pauses,
+        silence: processing.silence
+      }, metadata, dialogue),
+      stream: true
+    }),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Audio streaming failed with status ${response.status}`);
+  }
+  return response.body;
+}
+
+export interface RenderProgressOptions {
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+const JOB_POLL_INTERVAL = 500; // ms
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// An error for a response the server answered with an error status, which
+// keeps the status so callers can tell a rejected request from a failed one
+function responseError(response: Response, message: string): Error {
+  return Object.assign(new Error(message), { status: response.status });
+}
+
+// Whether the server could not be reached or failed on its side, rather than
+// rejecting the request as invalid
+function isServerFailure(error: unknown): boolean {
+  // fetch rejects with a TypeError when there is no response at all
+  if (error instanceof TypeError) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || status >= 500;
+}
+
+async function readJob(response: Response): Promise<RenderJobView> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw responseError(response, body?.error || `Render job request failed with status ${response.status}`);
+  return body.job;
+}
 
-    if (response.ok) {
-      const blob = await response.blob();
-      return blob;
+// Render audio with a server render job, polling it for progress. Aborting
+// the signal cancels the job on the server.
+export async function requestServerAudioJob(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat = 'text',
+  exportOptions: ExportOptions = { outputFormat: DEFAULT_OUTPUT_FORMAT },
+  metadata?: MetadataInput,
+  dialogue?: DialogueSettings,
+  options: RenderProgressOptions = {}
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+  let job = await readJob(await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(audioRequestBody(text, settings, format, exportOptions, metadata, dialogue)),
+    signal
+  }));
+
+  const cancel = () => {
+    fetch(job.statusUrl, { method: 'DELETE', keepalive: true }).catch(() => {});
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    while (!isFinished(job.status)) {
+      onProgress?.(job.progress);
+      await wait(JOB_POLL_INTERVAL, signal);
+      job = await readJob(await fetch(job.statusUrl, { signal }));
     }
+    if (job.status !== 'completed' || !job.audioUrl) {
+      throw new Error(job.error || `Render job ${job.status}`);
+    }
+    onProgress?.(1);
+
+    const response = await fetch(job.audioUrl, { signal });
+    if (!response.ok) throw responseError(response, `Render job download failed with status ${response.status}`);
+    const blob = await response.blob();
+    if (job.loudness) reportedLoudness.set(blob, job.loudness);
+    if (job.timings) reportedTimings.set(blob, job.timings);
+    // The server keeps finished jobs for a while; this one has been collected
+    fetch(job.statusUrl, { method: 'DELETE' }).catch(() => {});
+    return blob;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// Create audio blob using server-side TTS API. The server renders it as a job,
+// part by part, and reports how far along it is to onProgress. The browser
+// records it instead only when the server is unreachable or fails.
+export async function createAudioBlob(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat = 'text',
+  exportOptions: ExportOptions = { outputFormat: DEFAULT_OUTPUT_FORMAT },
+  metadata?: MetadataInput,
+  dialogue?: DialogueSettings,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  try {
+    // First, try to use server-side TTS API for better audio file generation
+    return await requestServerAudioJob(text, settings, format, exportOptions, metadata, dialogue, { onProgress });
   } catch (error) {
+    // A request the server rejected would be just as wrong rendered here
+    if (!isServerFailure(error)) throw error;
     console.warn('Server-side TTS failed, using fallback:', error);
   }
 
   // Fallback: Use client-side approach with MediaRecorder
-  return createClientSideAudioBlob(text, settings);
+  let plainText = text;
+  if (format === 'ssml') plainText = ssmlToPlainText(parseSsml(text));
+  else if (format === 'script') plainText = scriptToPlainText(parseScript(text));
+  return createClientSideAudioBlob(plainText, settings);
+}
+
+// Fetch captions timed against the audio the server renders for the same
+// text and settings, pauses, trimmed silence and a music bed's intro included
+export async function createCaptionsBlob(
+  text: string,
+  settings: VoiceSettings,
+  format: InputFormat = 'text',
+  captionFormat: CaptionFormat = 'vtt',
+  options: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+  dialogue?: DialogueSettings,
+  timing: Pick<ExportOptions, 'pauses' | 'silence' | 'music'> = {}
+): Promise<Blob> {
+  const response = await fetch('/api/generate-captions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text: text.trim(),
+      rate: settings.rate,
+      pitch: settings.pitch,
+      volume: settings.volume,
+      voiceName: settings.voice?.name || 'default',
+      locale: settings.voice?.lang,
+      format,
+      ...dialogueFields(format, dialogue),
+      captionFormat,
+      ...options,
+      pauses: timing.pauses,
+      silence: timing.silence,
+      // Only how long the bed plays around the voice, not its audio
+      musicIntro: timing.music?.intro,
+      musicOutro: timing.music?.outro
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Caption request failed with status ${response.status}`);
+  }
+  return response.blob();
 }
 
 // Client-side audio blob creation using MediaRecorder
@@ -242,61 +1122,47 @@ async function createClientSideAudioBlob(text: string, settings: VoiceSettings):
   });
 }
 
+// A sine reads about 3.7 dB under its peak in LUFS (K-weighting is close to
+// flat at these pitches), so this puts the tone at the podcast target
+const PLACEHOLDER_AMPLITUDE = Math.pow(10, (LOUDNESS_PRESETS.podcast.target + 3.7) / 20);
+
 // Create a placeholder audio file when recording fails
-function createPlaceholderAudioFile(text: string, settings: VoiceSettings): Blob {
+function createPlaceholderAudioFile(text: string, settings: VoiceSettings): Promise<Blob> {
   const duration = Math.max(1, Math.ceil(estimateDuration(text, settings.rate)));
   const sampleRate = 44100;
-  const numChannels = 1;
   const numSamples = sampleRate * duration;
-  const bufferSize = 44 + numSamples * 2;
-  
-  const buffer = new ArrayBuffer(bufferSize);
-  const view = new DataView(buffer);
-  
-  // Write WAV header
-  const writeString = (offset: number, str: string) => {
-    for (let i = 0; i < str.length; i++) {
-      view.setUint8(offset + i, str.charCodeAt(i));
-    }
-  };
-  
-  writeString(0, 'RIFF');
-  view.setUint32(4, bufferSize - 8, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true); // PCM format
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(36, 'data');
-  view.setUint32(40, numSamples * 2, true);
+  const samples = new Int16Array(numSamples);
   
   // Generate simple tone pattern instead of silence for better user feedback
   for (let i = 0; i < numSamples; i++) {
     // Create a simple tone that varies with the text content
     const frequency = 440 + (text.charCodeAt(i % text.length) % 200);
-    const amplitude = 0.1 * settings.volume;
-    const sample = Math.sin(2 * Math.PI * frequency * i / sampleRate) * amplitude * 32767;
-    view.setInt16(44 + i * 2, sample, true);
+    const amplitude = PLACEHOLDER_AMPLITUDE * settings.volume;
+    samples[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate) * amplitude * 32767;
   }
   
-  return new Blob([buffer], { type: 'audio/wav' });
+  return encodeWav({ chunks: [samples], sampleRate, sampleCount: numSamples, duration, words: [] });
 }
 
 // Download audio file with improved error handling and user feedback
 export function downloadAudio(blob: Blob, filename?: string): Promise<void> {
+  if (!blob || blob.size === 0) {
+    return Promise.reject(new Error('Invalid audio file - empty or corrupted'));
+  }
+
+  // The extension follows the blob's type, since the server may return any
+  // of the output formats and the fallback records WebM
+  const baseName = (filename || `speech-${new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-')}`)
+    .replace(/\.(wav|mp3|opus|ogg|flac|webm)$/i, '');
+  return downloadFile(blob, `${baseName}.${audioFileExtension(blob.type)}`);
+}
+
+// Save a blob through a temporary link
+export function downloadFile(blob: Blob, downloadFilename: string): Promise<void> {
   return new Promise((resolve, reject) => {
     try {
-      if (!blob || blob.size === 0) {
-        throw new Error('Invalid audio file - empty or corrupted');
-      }
-
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
-      const downloadFilename = filename || `speech-${new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-')}.wav`;
       
       link.href = url;
       link.download = downloadFilename;
@@ -329,7 +1195,8 @@ export function downloadAudio(blob: Blob, filename?: string): Promise<void> {
   });
 }
 
-// Enhanced download function with progress tracking
+// Enhanced download function with progress tracking. Progress, from 0 to
+// 100, is the server's as it renders the file.
 export async function downloadAudioWithProgress(
   text: string, 
   settings: VoiceSettings,
@@ -339,20 +1206,23 @@ export async function downloadAudioWithProgress(
     if (onProgress) onProgress(0);
     
     // Generate audio blob
-    if (onProgress) onProgress(25);
-    const blob = await createAudioBlob(text, settings);
-    
-    if (onProgress) onProgress(75);
+    const blob = await createAudioBlob(
+      text,
+      settings,
+      'text',
+      undefined,
+      undefined,
+      undefined,
+      (progress) => onProgress?.(Math.round(progress * 100))
+    );
     
     // Verify blob
     if (!blob || blob.size === 0) {
       throw new Error('Failed to generate audio file');
     }
     
-    if (onProgress) onProgress(90);
-    
     // Download the file
-    await downloadAudio(blob, `speech-${Date.now()}.wav`);
+    await downloadAudio(blob, `speech-${Date.now()}`);
     
     if (onProgress) onProgress(100);
     
@@ -362,6 +1232,49 @@ export async function downloadAudioWithProgress(
   }
 }
 
+// Length of an audio file in seconds, read by the browser's media element;
+// null when it cannot tell, as for recorded WebM
+export function getAudioDuration(blob: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const done = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+}
+
+export interface DecodedAudio {
+  samples: Float32Array; // mixed down to one channel
+  sampleRate: number;
+  duration: number;
+}
+
+// Decode an audio file for display
+export async function decodeAudioBlob(blob: Blob): Promise<DecodedAudio> {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    throw new Error('This browser cannot decode the rendered audio');
+  } finally {
+    context.close();
+  }
+
+  const samples = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / decoded.numberOfChannels;
+  }
+  return { samples, sampleRate: decoded.sampleRate, duration: decoded.duration };
+}
+
 // Format time duration
 export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
@@ -0,0 +1,118 @@
+// Audiobooks
+//
+// An EPUB's chapters are rendered one at a time by the server and packaged
+// either as a ZIP of chapter files with a playlist, or as one MP3 whose ID3
+// tag marks where each chapter starts. Chapters are requested separately so
+// one that fails can be rendered again without the rest of the book.
+
+import { requestServerAudioJob, VoiceSettings } from './audio-utils';
+import { audioFileExtension, DEFAULT_MP3_BITRATE, ExportOptions, isMp3Bitrate } from './audio-formats';
+import { AudioMetadata, describeSettings, METADATA_SOFTWARE } from './audio-metadata';
+import { chapterText, ImportedChapter } from './document-import';
+import { Id3Chapter, id3v2Tag, MAX_ID3_CHAPTERS } from './tts/metadata-tags';
+import { readMp3Frames } from './tts/mp3-frames';
+import { createZip, ZipFile } from './zip';
+
+export type AudiobookPackage = 'zip' | 'mp3';
+
+export const AUDIOBOOK_PACKAGES: Record<AudiobookPackage, { label: string; description: string }> = {
+  zip: { label: 'ZIP of chapters', description: 'One file per chapter in the export format, with a playlist' },
+  mp3: { label: 'MP3 with chapters', description: 'One MP3 file with ID3 chapter markers' }
+};
+
+export const DEFAULT_AUDIOBOOK_PACKAGE: AudiobookPackage = 'zip';
+
+export interface AudiobookInfo {
+  title: string;
+  author: string | null;
+}
+
+export interface RenderedChapter {
+  title: string;
+  text: string;
+  audio: Blob;
+}
+
+// A single MP3 is joined from chapters of constant bitrate, so every chapter
+// has the same frame layout; ZIPs use the export settings as they are. Only
+// the encoder changes: loudness, effects, music, pauses and silence are kept.
+export function chapterExportOptions(format: AudiobookPackage, exportOptions: ExportOptions): ExportOptions {
+  if (format === 'zip') return exportOptions;
+  const bitrate = exportOptions.outputFormat === 'mp3' && isMp3Bitrate(exportOptions.bitrate)
+    ? exportOptions.bitrate
+    : DEFAULT_MP3_BITRATE;
+  return { ...exportOptions, outputFormat: 'mp3', bitrate, bitrateMode: 'cbr' };
+}
+
+export function renderChapter(
+  book: AudiobookInfo,
+  chapter: ImportedChapter,
+  settings: VoiceSettings,
+  exportOptions: ExportOptions,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const metadata = { title: chapter.title, author: book.author ?? undefined, album: book.title };
+  return requestServerAudioJob(chapterText(chapter), settings, 'text', exportOptions, metadata, undefined, { signal });
+}
+
+// Characters that file systems reject, replaced so titles work as file names
+export function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Untitled';
+}
+
+// ZIP
+
+export async function packageZip(book: AudiobookInfo, chapters: RenderedChapter[]): Promise<Blob> {
+  const digits = Math.max(2, String(chapters.length).length);
+  const files: ZipFile[] = [];
+  const playlist = ['#EXTM3U', `#PLAYLIST:${book.title}`];
+  for (const [index, chapter] of chapters.entries()) {
+    const name = `${String(index + 1).padStart(digits, '0')} - ${safeFileName(chapter.title)}.${audioFileExtension(chapter.audio.type)}`;
+    files.push({ name, data: new Uint8Array(await chapter.audio.arrayBuffer()) });
+    playlist.push(`#EXTINF:-1,${chapter.title}`, name);
+  }
+  files.push({ name: `${safeFileName(book.title)}.m3u8`, data: new TextEncoder().encode(`${playlist.join('\n')}\n`) });
+  return createZip(files);
+}
+
+// MP3
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// One MP3 of every chapter in order, tagged with the book's details and a
+// chapter marker at the start of each
+export async function packageMp3(book: AudiobookInfo, chapters: RenderedChapter[], settings: VoiceSettings): Promise<Blob> {
+  if (chapters.length > MAX_ID3_CHAPTERS) {
+    throw new Error(`An MP3 holds at most ${MAX_ID3_CHAPTERS} chapters; use a ZIP for this book`);
+  }
+
+  const parts: Uint8Array[] = [];
+  const markers: Id3Chapter[] = [];
+  let sampleRate = 0;
+  let position = 0;
+  for (const chapter of chapters) {
+    const frames = readMp3Frames(new Uint8Array(await chapter.audio.arrayBuffer()));
+    if (sampleRate && frames.sampleRate !== sampleRate) throw new Error('The chapters were rendered at different sample rates');
+    sampleRate = frames.sampleRate;
+    const duration = frames.sampleCount / frames.sampleRate;
+    markers.push({ title: chapter.title, start: position, end: position + duration });
+    position += duration;
+    parts.push(frames.data);
+  }
+
+  const metadata: AudioMetadata = {
+    title: book.title,
+    author: book.author ?? undefined,
+    album: book.title,
+    language: settings.voice?.lang,
+    voice: settings.voice?.name,
+    settings: describeSettings(settings),
+    createdAt: new Date().toISOString(),
+    software: METADATA_SOFTWARE,
+    sourceHash: await sha256Hex(chapters.map(chapter => chapter.text).join('\n\n'))
+  };
+  return new Blob([id3v2Tag(metadata, markers), ...parts], { type: 'audio/mpeg' });
+}
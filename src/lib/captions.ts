@@ -0,0 +1,176 @@
+// Captions
+//
+// Word timings from the renderer become the words as they read in the source
+// text, the sentences they form, and subtitle cues written as SubRip (SRT) or
+// WebVTT. A cue never spans two sentences, never lasts longer than the
+// maximum cue duration and wraps into at most maxLines lines of maxLineLength
+// characters; a single word longer than a line gets a line of its own.
+
+import type { WordTiming } from './tts/speech-renderer';
+import type { TextRange } from './text-chunker';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'json';
+
+export const CAPTION_FORMATS: Record<CaptionFormat, { label: string; contentType: string; extension: string }> = {
+  srt: { label: 'SubRip (SRT)', contentType: 'application/x-subrip', extension: 'srt' },
+  vtt: { label: 'WebVTT', contentType: 'text/vtt', extension: 'vtt' },
+  json: { label: 'Timings (JSON)', contentType: 'application/json', extension: 'json' }
+};
+
+export interface CaptionOptions {
+  maxLineLength: number; // characters
+  maxLines: number;
+  maxCueDuration: number; // seconds
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = { maxLineLength: 42, maxLines: 2, maxCueDuration: 6 };
+export const CAPTION_LINE_LENGTH_RANGE: [number, number] = [16, 80];
+export const CAPTION_LINES_RANGE: [number, number] = [1, 3];
+export const CAPTION_DURATION_RANGE: [number, number] = [1, 15];
+
+export interface TimedText {
+  text: string;
+  start: number; // seconds
+  end: number;
+  range?: TextRange; // where it is in the source text
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface Timings {
+  duration: number;
+  words: TimedText[];
+  sentences: TimedText[];
+}
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+const WHITESPACE = /\s/;
+
+// Widen a range over the punctuation attached to it, such as quotes, commas
+// and full stops
+function attachPunctuation(source: string, range: TextRange): TextRange {
+  let { start, end } = range;
+  const attached = (char: string) => !WHITESPACE.test(char) && !WORD_CHARACTER.test(char);
+  while (start > 0 && attached(source[start - 1])) start--;
+  while (end < source.length && attached(source[end])) end++;
+  return { start, end };
+}
+
+// Timed words as the reader sees them. With the source text, each word is its
+// source span; words expanded from one span ("$5" read as "five dollars") or
+// joined by punctuation ("well-known") become one
+export function buildTimings(words: WordTiming[], duration: number, source?: string): Timings {
+  const display: (TimedText & { sentenceEnd: boolean })[] = [];
+
+  for (const word of words) {
+    if (!source || !word.range) {
+      display.push({ text: word.text, start: word.start, end: word.end, sentenceEnd: word.sentenceEnd });
+      continue;
+    }
+
+    const range = attachPunctuation(source, word.range);
+    const previous = display[display.length - 1];
+    if (previous?.range && range.start < previous.range.end) {
+      previous.range.end = Math.max(previous.range.end, range.end);
+      previous.text = source.slice(previous.range.start, previous.range.end);
+      previous.end = word.end;
+      previous.sentenceEnd = word.sentenceEnd;
+      continue;
+    }
+    display.push({ text: source.slice(range.start, range.end), start: word.start, end: word.end, range, sentenceEnd: word.sentenceEnd });
+  }
+
+  const sentences: TimedText[] = [];
+  let first = 0;
+  display.forEach((word, index) => {
+    if (!word.sentenceEnd && index < display.length - 1) return;
+    const sentenceWords = display.slice(first, index + 1);
+    const start = sentenceWords[0];
+    const range = start.range && word.range ? { start: start.range.start, end: word.range.end } : undefined;
+    const text = source && range ? source.slice(range.start, range.end) : sentenceWords.map(w => w.text).join(' ');
+    sentences.push({ text: text.replace(/\s+/g, ' '), start: start.start, end: word.end, range });
+    first = index + 1;
+  });
+
+  return {
+    duration,
+    words: display.map(({ text, start, end, range }) => ({ text, start, end, range })),
+    sentences
+  };
+}
+
+// Greedy line wrapping
+function wrapLines(words: string[], maxLineLength: number): string[] {
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+// Split each sentence into cues that fit the line and duration limits
+export function buildCues(timings: Timings, options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let wordIndex = 0;
+
+  for (const sentence of timings.sentences) {
+    let current: TimedText[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      cues.push({
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        lines: wrapLines(current.map(word => word.text), options.maxLineLength)
+      });
+      current = [];
+    };
+
+    // Sentences are consecutive runs of words ending at the sentence's end
+    while (wordIndex < timings.words.length && timings.words[wordIndex].start < sentence.end) {
+      const word = timings.words[wordIndex++];
+      if (current.length > 0) {
+        const lines = wrapLines([...current, word].map(w => w.text), options.maxLineLength);
+        if (lines.length > options.maxLines || word.end - current[0].start > options.maxCueDuration) flush();
+      }
+      current.push(word);
+    }
+    flush();
+  }
+
+  return cues;
+}
+
+function timestamp(seconds: number, separator: string): string {
+  const total = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const secs = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis, 3)}`;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+// WebVTT cue text is markup, so ampersands and angle brackets are escaped
+const escapeVtt = (line: string) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function formatVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.lines.map(escapeVtt).join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,143 @@
+// Dialogue scripts
+//
+// A script is text in which turns start with a speaker label, as in
+// "ALICE: Good morning." A label is a name of at most three words and
+// SPEAKER_NAME_LENGTH characters that starts a line and ends in a colon
+// followed by a space or the end of the line. Lines without a label continue
+// the current turn, and text before the first label has no speaker. Names
+// match case-insensitively and keep the spelling they first appear with.
+
+import type { TextRange } from './text-chunker';
+
+export interface ScriptTurn {
+  speaker: string | null; // null for text before the first label
+  text: string;
+  start: number; // offsets of the spoken text, without its label
+  end: number;
+}
+
+export interface DialogueScript {
+  turns: ScriptTurn[];
+  speakers: string[]; // in order of first appearance
+}
+
+// Voice settings a request may give for one speaker. Missing values fall back
+// to the request's own.
+export interface SpeakerVoiceInput {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  voiceName?: string;
+  locale?: string;
+}
+
+export const SPEAKER_NAME_LENGTH = 32;
+const SPEAKER_NAME_WORDS = 3;
+const SPEAKER_LABEL = /^[ \t]*(\p{L}[\p{L}\p{N} .'’-]*?)[ \t]*:(?=\s|$)[ \t]*/u;
+
+// Pause between turns, in seconds
+export const DEFAULT_TURN_GAP = 0.5;
+export const TURN_GAP_RANGE: [number, number] = [0, 3];
+
+const speakerKey = (name: string) => name.toLowerCase();
+
+// Speaker name labelling a line, if it has one
+function labelAt(line: string): { name: string; length: number } | null {
+  const match = SPEAKER_LABEL.exec(line);
+  if (!match) return null;
+  const name = match[1].replace(/\s+/g, ' ');
+  if (name.length > SPEAKER_NAME_LENGTH || name.split(' ').length > SPEAKER_NAME_WORDS) return null;
+  return { name, length: match[0].length };
+}
+
+// Shrink a range so it starts and ends on non-whitespace
+function trimRange(text: string, range: TextRange): TextRange {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+export function parseScript(text: string): DialogueScript {
+  const turns: ScriptTurn[] = [];
+  const names = new Map<string, string>();
+  let current: { speaker: string | null; start: number; end: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const range = trimRange(text, current);
+    if (range.end > range.start) {
+      turns.push({ speaker: current.speaker, text: text.slice(range.start, range.end), ...range });
+    }
+    current = null;
+  };
+
+  let lineStart = 0;
+  while (lineStart <= text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const label = labelAt(text.slice(lineStart, lineEnd));
+
+    if (label) {
+      flush();
+      const key = speakerKey(label.name);
+      if (!names.has(key)) names.set(key, label.name);
+      current = { speaker: names.get(key) ?? label.name, start: lineStart + label.length, end: lineEnd };
+    } else if (current) {
+      current.end = lineEnd;
+    } else if (text.slice(lineStart, lineEnd).trim()) {
+      current = { speaker: null, start: lineStart, end: lineEnd };
+    }
+
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+  flush();
+
+  return { turns, speakers: Array.from(names.values()) };
+}
+
+// The spoken words of a script, one turn per paragraph
+export function scriptToPlainText(script: DialogueScript): string {
+  return script.turns.map(turn => turn.text).join('\n\n');
+}
+
+// Returns a message for the first invalid speaker setting, or null
+export function validateScriptOptions(speakers: unknown, turnGap: unknown): string | null {
+  const [minGap, maxGap] = TURN_GAP_RANGE;
+  if (turnGap !== undefined && (typeof turnGap !== 'number' || !Number.isFinite(turnGap) || turnGap < minGap || turnGap > maxGap)) {
+    return `Turn gap must be between ${minGap} and ${maxGap} seconds`;
+  }
+
+  if (speakers === undefined) return null;
+  if (typeof speakers !== 'object' || speakers === null || Array.isArray(speakers)) {
+    return 'Speakers must be an object of voice settings by speaker name';
+  }
+
+  for (const [name, voice] of Object.entries(speakers)) {
+    if (typeof voice !== 'object' || voice === null || Array.isArray(voice)) {
+      return `Voice settings for ${name} must be an object`;
+    }
+    const fields = voice as Record<string, unknown>;
+    for (const field of ['rate', 'pitch', 'volume'] as const) {
+      const value = fields[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+        return `Speaker ${name} ${field} must be a number`;
+      }
+    }
+    for (const field of ['voiceName', 'locale'] as const) {
+      if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+        return `Speaker ${name} ${field} must be a string`;
+      }
+    }
+  }
+  return null;
+}
+
+// Voice settings for a speaker from a cast keyed by name in any letter case
+export function castVoice<T>(cast: Record<string, T> | undefined, speaker: string | null): T | undefined {
+  if (!cast || speaker === null) return undefined;
+  const key = speakerKey(speaker);
+  const match = Object.keys(cast).find(name => speakerKey(name) === key);
+  return match === undefined ? undefined : cast[match];
+}
@@ -0,0 +1,527 @@
+// Document import
+//
+// Turns a dropped or picked file into speakable plain text for the editor:
+// Markdown loses its syntax, HTML keeps only its main content, DOCX and EPUB
+// are unpacked and read paragraph by paragraph, and subtitles keep only what
+// is said. Everything runs in the browser; HTML and the XML inside DOCX and
+// EPUB files are read with DOMParser.
+
+import { openZip, resolveZipPath, ZipArchive } from './zip';
+
+export type DocumentKind = 'text' | 'markdown' | 'html' | 'docx' | 'epub' | 'subtitles';
+
+export const DOCUMENT_KINDS: Record<DocumentKind, { label: string; extensions: string[] }> = {
+  text: { label: 'Plain text', extensions: ['.txt', '.text'] },
+  markdown: { label: 'Markdown', extensions: ['.md', '.markdown'] },
+  html: { label: 'HTML', extensions: ['.html', '.htm', '.xhtml'] },
+  docx: { label: 'Word document', extensions: ['.docx'] },
+  epub: { label: 'EPUB', extensions: ['.epub'] },
+  subtitles: { label: 'Subtitles', extensions: ['.srt', '.vtt'] }
+};
+
+// For the accept attribute of a file input
+export const DOCUMENT_ACCEPT = Object.values(DOCUMENT_KINDS).flatMap(kind => kind.extensions).join(',');
+
+export interface ImportedChapter {
+  title: string;
+  text: string;
+}
+
+export interface ImportedDocument {
+  kind: DocumentKind;
+  title: string | null;
+  author: string | null;
+  text: string; // chapters joined with their titles
+  chapters: ImportedChapter[]; // one per EPUB chapter, otherwise one
+}
+
+// A chapter opens with its title unless its text already does
+export function chapterText(chapter: ImportedChapter): string {
+  return !chapter.title || chapter.text.startsWith(chapter.title) ? chapter.text : `${chapter.title}\n\n${chapter.text}`;
+}
+
+export function documentKind(fileName: string): DocumentKind | null {
+  const name = fileName.toLowerCase();
+  for (const [kind, { extensions }] of Object.entries(DOCUMENT_KINDS)) {
+    if (extensions.some(extension => name.endsWith(extension))) return kind as DocumentKind;
+  }
+  return null;
+}
+
+// Throws with a message for the user when the file cannot be read
+export async function importDocument(file: File): Promise<ImportedDocument> {
+  const kind = documentKind(file.name);
+  if (!kind) {
+    throw new Error(`${file.name} is not a supported document. Use ${DOCUMENT_ACCEPT.replace(/,/g, ', ')}.`);
+  }
+
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '') || null;
+  const single = (text: string, title: string | null = fallbackTitle, author: string | null = null): ImportedDocument =>
+    ({ kind, title, author, text, chapters: [{ title: title ?? '', text }] });
+
+  let document: ImportedDocument;
+  switch (kind) {
+    case 'text':
+      document = single(cleanText(decodeText(await file.arrayBuffer())));
+      break;
+    case 'markdown':
+      document = single(markdownToText(await file.text()));
+      break;
+    case 'html': {
+      const { title, author, text } = htmlToText(await file.text());
+      document = single(text, title || fallbackTitle, author);
+      break;
+    }
+    case 'docx': {
+      const { title, author, text } = await docxToText(openZip(await file.arrayBuffer()));
+      document = single(text, title || fallbackTitle, author);
+      break;
+    }
+    case 'epub':
+      document = await epubToText(openZip(await file.arrayBuffer()), fallbackTitle);
+      break;
+    case 'subtitles':
+      document = single(subtitlesToText(await file.text()));
+      break;
+  }
+
+  if (!document.text.trim()) throw new Error(`No readable text was found in ${file.name}`);
+  return document;
+}
+
+// Plain text files are UTF-8 if they decode as such, and Windows-1252 if not
+function decodeText(data: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+}
+
+// Spaces collapsed within paragraphs, at most one blank line between them,
+// and characters that are invisible when spoken removed
+export function cleanText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u00ad\u200b-\u200d\u2060\ufeff]/g, '')
+    .replace(/[\t\f\v\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/ {2,}/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Markdown
+
+// Inline syntax replaced by the text it marks up
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/!\[[^\]]*\]\[[^\]]*\]/g, '')
+    .replace(/\[\^[^\]]+\]/g, '') // footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(?:https?|mailto):[^>]+>/g, '') // autolinks
+    .replace(/<\/?[a-z][^>]*>/gi, '') // inline HTML
+    .replace(/`+([^`]+)`+/g, '$1')
+    .replace(/(\*\*|__)(?=\S)([^*_]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)([^_]*?\S)_(?=\W|$)/g, '$1$2')
+    .replace(/~~(?=\S)([^~]*?\S)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+}
+
+export function markdownToText(markdown: string): string {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n(?:---|\.\.\.)\n/, '') // front matter
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n');
+
+  // Lines of one paragraph are joined; headings, list items and table rows
+  // stand alone
+  const paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  const endParagraph = () => {
+    if (paragraph.length) paragraphs.push(paragraph.join(' '));
+    paragraph = [];
+  };
+
+  for (const raw of lines) {
+    const fenceMatch = raw.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      endParagraph();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    let line = raw.replace(/^\s*(?:>\s?)+/, '').trim();
+    if (!line || /^(?:[-*_]\s*){3,}$/.test(line) || /^=+$/.test(line)) {
+      endParagraph();
+      continue;
+    }
+    if (/^-+$/.test(line)) {
+      endParagraph(); // setext heading underline
+      continue;
+    }
+    if (/^\[[^\]]+\]:\s*\S+/.test(line)) continue; // link definitions
+    if (/^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?$/.test(line)) continue; // table rules
+
+    const heading = line.match(/^#{1,6}\s+(.*?)(?:\s+#+)?$/);
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    const tableRow = line.startsWith('|') || line.includes(' | ');
+    const standalone = Boolean(heading || listItem || tableRow);
+    if (standalone) endParagraph();
+    if (heading || listItem) line = (heading ?? listItem)![1];
+    if (tableRow) {
+      line = line.replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim()).filter(Boolean).join(', ');
+    }
+
+    const text = decodeEntities(stripInlineMarkdown(line)).trim();
+    if (text) paragraph.push(text);
+    if (standalone) endParagraph();
+  }
+  endParagraph();
+
+  return cleanText(paragraphs.join('\n\n'));
+}
+
+// Subtitles
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d+:\d+[.,]\d+)\s*-->\s*((?:\d+:)?\d+:\d+[.,]\d+)/;
+const PARAGRAPH_GAP = 2; // seconds of silence that start a new paragraph
+
+const parseTimestamp = (value: string) =>
+  value.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+// SRT and WebVTT cues without numbers, timings, styling or repeated lines
+export function subtitlesToText(source: string): string {
+  const blocks = source.replace(/\r\n?/g, '\n').replace(/^\ufeff/, '').split(/\n\s*\n/);
+  const paragraphs: string[][] = [];
+  let lastEnd = -Infinity;
+  let lastLine = '';
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim());
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue; // header, NOTE, STYLE and REGION blocks
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    if (!paragraphs.length || parseTimestamp(start) - lastEnd >= PARAGRAPH_GAP) paragraphs.push([]);
+    lastEnd = parseTimestamp(end);
+
+    for (const line of lines.slice(timingIndex + 1)) {
+      const text = decodeEntities(line
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/^\s*-\s+/, '')
+        .replace(/^\s*\[[^\]]*\]\s*$/, '')) // sound descriptions such as [MUSIC]
+        .trim();
+      // Roll-up captions repeat the previous line
+      if (text && text !== lastLine) paragraphs[paragraphs.length - 1].push(text);
+      if (text) lastLine = text;
+    }
+  }
+
+  return cleanText(paragraphs.filter(lines => lines.length).map(lines => lines.join(' ')).join('\n\n'));
+}
+
+// HTML and XHTML
+
+const SKIPPED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'math', 'canvas', 'iframe', 'object', 'embed',
+  'form', 'button', 'input', 'select', 'textarea', 'audio', 'video', 'img', 'picture', 'head'
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main',
+  'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'thead', 'tfoot', 'tr', 'ul'
+]);
+
+const CELL_ELEMENTS = new Set(['td', 'th']);
+const CELL_SEPARATOR = '\u001f';
+
+// Text of an element with paragraph breaks between its blocks
+export function blockText(root: Element): string {
+  let output = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      output += (node.nodeValue ?? '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag) || element.getAttribute('hidden') !== null || element.getAttribute('aria-hidden') === 'true') {
+      return;
+    }
+    if (tag === 'br') {
+      output += '\n';
+      return;
+    }
+    const isBlock = BLOCK_ELEMENTS.has(tag);
+    if (isBlock) output += '\n\n';
+    for (const child of Array.from(element.childNodes)) walk(child);
+    if (CELL_ELEMENTS.has(tag)) output += CELL_SEPARATOR;
+    if (isBlock) output += '\n\n';
+  };
+  walk(root);
+  // Cells are separated by commas within their row
+  return cleanText(output.replace(/\u001f\s*(?=\n|$)/g, '').replace(/\u001f/g, ', '));
+}
+
+// Boilerplate that is never the content of a page
+const UNLIKELY_SELECTOR = 'nav, aside, footer, [role="navigation"], [role="banner"], [role="contentinfo"], ' +
+  '[role="complementary"], [role="search"], [role="dialog"]';
+const UNLIKELY_NAMES = /comment|sidebar|footer|footnote|menu|nav|share|social|advert|sponsor|promo|related|cookie|banner|subscribe|newsletter|popup|modal|breadcrumb|pagination|masthead/i;
+const LIKELY_NAMES = /article|content|main|post|story|entry|body|text/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const textLength = (element: Element) => (element.textContent ?? '').replace(/\s+/g, ' ').trim().length;
+
+const linkDensity = (element: Element) => {
+  const length = textLength(element);
+  if (!length) return 0;
+  const linked = Array.from(element.querySelectorAll('a')).reduce((total, link) => total + textLength(link), 0);
+  return linked / length;
+};
+
+// Readability-style extraction: score each paragraph's ancestors by how much
+// prose they hold, penalise link-heavy blocks, and keep the best one
+function findMainContent(document: Document): Element {
+  const body = document.body ?? document.documentElement;
+
+  for (const element of Array.from(body.querySelectorAll(UNLIKELY_SELECTOR))) element.remove();
+  // Page headers go, but not the header of the article itself
+  for (const element of Array.from(body.querySelectorAll('header'))) {
+    if (!element.closest('article, main')) element.remove();
+  }
+  for (const element of Array.from(body.querySelectorAll('div, section, ul, ol, span, p, table'))) {
+    const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+    if (UNLIKELY_NAMES.test(names) && !LIKELY_NAMES.test(names) && !element.querySelector('article, main')) {
+      element.remove();
+    }
+  }
+
+  // A single marked-up article or main region is the content
+  const marked = Array.from(body.querySelectorAll('article, main, [role="main"]'))
+    .filter(element => !element.parentElement?.closest('article, main, [role="main"]'));
+  if (marked.length === 1 && textLength(marked[0]) > 0) return marked[0];
+
+  const scores = new Map<Element, number>();
+  for (const paragraph of Array.from(body.querySelectorAll('p, pre, blockquote, td, li'))) {
+    const text = (paragraph.textContent ?? '').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+    const score = 1 + text.split(/[,،、，]/).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  }
+
+  let best: Element = body;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+function documentTitle(document: Document): string | null {
+  const meta = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
+  const title = meta || document.querySelector('title')?.textContent || document.querySelector('h1')?.textContent;
+  return title ? title.replace(/\s+/g, ' ').trim() || null : null;
+}
+
+export function htmlToText(html: string): { title: string | null; author: string | null; text: string } {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const title = documentTitle(document);
+  const author = document.querySelector('meta[name="author"]')?.getAttribute('content')?.trim() || null;
+  return { title, author, text: blockText(findMainContent(document)) };
+}
+
+// XHTML from an EPUB, falling back to the forgiving HTML parser when it is
+// not well-formed
+function parseXhtml(source: string): Document {
+  const document = new DOMParser().parseFromString(source, 'application/xhtml+xml');
+  return document.getElementsByTagName('parsererror').length
+    ? new DOMParser().parseFromString(source, 'text/html')
+    : document;
+}
+
+function parseXml(source: string, what: string): Document {
+  const document = new DOMParser().parseFromString(source, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length) throw new Error(`The ${what} is not valid XML`);
+  return document;
+}
+
+// DOCX
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const MARKUP_COMPATIBILITY_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const DUBLIN_CORE_NS = 'http://purl.org/dc/elements/1.1/';
+
+// First Dublin Core element of a name, as DOCX and EPUB metadata use them
+function dublinCore(document: Document | null, name: string): string | null {
+  return document?.getElementsByTagNameNS(DUBLIN_CORE_NS, name)[0]?.textContent?.trim() || null;
+}
+
+async function docxToText(zip: ZipArchive): Promise<{ title: string | null; author: string | null; text: string }> {
+  const source = await zip.readText('word/document.xml');
+  if (source === null) throw new Error('The file is not a Word document');
+  const document = parseXml(source, 'Word document');
+
+  let output = '';
+  const walk = (node: Node) => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    // Alternate content repeats itself for older readers
+    if (element.namespaceURI === MARKUP_COMPATIBILITY_NS && element.localName === 'Fallback') return;
+    if (element.namespaceURI === WORD_NS) {
+      switch (element.localName) {
+        case 't':
+          output += element.textContent ?? '';
+          return;
+        case 'tab':
+          output += ' ';
+          return;
+        case 'br':
+        case 'cr':
+          output += '\n';
+          return;
+        case 'noBreakHyphen':
+          output += '-';
+          return;
+        case 'delText':
+        case 'instrText': // field codes
+          return;
+      }
+    }
+    for (const child of Array.from(element.childNodes)) walk(child);
+    if (element.namespaceURI === WORD_NS && element.localName === 'p') output += '\n\n';
+  };
+  walk(document.documentElement);
+
+  const coreSource = await zip.readText('docProps/core.xml');
+  const core = coreSource ? parseXml(coreSource, 'Word document') : null;
+  return {
+    title: dublinCore(core, 'title'),
+    author: dublinCore(core, 'creator'),
+    text: cleanText(output)
+  };
+}
+
+// EPUB
+
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const NCX_NS = 'http://www.daisy.org/z3986/2005/ncx/';
+const EPUB_OPS_NS = 'http://www.idpf.org/2007/ops';
+
+const withoutFragment = (href: string) => decodeURIComponent(href.split('#')[0]);
+
+// Chapter titles from the EPUB 3 navigation document or the EPUB 2 NCX, by
+// the path of the file each one starts
+async function readTableOfContents(zip: ZipArchive, opfPath: string, opf: Document): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagNameNS(OPF_NS, 'item'));
+  const add = (base: string, href: string | null, label: string | null | undefined) => {
+    const title = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !title) return;
+    const path = resolveZipPath(base, withoutFragment(href));
+    if (!titles.has(path)) titles.set(path, title);
+  };
+
+  const nav = items.find(item => (item.getAttribute('properties') ?? '').split(/\s+/).includes('nav'));
+  if (nav) {
+    const path = resolveZipPath(opfPath, withoutFragment(nav.getAttribute('href') ?? ''));
+    const source = await zip.readText(path);
+    if (source) {
+      const document = parseXhtml(source);
+      const navs = Array.from(document.getElementsByTagName('nav'));
+      const toc = navs.find(element => element.getAttributeNS(EPUB_OPS_NS, 'type') === 'toc' ||
+        element.getAttribute('epub:type') === 'toc') ?? navs[0];
+      for (const link of Array.from(toc?.getElementsByTagName('a') ?? [])) {
+        add(path, link.getAttribute('href'), link.textContent);
+      }
+      if (titles.size) return titles;
+    }
+  }
+
+  const spine = opf.getElementsByTagNameNS(OPF_NS, 'spine')[0];
+  const ncxId = spine?.getAttribute('toc');
+  const ncx = items.find(item => item.getAttribute('id') === ncxId) ??
+    items.find(item => item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  if (ncx) {
+    const path = resolveZipPath(opfPath, withoutFragment(ncx.getAttribute('href') ?? ''));
+    const source = await zip.readText(path);
+    if (source) {
+      const document = parseXml(source, 'EPUB table of contents');
+      for (const point of Array.from(document.getElementsByTagNameNS(NCX_NS, 'navPoint'))) {
+        const label = point.getElementsByTagNameNS(NCX_NS, 'text')[0]?.textContent;
+        add(path, point.getElementsByTagNameNS(NCX_NS, 'content')[0]?.getAttribute('src') ?? null, label);
+      }
+    }
+  }
+  return titles;
+}
+
+// Chapters in reading order, one per spine document with text in it
+export async function epubToText(zip: ZipArchive, fallbackTitle: string | null = null): Promise<ImportedDocument> {
+  const container = await zip.readText('META-INF/container.xml');
+  if (container === null) throw new Error('The file is not an EPUB book');
+  const opfPath = parseXml(container, 'EPUB container').getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfSource = opfPath ? await zip.readText(opfPath) : null;
+  if (!opfPath || opfSource === null) throw new Error('The EPUB book has no package document');
+  const opf = parseXml(opfSource, 'EPUB package document');
+
+  const title = dublinCore(opf, 'title') || fallbackTitle;
+  const author = dublinCore(opf, 'creator');
+  const manifest = new Map(Array.from(opf.getElementsByTagNameNS(OPF_NS, 'item'))
+    .map(item => [item.getAttribute('id'), item.getAttribute('href')]));
+  const tableOfContents = await readTableOfContents(zip, opfPath, opf);
+
+  const chapters: ImportedChapter[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagNameNS(OPF_NS, 'itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const href = manifest.get(itemref.getAttribute('idref'));
+    if (!href) continue;
+    const path = resolveZipPath(opfPath, withoutFragment(href));
+    const source = await zip.readText(path);
+    if (source === null) continue;
+
+    const document = parseXhtml(source);
+    const text = blockText(document.body ?? document.documentElement);
+    if (!text) continue;
+    const heading = document.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+    chapters.push({ title: tableOfContents.get(path) || heading || `Chapter ${chapters.length + 1}`, text });
+  }
+  if (chapters.length === 0) throw new Error('The EPUB book has no readable chapters');
+
+  const text = chapters.map(chapterText).join('\n\n');
+  return { kind: 'epub', title, author, text, chapters };
+}
@@ -0,0 +1,216 @@
+// Render job queue
+//
+// Runs render jobs in the server process, at most RENDER_JOB_CONCURRENCY at a
+// time (default 1) so long renders don't starve each other. Jobs wait in
+// submission order. Progress of a running job is kept in memory and reported
+// from there; the store is written whenever a job changes state. Finished
+// jobs are removed after RENDER_JOB_TTL_MINUTES (default 60).
+
+import { randomUUID } from 'crypto';
+import { createJobStore, JobStore } from './job-store';
+import { isFinished, RenderJob, RenderJobView, jobView } from './jobs';
+import { AudioRequest, renderAudioRequest } from './tts/audio-request';
+import { OUTPUT_FORMATS } from './audio-formats';
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxQueued: number; // waiting jobs, before submissions are turned away
+  ttl: number; // ms a finished job is kept
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  concurrency: 1,
+  maxQueued: 20,
+  ttl: 60 * 60 * 1000
+};
+
+// A job that hasn't finished, with what it takes to run or stop it
+interface ActiveJob {
+  job: RenderJob;
+  request: AudioRequest;
+  controller: AbortController;
+}
+
+const CANCELLED = 'Cancelled';
+
+const positiveInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export class JobQueue {
+  private active = new Map<string, ActiveJob>();
+  private waiting: string[] = [];
+  private running = 0;
+  private ready: Promise<void>;
+
+  constructor(private store: JobStore, private options: JobQueueOptions = DEFAULT_JOB_QUEUE_OPTIONS) {
+    this.ready = this.recover();
+  }
+
+  // Jobs a previous server process left unfinished can't be resumed: their
+  // requests were only held in memory
+  private async recover(): Promise<void> {
+    try {
+      for (const job of await this.store.list()) {
+        if (isFinished(job.status)) continue;
+        await this.store.save({
+          ...job,
+          status: 'failed',
+          stage: null,
+          error: 'Interrupted by a server restart',
+          finishedAt: new Date().toISOString()
+        });
+      }
+      await this.expire();
+    } catch (error) {
+      console.error('Render job recovery error:', error);
+    }
+  }
+
+  // Returns null when the queue is full
+  async submit(request: AudioRequest): Promise<RenderJobView | null> {
+    await this.ready;
+    if (this.waiting.length >= this.options.maxQueued) return null;
+    await this.expire();
+
+    const format = OUTPUT_FORMATS[request.outputFormat];
+    const job: RenderJob = {
+      id: randomUUID(),
+      status: 'queued',
+      progress: 0,
+      stage: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+      contentType: format.contentType,
+      extension: format.extension,
+      size: null,
+      loudness: null,
+      timings: null
+    };
+    await this.store.save(job);
+    this.active.set(job.id, { job, request, controller: new AbortController() });
+    this.waiting.push(job.id);
+    this.next();
+    return this.view(this.active.get(job.id)?.job ?? job);
+  }
+
+  async get(id: string): Promise<RenderJobView | null> {
+    await this.ready;
+    const active = this.active.get(id);
+    if (active) return this.view(active.job);
+    const job = await this.store.get(id);
+    return job ? jobView(job) : null;
+  }
+
+  async readAudio(id: string): Promise<{ job: RenderJob; audio: Uint8Array } | null> {
+    await this.ready;
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'completed') return null;
+    const audio = await this.store.readAudio(id);
+    return audio ? { job, audio } : null;
+  }
+
+  // Stop a queued or running job. Returns the job as it now stands, or null
+  // if there is no such job; finished jobs are left alone.
+  async cancel(id: string): Promise<RenderJobView | null> {
+    await this.ready;
+    const active = this.active.get(id);
+    if (!active) {
+      const job = await this.store.get(id);
+      return job ? jobView(job) : null;
+    }
+
+    if (active.job.status === 'queued') {
+      this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+      await this.finish(active, { status: 'cancelled', error: CANCELLED });
+    } else {
+      // The render stops between parts and run() records the cancellation
+      active.controller.abort();
+      active.job = { ...active.job, status: 'cancelled', error: CANCELLED };
+    }
+    return this.view(active.job);
+  }
+
+  // Remove a finished job and its audio. Returns false if it isn't finished.
+  async delete(id: string): Promise<boolean> {
+    await this.ready;
+    if (this.active.has(id)) return false;
+    await this.store.delete(id);
+    return true;
+  }
+
+  private view(job: RenderJob): RenderJobView {
+    const position = this.waiting.indexOf(job.id);
+    return jobView(job, position >= 0 ? position + 1 : null);
+  }
+
+  private next(): void {
+    while (this.running < this.options.concurrency && this.waiting.length > 0) {
+      const active = this.active.get(this.waiting.shift()!);
+      if (active) void this.run(active);
+    }
+  }
+
+  private async run(active: ActiveJob): Promise<void> {
+    this.running++;
+    const { controller, request } = active;
+    try {
+      active.job = { ...active.job, status: 'running', stage: 'rendering', startedAt: new Date().toISOString() };
+      await this.store.save(active.job);
+
+      const { blob, loudness, timings } = await renderAudioRequest(request, {
+        signal: controller.signal,
+        onProgress: (progress, stage) => {
+          active.job = { ...active.job, progress, stage };
+        }
+      });
+      const data = new Uint8Array(await blob.arrayBuffer());
+      controller.signal.throwIfAborted();
+      await this.store.saveAudio(active.job.id, data);
+      await this.finish(active, { status: 'completed', progress: 1, size: data.length, loudness, timings });
+    } catch (error) {
+      if (!controller.signal.aborted) console.error('Render job error:', error);
+      const change: Partial<RenderJob> = controller.signal.aborted
+        ? { status: 'cancelled', error: CANCELLED }
+        : { status: 'failed', error: error instanceof Error ? error.message : 'Rendering failed' };
+      await this.finish(active, change).catch(saveError => console.error('Render job save error:', saveError));
+    } finally {
+      this.running--;
+      this.next();
+    }
+  }
+
+  private async finish(active: ActiveJob, change: Partial<RenderJob>): Promise<void> {
+    active.job = { ...active.job, ...change, stage: null, finishedAt: new Date().toISOString() };
+    this.active.delete(active.job.id);
+    await this.store.save(active.job);
+  }
+
+  // Drop finished jobs older than the TTL
+  private async expire(): Promise<void> {
+    const cutoff = Date.now() - this.options.ttl;
+    for (const job of await this.store.list()) {
+      if (isFinished(job.status) && job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        await this.store.delete(job.id);
+      }
+    }
+  }
+}
+
+// One queue per server process. Kept on globalThis so reloading modules in
+// development doesn't start a second queue beside the first.
+const globalQueue = globalThis as typeof globalThis & { renderJobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+  if (!globalQueue.renderJobQueue) {
+    globalQueue.renderJobQueue = new JobQueue(createJobStore(), {
+      concurrency: positiveInteger(process.env.RENDER_JOB_CONCURRENCY, DEFAULT_JOB_QUEUE_OPTIONS.concurrency),
+      maxQueued: positiveInteger(process.env.RENDER_JOB_MAX_QUEUED, DEFAULT_JOB_QUEUE_OPTIONS.maxQueued),
+      ttl: positiveInteger(process.env.RENDER_JOB_TTL_MINUTES, 60) * 60 * 1000
+    });
+  }
+  return globalQueue.renderJobQueue;
+}
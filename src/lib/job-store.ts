@@ -0,0 +1,122 @@
+// Render job stores
+//
+// Where job records and finished audio are kept. The queue only needs the
+// JobStore interface; JOB_STORE picks the implementation: "memory" (the
+// default) keeps everything in the server process, "file" writes to
+// JOB_STORE_DIR (default .data/jobs) so finished audio outlives a restart.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JOB_ID_PATTERN, RenderJob } from './jobs';
+
+export interface JobStore {
+  list(): Promise<RenderJob[]>;
+  get(id: string): Promise<RenderJob | null>;
+  save(job: RenderJob): Promise<void>;
+  delete(id: string): Promise<void>; // the record and its audio
+  saveAudio(id: string, data: Uint8Array): Promise<void>;
+  readAudio(id: string): Promise<Uint8Array | null>;
+}
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, RenderJob>();
+  private audio = new Map<string, Uint8Array>();
+
+  async list(): Promise<RenderJob[]> {
+    return Array.from(this.jobs.values(), job => ({ ...job }));
+  }
+
+  async get(id: string): Promise<RenderJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async save(job: RenderJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.audio.delete(id);
+  }
+
+  async saveAudio(id: string, data: Uint8Array): Promise<void> {
+    this.audio.set(id, data);
+  }
+
+  async readAudio(id: string): Promise<Uint8Array | null> {
+    return this.audio.get(id) ?? null;
+  }
+}
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+// One JSON record and one audio file per job, named by the job id
+export class FileJobStore implements JobStore {
+  constructor(private directory: string) {}
+
+  private file(id: string, extension: 'json' | 'audio'): string {
+    if (!JOB_ID_PATTERN.test(id)) throw new Error(`Invalid job id: ${id}`);
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+
+  // Through a temporary file and a rename so readers never see half a file
+  private async write(file: string, data: string | Uint8Array): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+  }
+
+  async list(): Promise<RenderJob[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+    const ids = names.filter(name => name.endsWith('.json')).map(name => name.slice(0, -5));
+    const jobs = await Promise.all(ids.filter(id => JOB_ID_PATTERN.test(id)).map(id => this.get(id)));
+    return jobs.filter((job): job is RenderJob => job !== null);
+  }
+
+  async get(id: string): Promise<RenderJob | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id, 'json'), 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async save(job: RenderJob): Promise<void> {
+    await this.write(this.file(job.id, 'json'), JSON.stringify(job, null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.file(id, 'json'), { force: true });
+    await fs.rm(this.file(id, 'audio'), { force: true });
+  }
+
+  async saveAudio(id: string, data: Uint8Array): Promise<void> {
+    await this.write(this.file(id, 'audio'), data);
+  }
+
+  async readAudio(id: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await fs.readFile(this.file(id, 'audio')));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+}
+
+export function createJobStore(kind = process.env.JOB_STORE): JobStore {
+  if (kind === 'file') {
+    return new FileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs'));
+  }
+  if (kind && kind !== 'memory') throw new Error(`Unknown JOB_STORE: ${kind}`);
+  return new MemoryJobStore();
+}
@@ -0,0 +1,55 @@
+// Render jobs
+//
+// A render job is an audio request rendered in the background: the client
+// submits it, polls its status and progress, and downloads the audio once it
+// is complete. Jobs are queued in the server process and kept in a job store
+// for a while after they finish.
+
+import type { RenderStage } from './tts/audio-request';
+import type { LoudnessMeasurement } from './loudness';
+import type { Timings } from './captions';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface RenderJob {
+  id: string;
+  status: JobStatus;
+  progress: number; // 0 to 1
+  stage: RenderStage | null; // while running
+  createdAt: string; // ISO 8601
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  contentType: string; // of the audio
+  extension: string;
+  size: number | null; // bytes, once completed
+  loudness: LoudnessMeasurement | null; // once completed
+  timings: Timings | null; // words and sentences as heard, once completed
+}
+
+// A job as the API reports it
+export interface RenderJobView extends RenderJob {
+  queuePosition: number | null; // 1 is next to start
+  statusUrl: string;
+  audioUrl: string | null; // once completed
+}
+
+export const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isFinished(status: JobStatus): boolean {
+  return FINISHED_JOB_STATUSES.includes(status);
+}
+
+export function jobView(job: RenderJob, queuePosition: number | null = null): RenderJobView {
+  const statusUrl = `/api/jobs/${job.id}`;
+  return {
+    ...job,
+    queuePosition,
+    statusUrl,
+    audioUrl: job.status === 'completed' ? `${statusUrl}/audio` : null
+  };
+}
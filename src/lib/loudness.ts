@@ -0,0 +1,101 @@
+// Loudness targets
+//
+// Exported audio can be normalized to an integrated loudness in LUFS (ITU-R
+// BS.1770, as used by EBU R128) under a true-peak ceiling in dBTP. The server
+// measures every file it renders and reports the result in response headers;
+// nothing here touches samples, so the client shares the presets and limits.
+
+export interface LoudnessPreset {
+  label: string;
+  target: number; // integrated loudness, LUFS
+  truePeak: number; // ceiling, dBTP
+  description: string;
+}
+
+export type LoudnessPresetName = 'podcast' | 'broadcast' | 'audiobook';
+
+export const LOUDNESS_PRESETS: Record<LoudnessPresetName, LoudnessPreset> = {
+  podcast: {
+    label: 'Podcast (-16 LUFS)',
+    target: -16,
+    truePeak: -1,
+    description: 'Streaming podcast platforms'
+  },
+  broadcast: {
+    label: 'Broadcast (EBU R128)',
+    target: -23,
+    truePeak: -1,
+    description: 'EBU R128 for radio and television'
+  },
+  audiobook: {
+    label: 'Audiobook (ACX)',
+    target: -20,
+    truePeak: -3,
+    description: 'ACX asks for -23 to -18 dB RMS with peaks below -3 dB'
+  }
+};
+
+export const LOUDNESS_TARGET_RANGE: [number, number] = [-36, -10];
+export const TRUE_PEAK_RANGE: [number, number] = [-9, 0];
+export const DEFAULT_TRUE_PEAK = -1;
+
+// What the server measured in a file it sent. Integrated loudness is null for
+// silence, which has none.
+export interface LoudnessMeasurement {
+  integrated: number | null; // LUFS
+  truePeak: number | null; // dBTP
+  gain: number; // dB applied by normalization, 0 when it was off
+}
+
+export const LOUDNESS_HEADERS = {
+  integrated: 'X-Loudness-Integrated',
+  truePeak: 'X-Loudness-True-Peak',
+  gain: 'X-Loudness-Gain'
+};
+
+const formatDb = (value: number | null) => (value === null ? '-inf' : value.toFixed(1));
+
+export function loudnessHeaders(measurement: LoudnessMeasurement): Record<string, string> {
+  return {
+    [LOUDNESS_HEADERS.integrated]: formatDb(measurement.integrated),
+    [LOUDNESS_HEADERS.truePeak]: formatDb(measurement.truePeak),
+    [LOUDNESS_HEADERS.gain]: measurement.gain.toFixed(1)
+  };
+}
+
+// Null when the response carries no measurement, as from an older server
+export function readLoudnessHeaders(headers: Headers): LoudnessMeasurement | null {
+  const integrated = headers.get(LOUDNESS_HEADERS.integrated);
+  const truePeak = headers.get(LOUDNESS_HEADERS.truePeak);
+  if (integrated === null || truePeak === null) return null;
+  const parse = (value: string) => (value === '-inf' || Number.isNaN(Number(value)) ? null : Number(value));
+  return { integrated: parse(integrated), truePeak: parse(truePeak), gain: Number(headers.get(LOUDNESS_HEADERS.gain)) || 0 };
+}
+
+export function formatLoudness(measurement: LoudnessMeasurement): string {
+  const integrated = measurement.integrated === null ? 'silent' : `${measurement.integrated.toFixed(1)} LUFS`;
+  const truePeak = measurement.truePeak === null ? '' : `, true peak ${measurement.truePeak.toFixed(1)} dBTP`;
+  return `${integrated}${truePeak}`;
+}
+
+// The preset a target and ceiling came from, if any
+export function loudnessPreset(target: number | undefined, truePeak = DEFAULT_TRUE_PEAK): LoudnessPresetName | 'custom' | 'off' {
+  if (target === undefined) return 'off';
+  const match = (Object.keys(LOUDNESS_PRESETS) as LoudnessPresetName[]).find(
+    name => LOUDNESS_PRESETS[name].target === target && LOUDNESS_PRESETS[name].truePeak === truePeak
+  );
+  return match ?? 'custom';
+}
+
+// Check the loudness fields of a request; both are optional
+export function validateLoudnessOptions(target: unknown, truePeak: unknown): string | null {
+  const [minTarget, maxTarget] = LOUDNESS_TARGET_RANGE;
+  if (target !== undefined && (typeof target !== 'number' || !(target >= minTarget && target <= maxTarget))) {
+    return `Loudness target must be between ${minTarget} and ${maxTarget} LUFS`;
+  }
+  const [minPeak, maxPeak] = TRUE_PEAK_RANGE;
+  if (truePeak !== undefined && (typeof truePeak !== 'number' || !(truePeak >= minPeak && truePeak <= maxPeak))) {
+    return `True peak ceiling must be between ${minPeak} and ${maxPeak} dBTP`;
+  }
+  return null;
+}
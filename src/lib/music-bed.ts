@@ -0,0 +1,99 @@
+// Music beds
+//
+// A request can mix the voice over a music bed: one of the ambient beds the
+// server generates, or a WAV file the client uploads with the request. The
+// bed is looped or trimmed to the speech plus an intro and outro, faded in
+// and out, and ducked while the voice is speaking. The browser decodes
+// uploaded MP3s itself and sends them on as WAV, since the server has no MP3
+// decoder. This module holds the names and limits both sides check against.
+
+export type MusicBedName = 'ambient' | 'drone' | 'pulse';
+
+export const MUSIC_BEDS: Record<MusicBedName, { label: string; description: string }> = {
+  ambient: { label: 'Ambient pad', description: 'Slow, warm chords' },
+  drone: { label: 'Low drone', description: 'A dark, steady hum with air' },
+  pulse: { label: 'Soft pulse', description: 'A gentle plucked arpeggio at 90 BPM' }
+};
+
+export const MUSIC_BED_NAMES = Object.keys(MUSIC_BEDS) as MusicBedName[];
+
+export interface MusicBedInput {
+  bed: MusicBedName | 'upload';
+  data?: string; // base64 WAV, for an uploaded bed
+  fileName?: string; // of the upload, for display
+  volume: number; // dB, the bed's level under silence
+  ducking: number; // dB the bed drops while the voice speaks
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  intro: number; // seconds of bed before the voice starts
+  outro: number; // seconds of bed after the voice ends
+}
+
+export type MusicBedLevel = Exclude<keyof MusicBedInput, 'bed' | 'data' | 'fileName'>;
+
+export const MUSIC_BED_LEVELS: Record<MusicBedLevel, { label: string; unit: string; range: [number, number]; step: number }> = {
+  volume: { label: 'Bed Volume', unit: 'dB', range: [-40, 0], step: 1 },
+  ducking: { label: 'Ducking', unit: 'dB', range: [0, 30], step: 1 },
+  fadeIn: { label: 'Fade In', unit: 's', range: [0, 10], step: 0.5 },
+  fadeOut: { label: 'Fade Out', unit: 's', range: [0, 10], step: 0.5 },
+  intro: { label: 'Intro', unit: 's', range: [0, 15], step: 0.5 },
+  outro: { label: 'Outro', unit: 's', range: [0, 15], step: 0.5 }
+};
+
+export const DEFAULT_MUSIC_BED: MusicBedInput = {
+  bed: 'ambient',
+  volume: -18,
+  ducking: 12,
+  fadeIn: 2,
+  fadeOut: 3,
+  intro: 2,
+  outro: 3
+};
+
+// Uploads are cut to this length and sent at the renderer's rate; the mixer
+// loops them
+export const MAX_MUSIC_BED_SECONDS = 180;
+export const MUSIC_BED_SAMPLE_RATE = 44100;
+export const MAX_MUSIC_BED_BYTES = 32 * 1024 * 1024; // of WAV, before base64
+
+// Check a request's music bed. Whether uploaded data is a WAV file the mixer
+// can read is up to the server.
+export function validateMusicBed(input: unknown): string | null {
+  if (input === undefined) return null;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return 'Music bed must be an object';
+  const music = input as Record<string, unknown>;
+
+  if (music.bed !== 'upload' && !MUSIC_BED_NAMES.includes(music.bed as MusicBedName)) {
+    return `Music bed must be "upload" or one of: ${MUSIC_BED_NAMES.join(', ')}`;
+  }
+  if (music.bed === 'upload') {
+    if (typeof music.data !== 'string' || music.data.length === 0) {
+      return 'An uploaded music bed needs its WAV file as base64 data';
+    }
+    if ((music.data.length * 3) / 4 > MAX_MUSIC_BED_BYTES) {
+      return `An uploaded music bed must be at most ${MAX_MUSIC_BED_BYTES / (1024 * 1024)} MB`;
+    }
+  }
+  if (music.fileName !== undefined && typeof music.fileName !== 'string') return 'Music bed file name must be a string';
+
+  for (const [name, level] of Object.entries(MUSIC_BED_LEVELS)) {
+    const value = music[name];
+    const [min, max] = level.range;
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      return `Music bed ${name} must be a number from ${min} to ${max} ${level.unit}`;
+    }
+  }
+  return null;
+}
+
+// A music bed without its uploaded audio, for settings that are saved: the
+// file is uploaded again when it is needed
+export function withoutBedAudio(music: MusicBedInput | undefined): MusicBedInput | undefined {
+  return music?.data ? { ...music, data: undefined } : music;
+}
+
+// Whether saved settings name an uploaded bed whose file has to be chosen
+// again before they can be rendered
+export function missingBedAudio(music: MusicBedInput | undefined): boolean {
+  return music?.bed === 'upload' && !music.data;
+}
@@ -0,0 +1,128 @@
+// Spell numbers out as English words
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen',
+  'eighteen', 'nineteen'
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+export interface NumberWordOptions {
+  // British and Australian English say "one hundred and five"
+  useAnd?: boolean;
+}
+
+// Words for 0-999
+function spellHundreds(value: number, options: NumberWordOptions): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const parts: string[] = [];
+
+  if (hundreds > 0) {
+    parts.push(`${ONES[hundreds]} hundred`);
+  }
+  if (rest > 0) {
+    if (hundreds > 0 && options.useAnd) parts.push('and');
+    if (rest < 20) {
+      parts.push(ONES[rest]);
+    } else {
+      const tens = TENS[Math.floor(rest / 10)];
+      parts.push(rest % 10 ? `${tens}-${ONES[rest % 10]}` : tens);
+    }
+  }
+
+  return parts.join(' ');
+}
+
+// Spell a non-negative integer given as a digit string (so large values keep precision)
+export function cardinalWords(digits: string, options: NumberWordOptions = {}): string {
+  const clean = digits.replace(/^0+(?=\d)/, '');
+  if (!/^\d+$/.test(clean)) {
+    throw new Error(`Not an integer: ${digits}`);
+  }
+  if (clean === '0') return ONES[0];
+  if (clean.length > SCALES.length * 3) return digitWords(clean);
+
+  const groups: number[] = [];
+  for (let end = clean.length; end > 0; end -= 3) {
+    groups.unshift(Number(clean.slice(Math.max(0, end - 3), end)));
+  }
+
+  const parts: string[] = [];
+  groups.forEach((group, index) => {
+    if (group === 0) return;
+    const scale = SCALES[groups.length - 1 - index];
+    const isLastGroup = index === groups.length - 1;
+    // "one thousand and five" in British English
+    if (isLastGroup && options.useAnd && parts.length > 0 && group < 100) {
+      parts.push('and');
+    }
+    parts.push(scale ? `${spellHundreds(group, options)} ${scale}` : spellHundreds(group, options));
+  });
+
+  return parts.join(' ');
+}
+
+// Turn the last word of a cardinal into its ordinal form
+export function ordinalWords(digits: string, options: NumberWordOptions = {}): string {
+  const cardinal = cardinalWords(digits, options);
+  return cardinal.replace(/([a-z]+)$/, (word) => {
+    if (ORDINAL_EXCEPTIONS[word]) return ORDINAL_EXCEPTIONS[word];
+    if (word.endsWith('y')) return `${word.slice(0, -1)}ieth`;
+    return `${word}th`;
+  });
+}
+
+// Read digits one at a time: "2048" -> "two zero four eight"
+export function digitWords(digits: string): string {
+  return digits
+    .split('')
+    .filter(ch => /\d/.test(ch))
+    .map(ch => ONES[Number(ch)])
+    .join(' ');
+}
+
+// Read a four-digit year the way people say it: 1999, 2005, 2025
+export function yearWords(year: number, options: NumberWordOptions = {}): string {
+  if (year < 1000 || year > 9999) return cardinalWords(String(year), options);
+
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+
+  if (rest === 0 && year % 1000 !== 0) return `${cardinalWords(String(century))} hundred`;
+  if (year >= 2000 && year < 2010) return cardinalWords(String(year), options);
+  if (rest === 0) return cardinalWords(String(year), options);
+  if (rest < 10) return `${cardinalWords(String(century))} oh ${ONES[rest]}`;
+  return `${cardinalWords(String(century))} ${cardinalWords(String(rest))}`;
+}
+
+// A decade as a plural year: 1980 as "nineteen-eighties", 2010 as
+// "twenty-tens", 2000 as "two thousands"
+export function decadeWords(year: number, options: NumberWordOptions = {}): string {
+  const plural = `${yearWords(year, options).replace(/y$/, 'ie')}s`;
+  return year % 100 === 0 ? plural : plural.replace(/ (?=\S+$)/, '-');
+}
+
+// A fraction as its numerator and a plural ordinal: 1/3 as "one third", 5/8
+// as "five eighths", with halves and quarters by name
+export function fractionWords(numerator: number, denominator: number, options: NumberWordOptions = {}): string {
+  const one = numerator === 1;
+  let name: string;
+  if (denominator === 2) name = one ? 'half' : 'halves';
+  else if (denominator === 4) name = one ? 'quarter' : 'quarters';
+  else name = `${ordinalWords(String(denominator), options)}${one ? '' : 's'}`;
+  return `${cardinalWords(String(numerator), options)} ${name}`;
+}
@@ -0,0 +1,80 @@
+// Server-side project store
+//
+// Each project is a directory under PROJECT_STORE_DIR (default
+// .data/projects) holding project.json and one file per render. Writes go
+// through a temporary file and a rename so readers never see half a record.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Project, PROJECT_ID_PATTERN, sortProjects } from './projects';
+
+const STORE_DIR = process.env.PROJECT_STORE_DIR || path.join(process.cwd(), '.data', 'projects');
+const PROJECT_FILE = 'project.json';
+const RENDERS_DIR = 'renders';
+
+// Ids are checked before they become paths
+function projectDir(id: string): string {
+  if (!PROJECT_ID_PATTERN.test(id)) throw new Error(`Invalid project id: ${id}`);
+  return path.join(STORE_DIR, id);
+}
+
+function renderFile(projectId: string, renderId: string): string {
+  if (!PROJECT_ID_PATTERN.test(renderId)) throw new Error(`Invalid render id: ${renderId}`);
+  return path.join(projectDir(projectId), RENDERS_DIR, renderId);
+}
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+async function writeAtomic(file: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temporary, data);
+  await fs.rename(temporary, file);
+}
+
+export async function listProjects(): Promise<Project[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(STORE_DIR);
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+
+  const projects = await Promise.all(ids.filter(id => PROJECT_ID_PATTERN.test(id)).map(readProject));
+  return sortProjects(projects.filter((project): project is Project => project !== null));
+}
+
+export async function readProject(id: string): Promise<Project | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(projectDir(id), PROJECT_FILE), 'utf8'));
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+export async function writeProject(project: Project): Promise<void> {
+  await writeAtomic(path.join(projectDir(project.id), PROJECT_FILE), JSON.stringify(project, null, 2));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await fs.rm(projectDir(id), { recursive: true, force: true });
+}
+
+export async function readRenderAudio(projectId: string, renderId: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(renderFile(projectId, renderId));
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+export async function writeRenderAudio(projectId: string, renderId: string, audio: Uint8Array): Promise<void> {
+  await writeAtomic(renderFile(projectId, renderId), audio);
+}
+
+export async function deleteRenderAudio(projectId: string, renderId: string): Promise<void> {
+  await fs.rm(renderFile(projectId, renderId), { force: true });
+}
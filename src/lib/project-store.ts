@@ -0,0 +1,231 @@
+// Project stores for the browser
+//
+// The same interface over IndexedDB and over the server store's API, so the
+// library can switch between them. Render audio is stored under the project
+// and render ids, apart from the project record.
+
+import { createId, Project, ProjectRender, ProjectStorage, sortProjects } from './projects';
+import type { SavedVoiceSettings } from './audio-utils';
+import { outputFormatForType } from './audio-formats';
+
+export interface ProjectStore {
+  list(): Promise<Project[]>; // most recently changed first
+  get(id: string): Promise<Project | null>;
+  save(project: Project): Promise<void>;
+  delete(id: string): Promise<void>; // with its renders' audio
+  getAudio(projectId: string, renderId: string): Promise<Blob | null>;
+  putAudio(projectId: string, renderId: string, audio: Blob): Promise<void>;
+  deleteAudio(projectId: string, renderId: string): Promise<void>;
+}
+
+const DATABASE_NAME = 'text-to-audio';
+const DATABASE_VERSION = 1;
+const PROJECTS = 'projects';
+const RENDERS = 'renders'; // audio blobs keyed by [projectId, renderId]
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class BrowserProjectStore implements ProjectStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PROJECTS)) database.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!database.objectStoreNames.contains(RENDERS)) database.createObjectStore(RENDERS);
+      };
+      this.database = settle(request);
+      // Let a later call try again after a failure
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  // Run one request in its own transaction and wait for it to commit
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    const transaction = database.transaction(storeName, mode);
+    const result = settle(operation(transaction.objectStore(storeName)));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+  }
+
+  async list(): Promise<Project[]> {
+    return sortProjects(await this.run(PROJECTS, 'readonly', store => store.getAll() as IDBRequest<Project[]>));
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const project = await this.run(PROJECTS, 'readonly', store => store.get(id) as IDBRequest<Project | undefined>);
+    return project ?? null;
+  }
+
+  async save(project: Project): Promise<void> {
+    await this.run(PROJECTS, 'readwrite', store => store.put(project));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run(PROJECTS, 'readwrite', store => store.delete(id));
+    // Arrays sort after strings, so this range holds every render of the project
+    await this.run(RENDERS, 'readwrite', store => store.delete(IDBKeyRange.bound([id], [id, []])));
+  }
+
+  async getAudio(projectId: string, renderId: string): Promise<Blob | null> {
+    const audio = await this.run(RENDERS, 'readonly', store => store.get([projectId, renderId]) as IDBRequest<Blob | undefined>);
+    return audio ?? null;
+  }
+
+  async putAudio(projectId: string, renderId: string, audio: Blob): Promise<void> {
+    await this.run(RENDERS, 'readwrite', store => store.put(audio, [projectId, renderId]));
+  }
+
+  async deleteAudio(projectId: string, renderId: string): Promise<void> {
+    await this.run(RENDERS, 'readwrite', store => store.delete([projectId, renderId]));
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+}
+
+// Reads the error message a project route returns
+async function requestFailed(response: Response, action: string): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error || `Failed to ${action} (status ${response.status})`);
+}
+
+export class ServerProjectStore implements ProjectStore {
+  private projectUrl(id: string): string {
+    return `/api/projects/${encodeURIComponent(id)}`;
+  }
+
+  private renderUrl(projectId: string, renderId: string): string {
+    return `${this.projectUrl(projectId)}/renders/${encodeURIComponent(renderId)}`;
+  }
+
+  async list(): Promise<Project[]> {
+    const response = await fetch('/api/projects');
+    if (!response.ok) throw await requestFailed(response, 'list projects');
+    return (await response.json()).projects;
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const response = await fetch(this.projectUrl(id));
+    if (response.status === 404) return null;
+    if (!response.ok) throw await requestFailed(response, 'load project');
+    return (await response.json()).project;
+  }
+
+  async save(project: Project): Promise<void> {
+    const response = await fetch(this.projectUrl(project.id), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(project)
+    });
+    if (!response.ok) throw await requestFailed(response, 'save project');
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(this.projectUrl(id), { method: 'DELETE' });
+    if (!response.ok) throw await requestFailed(response, 'delete project');
+  }
+
+  async getAudio(projectId: string, renderId: string): Promise<Blob | null> {
+    const response = await fetch(this.renderUrl(projectId, renderId));
+    if (response.status === 404) return null;
+    if (!response.ok) throw await requestFailed(response, 'load render');
+    return response.blob();
+  }
+
+  async putAudio(projectId: string, renderId: string, audio: Blob): Promise<void> {
+    const response = await fetch(this.renderUrl(projectId, renderId), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': audio.type || 'application/octet-stream',
+      },
+      body: audio
+    });
+    if (!response.ok) throw await requestFailed(response, 'save render');
+  }
+
+  async deleteAudio(projectId: string, renderId: string): Promise<void> {
+    const response = await fetch(this.renderUrl(projectId, renderId), { method: 'DELETE' });
+    if (!response.ok) throw await requestFailed(response, 'delete render');
+  }
+}
+
+export function openProjectStore(storage: ProjectStorage): ProjectStore {
+  return storage === 'server' ? new ServerProjectStore() : new BrowserProjectStore();
+}
+
+// Store the audio, then list the render in the project. Only the server's
+// output formats are kept; the browser's WebM fallback is not.
+export async function addRender(
+  store: ProjectStore,
+  project: Project,
+  audio: Blob,
+  voiceSettings: SavedVoiceSettings,
+  duration: number | null
+): Promise<Project> {
+  if (!outputFormatForType(audio.type)) throw new Error(`${audio.type || 'Untyped'} audio cannot be kept`);
+  const render: ProjectRender = {
+    id: createId(),
+    createdAt: new Date().toISOString(),
+    duration,
+    size: audio.size,
+    type: audio.type,
+    voiceSettings
+  };
+  await store.putAudio(project.id, render.id, audio);
+  const updated = { ...project, renders: [...project.renders, render], updatedAt: render.createdAt };
+  await store.save(updated);
+  return updated;
+}
+
+export async function removeRender(store: ProjectStore, project: Project, renderId: string): Promise<Project> {
+  const updated = {
+    ...project,
+    renders: project.renders.filter(render => render.id !== renderId),
+    updatedAt: new Date().toISOString()
+  };
+  await store.save(updated);
+  await store.deleteAudio(project.id, renderId);
+  return updated;
+}
+
+// A copy with new ids, its renders' audio copied too. The copy is saved
+// first, since the server only stores audio beside an existing project.
+export async function duplicateProject(store: ProjectStore, project: Project, name: string): Promise<Project> {
+  const now = new Date().toISOString();
+  const copy: Project = { ...project, id: createId(), name, createdAt: now, updatedAt: now, renders: [] };
+  await store.save(copy);
+
+  for (const render of project.renders) {
+    const audio = await store.getAudio(project.id, render.id);
+    if (!audio) continue;
+    const id = createId();
+    await store.putAudio(copy.id, id, audio);
+    copy.renders.push({ ...render, id });
+  }
+
+  await store.save(copy);
+  return copy;
+}
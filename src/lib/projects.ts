@@ -0,0 +1,135 @@
+// Project library
+//
+// A project is a text, the settings it is spoken with and the audio rendered
+// from it over time. Projects are kept in the browser's IndexedDB or, for
+// shared deployments, in a JSON and file store on the server. Both hold the
+// same records; render audio is stored beside its project, not inside it.
+
+import type { SavedDialogueSettings, SavedVoiceSettings } from './audio-utils';
+import type { ExportOptions } from './audio-formats';
+import { OUTPUT_FORMATS, outputFormatForType } from './audio-formats';
+import type { InputFormat } from './ssml';
+import { INPUT_FORMATS } from './ssml';
+
+export interface ProjectRender {
+  id: string;
+  createdAt: string; // ISO 8601
+  duration: number | null; // seconds, when the browser could measure it
+  size: number; // bytes
+  type: string; // MIME type of the audio, one of the output formats'
+  voiceSettings: SavedVoiceSettings; // voice it was rendered with
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  text: string;
+  format: InputFormat;
+  voiceSettings: SavedVoiceSettings;
+  dialogue?: SavedDialogueSettings; // speaker voices and turn gap, for scripts
+  exportOptions: ExportOptions;
+  createdAt: string;
+  updatedAt: string;
+  renders: ProjectRender[]; // oldest first
+}
+
+// What the editor holds; the rest of a project is managed by the library
+export type ProjectDraft = Pick<Project, 'text' | 'format' | 'voiceSettings' | 'dialogue' | 'exportOptions'>;
+
+export type ProjectStorage = 'browser' | 'server';
+
+export const PROJECT_STORAGES: Record<ProjectStorage, { label: string; description: string }> = {
+  browser: { label: 'This browser', description: 'Saved in IndexedDB on this device' },
+  server: { label: 'Server', description: 'Shared with everyone using this server' }
+};
+
+export const DEFAULT_PROJECT_STORAGE: ProjectStorage = 'browser';
+
+export const UNTITLED_PROJECT = 'Untitled project';
+export const MAX_PROJECT_NAME_LENGTH = 200;
+const PROJECT_NAME_WORDS = 6;
+
+// Project and render ids double as file names in the server store
+export const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function isProjectStorage(value: unknown): value is ProjectStorage {
+  return typeof value === 'string' && value in PROJECT_STORAGES;
+}
+
+// A name from the first words of the text
+export function projectNameFromText(text: string): string {
+  const words = text.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return UNTITLED_PROJECT;
+  const name = words.slice(0, PROJECT_NAME_WORDS).join(' ');
+  return words.length > PROJECT_NAME_WORDS ? `${name}…` : name;
+}
+
+export function createProject(draft: ProjectDraft, name = projectNameFromText(draft.text)): Project {
+  const now = new Date().toISOString();
+  return { ...draft, id: createId(), name, createdAt: now, updatedAt: now, renders: [] };
+}
+
+// Case-insensitive match on the name or text
+export function matchesSearch(project: Project, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return project.name.toLowerCase().includes(needle) || project.text.toLowerCase().includes(needle);
+}
+
+// Most recently changed first
+export function sortProjects(projects: Project[]): Project[] {
+  return [...projects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+const isVoiceSettings = (value: unknown): value is SavedVoiceSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const voice = value as Record<string, unknown>;
+  return ['rate', 'pitch', 'volume'].every(field => typeof voice[field] === 'number') &&
+    ['voiceName', 'voiceLang'].every(field => voice[field] === null || typeof voice[field] === 'string');
+};
+
+// Returns a message for the first invalid field of a project record, or null
+export function validateProject(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Project must be an object';
+  }
+
+  const project = input as Record<string, unknown>;
+  if (typeof project.id !== 'string' || !PROJECT_ID_PATTERN.test(project.id)) {
+    return 'Project id must be 1 to 64 letters, digits, hyphens or underscores';
+  }
+  if (typeof project.name !== 'string' || !project.name.trim() || project.name.length > MAX_PROJECT_NAME_LENGTH) {
+    return `Project name must be a non-empty string of at most ${MAX_PROJECT_NAME_LENGTH} characters`;
+  }
+  if (typeof project.text !== 'string') return 'Project text must be a string';
+  if (!INPUT_FORMATS.includes(project.format as InputFormat)) {
+    return `Project format must be one of: ${INPUT_FORMATS.join(', ')}`;
+  }
+  if (!isVoiceSettings(project.voiceSettings)) return 'Project voice settings are invalid';
+  if (typeof project.exportOptions !== 'object' || project.exportOptions === null) {
+    return 'Project export options must be an object';
+  }
+  for (const field of ['createdAt', 'updatedAt'] as const) {
+    if (typeof project[field] !== 'string' || Number.isNaN(Date.parse(project[field] as string))) {
+      return `Project ${field} must be an ISO 8601 date`;
+    }
+  }
+  if (!Array.isArray(project.renders)) return 'Project renders must be an array';
+  for (const render of project.renders as unknown[]) {
+    const fields = (typeof render === 'object' && render !== null ? render : {}) as Record<string, unknown>;
+    if (typeof fields.id !== 'string' || !PROJECT_ID_PATTERN.test(fields.id)) return 'Render ids must be valid ids';
+    if (typeof fields.size !== 'number' || typeof fields.type !== 'string' || typeof fields.createdAt !== 'string') {
+      return 'Renders need a size, type and creation date';
+    }
+    if (!outputFormatForType(fields.type)) {
+      return `Render type must be one of: ${Object.values(OUTPUT_FORMATS).map(format => format.contentType).join(', ')}`;
+    }
+    if (fields.duration !== null && typeof fields.duration !== 'number') return 'Render duration must be a number or null';
+    if (!isVoiceSettings(fields.voiceSettings)) return 'Render voice settings are invalid';
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+// Pauses and silence
+//
+// Pause lengths set how long the voice stops after a comma, a sentence and a
+// paragraph, both in server renders and between the utterances the browser
+// speaks. Silence settings act on the rendered audio: they trim the silence
+// before the first word and after the last, keeping a little padding, and
+// shorten any silence inside it to a maximum. Both are shared by the client
+// and the server, which validates them.
+
+export interface PauseSettings {
+  comma: number; // seconds
+  sentence: number;
+  paragraph: number;
+}
+
+export interface SilenceSettings {
+  trimStart: boolean;
+  trimEnd: boolean;
+  padding: number; // seconds of silence kept at a trimmed end
+  maxSilence: number | null; // seconds; longer silences inside the audio are shortened
+  threshold: number; // dBFS under which audio counts as silence
+}
+
+// The renderer's own pauses
+export const DEFAULT_PAUSES: PauseSettings = { comma: 0.18, sentence: 0.4, paragraph: 0.65 };
+
+export const DEFAULT_SILENCE: SilenceSettings = {
+  trimStart: false,
+  trimEnd: false,
+  padding: 0.05,
+  maxSilence: null,
+  threshold: -50
+};
+
+// Each rendered part starts and ends with 0.1 s of silence, so pauses
+// between sentences and paragraphs that fall between parts cannot be shorter
+export const PAUSE_RANGES: Record<keyof PauseSettings, [number, number]> = {
+  comma: [0, 2],
+  sentence: [0.2, 3],
+  paragraph: [0.2, 5]
+};
+
+export const SILENCE_PADDING_RANGE: [number, number] = [0, 1];
+export const MAX_SILENCE_RANGE: [number, number] = [0.1, 5];
+export const SILENCE_THRESHOLD_RANGE: [number, number] = [-80, -20];
+
+const inRange = (value: unknown, [min, max]: [number, number]) => typeof value === 'number' && value >= min && value <= max;
+
+// Check the pause and silence fields of a request; both are optional
+export function validateSilenceOptions(pauses: unknown, silence: unknown): string | null {
+  if (pauses !== undefined) {
+    if (typeof pauses !== 'object' || pauses === null) return 'Pauses must be an object';
+    for (const [name, range] of Object.entries(PAUSE_RANGES)) {
+      if (!inRange((pauses as Record<string, unknown>)[name], range)) {
+        return `The ${name} pause must be between ${range[0]} and ${range[1]} seconds`;
+      }
+    }
+  }
+
+  if (silence !== undefined) {
+    if (typeof silence !== 'object' || silence === null) return 'Silence must be an object';
+    const fields = silence as Record<string, unknown>;
+    if (typeof fields.trimStart !== 'boolean' || typeof fields.trimEnd !== 'boolean') {
+      return 'Silence trimStart and trimEnd must be true or false';
+    }
+    if (!inRange(fields.padding, SILENCE_PADDING_RANGE)) {
+      return `Silence padding must be between ${SILENCE_PADDING_RANGE[0]} and ${SILENCE_PADDING_RANGE[1]} seconds`;
+    }
+    if (fields.maxSilence !== null && !inRange(fields.maxSilence, MAX_SILENCE_RANGE)) {
+      return `Maximum silence must be null or between ${MAX_SILENCE_RANGE[0]} and ${MAX_SILENCE_RANGE[1]} seconds`;
+    }
+    if (!inRange(fields.threshold, SILENCE_THRESHOLD_RANGE)) {
+      return `Silence threshold must be between ${SILENCE_THRESHOLD_RANGE[0]} and ${SILENCE_THRESHOLD_RANGE[1]} dBFS`;
+    }
+  }
+  return null;
+}
+
+// Whether the settings change the audio at all
+export function trimsSilence(silence: SilenceSettings): boolean {
+  return silence.trimStart || silence.trimEnd || silence.maxSilence !== null;
+}
@@ -0,0 +1,17 @@
+// Web Worker that computes spectrograms off the main thread. Started by
+// useAudioAnalysis with new Worker(new URL(...)), which the bundler turns into
+// a separate script.
+
+import { computeSpectrogram, SpectrogramRequest, SpectrogramResponse } from './spectrogram';
+
+const post = (response: SpectrogramResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.onmessage = (event: MessageEvent<SpectrogramRequest>) => {
+  const { id, samples, sampleRate } = event.data;
+  try {
+    const spectrogram = computeSpectrogram(samples, sampleRate);
+    post({ id, spectrogram }, [spectrogram.levels.buffer]);
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : 'Failed to compute the spectrogram' });
+  }
+};
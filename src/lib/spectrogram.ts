@@ -0,0 +1,128 @@
+// Spectrograms
+//
+// A short-time Fourier transform of decoded audio: Hann-windowed frames of
+// FFT_SIZE samples, spaced so that even a long render stays within
+// MAX_FRAMES, each turned into levels from the quietest shown to the loudest
+// as bytes. It runs in a Web Worker (spectrogram-worker.ts) so the page stays
+// responsive while a long render is analysed; the messages are typed here.
+
+export const FFT_SIZE = 1024;
+const MIN_HOP = 128;
+const MAX_FRAMES = 6000;
+const FLOOR_DB = -100; // shown as 0; 0 dBFS is 255
+
+export interface Spectrogram {
+  frames: number;
+  bins: number; // FFT_SIZE / 2, from 0 Hz to half the sample rate
+  hop: number; // samples between frames
+  sampleRate: number;
+  levels: Uint8Array; // frames × bins, frame by frame
+}
+
+export interface SpectrogramRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type SpectrogramResponse =
+  | { id: number; spectrogram: Spectrogram; error?: undefined }
+  | { id: number; spectrogram?: undefined; error: string };
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+export function computeSpectrogram(samples: Float32Array, sampleRate: number): Spectrogram {
+  const bins = FFT_SIZE / 2;
+  const hop = Math.max(MIN_HOP, Math.ceil(Math.max(0, samples.length - FFT_SIZE) / (MAX_FRAMES - 1)));
+  const frames = Math.max(1, Math.floor(Math.max(0, samples.length - FFT_SIZE) / hop) + 1);
+  const levels = new Uint8Array(frames * bins);
+
+  const window = new Float32Array(FFT_SIZE);
+  let windowSum = 0;
+  for (let i = 0; i < FFT_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+    windowSum += window[i];
+  }
+  // A full-scale sine reads 0 dB in its bin
+  const scale = 2 / windowSum;
+
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  for (let frame = 0; frame < frames; frame++) {
+    const offset = frame * hop;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      real[i] = (samples[offset + i] ?? 0) * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]) * scale;
+      const db = 20 * Math.log10(magnitude + 1e-10);
+      levels[frame * bins + bin] = Math.round(Math.max(0, Math.min(1, 1 - db / FLOOR_DB)) * 255);
+    }
+  }
+
+  return { frames, bins, hop, sampleRate, levels };
+}
+
+// Colours for levels 0 to 255, from black through purple and orange to pale
+// yellow, as RGBA
+export function spectrogramPalette(): Uint8ClampedArray {
+  const stops: [number, number, number, number][] = [
+    [0, 0, 0, 4],
+    [0.3, 80, 18, 123],
+    [0.55, 183, 55, 121],
+    [0.8, 251, 136, 97],
+    [1, 252, 253, 191]
+  ];
+  const palette = new Uint8ClampedArray(256 * 4);
+  for (let level = 0; level < 256; level++) {
+    const position = level / 255;
+    let upper = 1;
+    while (upper < stops.length - 1 && stops[upper][0] < position) upper++;
+    const [p0, r0, g0, b0] = stops[upper - 1];
+    const [p1, r1, g1, b1] = stops[upper];
+    const t = (position - p0) / (p1 - p0);
+    palette[level * 4] = r0 + (r1 - r0) * t;
+    palette[level * 4 + 1] = g0 + (g1 - g0) * t;
+    palette[level * 4 + 2] = b0 + (b1 - b0) * t;
+    palette[level * 4 + 3] = 255;
+  }
+  return palette;
+}
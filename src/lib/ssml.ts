@@ -0,0 +1,565 @@
+// SSML parsing and validation
+//
+// Supports the subset of SSML 1.1 that both playback paths can honour:
+// <speak>, <p>, <s>, <break>, <prosody>, <emphasis>, <say-as>, <sub>,
+// <phoneme> and <mark>. A document is flattened into a list of text and break
+// segments, each carrying the prosody in effect at that point, so the Web
+// Speech client and the server renderer consume the same structure.
+
+import { cardinalWords, digitWords, ordinalWords, yearWords } from './number-words';
+import { MONTHS, normalizeText, NormalizationOptions } from './text-normalizer';
+import { chunkText } from './text-chunker';
+import { ipaToArpabet } from './tts/ipa';
+import { isPhoneme, isVowel } from './tts/phonemes';
+
+// Plain text, SSML markup, or a dialogue script of speaker-labelled lines
+export type InputFormat = 'text' | 'ssml' | 'script';
+
+export const INPUT_FORMATS: InputFormat[] = ['text', 'ssml', 'script'];
+
+export type EmphasisLevel = 'strong' | 'moderate' | 'none' | 'reduced';
+
+// Multipliers applied to the caller's base rate, pitch and volume
+export interface SsmlProsody {
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface SsmlTextSegment {
+  type: 'text';
+  text: string;
+  prosody: SsmlProsody;
+  emphasis: EmphasisLevel;
+  phonemes?: string[]; // ARPAbet override from <phoneme>
+  spell?: boolean; // <say-as interpret-as="characters">
+  normalized: boolean; // already expanded by <say-as>
+}
+
+export interface SsmlBreakSegment {
+  type: 'break';
+  duration: number; // seconds
+}
+
+export type SsmlSegment = SsmlTextSegment | SsmlBreakSegment;
+
+export interface SsmlDocument {
+  segments: SsmlSegment[];
+  lang?: string;
+}
+
+export interface SsmlIssue {
+  message: string;
+  offset: number;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  offset: number;
+}
+
+type XmlNode = XmlElement | string;
+
+type RelativeUnit = '%' | 'st' | 'dB';
+
+export const MAX_BREAK_SECONDS = 10;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 0.1,
+  'weak': 0.2,
+  'medium': 0.4,
+  'strong': 0.65,
+  'x-strong': 1
+};
+
+const RATE_NAMES: Record<string, number> = { 'x-slow': 0.5, 'slow': 0.75, 'medium': 1, 'fast': 1.25, 'x-fast': 1.75, 'default': 1 };
+const PITCH_NAMES: Record<string, number> = { 'x-low': 0.7, 'low': 0.85, 'medium': 1, 'high': 1.15, 'x-high': 1.3, 'default': 1 };
+const VOLUME_NAMES: Record<string, number> = { 'silent': 0, 'x-soft': 0.25, 'soft': 0.5, 'medium': 1, 'loud': 1.4, 'x-loud': 2, 'default': 1 };
+
+const EMPHASIS_PROSODY: Record<EmphasisLevel, SsmlProsody> = {
+  strong: { rate: 0.85, pitch: 1.1, volume: 1.4 },
+  moderate: { rate: 0.92, pitch: 1.05, volume: 1.2 },
+  none: { rate: 1, pitch: 1, volume: 1 },
+  reduced: { rate: 1.1, pitch: 0.95, volume: 0.7 }
+};
+
+const SAY_AS_TYPES = [
+  'cardinal', 'number', 'ordinal', 'digits', 'characters', 'spell-out', 'verbatim',
+  'date', 'time', 'telephone', 'currency', 'unit', 'address', 'expletive'
+];
+
+const XML_ATTRIBUTES = /^(xml:lang|xmlns(:[\w-]+)?|xsi:schemaLocation|version)$/;
+
+// Attributes accepted on each supported element
+const ELEMENTS: Record<string, string[]> = {
+  'speak': [],
+  'p': [],
+  's': [],
+  'break': ['time', 'strength'],
+  'prosody': ['rate', 'pitch', 'volume'],
+  'emphasis': ['level'],
+  'say-as': ['interpret-as', 'format', 'detail'],
+  'sub': ['alias'],
+  'phoneme': ['alphabet', 'ph'],
+  'mark': ['name']
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const NEUTRAL_PROSODY: SsmlProsody = { rate: 1, pitch: 1, volume: 1 };
+
+// Cheap check used to pick the input format when the caller does not say
+export function looksLikeSsml(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?<speak[\s>]/.test(text);
+}
+
+function decodeEntities(text: string, offset: number, issues: SsmlIssue[]): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);|&/gi, (whole, entity: string | undefined, index: number) => {
+    if (!entity) {
+      issues.push({ message: 'Unescaped "&" (use &amp;)', offset: offset + index });
+      return whole;
+    }
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (code > 0x10ffff) {
+        issues.push({ message: `Invalid character reference "&${entity};"`, offset: offset + index });
+        return whole;
+      }
+      return String.fromCodePoint(code);
+    }
+    if (ENTITIES[entity] === undefined) {
+      issues.push({ message: `Unknown entity "&${entity};"`, offset: offset + index });
+      return whole;
+    }
+    return ENTITIES[entity];
+  });
+}
+
+// Minimal XML reader: elements, attributes, text, comments and entities
+function parseXml(source: string, issues: SsmlIssue[]): XmlElement | null {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], offset: 0 };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|</g;
+  let cursor = 0;
+
+  for (const match of source.matchAll(tagPattern)) {
+    const index = match.index ?? 0;
+    const parent = stack[stack.length - 1];
+    if (index > cursor) {
+      parent.children.push(decodeEntities(source.slice(cursor, index), cursor, issues));
+    }
+    cursor = index + match[0].length;
+
+    const [whole, cdata, closing, name, attributeText, selfClosing] = match;
+    if (whole === '<') {
+      issues.push({ message: 'Malformed tag', offset: index });
+      return null;
+    }
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+      continue;
+    }
+    if (!name) continue; // comment or processing instruction
+
+    if (closing) {
+      if (parent.name !== name) {
+        issues.push({
+          message: parent === root ? `Unexpected closing tag </${name}>` : `Expected </${parent.name}> but found </${name}>`,
+          offset: index
+        });
+        return null;
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3], index, issues);
+    }
+    const element: XmlElement = { name, attributes, children: [], offset: index };
+    parent.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (cursor < source.length) {
+    stack[stack.length - 1].children.push(decodeEntities(source.slice(cursor), cursor, issues));
+  }
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    issues.push({ message: `Missing closing tag for <${open.name}>`, offset: open.offset });
+    return null;
+  }
+
+  const elements = root.children.filter((child): child is XmlElement => typeof child !== 'string');
+  const strayText = root.children.some(child => typeof child === 'string' && child.trim().length > 0);
+  if (elements.length !== 1 || elements[0].name !== 'speak' || strayText) {
+    issues.push({ message: 'SSML documents must have a single <speak> root element', offset: 0 });
+    return null;
+  }
+  return elements[0];
+}
+
+// Parse "500ms", "1.5s" into seconds
+function parseTime(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)\s*(ms|s)$/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) / (match[2] === 'ms' ? 1000 : 1);
+}
+
+// Parse a relative value such as "+20%", "80%", "-2st", "+6dB" or "1.2"
+function parseRelative(value: string, names: Record<string, number>, units: RelativeUnit[]): number | null {
+  const trimmed = value.trim();
+  if (names[trimmed] !== undefined) return names[trimmed];
+
+  const match = /^([+-])?(\d+(?:\.\d+)?|\.\d+)(%|st|dB)?$/.exec(trimmed);
+  if (!match) return null;
+  const [, sign, digits, unit] = match;
+  const amount = Number(digits) * (sign === '-' ? -1 : 1);
+
+  if (!unit) return sign ? null : amount;
+  if (!units.includes(unit as RelativeUnit)) return null;
+  if (unit === 'st') return Math.pow(2, amount / 12);
+  if (unit === 'dB') return Math.pow(10, amount / 20);
+  return sign ? 1 + amount / 100 : amount / 100;
+}
+
+const spokenMinus = (negative: boolean) => (negative ? 'minus ' : '');
+
+function sayCardinal(text: string): string | null {
+  const match = /^(-)?([\d,]+)(?:\.(\d+))?$/.exec(text.trim());
+  if (!match || !/\d/.test(match[2])) return null;
+  const integer = cardinalWords(match[2].replace(/,/g, ''));
+  const fraction = match[3] ? ` point ${digitWords(match[3])}` : '';
+  return `${spokenMinus(!!match[1])}${integer}${fraction}`;
+}
+
+function sayDate(text: string, format: string): string | null {
+  const fields = text.trim().split(/[\s/.-]+/).filter(Boolean);
+  const order = (format || 'mdy').toLowerCase();
+  if (!/^[dmy]{1,3}$/.test(order) || fields.length !== order.length || !fields.every(field => /^\d+$/.test(field))) {
+    return null;
+  }
+
+  const value = (key: string) => {
+    const position = order.indexOf(key);
+    return position >= 0 ? Number(fields[position]) : null;
+  };
+  const day = value('d');
+  const month = value('m');
+  const year = value('y');
+  if (month !== null && (month < 1 || month > 12)) return null;
+  if (day !== null && (day < 1 || day > 31)) return null;
+
+  const parts: string[] = [];
+  if (month !== null) parts.push(MONTHS[month - 1]);
+  if (day !== null) parts.push(month !== null ? ordinalWords(String(day)) : `the ${ordinalWords(String(day))}`);
+  const monthDay = parts.join(' ');
+  if (year === null) return monthDay;
+  return monthDay ? `${monthDay}, ${yearWords(year)}` : yearWords(year);
+}
+
+// Expand <say-as> content into words
+function sayAs(text: string, interpretAs: string, format: string, options: NormalizationOptions): string {
+  switch (interpretAs) {
+    case 'cardinal':
+    case 'number':
+      return sayCardinal(text) ?? normalizeText(text, options).text;
+    case 'ordinal': {
+      const digits = /^\s*([\d,]+)(?:st|nd|rd|th)?\s*$/i.exec(text);
+      return digits ? ordinalWords(digits[1].replace(/,/g, '')) : normalizeText(text, options).text;
+    }
+    case 'digits':
+      return text.replace(/\d+/g, digits => ` ${digitWords(digits)} `).replace(/\s+/g, ' ').trim();
+    case 'telephone':
+      return text
+        .split(/\D+/)
+        .filter(Boolean)
+        .map(group => digitWords(group))
+        .join(', ');
+    case 'date':
+      return sayDate(text, format) ?? normalizeText(text, options).text;
+    case 'expletive':
+      return 'beep';
+    default:
+      return normalizeText(text, options).text;
+  }
+}
+
+// Letters and digits one at a time: "B2B" -> "B two B"
+function spellOut(text: string): string {
+  return Array.from(text)
+    .filter(ch => /[A-Za-z0-9]/.test(ch))
+    .map(ch => (/\d/.test(ch) ? digitWords(ch) : ch.toUpperCase()))
+    .join(' ');
+}
+
+function convertPhonemes(ph: string, alphabet: string): string[] {
+  if (alphabet === 'ipa') return ipaToArpabet(ph);
+
+  const symbols = ph.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  const unknown = symbols.find(symbol => !isPhoneme(symbol));
+  if (unknown) throw new Error(`Unknown ARPAbet symbol "${unknown}"`);
+  return symbols.map(symbol => (isVowel(symbol) && !/[012]$/.test(symbol) ? `${symbol}1` : symbol));
+}
+
+const textContent = (node: XmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(textContent).join('');
+
+const combine = (a: SsmlProsody, b: SsmlProsody): SsmlProsody => ({
+  rate: a.rate * b.rate,
+  pitch: a.pitch * b.pitch,
+  volume: a.volume * b.volume
+});
+
+interface WalkContext {
+  prosody: SsmlProsody;
+  emphasis: EmphasisLevel;
+}
+
+// Flatten the element tree into segments, recording problems along the way
+function flatten(root: XmlElement, normalization: NormalizationOptions, issues: SsmlIssue[]): SsmlSegment[] {
+  const segments: SsmlSegment[] = [];
+  const pushText = (text: string, context: WalkContext, extra: Partial<SsmlTextSegment> = {}) => {
+    // Layout whitespace around breaks and paragraphs carries no words
+    const last = segments[segments.length - 1];
+    if (text.length === 0 || (text.trim().length === 0 && (!last || last.type === 'break'))) return;
+    segments.push({ type: 'text', text, prosody: context.prosody, emphasis: context.emphasis, normalized: false, ...extra });
+  };
+  // Adjacent breaks (e.g. "</s><s>") collapse into the longest one
+  const pushBreak = (duration: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'break') {
+      last.duration = Math.max(last.duration, duration);
+    } else if (duration > 0) {
+      segments.push({ type: 'break', duration });
+    }
+  };
+
+  const walk = (node: XmlNode, context: WalkContext) => {
+    if (typeof node === 'string') {
+      pushText(node, context);
+      return;
+    }
+
+    const { name, attributes, offset } = node;
+    const allowed = ELEMENTS[name];
+    if (!allowed) {
+      issues.push({ message: `Unsupported SSML element <${name}>`, offset });
+      return;
+    }
+    for (const attribute of Object.keys(attributes)) {
+      if (!allowed.includes(attribute) && !XML_ATTRIBUTES.test(attribute)) {
+        issues.push({ message: `Unsupported attribute "${attribute}" on <${name}>`, offset });
+      }
+    }
+    if (name === 'speak' && node !== root) {
+      issues.push({ message: '<speak> can only be used as the root element', offset });
+    }
+
+    const walkChildren = (childContext: WalkContext) => node.children.forEach(child => walk(child, childContext));
+
+    switch (name) {
+      case 'speak':
+      case 'mark':
+        walkChildren(context);
+        break;
+
+      case 'p':
+      case 's':
+        pushBreak(segments.length > 0 ? BREAK_STRENGTHS[name === 'p' ? 'strong' : 'medium'] : 0);
+        walkChildren(context);
+        pushBreak(BREAK_STRENGTHS[name === 'p' ? 'strong' : 'medium']);
+        break;
+
+      case 'break': {
+        let duration = BREAK_STRENGTHS.medium;
+        if (attributes.time !== undefined) {
+          const time = parseTime(attributes.time);
+          if (time === null) {
+            issues.push({ message: `Invalid break time "${attributes.time}" (use e.g. 500ms or 2s)`, offset });
+          } else if (time > MAX_BREAK_SECONDS) {
+            issues.push({ message: `Break time must be at most ${MAX_BREAK_SECONDS}s`, offset });
+          } else {
+            duration = time;
+          }
+        } else if (attributes.strength !== undefined) {
+          if (BREAK_STRENGTHS[attributes.strength] === undefined) {
+            issues.push({ message: `Invalid break strength "${attributes.strength}"`, offset });
+          } else {
+            duration = BREAK_STRENGTHS[attributes.strength];
+          }
+        }
+        if (node.children.length > 0) {
+          issues.push({ message: '<break> must be empty', offset });
+        }
+        pushBreak(duration);
+        break;
+      }
+
+      case 'prosody': {
+        const change = { ...NEUTRAL_PROSODY };
+        const fields: [keyof SsmlProsody, Record<string, number>, RelativeUnit[]][] = [
+          ['rate', RATE_NAMES, ['%']],
+          ['pitch', PITCH_NAMES, ['%', 'st']],
+          ['volume', VOLUME_NAMES, ['%', 'dB']]
+        ];
+        for (const [field, names, units] of fields) {
+          const raw = attributes[field];
+          if (raw === undefined) continue;
+          const value = parseRelative(raw, names, units);
+          if (value === null || value < 0 || (field !== 'volume' && value === 0)) {
+            issues.push({ message: `Invalid prosody ${field} "${raw}"`, offset });
+          } else {
+            // SSML volume numbers run from 0 to 100 with 100 as the default
+            change[field] = field === 'volume' && /^\d+(\.\d+)?$/.test(raw.trim()) ? value / 100 : value;
+          }
+        }
+        walkChildren({ ...context, prosody: combine(context.prosody, change) });
+        break;
+      }
+
+      case 'emphasis': {
+        const level = (attributes.level || 'moderate') as EmphasisLevel;
+        if (!EMPHASIS_PROSODY[level]) {
+          issues.push({ message: `Invalid emphasis level "${attributes.level}"`, offset });
+          walkChildren(context);
+        } else {
+          walkChildren({ prosody: combine(context.prosody, EMPHASIS_PROSODY[level]), emphasis: level });
+        }
+        break;
+      }
+
+      case 'say-as': {
+        const interpretAs = attributes['interpret-as'];
+        const content = textContent(node);
+        if (!interpretAs) {
+          issues.push({ message: '<say-as> requires an interpret-as attribute', offset });
+        } else if (!SAY_AS_TYPES.includes(interpretAs)) {
+          issues.push({ message: `Unsupported say-as interpret-as "${interpretAs}"`, offset });
+        } else if (interpretAs === 'characters' || interpretAs === 'spell-out' || interpretAs === 'verbatim') {
+          pushText(spellOut(content), context, { spell: true, normalized: true });
+        } else {
+          pushText(sayAs(content, interpretAs, attributes.format || '', normalization), context, { normalized: true });
+        }
+        break;
+      }
+
+      case 'sub':
+        if (attributes.alias === undefined) {
+          issues.push({ message: '<sub> requires an alias attribute', offset });
+        } else {
+          pushText(attributes.alias, context);
+        }
+        break;
+
+      case 'phoneme': {
+        const alphabet = attributes.alphabet || 'ipa';
+        const content = textContent(node);
+        if (!['ipa', 'x-arpabet', 'arpabet'].includes(alphabet)) {
+          issues.push({ message: `Unsupported phoneme alphabet "${alphabet}"`, offset });
+        } else if (!attributes.ph) {
+          issues.push({ message: '<phoneme> requires a ph attribute', offset });
+        } else {
+          try {
+            pushText(content, context, { phonemes: convertPhonemes(attributes.ph, alphabet), normalized: true });
+          } catch (error) {
+            issues.push({ message: error instanceof Error ? error.message : 'Invalid phonemes', offset });
+          }
+        }
+        break;
+      }
+    }
+  };
+
+  walk(root, { prosody: NEUTRAL_PROSODY, emphasis: 'none' });
+  return segments;
+}
+
+function compile(source: string, normalization: NormalizationOptions): { document: SsmlDocument; issues: SsmlIssue[] } {
+  const issues: SsmlIssue[] = [];
+  const root = parseXml(source, issues);
+  if (!root) return { document: { segments: [] }, issues };
+
+  const segments = flatten(root, normalization, issues);
+  return { document: { segments, lang: root.attributes['xml:lang'] }, issues };
+}
+
+// Report every problem in an SSML document (empty when valid)
+export function validateSsml(source: string): SsmlIssue[] {
+  return compile(source, {}).issues;
+}
+
+// Parse SSML into segments; throws on the first problem
+export function parseSsml(source: string, normalization: NormalizationOptions = {}): SsmlDocument {
+  const { document, issues } = compile(source, normalization);
+  if (issues.length > 0) {
+    throw new Error(`Invalid SSML: ${issues[0].message}`);
+  }
+  return document;
+}
+
+// Expand numbers, dates and abbreviations in plain text segments
+export function normalizeSsml(document: SsmlDocument, options: NormalizationOptions = {}): SsmlDocument {
+  return {
+    ...document,
+    segments: document.segments.map(segment =>
+      segment.type === 'text' && !segment.normalized
+        ? { ...segment, text: normalizeText(segment.text, options).text, normalized: true }
+        : segment
+    )
+  };
+}
+
+// Split a document into pieces of roughly maxLength characters of text for
+// long-form rendering. Pieces end at a break or between text segments, and
+// very long text segments are split at sentence boundaries.
+export function splitSsmlDocument(document: SsmlDocument, maxLength: number): SsmlDocument[] {
+  const pieces: SsmlDocument[] = [];
+  let current: SsmlSegment[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length > 0) pieces.push({ ...document, segments: current });
+    current = [];
+    length = 0;
+  };
+
+  for (const segment of document.segments) {
+    if (segment.type === 'break') {
+      current.push(segment);
+      if (length >= maxLength) flush();
+      continue;
+    }
+
+    const texts = segment.text.length > maxLength && !segment.phonemes
+      ? chunkText(segment.text, { maxLength }).map(chunk => chunk.text)
+      : [segment.text];
+    for (const text of texts) {
+      if (length > 0 && length + text.length > maxLength) flush();
+      current.push({ ...segment, text });
+      length += text.length;
+    }
+  }
+  flush();
+
+  return pieces.length > 0 ? pieces : [document];
+}
+
+// The words of an SSML document without markup
+export function ssmlToPlainText(document: SsmlDocument): string {
+  return document.segments
+    .map(segment => (segment.type === 'text' ? segment.text : ' '))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Wrap plain text in a <speak> document, escaping markup characters
+export function textToSsml(text: string): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return `<speak>${escaped}</speak>`;
+}
@@ -0,0 +1,183 @@
+// Streaming playback
+//
+// Plays WAV that is still arriving from the server. The RIFF header is read
+// as soon as it comes in, then the 16-bit PCM after it is cut into audio
+// buffers and scheduled back to back on a Web Audio context, so playback
+// starts with the first rendered sentence rather than the finished file.
+
+export type StreamPlayerState = 'idle' | 'connecting' | 'playing' | 'finished' | 'error';
+
+export interface StreamPlayerStatus {
+  state: StreamPlayerState;
+  latency: number | null; // ms from the request to the first audio
+  received: number; // seconds of audio received so far
+  error: string | null;
+}
+
+export const IDLE_STREAM_STATUS: StreamPlayerStatus = { state: 'idle', latency: null, received: 0, error: null };
+
+interface WavFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+// Schedule at least this much audio at a time, and start it this far ahead
+// of the context clock so the first buffer isn't clipped
+const MIN_BUFFER_SECONDS = 0.1;
+const SCHEDULE_LEAD = 0.05;
+
+const fourCc = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// Find the fmt and data chunks. Returns null until enough of the header has
+// arrived.
+function readWavHeader(bytes: Uint8Array): { format: WavFormat; dataOffset: number } | null {
+  if (bytes.length < 12) return null;
+  if (fourCc(bytes, 0) !== 'RIFF' || fourCc(bytes, 8) !== 'WAVE') throw new Error('The stream is not WAV audio');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = fourCc(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'data') {
+      if (!format) throw new Error('The WAV stream has no format chunk');
+      return { format, dataOffset: offset + 8 };
+    }
+    if (offset + 8 + size > bytes.length) return null;
+    if (id === 'fmt ') {
+      const formatTag = view.getUint16(offset + 8, true);
+      const bitsPerSample = view.getUint16(offset + 22, true);
+      if (formatTag !== 1 || bitsPerSample !== 16) throw new Error('Only 16-bit PCM WAV can be streamed');
+      format = { channels: view.getUint16(offset + 10, true), sampleRate: view.getUint32(offset + 12, true) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
+
+export class StreamPlayer {
+  private context: AudioContext | null = null;
+  private controller: AbortController | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private status: StreamPlayerStatus = IDLE_STREAM_STATUS;
+
+  constructor(private onStatusChange: (status: StreamPlayerStatus) => void) {}
+
+  private update(change: Partial<StreamPlayerStatus>): void {
+    this.status = { ...this.status, ...change };
+    this.onStatusChange(this.status);
+  }
+
+  // Open the stream with the given request and play it as it arrives.
+  // Resolves once all of it has been received and scheduled; the status turns
+  // to finished when the last of it has played.
+  async play(open: (signal: AbortSignal) => Promise<ReadableStream<Uint8Array>>): Promise<void> {
+    this.stop();
+    const controller = new AbortController();
+    this.controller = controller;
+    const requested = performance.now();
+    this.update({ ...IDLE_STREAM_STATUS, state: 'connecting' });
+
+    // Created while handling the click, which browsers require before they
+    // let a page make sound
+    const context = new AudioContext();
+    this.context = context;
+
+    try {
+      const reader = (await open(controller.signal)).getReader();
+      let pending: Uint8Array = new Uint8Array(0);
+      let format: WavFormat | null = null;
+      let nextTime = 0;
+      let received = 0;
+      let downloaded = false;
+
+      const finish = () => {
+        this.release();
+        this.update({ state: 'finished' });
+      };
+
+      const schedule = (bytes: Uint8Array) => {
+        const frameSize = format!.channels * 2;
+        const frames = Math.floor(bytes.length / frameSize);
+        const buffer = context.createBuffer(format!.channels, frames, format!.sampleRate);
+        const view = new DataView(bytes.buffer, bytes.byteOffset, frames * frameSize);
+        for (let channel = 0; channel < format!.channels; channel++) {
+          const samples = buffer.getChannelData(channel);
+          for (let i = 0; i < frames; i++) samples[i] = view.getInt16((i * format!.channels + channel) * 2, true) / 32768;
+        }
+
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        source.onended = () => {
+          this.sources.delete(source);
+          if (downloaded && this.sources.size === 0 && this.controller === controller) finish();
+        };
+        nextTime = Math.max(nextTime, context.currentTime + SCHEDULE_LEAD);
+        source.start(nextTime);
+        this.sources.add(source);
+        nextTime += buffer.duration;
+        received += buffer.duration;
+
+        if (this.status.latency === null) {
+          this.update({ state: 'playing', latency: Math.round(performance.now() - requested), received });
+        } else {
+          this.update({ received });
+        }
+        return frames * frameSize;
+      };
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (value) pending = concat(pending, value);
+
+        if (!format) {
+          const header = readWavHeader(pending);
+          if (!header && !done) continue;
+          if (!header) throw new Error('The stream ended before any audio arrived');
+          format = header.format;
+          pending = pending.slice(header.dataOffset);
+        }
+
+        const minBytes = Math.round(MIN_BUFFER_SECONDS * format.sampleRate) * format.channels * 2;
+        if (pending.length >= minBytes || (done && pending.length >= format.channels * 2)) {
+          pending = pending.slice(schedule(pending));
+        }
+        if (done) break;
+      }
+
+      downloaded = true;
+      if (this.sources.size === 0) finish();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.release();
+      this.update({ state: 'error', error: error instanceof Error ? error.message : 'Streaming failed' });
+    }
+  }
+
+  // Stop playback and the download behind it
+  stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+    for (const source of this.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    this.sources.clear();
+    this.release();
+    if (this.status.state !== 'idle') this.update(IDLE_STREAM_STATUS);
+  }
+
+  private release(): void {
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+}
@@ -0,0 +1,170 @@
+// Sentence-aware chunking for long-form text
+//
+// Long inputs are split at paragraph and sentence boundaries into chunks small
+// enough to speak or render one at a time. A sentence longer than a chunk is
+// split at clause punctuation, then between words. Chunks keep their offsets
+// into the original text and never span a paragraph break.
+
+import { isAbbreviation } from './text-normalizer';
+
+// Longest input either playback path accepts
+export const MAX_TEXT_LENGTH = 500000;
+
+// Browsers cut off Web Speech utterances that run past about 15 seconds, so
+// each utterance is one sentence, and a sentence that would take longer than
+// this at the speaking rate is split at clauses or between words
+export const MAX_UTTERANCE_SECONDS = 10;
+
+// Characters a voice gets through in a second at rate 1, numbers and
+// abbreviations read out in full; a slow estimate, to stay on the safe side
+const SPEECH_CHARACTERS_PER_SECOND = 12;
+
+// Server-side synthesis of a piece runs without a break, and the event loop
+// only gets a turn between pieces, so they are kept to a sentence or two:
+// each takes around a tenth of a second rather than seconds
+export const RENDER_CHUNK_LENGTH = 240;
+
+// Streamed renders send each piece as soon as it is synthesized, so small
+// pieces get the first sentence to the listener sooner
+export const STREAM_CHUNK_LENGTH = 240;
+
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+  paragraphEnd: boolean;
+}
+
+export interface ChunkOptions {
+  maxLength?: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_END = /[.!?]+["'”’)\]]*(?=\s|$)/g;
+const CLAUSE_END = /[,;:–—](?=\s)/g;
+
+// Shrink a range so it starts and ends on non-whitespace
+function trimRange(text: string, start: number, end: number): TextRange | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+// Split a range at the ends of each match of a boundary pattern
+function splitAt(text: string, range: TextRange, pattern: RegExp, accept: (end: number) => boolean = () => true): TextRange[] {
+  const pieces: TextRange[] = [];
+  const slice = text.slice(range.start, range.end);
+  let pieceStart = range.start;
+
+  for (const match of slice.matchAll(pattern)) {
+    const end = range.start + (match.index ?? 0) + match[0].length;
+    if (!accept(end)) continue;
+    const piece = trimRange(text, pieceStart, end);
+    if (piece) pieces.push(piece);
+    pieceStart = end;
+  }
+  const rest = trimRange(text, pieceStart, range.end);
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+// A period after "Dr" or a lone initial ("J. R. R.") does not end a sentence
+function endsSentence(text: string, end: number): boolean {
+  const before = text.slice(Math.max(0, end - 12), end);
+  const word = /(\S+)$/.exec(before.replace(/["'”’)\]]+$/, ''))?.[1] || '';
+  if (!word.endsWith('.')) return true;
+  if (/^[A-Z]\.$/.test(word)) return false;
+  return !isAbbreviation(word);
+}
+
+// Cut an over-long piece between words, or mid-word as a last resort
+function splitLong(text: string, range: TextRange, maxLength: number): TextRange[] {
+  const pieces: TextRange[] = [];
+  let start = range.start;
+
+  while (range.end - start > maxLength) {
+    let cut = text.lastIndexOf(' ', start + maxLength);
+    if (cut <= start) cut = start + maxLength;
+    const piece = trimRange(text, start, cut);
+    if (piece) pieces.push(piece);
+    start = cut;
+  }
+  const rest = trimRange(text, start, range.end);
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+// Sentences of a paragraph, with long ones broken into clauses or word runs
+function sentencePieces(text: string, paragraph: TextRange, maxLength: number): TextRange[] {
+  return splitAt(text, paragraph, SENTENCE_END, end => endsSentence(text, end)).flatMap(sentence => {
+    if (sentence.end - sentence.start <= maxLength) return [sentence];
+    return splitAt(text, sentence, CLAUSE_END).flatMap(clause =>
+      clause.end - clause.start <= maxLength ? [clause] : splitLong(text, clause, maxLength)
+    );
+  });
+}
+
+// Sentence ranges in text, however long, for skipping between sentences
+export function splitSentences(text: string): TextRange[] {
+  return splitAt(text, { start: 0, end: text.length }, /\n\s*\n/g).flatMap(paragraph =>
+    splitAt(text, paragraph, SENTENCE_END, end => endsSentence(text, end))
+  );
+}
+
+// Split text into chunks of at most maxLength characters
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxLength = Math.max(20, options.maxLength || RENDER_CHUNK_LENGTH);
+  const chunks: TextChunk[] = [];
+  const paragraphs = splitAt(text, { start: 0, end: text.length }, /\n\s*\n/g);
+
+  for (const paragraph of paragraphs) {
+    let current: TextRange | null = null;
+
+    for (const piece of sentencePieces(text, paragraph, maxLength)) {
+      if (current && piece.end - current.start <= maxLength) {
+        current.end = piece.end;
+        continue;
+      }
+      if (current) {
+        chunks.push({ text: text.slice(current.start, current.end), ...current, paragraphEnd: false });
+      }
+      current = { ...piece };
+    }
+
+    if (current) {
+      chunks.push({ text: text.slice(current.start, current.end), ...current, paragraphEnd: true });
+    }
+  }
+
+  return chunks;
+}
+
+// Longest utterance, in characters, that stays under MAX_UTTERANCE_SECONDS at
+// a Web Speech rate
+export function speechChunkLength(rate = 1): number {
+  return Math.max(20, Math.floor(MAX_UTTERANCE_SECONDS * SPEECH_CHARACTERS_PER_SECOND * rate));
+}
+
+// Text as Web Speech utterances: a sentence each, long ones split so that none
+// runs long enough for the browser to cut it off
+export function chunkSpeech(text: string, rate = 1): TextChunk[] {
+  const maxLength = speechChunkLength(rate);
+  const sentences = splitSentences(text);
+  return sentences.flatMap((sentence, index) => {
+    const next = sentences[index + 1];
+    const paragraphEnd = !next || /\n\s*\n/.test(text.slice(sentence.end, next.start));
+    const chunks = chunkText(text.slice(sentence.start, sentence.end), { maxLength });
+    return chunks.map((chunk, chunkIndex) => ({
+      ...chunk,
+      start: sentence.start + chunk.start,
+      end: sentence.start + chunk.end,
+      paragraphEnd: paragraphEnd && chunkIndex === chunks.length - 1
+    }));
+  });
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { normalizeText, toSourceRange } from './text-normalizer';
+
+const spoken = (text: string, locale?: string) => normalizeText(text, { locale }).text;
+
+describe('fractions', () => {
+  it('reads simple fractions as fractions', () => {
+    assert.equal(spoken('Add 1/2 a cup.'), 'Add one half a cup.');
+    assert.equal(spoken('3/4 of them'), 'three quarters of them');
+    assert.equal(spoken('1/3 and 5/8'), 'one third and five eighths');
+    assert.equal(spoken('2/10'), 'two tenths');
+  });
+
+  it('reads mixed numbers with "and"', () => {
+    assert.equal(spoken('2 1/2 hours'), 'two and a half hours');
+    assert.equal(spoken('101 3/4', 'en-GB'), 'one hundred and one and three quarters');
+  });
+
+  it('leaves other slashes as they were read before', () => {
+    assert.equal(spoken('open 24/7'), 'open twenty-four/seven');
+    assert.equal(spoken('3/14/2025'), 'March fourteenth, twenty twenty-five');
+    assert.equal(spoken('a/1/2'), 'a/one/two');
+  });
+
+  it('maps the spoken fraction back onto the digits', () => {
+    const normalized = normalizeText('Take 2 1/2 now');
+    const start = normalized.text.indexOf('two');
+    const end = normalized.text.indexOf(' now');
+    assert.deepEqual(toSourceRange(normalized, start, end), { start: 5, end: 10 });
+  });
+});
@@ -0,0 +1,655 @@
+// Text normalization: expand numbers, dates, currency, units and abbreviations
+// into the words a speaker would say. Shared by the Web Speech client path and
+// the server-side synthesizer.
+//
+// The result keeps a span map from the spoken text back to the original, so
+// positions reported during playback can be mapped onto what the user typed.
+
+import { cardinalWords, decadeWords, digitWords, fractionWords, NumberWordOptions, ordinalWords, yearWords } from './number-words';
+
+export interface CurrencyNames {
+  singular: string;
+  plural: string;
+  minorSingular: string;
+  minorPlural: string;
+}
+
+export interface NormalizationLocale {
+  id: string;
+  dateOrder: 'MDY' | 'DMY';
+  useAnd: boolean;
+  currencies: Record<string, CurrencyNames>;
+  abbreviations: Record<string, string>;
+}
+
+export type NormalizationRule =
+  | 'urls'
+  | 'emails'
+  | 'times'
+  | 'dates'
+  | 'currency'
+  | 'percentages'
+  | 'fractions'
+  | 'units'
+  | 'ordinals'
+  | 'romanNumerals'
+  | 'abbreviations'
+  | 'numbers'
+  | 'symbols';
+
+export interface NormalizationOptions {
+  locale?: string | NormalizationLocale;
+  disabledRules?: NormalizationRule[];
+}
+
+// Maps [start, end) of the spoken text onto [sourceStart, sourceEnd) of the original
+export interface OffsetSpan {
+  start: number;
+  end: number;
+  sourceStart: number;
+  sourceEnd: number;
+  expanded: boolean;
+}
+
+export interface NormalizedText {
+  original: string;
+  text: string;
+  spans: OffsetSpan[];
+}
+
+const CURRENCIES: Record<string, CurrencyNames> = {
+  $: { singular: 'dollar', plural: 'dollars', minorSingular: 'cent', minorPlural: 'cents' },
+  '£': { singular: 'pound', plural: 'pounds', minorSingular: 'penny', minorPlural: 'pence' },
+  '€': { singular: 'euro', plural: 'euros', minorSingular: 'cent', minorPlural: 'cents' },
+  '¥': { singular: 'yen', plural: 'yen', minorSingular: 'sen', minorPlural: 'sen' }
+};
+
+const ABBREVIATIONS: Record<string, string> = {
+  'vs': 'versus',
+  'etc': 'et cetera',
+  'e.g': 'for example',
+  'i.e': 'that is',
+  'approx': 'approximately',
+  'Inc': 'Incorporated',
+  'Ltd': 'Limited',
+  'Co': 'Company',
+  'Corp': 'Corporation',
+  'Jr': 'Junior',
+  'Sr': 'Senior',
+  'Ave': 'Avenue',
+  'Blvd': 'Boulevard',
+  'Rd': 'Road',
+  'Dept': 'Department',
+  'Fig': 'Figure',
+  'Vol': 'Volume',
+  'Jan': 'January',
+  'Feb': 'February',
+  'Mar': 'March',
+  'Apr': 'April',
+  'Jun': 'June',
+  'Jul': 'July',
+  'Aug': 'August',
+  'Sep': 'September',
+  'Sept': 'September',
+  'Oct': 'October',
+  'Nov': 'November',
+  'Dec': 'December'
+};
+
+export const NORMALIZATION_LOCALES: Record<string, NormalizationLocale> = {
+  'en-US': {
+    id: 'en-US',
+    dateOrder: 'MDY',
+    useAnd: false,
+    currencies: CURRENCIES,
+    abbreviations: ABBREVIATIONS
+  },
+  'en-GB': {
+    id: 'en-GB',
+    dateOrder: 'DMY',
+    useAnd: true,
+    currencies: CURRENCIES,
+    abbreviations: { ...ABBREVIATIONS, 'Hon': 'Honourable' }
+  },
+  'en-AU': {
+    id: 'en-AU',
+    dateOrder: 'DMY',
+    useAnd: true,
+    currencies: CURRENCIES,
+    abbreviations: ABBREVIATIONS
+  }
+};
+
+// English variants that follow British conventions for dates and "and"
+const BRITISH_REGIONS = ['GB', 'IE', 'IN', 'NZ', 'ZA'];
+
+export function resolveLocale(locale?: string | NormalizationLocale): NormalizationLocale {
+  if (locale && typeof locale === 'object') return locale;
+
+  const id = (locale || 'en-US').replace('_', '-');
+  if (NORMALIZATION_LOCALES[id]) return NORMALIZATION_LOCALES[id];
+
+  const region = id.split('-')[1]?.toUpperCase();
+  if (region && BRITISH_REGIONS.includes(region)) return NORMALIZATION_LOCALES['en-GB'];
+  return NORMALIZATION_LOCALES['en-US'];
+}
+
+export const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const TITLES: Record<string, string> = {
+  Mr: 'Mister',
+  Mrs: 'Missus',
+  Ms: 'Miz',
+  Dr: 'Doctor',
+  Prof: 'Professor',
+  St: 'Saint',
+  Mt: 'Mount',
+  Gen: 'General',
+  Capt: 'Captain',
+  Sgt: 'Sergeant',
+  Rev: 'Reverend',
+  Hon: 'Honorable'
+};
+
+// Titles that mean something else after a name: "Main St." / "Elm Dr."
+const STREET_SUFFIXES: Record<string, string> = { St: 'Street', Dr: 'Drive' };
+
+// Abbreviations that commonly end a sentence, so their period is kept
+const SENTENCE_FINAL = new Set(['etc', 'Inc', 'Ltd', 'Co', 'Corp', 'Jr', 'Sr']);
+
+interface UnitNames {
+  singular: string;
+  plural: string;
+  attachedOnly?: boolean; // only when written without a space, e.g. "12in"
+}
+
+const UNITS: Record<string, UnitNames> = {
+  'kg': { singular: 'kilogram', plural: 'kilograms' },
+  'g': { singular: 'gram', plural: 'grams', attachedOnly: true },
+  'mg': { singular: 'milligram', plural: 'milligrams' },
+  'lb': { singular: 'pound', plural: 'pounds' },
+  'lbs': { singular: 'pound', plural: 'pounds' },
+  'oz': { singular: 'ounce', plural: 'ounces' },
+  'km': { singular: 'kilometer', plural: 'kilometers' },
+  'm': { singular: 'meter', plural: 'meters', attachedOnly: true },
+  'cm': { singular: 'centimeter', plural: 'centimeters' },
+  'mm': { singular: 'millimeter', plural: 'millimeters' },
+  'mi': { singular: 'mile', plural: 'miles' },
+  'ft': { singular: 'foot', plural: 'feet' },
+  'in': { singular: 'inch', plural: 'inches', attachedOnly: true },
+  'yd': { singular: 'yard', plural: 'yards' },
+  'l': { singular: 'liter', plural: 'liters', attachedOnly: true },
+  'L': { singular: 'liter', plural: 'liters', attachedOnly: true },
+  'ml': { singular: 'milliliter', plural: 'milliliters' },
+  'mL': { singular: 'milliliter', plural: 'milliliters' },
+  's': { singular: 'second', plural: 'seconds', attachedOnly: true },
+  'ms': { singular: 'millisecond', plural: 'milliseconds' },
+  'min': { singular: 'minute', plural: 'minutes' },
+  'h': { singular: 'hour', plural: 'hours', attachedOnly: true },
+  'hr': { singular: 'hour', plural: 'hours' },
+  'hrs': { singular: 'hour', plural: 'hours' },
+  'mph': { singular: 'mile per hour', plural: 'miles per hour' },
+  'km/h': { singular: 'kilometer per hour', plural: 'kilometers per hour' },
+  'kph': { singular: 'kilometer per hour', plural: 'kilometers per hour' },
+  '°C': { singular: 'degree Celsius', plural: 'degrees Celsius' },
+  '°F': { singular: 'degree Fahrenheit', plural: 'degrees Fahrenheit' },
+  '°': { singular: 'degree', plural: 'degrees' },
+  'Hz': { singular: 'hertz', plural: 'hertz' },
+  'kHz': { singular: 'kilohertz', plural: 'kilohertz' },
+  'MHz': { singular: 'megahertz', plural: 'megahertz' },
+  'GHz': { singular: 'gigahertz', plural: 'gigahertz' },
+  'KB': { singular: 'kilobyte', plural: 'kilobytes' },
+  'kB': { singular: 'kilobyte', plural: 'kilobytes' },
+  'MB': { singular: 'megabyte', plural: 'megabytes' },
+  'GB': { singular: 'gigabyte', plural: 'gigabytes' },
+  'TB': { singular: 'terabyte', plural: 'terabytes' },
+  'Mbps': { singular: 'megabit per second', plural: 'megabits per second' },
+  'W': { singular: 'watt', plural: 'watts', attachedOnly: true },
+  'kW': { singular: 'kilowatt', plural: 'kilowatts' },
+  'V': { singular: 'volt', plural: 'volts', attachedOnly: true }
+};
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  '.': 'dot',
+  '/': 'slash',
+  ':': 'colon',
+  '-': 'dash',
+  '_': 'underscore',
+  '?': 'question mark',
+  '=': 'equals',
+  '&': 'and',
+  '#': 'hash',
+  '@': 'at',
+  '+': 'plus',
+  '%': 'percent',
+  '~': 'tilde'
+};
+
+const SYMBOLS: Record<string, string> = {
+  '&': 'and',
+  '@': 'at',
+  '=': 'equals',
+  '+': 'plus',
+  '×': 'times',
+  '÷': 'divided by'
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?';
+const UNIT_ALTERNATION = Object.keys(UNITS)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+const MONTH_ALTERNATION = MONTHS.map(month => `${month.slice(0, 3)}(?:${month.slice(3)})?`).join('|');
+const ROMAN_NUMERAL = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+
+interface RuleContext {
+  text: string;
+  index: number;
+  locale: NormalizationLocale;
+  numberOptions: NumberWordOptions;
+}
+
+interface Rule {
+  name: NormalizationRule;
+  pattern: RegExp;
+  // Numbers may start right after a letter ("mp3"); everything else needs a word boundary
+  inWord?: boolean;
+  expand: (match: RegExpExecArray, context: RuleContext) => string | null;
+}
+
+const stripCommas = (digits: string) => digits.replace(/,/g, '');
+
+function speakNumber(integer: string, fraction: string | undefined, options: NumberWordOptions): string {
+  const whole = cardinalWords(stripCommas(integer), options);
+  return fraction ? `${whole} point ${digitWords(fraction)}` : whole;
+}
+
+const isOne = (integer: string, fraction?: string) =>
+  stripCommas(integer) === '1' && (!fraction || /^0+$/.test(fraction));
+
+function parseRoman(numeral: string): number | null {
+  if (!numeral || !ROMAN_NUMERAL.test(numeral)) return null;
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+// Speak a URL or email fragment: letters as words, digits one by one, separators by name
+function speakAddress(address: string): string {
+  return address
+    .split(/([./:\-_?=&#@+%~])/)
+    .filter(part => part.length > 0)
+    .map(part => SEPARATOR_NAMES[part] || part.replace(/\d+/g, digits => ` ${digitWords(digits)} `).trim())
+    .join(' ');
+}
+
+function speakTime(hours: number, minutes: number, meridiem: string | undefined, options: NumberWordOptions): string {
+  const hourWords = cardinalWords(String(hours), options);
+  const suffix = meridiem ? (meridiem.toLowerCase() === 'a' ? ' ay em' : ' pee em') : '';
+
+  if (minutes === 0) return meridiem ? `${hourWords}${suffix}` : `${hourWords} o'clock`;
+  if (minutes < 10) return `${hourWords} oh ${cardinalWords(String(minutes))}${suffix}`;
+  return `${hourWords} ${cardinalWords(String(minutes))}${suffix}`;
+}
+
+function speakDate(day: number, month: number, year: number | null, locale: NormalizationLocale): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const monthName = MONTHS[month - 1];
+  const dayWords = ordinalWords(String(day));
+  const yearPart = year !== null ? `, ${yearWords(year)}` : '';
+  return locale.dateOrder === 'DMY'
+    ? `the ${dayWords} of ${monthName}${yearPart}`
+    : `${monthName} ${dayWords}${yearPart}`;
+}
+
+const expandYear = (year: string) => {
+  const value = Number(year);
+  return year.length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+};
+
+const RULES: Rule[] = [
+  {
+    name: 'urls',
+    pattern: /(?:https?:\/\/|www\.)[^\s<>"]+?(?=[.,;:!?)\]]*(?:\s|$))/iy,
+    expand: match => speakAddress(match[0].replace(/^https?:\/\//i, '').replace(/\/$/, ''))
+  },
+  {
+    name: 'emails',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+/y,
+    expand: match => speakAddress(match[0])
+  },
+  {
+    name: 'times',
+    pattern: /(\d{1,2}):(\d{2})(?::\d{2})?(?:\s?([ap])\.?\s?m\b\.?)?/iy,
+    expand: (match, { numberOptions }) => {
+      const hours = Number(match[1]);
+      const minutes = Number(match[2]);
+      if (hours > 24 || minutes > 59) return null;
+      return speakTime(hours, minutes, match[3], numberOptions);
+    }
+  },
+  {
+    name: 'times',
+    // An hour on its own: "5pm", "11 a.m."
+    pattern: /(\d{1,2})\s?([ap])\.?m(?![A-Za-z])\.?/iy,
+    expand: (match, { numberOptions }) => {
+      const hours = Number(match[1]);
+      if (hours < 1 || hours > 12) return null;
+      return speakTime(hours, 0, match[2], numberOptions);
+    }
+  },
+  {
+    name: 'dates',
+    pattern: /(\d{4})-(\d{2})-(\d{2})(?!\d)/y,
+    expand: (match, { locale }) => speakDate(Number(match[3]), Number(match[2]), Number(match[1]), locale)
+  },
+  {
+    name: 'dates',
+    pattern: /(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?![\d/.-]\d)/y,
+    expand: (match, { locale }) => {
+      const first = Number(match[1]);
+      const second = Number(match[2]);
+      const [day, month] = locale.dateOrder === 'DMY' ? [first, second] : [second, first];
+      const year = expandYear(match[3]);
+      // Fall back to the other order when the locale's reading is impossible (14/3 in the US)
+      return speakDate(day, month, year, locale) || speakDate(month, day, year, locale);
+    }
+  },
+  {
+    name: 'dates',
+    pattern: new RegExp(`(${MONTH_ALTERNATION})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?(?![\\d:])`, 'y'),
+    expand: (match, { locale }) => {
+      const month = MONTHS.findIndex(name => name.startsWith(match[1].slice(0, 3))) + 1;
+      return speakDate(Number(match[2]), month, match[3] ? Number(match[3]) : null, locale);
+    }
+  },
+  {
+    name: 'currency',
+    pattern: new RegExp(`([$£€¥])\\s?${NUMBER}(?:\\s?(thousand|million|billion|trillion|k|m|bn)\\b)?`, 'iy'),
+    expand: (match, { locale, numberOptions }) => {
+      const names = locale.currencies[match[1]];
+      if (!names) return null;
+      const [, , integer, fraction, scaleWord] = match;
+
+      if (scaleWord) {
+        const scale = ({ k: 'thousand', m: 'million', bn: 'billion' } as Record<string, string>)[scaleWord.toLowerCase()] || scaleWord.toLowerCase();
+        return `${speakNumber(integer, fraction, numberOptions)} ${scale} ${names.plural}`;
+      }
+
+      const major = stripCommas(integer);
+      const minor = fraction ? Number(fraction.padEnd(2, '0').slice(0, 2)) : 0;
+      const majorWords = `${cardinalWords(major, numberOptions)} ${isOne(major) ? names.singular : names.plural}`;
+      const minorWords = `${cardinalWords(String(minor))} ${minor === 1 ? names.minorSingular : names.minorPlural}`;
+
+      if (minor === 0) return majorWords;
+      if (/^0+$/.test(major)) return minorWords;
+      return `${majorWords} and ${minorWords}`;
+    }
+  },
+  {
+    name: 'percentages',
+    pattern: new RegExp(`([-−])?${NUMBER}\\s?%`, 'y'),
+    expand: (match, { numberOptions }) =>
+      `${match[1] ? 'minus ' : ''}${speakNumber(match[2], match[3], numberOptions)} percent`
+  },
+  {
+    name: 'fractions',
+    // Simple fractions, alone or after a whole number: "3/4", "2 1/2". Larger
+    // ones such as "24/7" and "9/11" are not read as fractions.
+    pattern: /(?:(\d{1,3})\s+)?(\d)\/(\d{1,2})(?![\d/])/y,
+    expand: (match, { text, index, numberOptions }) => {
+      const [, whole, numerator, denominator] = match;
+      const top = Number(numerator);
+      const bottom = Number(denominator);
+      if (top < 1 || bottom < 2 || bottom > 10 || top >= bottom) return null;
+      // Part of a path such as "a/1/2"
+      if (index > 0 && text[index - 1] === '/') return null;
+      const fraction = fractionWords(top, bottom, numberOptions);
+      if (!whole) return fraction;
+      // "two and a half", "two and three quarters"
+      return `${cardinalWords(whole, numberOptions)} and ${top === 1 ? fraction.replace(/^one/, 'a') : fraction}`;
+    }
+  },
+  {
+    name: 'numbers',
+    // Decades, before "s" can be read as seconds: "1980s", "'90s"
+    pattern: /(?:((?:1[1-9]|20)\d0)|['’](\d0))s(?![A-Za-z])/y,
+    expand: (match, { numberOptions }) =>
+      match[1] ? decadeWords(Number(match[1]), numberOptions) : decadeWords(Number(match[2]), numberOptions)
+  },
+  {
+    name: 'units',
+    pattern: new RegExp(`([-−])?${NUMBER}(\\s?)(${UNIT_ALTERNATION})(?![A-Za-z])`, 'y'),
+    expand: (match, { numberOptions }) => {
+      const [, sign, integer, fraction, space, symbol] = match;
+      const unit = UNITS[symbol];
+      if (!unit || (unit.attachedOnly && space)) return null;
+      // "2015s" is a year, not a duration
+      if (symbol === 's' && !fraction && /^(1[1-9]|20)\d\d$/.test(integer)) return null;
+      const name = isOne(integer, fraction) ? unit.singular : unit.plural;
+      return `${sign ? 'minus ' : ''}${speakNumber(integer, fraction, numberOptions)} ${name}`;
+    }
+  },
+  {
+    name: 'ordinals',
+    pattern: /(\d+)(st|nd|rd|th)(?![A-Za-z])/iy,
+    expand: (match, { numberOptions }) => ordinalWords(match[1], numberOptions)
+  },
+  {
+    name: 'romanNumerals',
+    pattern: /(Chapter|Part|Volume|Book|Act|Scene|Section|Article|World War|Phase|Episode|Season|Level|Appendix)\s+([IVXLCDM]+)(?![A-Za-z])/y,
+    expand: match => {
+      const value = parseRoman(match[2]);
+      return value ? `${match[1]} ${cardinalWords(String(value))}` : null;
+    }
+  },
+  {
+    name: 'romanNumerals',
+    // Regnal numbers: "Henry VIII", "Louis XIV" (a lone "I" is too ambiguous)
+    pattern: /([A-Z][a-z]+)\s+([IVXLC]{2,}|V|X)(?![A-Za-z])/y,
+    expand: match => {
+      const value = parseRoman(match[2]);
+      return value ? `${match[1]} the ${ordinalWords(String(value))}` : null;
+    }
+  },
+  {
+    name: 'abbreviations',
+    pattern: new RegExp(`(${Object.keys(TITLES).join('|')})(\\.?)(?=\\s+[A-Z])`, 'y'),
+    expand: match => TITLES[match[1]]
+  },
+  {
+    name: 'abbreviations',
+    pattern: new RegExp(`(${Object.keys(STREET_SUFFIXES).join('|')})\\.`, 'y'),
+    expand: (match, { text, index }) => {
+      // Only after a capitalised street name: "Elm St."
+      const before = text.slice(0, index);
+      if (!/[A-Z][a-z]+\s+$/.test(before)) return null;
+      const after = text.slice(index + match[0].length);
+      const endsSentence = /^(\s+[A-Z]|\s*$)/.test(after);
+      return endsSentence ? `${STREET_SUFFIXES[match[1]]}.` : STREET_SUFFIXES[match[1]];
+    }
+  },
+  {
+    name: 'abbreviations',
+    pattern: /(e\.g|i\.e|[A-Za-z]+)\./y,
+    expand: (match, { text, index, locale }) => {
+      const expansion = locale.abbreviations[match[1]];
+      if (!expansion) return null;
+      const after = text.slice(index + match[0].length);
+      const endsSentence = SENTENCE_FINAL.has(match[1]) && /^(\s+[A-Z]|\s*$)/.test(after);
+      return endsSentence ? `${expansion}.` : expansion;
+    }
+  },
+  {
+    name: 'abbreviations',
+    pattern: /No\.\s?(?=\d)/y,
+    expand: () => 'number '
+  },
+  {
+    name: 'numbers',
+    // Phone numbers are read digit by digit in groups: "555-1234"
+    pattern: /(?:\(?\d{3}\)?[-.\s])?\d{3}[-.]\d{4}(?!\d)/y,
+    expand: match => match[0]
+      .split(/[^\d]+/)
+      .filter(group => group.length > 0)
+      .map(digitWords)
+      .join(', ')
+  },
+  {
+    name: 'numbers',
+    pattern: new RegExp(`([-−])?${NUMBER}(?![\\d])`, 'y'),
+    inWord: true,
+    expand: (match, { text, index, numberOptions }) => {
+      const [, sign, integer, fraction] = match;
+      // "COVID-19" is not a negative number
+      if (sign && index > 0 && /[A-Za-z0-9]/.test(text[index - 1])) return null;
+      const prefix = sign ? 'minus ' : '';
+      const plain = stripCommas(integer);
+
+      if (!sign && !fraction && !integer.includes(',') && /^(1[1-9]|20)\d\d$/.test(plain)) {
+        return yearWords(Number(plain), numberOptions);
+      }
+      if (plain.length > 1 && plain.startsWith('0')) {
+        return digitWords(plain) + (fraction ? ` point ${digitWords(fraction)}` : '');
+      }
+      return `${prefix}${speakNumber(integer, fraction, numberOptions)}`;
+    }
+  },
+  {
+    name: 'symbols',
+    pattern: /#(?=\d)/y,
+    inWord: true,
+    expand: () => 'number '
+  },
+  {
+    name: 'symbols',
+    pattern: /~(?=\s?\d)/y,
+    expand: () => 'about '
+  },
+  {
+    name: 'symbols',
+    pattern: /[&@=+×÷]/y,
+    inWord: true,
+    expand: match => ` ${SYMBOLS[match[0]]} `
+  }
+];
+
+// Build the spoken text and its span map incrementally
+class SpanBuilder {
+  private parts: string[] = [];
+  private length = 0;
+  readonly spans: OffsetSpan[] = [];
+
+  copy(sourceIndex: number, ch: string): void {
+    const last = this.spans[this.spans.length - 1];
+    if (last && !last.expanded && last.sourceEnd === sourceIndex) {
+      last.end++;
+      last.sourceEnd++;
+    } else {
+      this.spans.push({ start: this.length, end: this.length + 1, sourceStart: sourceIndex, sourceEnd: sourceIndex + 1, expanded: false });
+    }
+    this.parts.push(ch);
+    this.length++;
+  }
+
+  replace(sourceStart: number, sourceEnd: number, spoken: string): void {
+    this.spans.push({ start: this.length, end: this.length + spoken.length, sourceStart, sourceEnd, expanded: true });
+    this.parts.push(spoken);
+    this.length += spoken.length;
+  }
+
+  toString(): string {
+    return this.parts.join('');
+  }
+}
+
+// True for abbreviations whose period does not end a sentence ("Dr.", "approx.")
+export function isAbbreviation(word: string): boolean {
+  const bare = word.replace(/\.$/, '');
+  return (bare in TITLES || bare in ABBREVIATIONS) && !SENTENCE_FINAL.has(bare);
+}
+
+// Expand everything in the text into speakable words
+export function normalizeText(text: string, options: NormalizationOptions = {}): NormalizedText {
+  const locale = resolveLocale(options.locale);
+  const disabled = new Set(options.disabledRules || []);
+  const rules = RULES.filter(rule => !disabled.has(rule.name));
+  const numberOptions: NumberWordOptions = { useAnd: locale.useAnd };
+  const builder = new SpanBuilder();
+
+  let index = 0;
+  while (index < text.length) {
+    const previous = index > 0 ? text[index - 1] : ' ';
+    const atWordBoundary = !/[A-Za-z0-9]/.test(previous);
+    const afterLetter = /[A-Za-z]/.test(previous);
+    let consumed = 0;
+
+    for (const rule of rules) {
+      if (!atWordBoundary && !(rule.inWord && afterLetter)) continue;
+      rule.pattern.lastIndex = index;
+      const match = rule.pattern.exec(text);
+      if (!match || match[0].length === 0) continue;
+
+      const spoken = rule.expand(match, { text, index, locale, numberOptions });
+      if (spoken !== null) {
+        // Keep "mp3" from becoming "mpthree"
+        builder.replace(index, index + match[0].length, afterLetter && !spoken.startsWith(' ') ? ` ${spoken}` : spoken);
+        consumed = match[0].length;
+        break;
+      }
+    }
+
+    if (consumed > 0) {
+      index += consumed;
+    } else {
+      builder.copy(index, text[index]);
+      index++;
+    }
+  }
+
+  return { original: text, text: builder.toString(), spans: builder.spans };
+}
+
+function findSpan(spans: OffsetSpan[], offset: number): OffsetSpan | undefined {
+  let low = 0;
+  let high = spans.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const span = spans[mid];
+    if (offset < span.start) high = mid - 1;
+    else if (offset >= span.end) low = mid + 1;
+    else return span;
+  }
+  return spans[spans.length - 1];
+}
+
+// Map a character offset in the spoken text back to the original text
+export function toSourceOffset(normalized: NormalizedText, offset: number): number {
+  const span = findSpan(normalized.spans, offset);
+  if (!span) return Math.min(offset, normalized.original.length);
+  if (offset >= span.end) return span.sourceEnd;
+  return span.expanded ? span.sourceStart : span.sourceStart + (offset - span.start);
+}
+
+// Map a [start, end) range in the spoken text back to the original text
+export function toSourceRange(normalized: NormalizedText, start: number, end: number): { start: number; end: number } {
+  const sourceStart = toSourceOffset(normalized, start);
+  const lastSpan = findSpan(normalized.spans, Math.max(start, end - 1));
+  let sourceEnd = sourceStart;
+  if (lastSpan) {
+    sourceEnd = lastSpan.expanded
+      ? lastSpan.sourceEnd
+      : lastSpan.sourceStart + (Math.max(start, end - 1) - lastSpan.start) + 1;
+  }
+  return { start: sourceStart, end: Math.max(sourceStart, sourceEnd) };
+}
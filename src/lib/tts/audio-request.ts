@@ -0,0 +1,462 @@
+// Audio requests
+//
+// Validation, rendering and encoding of a request for an audio file, shared
+// by /api/generate-audio, which renders while the client waits, and the
+// render jobs behind /api/jobs, which render in the background. A streamed
+// request is sent as WAV a sentence or two at a time while it renders.
+// Silence is trimmed from the rendered speech, effects run on it, and it is
+// mixed over any music bed before its loudness is measured.
+
+import { createHash } from 'crypto';
+import { PcmAudio, renderLongForm, streamLongForm } from './long-form';
+import { AudioSettings, buildParts, resolveAudioSettings, resolveScriptSettings, ScriptSettings } from './speech-parts';
+import { encodeMp3 } from './mp3-encoder';
+import { encodeOpus } from './opus-encoder';
+import { encodeFlac } from './flac-encoder';
+import { encodeWav, wavStreamHeader } from './wav-encoder';
+import { measureLoudness, normalizeLoudness } from './loudness-meter';
+import { applyEffects, createEffectsChain } from './effects';
+import { createSilenceTrimmer, trimSilence } from './silence-trimmer';
+import { mixMusicBed, readWavInfo } from './music-mixer';
+import { DEFAULT_SAMPLE_RATE } from './speech-renderer';
+import {
+  DEFAULT_FLAC_COMPRESSION_LEVEL,
+  DEFAULT_MP3_BITRATE,
+  DEFAULT_OPUS_BITRATE,
+  DEFAULT_OPUS_COMPLEXITY,
+  DEFAULT_OUTPUT_FORMAT,
+  DEFAULT_WAV_BIT_DEPTH,
+  DEFAULT_WAV_SAMPLE_RATE,
+  FLAC_COMPRESSION_LEVELS,
+  isMp3Bitrate,
+  isOutputFormat,
+  isWavBitDepth,
+  Mp3BitrateMode,
+  MP3_BITRATE_MODES,
+  MP3_BITRATES,
+  OPUS_BITRATE_RANGE,
+  OPUS_COMPLEXITY_RANGE,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  WAV_BIT_DEPTHS,
+  WAV_CHANNEL_COUNTS,
+  WAV_ENCODINGS,
+  WAV_SAMPLE_RATES,
+  WavBitDepth,
+  WavEncoding
+} from '../audio-formats';
+import {
+  AudioMetadata,
+  describeSettings,
+  MetadataInput,
+  METADATA_SOFTWARE,
+  METADATA_TEXT_FIELDS,
+  validateMetadataInput
+} from '../audio-metadata';
+import { MAX_TEXT_LENGTH, RENDER_CHUNK_LENGTH, STREAM_CHUNK_LENGTH } from '../text-chunker';
+import { InputFormat, INPUT_FORMATS, SsmlIssue, validateSsml } from '../ssml';
+import { SpeakerVoiceInput, validateScriptOptions } from '../dialogue-script';
+import { DEFAULT_TRUE_PEAK, LoudnessMeasurement, validateLoudnessOptions } from '../loudness';
+import { AudioEffect, validateEffects } from '../audio-effects';
+import { buildTimings, Timings } from '../captions';
+import { MusicBedInput, validateMusicBed } from '../music-bed';
+import { DEFAULT_PAUSES, DEFAULT_SILENCE, PauseSettings, SilenceSettings, trimsSilence, validateSilenceOptions } from '../silence';
+
+// Per-format encoder parameters, already validated
+export interface EncodingOptions {
+  bitrate?: number;
+  bitrateMode: Mp3BitrateMode;
+  complexity: number;
+  compressionLevel: number;
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  channels: number;
+  encoding: WavEncoding;
+  metadata: AudioMetadata;
+}
+
+export interface AudioRequest {
+  text: string;
+  format: InputFormat;
+  settings: AudioSettings;
+  script: ScriptSettings;
+  outputFormat: OutputFormat;
+  encoding: EncodingOptions;
+  pauses: PauseSettings;
+  silence: SilenceSettings;
+  effects: AudioEffect[]; // applied in order
+  music: MusicBedInput | null;
+  loudness: LoudnessTarget | null; // null leaves the level as rendered
+  stream: boolean; // send the audio while it renders
+}
+
+export interface LoudnessTarget {
+  target: number; // LUFS
+  truePeak: number; // dBTP ceiling
+}
+
+export interface RenderedAudio {
+  blob: Blob;
+  loudness: LoudnessMeasurement;
+  timings: Timings; // of the words as heard in the file, music intro included
+}
+
+// A request body in the shape the API documents, as parsed from JSON; the
+// fields are checked before they are trusted
+export interface AudioRequestBody {
+  text?: unknown;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  voiceName?: string;
+  locale?: unknown;
+  format?: InputFormat;
+  speakers?: Record<string, SpeakerVoiceInput>;
+  turnGap?: number;
+  outputFormat?: unknown;
+  bitrate?: number;
+  bitrateMode?: Mp3BitrateMode;
+  complexity?: number;
+  compressionLevel?: number;
+  sampleRate?: number;
+  bitDepth?: WavBitDepth;
+  channels?: number;
+  encoding?: WavEncoding;
+  metadata?: MetadataInput;
+  pauses?: unknown;
+  silence?: unknown;
+  effects?: unknown;
+  music?: unknown;
+  loudnessTarget?: number;
+  truePeak?: number;
+  stream?: unknown;
+}
+
+export type ParsedAudioRequest =
+  | { request: AudioRequest; error?: undefined }
+  | { request?: undefined; error: string; issues?: SsmlIssue[] };
+
+// Stages of a render, for progress reports
+export type RenderStage = 'rendering' | 'processing' | 'mixing' | 'normalizing' | 'encoding';
+
+export interface RenderAudioOptions {
+  onProgress?: (progress: number, stage: RenderStage) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+// Share of the work spent synthesizing; encoding takes the rest
+const RENDER_SHARE = 0.9;
+
+// Check a request body and resolve its defaults. Errors are messages for the
+// client, to be returned with a 400.
+export function parseAudioRequest(body: AudioRequestBody): ParsedAudioRequest {
+  const {
+    text,
+    rate = 1,
+    pitch = 1,
+    volume = 1,
+    voiceName,
+    locale,
+    format = 'text',
+    speakers,
+    turnGap,
+    outputFormat = DEFAULT_OUTPUT_FORMAT,
+    bitrate,
+    bitrateMode = 'cbr',
+    complexity = DEFAULT_OPUS_COMPLEXITY,
+    compressionLevel = DEFAULT_FLAC_COMPRESSION_LEVEL,
+    sampleRate = DEFAULT_WAV_SAMPLE_RATE,
+    bitDepth = DEFAULT_WAV_BIT_DEPTH,
+    channels = 1,
+    encoding = 'pcm',
+    metadata,
+    pauses,
+    silence,
+    effects = [],
+    music,
+    loudnessTarget,
+    truePeak,
+    stream = false
+  } = body;
+
+  // Validate input
+  if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    return { error: 'Text is required and must be a non-empty string' };
+  }
+
+  if (text.length > MAX_TEXT_LENGTH) {
+    return { error: `Text must be less than ${MAX_TEXT_LENGTH} characters` };
+  }
+
+  if (!INPUT_FORMATS.includes(format)) {
+    return { error: `Format must be one of: ${INPUT_FORMATS.join(', ')}` };
+  }
+
+  if (!isOutputFormat(outputFormat)) {
+    return { error: `Output format must be one of: ${Object.keys(OUTPUT_FORMATS).join(', ')}` };
+  }
+
+  if (outputFormat === 'mp3') {
+    if (!isMp3Bitrate(bitrate ?? DEFAULT_MP3_BITRATE)) {
+      return { error: `Bitrate must be one of: ${MP3_BITRATES.join(', ')} kbps` };
+    }
+    if (!MP3_BITRATE_MODES.includes(bitrateMode)) {
+      return { error: 'Bitrate mode must be either "cbr" or "vbr"' };
+    }
+  }
+
+  if (outputFormat === 'opus') {
+    const [minBitrate, maxBitrate] = OPUS_BITRATE_RANGE;
+    const opusBitrate = bitrate ?? DEFAULT_OPUS_BITRATE;
+    if (typeof opusBitrate !== 'number' || opusBitrate < minBitrate || opusBitrate > maxBitrate) {
+      return { error: `Bitrate must be between ${minBitrate} and ${maxBitrate} kbps` };
+    }
+    const [minComplexity, maxComplexity] = OPUS_COMPLEXITY_RANGE;
+    if (!Number.isInteger(complexity) || complexity < minComplexity || complexity > maxComplexity) {
+      return { error: `Complexity must be an integer from ${minComplexity} to ${maxComplexity}` };
+    }
+  }
+
+  if (outputFormat === 'flac' && !FLAC_COMPRESSION_LEVELS.includes(compressionLevel)) {
+    return { error: 'Compression level must be an integer from 0 to 8' };
+  }
+
+  if (outputFormat === 'wav') {
+    if (!WAV_SAMPLE_RATES.includes(sampleRate)) {
+      return { error: `Sample rate must be one of: ${WAV_SAMPLE_RATES.join(', ')} Hz` };
+    }
+    if (!isWavBitDepth(bitDepth)) {
+      return { error: `Bit depth must be one of: ${WAV_BIT_DEPTHS.join(', ')}` };
+    }
+    if (!WAV_CHANNEL_COUNTS.includes(channels)) {
+      return { error: 'Channels must be 1 (mono) or 2 (stereo)' };
+    }
+    if (!WAV_ENCODINGS.includes(encoding)) {
+      return { error: `Encoding must be one of: ${WAV_ENCODINGS.join(', ')}` };
+    }
+  }
+
+  if (typeof stream !== 'boolean') {
+    return { error: 'Stream must be true or false' };
+  }
+
+  // Streamed audio is the renderer's own output, with nothing to convert
+  if (stream && (
+    outputFormat !== 'wav' ||
+    sampleRate !== DEFAULT_SAMPLE_RATE ||
+    bitDepth !== 16 ||
+    channels !== 1 ||
+    encoding !== 'pcm'
+  )) {
+    return { error: `Streaming is only available as 16-bit mono PCM WAV at ${DEFAULT_SAMPLE_RATE} Hz` };
+  }
+
+  const silenceError = validateSilenceOptions(pauses, silence);
+  if (silenceError) return { error: silenceError };
+
+  const effectsError = validateEffects(effects);
+  if (effectsError) return { error: effectsError };
+
+  const musicError = validateMusicBed(music);
+  if (musicError) return { error: musicError };
+
+  const bed = music as MusicBedInput | undefined;
+  if (bed?.bed === 'upload' && !readWavInfo(Buffer.from(bed.data ?? '', 'base64'))) {
+    return { error: 'An uploaded music bed must be a PCM or 32-bit float WAV file' };
+  }
+
+  if (stream && bed) {
+    return { error: 'A music bed is mixed to the length of the whole render, so it is not available when streaming' };
+  }
+
+  const loudnessError = validateLoudnessOptions(loudnessTarget, truePeak);
+  if (loudnessError) return { error: loudnessError };
+
+  if (stream && loudnessTarget !== undefined) {
+    return { error: 'Loudness normalization needs the whole render, so it is not available when streaming' };
+  }
+
+  const scriptError = validateScriptOptions(speakers, turnGap);
+  if (scriptError) return { error: scriptError };
+
+  const metadataError = validateMetadataInput(metadata);
+  if (metadataError) return { error: metadataError };
+
+  if (format === 'ssml') {
+    const issues = validateSsml(text);
+    if (issues.length > 0) return { error: 'Invalid SSML', issues };
+  }
+
+  const settings = resolveAudioSettings({ rate, pitch, volume, voiceName, locale });
+  return {
+    request: {
+      text,
+      format,
+      settings,
+      script: resolveScriptSettings(speakers, turnGap, settings),
+      outputFormat,
+      encoding: {
+        bitrate,
+        bitrateMode,
+        complexity,
+        compressionLevel,
+        sampleRate,
+        bitDepth,
+        channels,
+        encoding,
+        metadata: buildMetadata(text, settings, metadata ?? {})
+      },
+      pauses: (pauses as PauseSettings | undefined) ?? DEFAULT_PAUSES,
+      silence: (silence as SilenceSettings | undefined) ?? DEFAULT_SILENCE,
+      effects: effects as AudioEffect[],
+      music: bed ?? null,
+      loudness: loudnessTarget === undefined ? null : { target: loudnessTarget, truePeak: truePeak ?? DEFAULT_TRUE_PEAK },
+      stream
+    }
+  };
+}
+
+// Tags for the file: the user's fields plus what the server knows about how
+// it was made
+function buildMetadata(text: string, settings: AudioSettings, input: MetadataInput): AudioMetadata {
+  const metadata: AudioMetadata = {
+    language: settings.locale,
+    voice: settings.voiceName,
+    settings: describeSettings(settings),
+    createdAt: new Date().toISOString(),
+    software: METADATA_SOFTWARE,
+    sourceHash: createHash('sha256').update(text).digest('hex'),
+    sourceText: input.includeSourceText ? text : undefined
+  };
+  for (const field of METADATA_TEXT_FIELDS) {
+    const value = input[field]?.trim();
+    if (value) metadata[field] = value;
+  }
+  return metadata;
+}
+
+// Synthesize speech with the offline formant synthesizer, chunk by chunk, trim
+// its silences, run it through the effects, mix it over the music bed, bring
+// it to the requested loudness and encode it. The loudness is measured
+// either way. Throws the signal's reason when it is aborted.
+export async function renderAudioRequest(request: AudioRequest, options: RenderAudioOptions = {}): Promise<RenderedAudio> {
+  const { onProgress, signal } = options;
+  const parts = buildParts(request.text, request.format, request.settings, request.script, RENDER_CHUNK_LENGTH, request.pauses);
+  let audio = await renderLongForm(
+    parts,
+    (completed, total) => onProgress?.((completed / total) * RENDER_SHARE, 'rendering'),
+    signal
+  );
+
+  if (trimsSilence(request.silence)) {
+    onProgress?.(RENDER_SHARE, 'processing');
+    audio = trimSilence(audio, request.silence);
+    signal?.throwIfAborted();
+  }
+
+  if (request.effects.length > 0) {
+    onProgress?.(RENDER_SHARE, 'processing');
+    audio = await applyEffects(audio, request.effects, signal);
+  }
+
+  if (request.music) {
+    onProgress?.(RENDER_SHARE, 'mixing');
+    audio = await mixMusicBed(audio, request.music, signal);
+  }
+
+  onProgress?.(RENDER_SHARE, 'normalizing');
+  let loudness: LoudnessMeasurement;
+  if (request.loudness) {
+    const normalized = await normalizeLoudness(audio, request.loudness.target, request.loudness.truePeak);
+    audio = normalized.audio;
+    loudness = normalized.measurement;
+  } else {
+    loudness = { ...(await measureLoudness(audio)), gain: 0 };
+  }
+  signal?.throwIfAborted();
+
+  // Word ranges only exist for plain text and scripts, where they point into
+  // the input
+  const timings = buildTimings(audio.words, audio.duration, request.format !== 'ssml' ? request.text : undefined);
+
+  onProgress?.(RENDER_SHARE, 'encoding');
+  const blob = await encodeAudio(audio, request.outputFormat, request.encoding);
+  signal?.throwIfAborted();
+  onProgress?.(1, 'encoding');
+  return { blob, loudness, timings };
+}
+
+// Stream the audio as WAV: the header goes out at once and each part follows
+// as soon as it is synthesized. Cancelling the stream, as a client that
+// disconnects does, stops the render.
+export function streamAudioRequest(request: AudioRequest, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  const parts = buildParts(request.text, request.format, request.settings, request.script, STREAM_CHUNK_LENGTH, request.pauses);
+  const chunks = streamLongForm(parts, controller.signal);
+  const trimmer = trimsSilence(request.silence) ? createSilenceTrimmer(request.silence, DEFAULT_SAMPLE_RATE) : null;
+  const effects = request.effects.length > 0 ? createEffectsChain(request.effects, DEFAULT_SAMPLE_RATE) : null;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      if (!headerSent) {
+        headerSent = true;
+        stream.enqueue(new Uint8Array(wavStreamHeader(DEFAULT_SAMPLE_RATE, request.encoding.metadata)));
+        return;
+      }
+      try {
+        const next = await chunks.next();
+        if (next.done) {
+          // Whatever the trimmer and effects still hold: the silence at the
+          // end and, say, a reverb's tail
+          const held = trimmer?.finish();
+          if (held && held.length > 0) enqueueSamples(stream, effects ? effects.process(held) : held);
+          const tail = effects?.flush();
+          if (tail && tail.length > 0) enqueueSamples(stream, tail);
+          stream.close();
+          return;
+        }
+        const trimmed = trimmer ? trimmer.process(next.value.samples) : next.value.samples;
+        enqueueSamples(stream, effects ? effects.process(trimmed) : trimmed);
+      } catch (error) {
+        // A cancelled stream ignores this
+        stream.error(error);
+      }
+    },
+    cancel(reason) {
+      controller.abort(reason);
+    }
+  });
+}
+
+function enqueueSamples(stream: ReadableStreamDefaultController<Uint8Array>, samples: Int16Array) {
+  stream.enqueue(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
+}
+
+async function encodeAudio(audio: PcmAudio, format: OutputFormat, options: EncodingOptions): Promise<Blob> {
+  switch (format) {
+    case 'mp3':
+      return encodeMp3(audio, {
+        bitrate: isMp3Bitrate(options.bitrate) ? options.bitrate : DEFAULT_MP3_BITRATE,
+        mode: options.bitrateMode,
+        metadata: options.metadata
+      });
+    case 'opus':
+      return encodeOpus(audio, {
+        bitrate: options.bitrate ?? DEFAULT_OPUS_BITRATE,
+        complexity: options.complexity,
+        metadata: options.metadata
+      });
+    case 'flac':
+      return encodeFlac(audio, { compressionLevel: options.compressionLevel, metadata: options.metadata });
+    default:
+      return encodeWav(audio, {
+        sampleRate: options.sampleRate,
+        bitDepth: options.bitDepth,
+        channels: options.channels,
+        encoding: options.encoding,
+        metadata: options.metadata
+      });
+  }
+}
@@ -0,0 +1,12 @@
+// DSP helpers
+//
+// Small conversions and scheduling shared by the renderer, the processing
+// stages and the encoders. Levels are in dBFS, where a gain of 1 is 0 dB.
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Silence reads as -180 dB rather than minus infinity
+export const gainToDb = (gain: number) => 20 * Math.log10(Math.max(gain, 1e-9));
+
+// Long loops await this between chunks so other requests are served meanwhile
+export const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
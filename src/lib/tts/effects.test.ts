@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { dbToGain, gainToDb } from './dsp-utils';
+import { createEffectsChain } from './effects';
+import { AudioEffect, REVERB_ROOMS, ReverbRoom } from '../audio-effects';
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, seconds: number, amplitude: number): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * amplitude * 32767);
+  }
+  return samples;
+}
+
+// Every sample is at the amplitude, half of them negative
+function square(frequency: number, seconds: number, amplitude: number): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * SAMPLE_RATE));
+  const level = Math.round(amplitude * 32767);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.floor((2 * frequency * i) / SAMPLE_RATE) % 2 ? -level : level;
+  }
+  return samples;
+}
+
+// Uniform noise from a fixed seed, peaking at the amplitude
+function noise(seconds: number, amplitude: number): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * SAMPLE_RATE));
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    samples[i] = Math.round((seed / 2 ** 31 - 1) * amplitude * 32767);
+  }
+  return samples;
+}
+
+function rms(samples: Int16Array, from = 0, to = samples.length): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (to - from));
+}
+
+function peak(samples: Int16Array): number {
+  return samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+}
+
+// The whole output of a chain for one input, its latency dropped and its
+// tail flushed
+function run(effects: AudioEffect[], input: Int16Array): Int16Array {
+  const chain = createEffectsChain(effects, SAMPLE_RATE);
+  const body = chain.process(input);
+  const tail = chain.flush();
+  const output = new Int16Array(body.length + tail.length);
+  output.set(body);
+  output.set(tail, body.length);
+  return output;
+}
+
+describe('filters', () => {
+  // A Butterworth section (Q of 1/√2) is 3 dB down at its corner
+  for (const type of ['highpass', 'lowpass'] as const) {
+    it(`${type} is 3 dB down at the corner`, () => {
+      const input = sine(1000, 1, 0.5);
+      const output = run([{ type, frequency: 1000, q: Math.SQRT1_2 }], input);
+      // Measured after the filter has settled
+      const start = SAMPLE_RATE / 2;
+      const gain = gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+      assert.ok(Math.abs(gain + 3.01) < 0.05, `gain at the corner was ${gain.toFixed(2)} dB`);
+    });
+  }
+
+  it('passes the band away from the corner', () => {
+    const input = sine(100, 1, 0.5);
+    const output = run([{ type: 'lowpass', frequency: 8000, q: Math.SQRT1_2 }], input);
+    const start = SAMPLE_RATE / 2;
+    const gain = gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+    assert.ok(Math.abs(gain) < 0.05, `pass-band gain was ${gain.toFixed(2)} dB`);
+  });
+});
+
+describe('eq', () => {
+  const band = { shape: 'peak', frequency: 1000, gain: 6, q: 1 } as const;
+
+  // Measured after the filter has settled, quiet enough that the boost
+  // cannot clip
+  function eqGain(frequency: number): number {
+    const input = sine(frequency, 1, 0.25);
+    const output = run([{ type: 'eq', bands: [band] }], input);
+    const start = SAMPLE_RATE / 2;
+    return gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+  }
+
+  it('boosts by its gain at the center frequency', () => {
+    const gain = eqGain(band.frequency);
+    assert.ok(Math.abs(gain - band.gain) < 0.05, `gain at the center was ${gain.toFixed(2)} dB`);
+  });
+
+  it('leaves frequencies far from the center alone', () => {
+    for (const frequency of [50, 15000]) {
+      const gain = eqGain(frequency);
+      assert.ok(Math.abs(gain) < 0.1, `gain at ${frequency} Hz was ${gain.toFixed(2)} dB`);
+    }
+  });
+});
+
+describe('compressor', () => {
+  const effect: AudioEffect = { type: 'compressor', threshold: -24, ratio: 4, attack: 3, release: 80, makeup: 0 };
+
+  // A square wave is the same level on every sample, so once the detector has
+  // settled the output level is the static curve's
+  function outputLevel(level: number): number {
+    const input = square(100, 1, dbToGain(level));
+    const output = run([effect], input);
+    const start = SAMPLE_RATE / 2;
+    return gainToDb(rms(output, start, input.length) / 32767);
+  }
+
+  it('reduces level over the threshold by its ratio', () => {
+    for (const level of [-18, -6]) {
+      const expected = effect.threshold + (level - effect.threshold) / effect.ratio;
+      const actual = outputLevel(level);
+      assert.ok(Math.abs(actual - expected) < 0.05, `${level} dB came out at ${actual.toFixed(2)} dB, not ${expected} dB`);
+    }
+  });
+
+  it('leaves level under the threshold alone', () => {
+    const actual = outputLevel(-30);
+    assert.ok(Math.abs(actual + 30) < 0.05, `-30 dB came out at ${actual.toFixed(2)} dB`);
+  });
+
+  it('adds its makeup gain', () => {
+    const input = sine(440, 0.5, dbToGain(-30));
+    const output = run([{ ...effect, makeup: 6 }], input);
+    const gain = gainToDb(rms(output) / rms(input));
+    assert.ok(Math.abs(gain - 6) < 0.05, `makeup was ${gain.toFixed(2)} dB`);
+  });
+});
+
+describe('de-esser', () => {
+  const effect: AudioEffect = { type: 'deesser', frequency: 5000, threshold: -30, reduction: 10 };
+
+  function deEsserGain(frequency: number): number {
+    const input = sine(frequency, 1, dbToGain(-12));
+    const output = run([effect], input);
+    const start = SAMPLE_RATE / 2;
+    return gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+  }
+
+  it('turns a sibilant tone down by up to its reduction', () => {
+    const gain = deEsserGain(7000);
+    assert.ok(Math.abs(gain + effect.reduction) < 0.5, `gain on the sibilant tone was ${gain.toFixed(2)} dB`);
+  });
+
+  it('leaves a low tone alone', () => {
+    const gain = deEsserGain(200);
+    assert.ok(Math.abs(gain) < 0.05, `gain on the low tone was ${gain.toFixed(2)} dB`);
+  });
+});
+
+describe('limiter', () => {
+  it('never exceeds its ceiling', () => {
+    const ceiling = -6;
+    // Quiet, then a full-scale burst that starts on a peak, then quiet again
+    const input = new Int16Array(SAMPLE_RATE);
+    input.set(sine(220, 0.3, 0.1));
+    input.set(sine(3000, 0.2, 1).map((_, i) => (i % 16 === 0 ? 32767 : 0)), SAMPLE_RATE * 0.3);
+    input.set(sine(440, 0.5, 1), SAMPLE_RATE * 0.5);
+
+    const output = run([{ type: 'limiter', ceiling, release: 5 }], input);
+    // Rounding to 16 bits can add half a step
+    assert.ok(peak(output) <= dbToGain(ceiling) * 32768 + 0.5, `peak was ${gainToDb(peak(output) / 32768).toFixed(2)} dB`);
+  });
+
+  it('leaves audio under the ceiling alone', () => {
+    const input = sine(440, 0.5, dbToGain(-12));
+    const output = run([{ type: 'limiter', ceiling: -6, release: 60 }], input);
+    assert.equal(output.length, input.length);
+    assert.ok(output.every((sample, i) => Math.abs(sample - input[i]) <= 1));
+  });
+});
+
+describe('gate', () => {
+  it('settles at the range below unity on noise under the threshold', () => {
+    const range = 30;
+    const effect: AudioEffect = { type: 'gate', threshold: -20, range, attack: 2, hold: 50, release: 150 };
+    // Speech opens the gate, then noise 10 dB under the threshold follows,
+    // loud enough that rounding the gated noise to 16 bits does not count
+    const speech = sine(220, 0.5, 0.5);
+    const hiss = noise(2, dbToGain(-30));
+    const input = new Int16Array(speech.length + hiss.length);
+    input.set(speech);
+    input.set(hiss, speech.length);
+
+    const output = run([effect], input);
+    // Well after the hold and release
+    const start = input.length - SAMPLE_RATE / 2;
+    const gain = gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+    assert.ok(Math.abs(gain + range) < 0.5, `gain on the noise was ${gain.toFixed(2)} dB`);
+  });
+
+  it('stays open over the threshold', () => {
+    const input = sine(220, 0.5, 0.5);
+    const output = run([{ type: 'gate', threshold: -40, range: 30, attack: 2, hold: 50, release: 150 }], input);
+    const start = SAMPLE_RATE / 10;
+    const gain = gainToDb(rms(output, start, input.length) / rms(input, start, input.length));
+    assert.ok(Math.abs(gain) < 0.05, `gain on the tone was ${gain.toFixed(2)} dB`);
+  });
+});
+
+describe('reverb', () => {
+  // The flush holds the tail; by its end an impulse has died away by 60 dB
+  for (const room of Object.keys(REVERB_ROOMS) as ReverbRoom[]) {
+    it(`${room} decays within its tail`, () => {
+      const chain = createEffectsChain([{ type: 'reverb', room, mix: 1 }], SAMPLE_RATE);
+      const impulse = new Int16Array(SAMPLE_RATE / 10);
+      impulse[0] = 32767;
+      const body = chain.process(impulse);
+      const tail = chain.flush();
+      const after = chain.process(new Int16Array(SAMPLE_RATE));
+
+      const loudest = Math.max(peak(body), peak(tail));
+      assert.ok(loudest > 0, 'the impulse had no response');
+      // The last tenth of the tail and anything after it, within a step of
+      // rounding
+      const end = rms(tail, Math.floor(tail.length * 0.9));
+      assert.ok(end <= loudest * dbToGain(-60) + 1, `the tail ended at ${gainToDb(end / loudest).toFixed(1)} dB`);
+      assert.ok(peak(after) <= loudest * dbToGain(-60) + 1, `${gainToDb(peak(after) / loudest).toFixed(1)} dB remained`);
+    });
+  }
+});
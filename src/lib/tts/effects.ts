@@ -0,0 +1,355 @@
+// Effects chain
+//
+// Runs rendered speech through the effects a request lists, in order. Each
+// effect is a processor that keeps its state between calls, so the chain can
+// be fed the long-form chunks one at a time, whether they are joined into a
+// file or streamed. Filters are the biquads from the Audio EQ Cookbook
+// (Robert Bristow-Johnson); the reverb is Freeverb's combs and all-passes.
+//
+// The limiter looks a few milliseconds ahead, which delays its output; the
+// chain drops that much from the start and flushes it, with any reverb tail,
+// at the end, so word timings still line up with the audio.
+
+import { PcmAudio } from './long-form';
+import { dbToGain, gainToDb, yieldToEventLoop } from './dsp-utils';
+import {
+  AudioEffect,
+  CompressorEffect,
+  DeEsserEffect,
+  EqBand,
+  GateEffect,
+  LimiterEffect,
+  REVERB_ROOMS,
+  ReverbEffect
+} from '../audio-effects';
+
+interface Processor {
+  process(samples: Float32Array): void; // in place, samples scaled to -1..1
+  latency: number; // samples the output lags the input
+  tail: number; // samples of output after the input ends
+}
+
+export interface EffectsChain {
+  process(chunk: Int16Array): Int16Array; // shorter than the input while the latency fills
+  flush(): Int16Array; // what is left once the input has ended
+}
+
+const LIMITER_LOOKAHEAD = 0.005; // seconds
+const DETECTOR_ATTACK = 0.001; // seconds, for the de-esser's and gate's level detectors
+const DEESSER_RELEASE = 0.05; // seconds
+const MAX_REVERB_TAIL = 6; // seconds
+
+// One-pole smoothing coefficient for a time constant in milliseconds
+const timeCoefficient = (ms: number, sampleRate: number) => 1 - Math.exp(-1 / Math.max(1, (ms / 1000) * sampleRate));
+
+type FilterShape = 'highpass' | 'lowpass' | EqBand['shape'];
+
+class Biquad {
+  private b0 = 1;
+  private b1 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(shape: FilterShape, frequency: number, q: number, gain: number, sampleRate: number) {
+    // Keep the corner clear of Nyquist, where the design breaks down
+    const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const A = Math.pow(10, gain / 40);
+    let b: [number, number, number];
+    let a: [number, number, number];
+
+    switch (shape) {
+      case 'highpass':
+        b = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+        a = [1 + alpha, -2 * cos, 1 - alpha];
+        break;
+      case 'lowpass':
+        b = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2];
+        a = [1 + alpha, -2 * cos, 1 - alpha];
+        break;
+      case 'peak':
+        b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+        a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+        break;
+      case 'lowshelf': {
+        const root = 2 * Math.sqrt(A) * alpha;
+        b = [A * (A + 1 - (A - 1) * cos + root), 2 * A * (A - 1 - (A + 1) * cos), A * (A + 1 - (A - 1) * cos - root)];
+        a = [A + 1 + (A - 1) * cos + root, -2 * (A - 1 + (A + 1) * cos), A + 1 + (A - 1) * cos - root];
+        break;
+      }
+      case 'highshelf': {
+        const root = 2 * Math.sqrt(A) * alpha;
+        b = [A * (A + 1 + (A - 1) * cos + root), -2 * A * (A - 1 + (A + 1) * cos), A * (A + 1 + (A - 1) * cos - root)];
+        a = [A + 1 - (A - 1) * cos + root, 2 * (A - 1 - (A + 1) * cos), A + 1 - (A - 1) * cos - root];
+        break;
+      }
+    }
+
+    this.b0 = b[0] / a[0];
+    this.b1 = b[1] / a[0];
+    this.b2 = b[2] / a[0];
+    this.a1 = a[1] / a[0];
+    this.a2 = a[2] / a[0];
+  }
+
+  // Transposed direct form II
+  next(x: number): number {
+    const y = this.b0 * x + this.z1;
+    this.z1 = this.b1 * x - this.a1 * y + this.z2;
+    this.z2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+}
+
+function filterProcessor(filters: Biquad[]): Processor {
+  return {
+    latency: 0,
+    tail: 0,
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        let x = samples[i];
+        for (const filter of filters) x = filter.next(x);
+        samples[i] = x;
+      }
+    }
+  };
+}
+
+// Listens to the band above the frequency and turns the signal down by as
+// much as that band is over the threshold, up to the maximum reduction. The
+// whole signal is turned down: a biquad and its complement do not split the
+// spectrum cleanly enough to duck the band on its own.
+function deEsser(effect: DeEsserEffect, sampleRate: number): Processor {
+  const sidechain = new Biquad('highpass', effect.frequency, Math.SQRT1_2, 0, sampleRate);
+  const attack = timeCoefficient(DETECTOR_ATTACK * 1000, sampleRate);
+  const release = timeCoefficient(DEESSER_RELEASE * 1000, sampleRate);
+  let envelope = 0;
+
+  return {
+    latency: 0,
+    tail: 0,
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        const level = Math.abs(sidechain.next(samples[i]));
+        envelope += (level - envelope) * (level > envelope ? attack : release);
+        const over = gainToDb(envelope) - effect.threshold;
+        if (over > 0) samples[i] *= dbToGain(-Math.min(over, effect.reduction));
+      }
+    }
+  };
+}
+
+// Feed-forward, with the level followed in decibels
+function compressor(effect: CompressorEffect, sampleRate: number): Processor {
+  const attack = timeCoefficient(effect.attack, sampleRate);
+  const release = timeCoefficient(effect.release, sampleRate);
+  const slope = 1 - 1 / effect.ratio;
+  const makeup = dbToGain(effect.makeup);
+  let reduction = 0; // dB
+
+  return {
+    latency: 0,
+    tail: 0,
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        const over = gainToDb(Math.abs(samples[i])) - effect.threshold;
+        const target = over > 0 ? over * slope : 0;
+        reduction += (target - reduction) * (target > reduction ? attack : release);
+        samples[i] *= dbToGain(-reduction) * makeup;
+      }
+    }
+  };
+}
+
+// Delays the audio by the look-ahead so the gain is already down when a peak
+// arrives, holds it there for as long again and then recovers over the
+// release. Whatever the smoothing lets through is clipped at the ceiling.
+function limiter(effect: LimiterEffect, sampleRate: number): Processor {
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const ceiling = dbToGain(effect.ceiling);
+  const attack = timeCoefficient((LIMITER_LOOKAHEAD * 1000) / 4, sampleRate);
+  const release = timeCoefficient(effect.release, sampleRate);
+  const delay = new Float32Array(lookahead);
+  let position = 0;
+  let target = 1;
+  let hold = 0;
+  let gain = 1;
+
+  return {
+    latency: lookahead,
+    tail: 0,
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        const level = Math.abs(samples[i]);
+        const needed = level > ceiling ? ceiling / level : 1;
+        if (needed <= target) {
+          target = needed;
+          hold = 2 * lookahead;
+        } else if (hold > 0) {
+          hold--;
+        } else {
+          target += (1 - target) * release;
+        }
+        gain += (target - gain) * (target < gain ? attack : release);
+
+        const delayed = delay[position];
+        delay[position] = samples[i];
+        position = (position + 1) % lookahead;
+        samples[i] = Math.max(-ceiling, Math.min(ceiling, delayed * gain));
+      }
+    }
+  };
+}
+
+// Opens when the level rises over the threshold, stays open for the hold
+// time after it falls back and then closes down to the range below unity
+function gate(effect: GateEffect, sampleRate: number): Processor {
+  const detector = timeCoefficient(DETECTOR_ATTACK * 1000, sampleRate);
+  const attack = timeCoefficient(effect.attack, sampleRate);
+  const release = timeCoefficient(effect.release, sampleRate);
+  const holdLength = Math.round((effect.hold / 1000) * sampleRate);
+  const floor = dbToGain(-effect.range);
+  const threshold = dbToGain(effect.threshold);
+  let envelope = 0;
+  let hold = 0;
+  let gain = floor;
+
+  return {
+    latency: 0,
+    tail: 0,
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        const level = Math.abs(samples[i]);
+        envelope = level > envelope ? level : envelope + (level - envelope) * detector;
+        if (envelope > threshold) hold = holdLength;
+        else if (hold > 0) hold--;
+        const target = envelope > threshold || hold > 0 ? 1 : floor;
+        gain += (target - gain) * (target > gain ? attack : release);
+        samples[i] *= gain;
+      }
+    }
+  };
+}
+
+// Freeverb's delay lengths at 44.1 kHz
+const COMB_TUNING = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617];
+const ALLPASS_TUNING = [556, 441, 341, 225];
+const REVERB_INPUT_GAIN = 0.015;
+const REVERB_WET_GAIN = 3;
+
+function reverb(effect: ReverbEffect, sampleRate: number): Processor {
+  const room = REVERB_ROOMS[effect.room];
+  const scale = sampleRate / 44100;
+  const feedback = 0.7 + 0.28 * room.size;
+  const damping = 0.4 * room.damping;
+  const combs = COMB_TUNING.map(length => ({ buffer: new Float32Array(Math.round(length * scale)), index: 0, store: 0 }));
+  const allpasses = ALLPASS_TUNING.map(length => ({ buffer: new Float32Array(Math.round(length * scale)), index: 0 }));
+  const preDelay = new Float32Array(Math.max(1, Math.round((room.preDelay / 1000) * sampleRate)));
+  let preDelayIndex = 0;
+
+  // Time for the longest comb to die away by 60 dB
+  const longest = Math.max(...combs.map(comb => comb.buffer.length));
+  const decay = Math.ceil((-3 / Math.log10(feedback)) * longest) + preDelay.length;
+
+  return {
+    latency: 0,
+    tail: Math.min(decay, Math.round(MAX_REVERB_TAIL * sampleRate)),
+    process(samples) {
+      for (let i = 0; i < samples.length; i++) {
+        const dry = samples[i];
+        const input = preDelay[preDelayIndex] * REVERB_INPUT_GAIN;
+        preDelay[preDelayIndex] = dry;
+        preDelayIndex = (preDelayIndex + 1) % preDelay.length;
+
+        // Parallel low-pass feedback combs
+        let wet = 0;
+        for (const comb of combs) {
+          const output = comb.buffer[comb.index];
+          comb.store = output * (1 - damping) + comb.store * damping;
+          comb.buffer[comb.index] = input + comb.store * feedback;
+          comb.index = (comb.index + 1) % comb.buffer.length;
+          wet += output;
+        }
+
+        // Series all-passes to diffuse the echoes
+        for (const allpass of allpasses) {
+          const buffered = allpass.buffer[allpass.index];
+          allpass.buffer[allpass.index] = wet + buffered * 0.5;
+          allpass.index = (allpass.index + 1) % allpass.buffer.length;
+          wet = buffered - wet;
+        }
+
+        samples[i] = dry * (1 - effect.mix) + wet * REVERB_WET_GAIN * effect.mix;
+      }
+    }
+  };
+}
+
+function createProcessor(effect: AudioEffect, sampleRate: number): Processor {
+  switch (effect.type) {
+    case 'highpass':
+    case 'lowpass':
+      return filterProcessor([new Biquad(effect.type, effect.frequency, effect.q, 0, sampleRate)]);
+    case 'eq':
+      return filterProcessor(
+        effect.bands.map(band => new Biquad(band.shape, band.frequency, band.q, band.gain, sampleRate))
+      );
+    case 'deesser':
+      return deEsser(effect, sampleRate);
+    case 'compressor':
+      return compressor(effect, sampleRate);
+    case 'limiter':
+      return limiter(effect, sampleRate);
+    case 'gate':
+      return gate(effect, sampleRate);
+    case 'reverb':
+      return reverb(effect, sampleRate);
+  }
+}
+
+export function createEffectsChain(effects: AudioEffect[], sampleRate: number): EffectsChain {
+  const processors = effects.map(effect => createProcessor(effect, sampleRate));
+  const latency = processors.reduce((total, processor) => total + processor.latency, 0);
+  const tail = processors.reduce((total, processor) => total + processor.tail, 0);
+  let toDrop = latency;
+
+  const run = (chunk: Int16Array) => {
+    const samples = new Float32Array(chunk.length);
+    for (let i = 0; i < chunk.length; i++) samples[i] = chunk[i] / 32768;
+    for (const processor of processors) processor.process(samples);
+
+    const start = Math.min(toDrop, samples.length);
+    toDrop -= start;
+    const output = new Int16Array(samples.length - start);
+    for (let i = start; i < samples.length; i++) {
+      output[i - start] = Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32768)));
+    }
+    return output;
+  };
+
+  return {
+    process: run,
+    flush: () => run(new Int16Array(latency + tail))
+  };
+}
+
+// Run joined audio through the effects. A reverb adds its tail to the end.
+export async function applyEffects(audio: PcmAudio, effects: AudioEffect[], signal?: AbortSignal): Promise<PcmAudio> {
+  if (effects.length === 0) return audio;
+  const chain = createEffectsChain(effects, audio.sampleRate);
+  const chunks: Int16Array[] = [];
+  for (const chunk of audio.chunks) {
+    chunks.push(chain.process(chunk));
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+  }
+  const tail = chain.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  const sampleCount = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  return { ...audio, chunks, sampleCount, duration: sampleCount / audio.sampleRate };
+}
@@ -0,0 +1,521 @@
+// FLAC encoding
+//
+// A compact FLAC encoder for mono PCM. Every block is tried as a constant, as
+// each fixed polynomial predictor of order 0 to 4 and, from level 3 up, as a
+// quantized LPC predictor found with Levinson-Durbin; the smallest encoding
+// wins. Residuals are Rice coded with the partition order and parameters that
+// minimise their size. Compression levels follow the meaning of flac's -0 to
+// -8: higher levels search more and run slower, and every level decodes to
+// the same samples.
+
+import { createHash } from 'crypto';
+import { PcmAudio } from './long-form';
+import { yieldToEventLoop } from './dsp-utils';
+import { vorbisCommentBody, vorbisComments } from './metadata-tags';
+import { DEFAULT_FLAC_COMPRESSION_LEVEL } from '../audio-formats';
+import { AudioMetadata } from '../audio-metadata';
+
+export interface FlacOptions {
+  compressionLevel?: number;
+  metadata?: AudioMetadata;
+}
+
+interface LevelSettings {
+  blockSize: number;
+  maxLpcOrder: number;
+  maxPartitionOrder: number;
+  exhaustive: boolean; // encode every LPC order rather than the estimated best
+}
+
+const LEVELS: LevelSettings[] = [
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, exhaustive: false },
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, exhaustive: false },
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 6, maxPartitionOrder: 4, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 4, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 5, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 6, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 12, maxPartitionOrder: 6, exhaustive: false },
+  { blockSize: 4096, maxLpcOrder: 12, maxPartitionOrder: 6, exhaustive: true }
+];
+
+const BITS_PER_SAMPLE = 16;
+const LPC_PRECISION = 12;
+const MAX_RICE_PARAMETER = 14;
+const BLOCKS_PER_YIELD = 64;
+const VENDOR = 'Text to Audio FLAC encoder';
+
+const STREAMINFO = 0;
+const VORBIS_COMMENT = 4;
+
+// Frame header codes for the common block sizes and sample rates; anything
+// else is stored explicitly or taken from STREAMINFO
+const BLOCK_SIZE_CODES: Record<number, number> = { 192: 1, 576: 2, 1152: 3, 2304: 4, 4608: 5, 256: 8, 512: 9, 1024: 10, 2048: 11, 4096: 12, 8192: 13, 16384: 14, 32768: 15 };
+const SAMPLE_RATE_CODES: Record<number, number> = { 88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11 };
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 1, 12: 2, 16: 4, 20: 5, 24: 6, 32: 7 };
+
+// MSB-first bit writer over a growable byte buffer
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private current = 0;
+  private filled = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  private pushByte(value: number): void {
+    this.ensure(1);
+    this.bytes[this.length++] = value;
+  }
+
+  // Write the low count bits of value, count <= 32
+  write(value: number, count: number): void {
+    for (let shift = count - 1; shift >= 0; shift--) {
+      const bit = shift >= 31 ? Math.floor(value / 2 ** shift) & 1 : (value >>> shift) & 1;
+      this.current = (this.current << 1) | bit;
+      if (++this.filled === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.filled = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, count: number): void {
+    this.write(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  // count zeros and a terminating one
+  writeUnary(count: number): void {
+    while (this.filled !== 0 && count > 0) {
+      this.write(0, 1);
+      count--;
+    }
+    while (count >= 8) {
+      this.pushByte(0);
+      count -= 8;
+    }
+    for (; count > 0; count--) this.write(0, 1);
+    this.write(1, 1);
+  }
+
+  alignToByte(): void {
+    if (this.filled > 0) this.write(0, 8 - this.filled);
+  }
+
+  get byteLength(): number {
+    return this.length;
+  }
+
+  bytesFrom(start: number): Uint8Array {
+    return this.bytes.subarray(start, this.length);
+  }
+
+  take(): Uint8Array {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+// Frame numbers use the UTF-8 style variable-length code
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // n bytes carry 5n + 1 bits: a length prefix, then six bits per
+  // continuation byte
+  let count = 2;
+  while (value >= 2 ** (5 * count + 1)) count++;
+  writer.write(((0xff << (8 - count)) & 0xff) | Math.floor(value / 2 ** (6 * (count - 1))), 8);
+  for (let k = count - 2; k >= 0; k--) writer.write(0x80 | (Math.floor(value / 2 ** (6 * k)) & 0x3f), 8);
+}
+
+// Rice coding ----------------------------------------------------------------
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+// Fold signed residuals into unsigned values: 0, -1, 1, -2 ... -> 0, 1, 2, 3 ...
+function foldResiduals(residuals: Int32Array): Uint32Array {
+  const folded = new Uint32Array(residuals.length);
+  for (let i = 0; i < residuals.length; i++) {
+    const r = residuals[i];
+    folded[i] = r >= 0 ? r * 2 : -r * 2 - 1;
+  }
+  return folded;
+}
+
+// Best Rice parameter for a run of folded residuals and its cost in bits
+function bestParameter(folded: Uint32Array, start: number, end: number): [number, number] {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += folded[i];
+  const count = end - start;
+  const mean = count > 0 ? sum / count : 0;
+  const guess = mean > 1 ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean))) : 0;
+
+  let best = guess;
+  let bestBits = Infinity;
+  for (let parameter = Math.max(0, guess - 1); parameter <= Math.min(MAX_RICE_PARAMETER, guess + 1); parameter++) {
+    let bits = count * (parameter + 1);
+    for (let i = start; i < end; i++) bits += Math.floor(folded[i] / 2 ** parameter);
+    if (bits < bestBits) {
+      best = parameter;
+      bestBits = bits;
+    }
+  }
+  return [best, bestBits];
+}
+
+function planRice(folded: Uint32Array, blockSize: number, predictorOrder: number, maxPartitionOrder: number): RicePlan {
+  let best: RicePlan | null = null;
+
+  for (let order = 0; order <= maxPartitionOrder; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0) break;
+    const partitionSize = blockSize / partitions;
+    if (partitionSize <= predictorOrder) break;
+
+    const parameters: number[] = [];
+    let bits = 2 + 4; // coding method and partition order
+    for (let p = 0; p < partitions; p++) {
+      // The residual starts after the warm-up samples, so the first partition is short
+      const start = p === 0 ? 0 : p * partitionSize - predictorOrder;
+      const end = (p + 1) * partitionSize - predictorOrder;
+      const [parameter, partitionBits] = bestParameter(folded, start, end);
+      parameters.push(parameter);
+      bits += 4 + partitionBits;
+    }
+
+    if (!best || bits < best.bits) best = { partitionOrder: order, parameters, bits };
+  }
+
+  return best ?? { partitionOrder: 0, parameters: [bestParameter(folded, 0, folded.length)[0]], bits: Infinity };
+}
+
+function writeResidual(writer: BitWriter, folded: Uint32Array, blockSize: number, predictorOrder: number, plan: RicePlan): void {
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = blockSize >> plan.partitionOrder;
+
+  plan.parameters.forEach((parameter, p) => {
+    writer.write(parameter, 4);
+    const start = p === 0 ? 0 : p * partitionSize - predictorOrder;
+    const end = (p + 1) * partitionSize - predictorOrder;
+    const divisor = 2 ** parameter;
+    for (let i = start; i < end; i++) {
+      writer.writeUnary(Math.floor(folded[i] / divisor));
+      if (parameter > 0) writer.write(folded[i] % divisor, parameter);
+    }
+  });
+}
+
+// Predictors -----------------------------------------------------------------
+
+interface Subframe {
+  bits: number;
+  write: (writer: BitWriter) => void;
+}
+
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    if (order === 1) prediction = s[i - 1];
+    else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+    else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+    else if (order === 4) prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+    residuals[i - order] = s[i] - prediction;
+  }
+  return residuals;
+}
+
+function fixedSubframe(samples: Int32Array, order: number, maxPartitionOrder: number): Subframe {
+  const folded = foldResiduals(fixedResiduals(samples, order));
+  const plan = planRice(folded, samples.length, order, maxPartitionOrder);
+  return {
+    bits: 8 + order * BITS_PER_SAMPLE + plan.bits,
+    write: writer => {
+      writer.write(0, 1);
+      writer.write(0b001000 | order, 6);
+      writer.write(0, 1);
+      for (let i = 0; i < order; i++) writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+      writeResidual(writer, folded, samples.length, order, plan);
+    }
+  };
+}
+
+// Autocorrelation of the block under a Welch window
+function autocorrelation(samples: Int32Array, maxLag: number): Float64Array {
+  const n = samples.length;
+  const windowed = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const x = (2 * i) / (n - 1) - 1;
+    windowed[i] = samples[i] * (1 - x * x);
+  }
+  const result = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+    result[lag] = sum;
+  }
+  return result;
+}
+
+// Levinson-Durbin recursion: predictor coefficients for every order up to
+// maxOrder, with the prediction error left at each
+function levinsonDurbin(correlation: Float64Array, maxOrder: number): { coefficients: number[][]; errors: number[] } {
+  const coefficients: number[][] = [];
+  const errors: number[] = [];
+  let current: number[] = [];
+  let error = correlation[0];
+
+  for (let order = 1; order <= maxOrder; order++) {
+    let accumulator = correlation[order];
+    for (let j = 0; j < order - 1; j++) accumulator -= current[j] * correlation[order - 1 - j];
+    const reflection = error > 0 ? accumulator / error : 0;
+
+    const next = new Array<number>(order);
+    next[order - 1] = reflection;
+    for (let j = 0; j < order - 1; j++) next[j] = current[j] - reflection * current[order - 2 - j];
+    current = next;
+    error *= 1 - reflection * reflection;
+
+    coefficients.push(current);
+    errors.push(Math.max(error, 0));
+  }
+
+  return { coefficients, errors };
+}
+
+// Quantize coefficients to LPC_PRECISION bits with a shared shift
+function quantizeCoefficients(coefficients: number[]): { quantized: number[]; shift: number } | null {
+  const maxCoefficient = Math.max(...coefficients.map(Math.abs));
+  if (!(maxCoefficient > 0)) return null;
+
+  const maxValue = (1 << (LPC_PRECISION - 1)) - 1;
+  const exponent = Math.floor(Math.log2(maxCoefficient)) + 1;
+  const shift = Math.min(15, LPC_PRECISION - 1 - exponent);
+  if (shift < 0) return null;
+
+  // Carry each rounding error into the next coefficient
+  const quantized: number[] = [];
+  let carry = 0;
+  for (const coefficient of coefficients) {
+    const scaled = coefficient * (1 << shift) + carry;
+    const value = Math.max(-maxValue - 1, Math.min(maxValue, Math.round(scaled)));
+    carry = scaled - value;
+    quantized.push(value);
+  }
+  return { quantized, shift };
+}
+
+function lpcSubframe(samples: Int32Array, coefficients: number[], maxPartitionOrder: number): Subframe | null {
+  const quantization = quantizeCoefficients(coefficients);
+  if (!quantization) return null;
+  const { quantized, shift } = quantization;
+  const order = quantized.length;
+  const divisor = 2 ** shift;
+
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += quantized[j] * samples[i - j - 1];
+    const residual = samples[i] - Math.floor(sum / divisor);
+    // Decoders keep residuals in 32 bits
+    if (residual > 0x7fffffff || residual < -0x80000000) return null;
+    residuals[i - order] = residual;
+  }
+
+  const folded = foldResiduals(residuals);
+  const plan = planRice(folded, samples.length, order, maxPartitionOrder);
+  return {
+    bits: 8 + order * BITS_PER_SAMPLE + 4 + 5 + order * LPC_PRECISION + plan.bits,
+    write: writer => {
+      writer.write(0, 1);
+      writer.write(0b100000 | (order - 1), 6);
+      writer.write(0, 1);
+      for (let i = 0; i < order; i++) writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+      writer.write(LPC_PRECISION - 1, 4);
+      writer.writeSigned(shift, 5);
+      quantized.forEach(value => writer.writeSigned(value, LPC_PRECISION));
+      writeResidual(writer, folded, samples.length, order, plan);
+    }
+  };
+}
+
+function chooseSubframe(samples: Int32Array, settings: LevelSettings): Subframe {
+  if (samples.every(sample => sample === samples[0])) {
+    return {
+      bits: 8 + BITS_PER_SAMPLE,
+      write: writer => {
+        writer.write(0, 8); // constant subframe
+        writer.writeSigned(samples[0], BITS_PER_SAMPLE);
+      }
+    };
+  }
+
+  let best: Subframe = {
+    bits: 8 + samples.length * BITS_PER_SAMPLE,
+    write: writer => {
+      writer.write(0b00000010, 8); // verbatim subframe
+      samples.forEach(sample => writer.writeSigned(sample, BITS_PER_SAMPLE));
+    }
+  };
+  const consider = (candidate: Subframe | null) => {
+    if (candidate && candidate.bits < best.bits) best = candidate;
+  };
+
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    consider(fixedSubframe(samples, order, settings.maxPartitionOrder));
+  }
+
+  const maxOrder = Math.min(settings.maxLpcOrder, samples.length - 1);
+  if (maxOrder > 0) {
+    const { coefficients, errors } = levinsonDurbin(autocorrelation(samples, maxOrder), maxOrder);
+    if (settings.exhaustive) {
+      coefficients.forEach(set => consider(lpcSubframe(samples, set, settings.maxPartitionOrder)));
+    } else {
+      // Pick the order whose prediction error promises the fewest bits
+      let bestOrder = 0;
+      let bestEstimate = Infinity;
+      errors.forEach((error, index) => {
+        const order = index + 1;
+        const perSample = error > 0 ? Math.max(0, 0.5 * Math.log2(error / samples.length)) : 0;
+        const estimate = perSample * (samples.length - order) + order * (BITS_PER_SAMPLE + LPC_PRECISION);
+        if (estimate < bestEstimate) {
+          bestEstimate = estimate;
+          bestOrder = order;
+        }
+      });
+      if (bestOrder > 0) consider(lpcSubframe(samples, coefficients[bestOrder - 1], settings.maxPartitionOrder));
+    }
+  }
+
+  return best;
+}
+
+// Stream -----------------------------------------------------------------------
+
+function writeFrame(writer: BitWriter, samples: Int32Array, frameNumber: number, sampleRate: number, settings: LevelSettings): void {
+  const start = writer.byteLength;
+  const blockSize = samples.length;
+  const blockSizeCode = BLOCK_SIZE_CODES[blockSize] ?? (blockSize <= 256 ? 6 : 7);
+  const sampleRateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0;
+
+  writer.write(0b11111111111110, 14); // sync code
+  writer.write(0, 1);
+  writer.write(0, 1); // fixed block size stream
+  writer.write(blockSizeCode, 4);
+  writer.write(sampleRateCode, 4);
+  writer.write(0, 4); // one channel
+  writer.write(SAMPLE_SIZE_CODES[BITS_PER_SAMPLE], 3);
+  writer.write(0, 1);
+  writeUtf8Number(writer, frameNumber);
+  if (blockSizeCode === 6) writer.write(blockSize - 1, 8);
+  else if (blockSizeCode === 7) writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytesFrom(start)), 8);
+
+  chooseSubframe(samples, settings).write(writer);
+  writer.alignToByte();
+  writer.write(crc16(writer.bytesFrom(start)), 16);
+}
+
+function streamInfo(audio: PcmAudio, blockSize: number, minFrameSize: number, maxFrameSize: number, md5: Uint8Array, last: boolean): Uint8Array {
+  const writer = new BitWriter();
+  writer.write(last ? 1 : 0, 1); // last metadata block
+  writer.write(STREAMINFO, 7);
+  writer.write(34, 24);
+  writer.write(blockSize, 16); // minimum and maximum block size
+  writer.write(blockSize, 16);
+  writer.write(minFrameSize, 24);
+  writer.write(maxFrameSize, 24);
+  writer.write(audio.sampleRate, 20);
+  writer.write(0, 3); // channels - 1
+  writer.write(BITS_PER_SAMPLE - 1, 5);
+  writer.write(Math.floor(audio.sampleCount / 2 ** 32), 4);
+  writer.write(audio.sampleCount % 2 ** 32, 32);
+  md5.forEach(byte => writer.write(byte, 8));
+  return writer.take();
+}
+
+// VORBIS_COMMENT block, written last
+function vorbisCommentBlock(metadata: AudioMetadata): Uint8Array {
+  const body = vorbisCommentBody(VENDOR, vorbisComments(metadata));
+  const block = new Uint8Array(4 + body.length);
+  block[0] = 0x80 | VORBIS_COMMENT;
+  block[1] = (body.length >> 16) & 0xff;
+  block[2] = (body.length >> 8) & 0xff;
+  block[3] = body.length & 0xff;
+  block.set(body, 4);
+  return block;
+}
+
+// Encode PCM audio to a FLAC file
+export async function encodeFlac(audio: PcmAudio, options: FlacOptions = {}): Promise<Blob> {
+  const level = Math.max(0, Math.min(8, Math.round(options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL)));
+  const settings = LEVELS[level];
+  const { blockSize } = settings;
+
+  const hash = createHash('md5');
+  const frames: Uint8Array[] = [];
+  const block = new Int32Array(blockSize);
+  let filled = 0;
+  let frameNumber = 0;
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  const flushBlock = () => {
+    const writer = new BitWriter();
+    writeFrame(writer, block.subarray(0, filled), frameNumber++, audio.sampleRate, settings);
+    const frame = writer.take();
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame);
+    filled = 0;
+  };
+
+  for (const chunk of audio.chunks) {
+    hash.update(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    for (let i = 0; i < chunk.length; i++) {
+      block[filled++] = chunk[i];
+      if (filled === blockSize) {
+        flushBlock();
+        if (frameNumber % BLOCKS_PER_YIELD === 0) await yieldToEventLoop();
+      }
+    }
+  }
+  if (filled > 0) flushBlock();
+
+  const header = new Uint8Array([0x66, 0x4c, 0x61, 0x43]); // "fLaC"
+  const info = streamInfo(audio, blockSize, frames.length > 0 ? minFrameSize : 0, maxFrameSize, hash.digest(), !options.metadata);
+  const comments = options.metadata ? [vorbisCommentBlock(options.metadata)] : [];
+  return new Blob([header, info, ...comments, ...frames], { type: 'audio/flac' });
+}
@@ -0,0 +1,146 @@
+// Grapheme-to-phoneme conversion
+//
+// Words are looked up in the bundled lexicon first, then decomposed into a
+// known stem plus an inflectional suffix, and finally passed to the
+// letter-to-sound rules. Acronyms without vowels are spelled out.
+
+import { lookupWord } from './lexicon';
+import { transcribeWord } from './letter-to-sound';
+import { isVowel, stripStress } from './phonemes';
+
+export type PronunciationSource = 'lexicon' | 'morphology' | 'rules' | 'spelled';
+
+export interface WordPronunciation {
+  word: string;
+  phonemes: string[];
+  source: PronunciationSource;
+}
+
+export interface TextPronunciation {
+  words: WordPronunciation[];
+  phonemes: string;
+}
+
+const LETTER_NAMES: Record<string, string[]> = {
+  A: ['EY1'], B: ['B', 'IY1'], C: ['S', 'IY1'], D: ['D', 'IY1'], E: ['IY1'], F: ['EH1', 'F'],
+  G: ['JH', 'IY1'], H: ['EY1', 'CH'], I: ['AY1'], J: ['JH', 'EY1'], K: ['K', 'EY1'], L: ['EH1', 'L'],
+  M: ['EH1', 'M'], N: ['EH1', 'N'], O: ['OW1'], P: ['P', 'IY1'], Q: ['K', 'Y', 'UW1'], R: ['AA1', 'R'],
+  S: ['EH1', 'S'], T: ['T', 'IY1'], U: ['Y', 'UW1'], V: ['V', 'IY1'],
+  W: ['D', 'AH1', 'B', 'AH0', 'L', 'Y', 'UW0'], X: ['EH1', 'K', 'S'], Y: ['W', 'AY1'], Z: ['Z', 'IY1']
+};
+
+const SIBILANTS = new Set(['S', 'Z', 'SH', 'ZH', 'CH', 'JH']);
+const VOICELESS = new Set(['P', 'T', 'K', 'F', 'TH', 'S', 'SH', 'CH', 'HH']);
+
+const WORD_PATTERN = /[A-Za-z]+(?:'[A-Za-z]+)*/g;
+
+// Candidate stems for a suffixed word: "stopped" -> stopp, stop, stope
+function stemCandidates(stem: string): string[] {
+  const candidates = [stem, `${stem}e`];
+  if (/([b-df-hj-np-tv-z])\1$/i.test(stem)) {
+    candidates.push(stem.slice(0, -1));
+  }
+  if (/i$/i.test(stem)) {
+    candidates.push(`${stem.slice(0, -1)}y`);
+  }
+  return candidates;
+}
+
+function lookupStem(stem: string): string[] | undefined {
+  for (const candidate of stemCandidates(stem)) {
+    const entry = lookupWord(candidate);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+const lastPhoneme = (phonemes: string[]) => stripStress(phonemes[phonemes.length - 1] || '');
+
+// Pronounce inflected forms of lexicon words (plurals, past tense, -ing, ...)
+function pronounceInflected(word: string): string[] | undefined {
+  const lower = word.toLowerCase();
+
+  const possessive = /^(.+)'s$/.exec(lower);
+  const plural = possessive || /^(.+?)(es|s)$/.exec(lower);
+  if (plural) {
+    const stem = plural[2] === 'es' ? lookupWord(plural[1]) || lookupWord(`${plural[1]}e`) : lookupWord(plural[1]);
+    if (stem) {
+      const last = lastPhoneme(stem);
+      if (SIBILANTS.has(last)) return [...stem, 'IH0', 'Z'];
+      return [...stem, VOICELESS.has(last) ? 'S' : 'Z'];
+    }
+  }
+
+  const past = /^(.+?)e?d$/.exec(lower);
+  if (past) {
+    const stem = lookupStem(past[1]);
+    if (stem) {
+      const last = lastPhoneme(stem);
+      if (last === 'T' || last === 'D') return [...stem, 'IH0', 'D'];
+      return [...stem, VOICELESS.has(last) ? 'T' : 'D'];
+    }
+  }
+
+  const suffixes: [RegExp, string[]][] = [
+    [/^(.+)ing$/, ['IH0', 'NG']],
+    [/^(.+)ly$/, ['L', 'IY0']],
+    [/^(.+)est$/, ['AH0', 'S', 'T']],
+    [/^(.+)er$/, ['ER0']],
+    [/^(.+)ness$/, ['N', 'AH0', 'S']],
+    [/^(.+)ment$/, ['M', 'AH0', 'N', 'T']],
+    [/^(.+)ful$/, ['F', 'AH0', 'L']]
+  ];
+  for (const [pattern, ending] of suffixes) {
+    const match = pattern.exec(lower);
+    const stem = match && lookupStem(match[1]);
+    if (stem) {
+      // "beautiful" + "ly" shares its /l/
+      const shared = lastPhoneme(stem) === ending[0];
+      return [...stem, ...ending.slice(shared ? 1 : 0)];
+    }
+  }
+
+  return undefined;
+}
+
+// Spell out a word letter by letter (used for vowel-less acronyms like "TTS")
+export function spellWord(word: string): string[] {
+  return word
+    .toUpperCase()
+    .split('')
+    .flatMap(letter => LETTER_NAMES[letter] || []);
+}
+
+// Pronounce a single word
+export function pronounceWord(word: string): WordPronunciation {
+  const lexical = lookupWord(word);
+  if (lexical) {
+    return { word, phonemes: lexical, source: 'lexicon' };
+  }
+
+  if (/^[A-Z]{2,5}$/.test(word) && !/[AEIOUY]/.test(word)) {
+    return { word, phonemes: spellWord(word), source: 'spelled' };
+  }
+
+  const inflected = pronounceInflected(word);
+  if (inflected) {
+    return { word, phonemes: inflected, source: 'morphology' };
+  }
+
+  const ruled = transcribeWord(word);
+  if (!ruled.some(isVowel)) {
+    return { word, phonemes: spellWord(word.replace(/'/g, '')), source: 'spelled' };
+  }
+  return { word, phonemes: ruled, source: 'rules' };
+}
+
+// Format pronunciations as ARPAbet with " | " between words
+export function formatPhonemes(words: WordPronunciation[]): string {
+  return words.map(w => w.phonemes.join(' ')).join(' | ');
+}
+
+// Convert every word in a text to phonemes
+export function textToPhonemes(text: string): TextPronunciation {
+  const words = Array.from(text.matchAll(WORD_PATTERN), match => pronounceWord(match[0]));
+  return { words, phonemes: formatPhonemes(words) };
+}
@@ -0,0 +1,67 @@
+// IPA to ARPAbet conversion for <phoneme> overrides
+//
+// Covers the symbols used in General American and Received Pronunciation
+// dictionary transcriptions. Stress marks (ˈ primary, ˌ secondary) apply to
+// the next vowel; unmarked vowels are unstressed.
+
+import { isVowel } from './phonemes';
+
+// Longest symbols first so "aɪ" wins over "a"
+const IPA_SYMBOLS: [string, string][] = [
+  ['t͡ʃ', 'CH'], ['d͡ʒ', 'JH'], ['tʃ', 'CH'], ['dʒ', 'JH'],
+  ['aɪ', 'AY'], ['aʊ', 'AW'], ['ɔɪ', 'OY'], ['eɪ', 'EY'], ['oʊ', 'OW'], ['əʊ', 'OW'],
+  ['ɪə', 'IH'], ['eə', 'EH'], ['ʊə', 'UH'],
+  ['iː', 'IY'], ['uː', 'UW'], ['ɑː', 'AA'], ['ɔː', 'AO'], ['ɜː', 'ER'],
+  ['i', 'IY'], ['ɪ', 'IH'], ['e', 'EY'], ['ɛ', 'EH'], ['æ', 'AE'], ['a', 'AA'], ['ɑ', 'AA'],
+  ['ɒ', 'AA'], ['ɔ', 'AO'], ['o', 'OW'], ['ʊ', 'UH'], ['u', 'UW'], ['ʌ', 'AH'], ['ə', 'AH'],
+  ['ɐ', 'AH'], ['ɝ', 'ER'], ['ɚ', 'ER'], ['ɜ', 'ER'],
+  ['p', 'P'], ['b', 'B'], ['t', 'T'], ['d', 'D'], ['k', 'K'], ['g', 'G'], ['ɡ', 'G'],
+  ['f', 'F'], ['v', 'V'], ['θ', 'TH'], ['ð', 'DH'], ['s', 'S'], ['z', 'Z'], ['ʃ', 'SH'],
+  ['ʒ', 'ZH'], ['h', 'HH'], ['m', 'M'], ['n', 'N'], ['ŋ', 'NG'], ['l', 'L'], ['ɫ', 'L'],
+  ['r', 'R'], ['ɹ', 'R'], ['ɾ', 'D'], ['w', 'W'], ['ʍ', 'W'], ['j', 'Y'], ['x', 'HH']
+];
+
+// Marks that carry no segmental information for the synthesizer
+const IGNORED = /[\s.ː'ʰʔ/[\]\u0300-\u036f]/;
+
+// Convert an IPA transcription to ARPAbet with stress digits
+export function ipaToArpabet(ipa: string): string[] {
+  const phonemes: string[] = [];
+  const input = ipa.normalize('NFC');
+  const hasStressMarks = /[ˈˌ]/.test(input);
+  let pendingStress = 0;
+  let index = 0;
+
+  while (index < input.length) {
+    const ch = input[index];
+    if (ch === 'ˈ' || ch === 'ˌ') {
+      pendingStress = ch === 'ˈ' ? 1 : 2;
+      index++;
+      continue;
+    }
+
+    const entry = IPA_SYMBOLS.find(([symbol]) => input.startsWith(symbol, index));
+    if (entry) {
+      const [symbol, arpabet] = entry;
+      if (isVowel(arpabet)) {
+        phonemes.push(`${arpabet}${pendingStress}`);
+        pendingStress = 0;
+      } else {
+        phonemes.push(arpabet);
+      }
+      index += symbol.length;
+    } else if (IGNORED.test(ch)) {
+      index++;
+    } else {
+      throw new Error(`Unsupported IPA symbol "${ch}"`);
+    }
+  }
+
+  // Without stress marks, stress the first vowel like a citation form
+  if (!hasStressMarks) {
+    const first = phonemes.findIndex(isVowel);
+    if (first >= 0) phonemes[first] = phonemes[first].replace(/0$/, '1');
+  }
+
+  return phonemes;
+}
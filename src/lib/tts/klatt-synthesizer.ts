@@ -0,0 +1,291 @@
+// Klatt-style cascade/parallel formant synthesizer
+//
+// A glottal pulse source (KLGLOTT88 flow derivative) and an aspiration noise
+// source excite a cascade of formant resonators; a second noise source drives
+// a parallel bank of resonators for frication and plosive bursts.
+
+export interface KlattFrame {
+  f0: number; // fundamental frequency in Hz, 0 when unvoiced
+  av: number; // voicing amplitude, dB
+  ah: number; // aspiration amplitude, dB
+  af: number; // frication amplitude, dB
+  f1: number;
+  f2: number;
+  f3: number;
+  f4: number;
+  f5: number;
+  b1: number;
+  b2: number;
+  b3: number;
+  b4: number;
+  b5: number;
+  fnp: number; // nasal pole
+  bnp: number;
+  fnz: number; // nasal zero
+  bnz: number;
+  a2: number; // parallel branch amplitudes, dB
+  a3: number;
+  a4: number;
+  a5: number;
+  a6: number;
+  ab: number;
+  f6: number;
+}
+
+export interface GlottalSourceOptions {
+  openQuotient: number; // fraction of each period the glottis is open (0.3–0.8)
+  spectralTilt: number; // one-pole low-pass coefficient applied to the source (0–0.95)
+  jitter: number;       // random period perturbation, fraction of the period
+  shimmer: number;      // random amplitude perturbation, fraction of the amplitude
+  breathiness: number;  // aspiration mixed into voiced sounds, dB
+}
+
+export const DEFAULT_GLOTTAL_SOURCE: GlottalSourceOptions = {
+  openQuotient: 0.5,
+  spectralTilt: 0.2,
+  jitter: 0.01,
+  shimmer: 0.03,
+  breathiness: 30
+};
+
+// Level of the parallel (frication) branch relative to the cascade branch
+const PARALLEL_GAIN = 1.1;
+
+// Convert the synthesizer's dB scale to a linear gain (60 dB = unity)
+export function dbToGain(db: number): number {
+  return db <= 0 ? 0 : Math.pow(10, (db - 60) / 20);
+}
+
+// Second-order digital resonator (Klatt 1980, eq. 2)
+class Resonator {
+  private a = 1;
+  private b = 0;
+  private c = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(private readonly sampleRate: number, private readonly peakNormalized = false) {}
+
+  setFrequency(frequency: number, bandwidth: number): void {
+    const t = 1 / this.sampleRate;
+    const nyquist = this.sampleRate / 2;
+    const f = Math.min(Math.max(frequency, 0), nyquist * 0.95);
+    const r = Math.exp(-Math.PI * bandwidth * t);
+    const theta = 2 * Math.PI * f * t;
+
+    this.c = -r * r;
+    this.b = 2 * r * Math.cos(theta);
+
+    if (this.peakNormalized) {
+      // Unity gain at the centre frequency, so amplitudes map to spectral peaks
+      const re = 1 - r * Math.cos(2 * theta);
+      const im = r * Math.sin(2 * theta);
+      this.a = (1 - r) * Math.sqrt(re * re + im * im);
+    } else {
+      // Unity gain at DC
+      this.a = 1 - this.b - this.c;
+    }
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+// Second-order anti-resonator used for the nasal zero
+class AntiResonator {
+  private a = 1;
+  private b = 0;
+  private c = 0;
+  private x1 = 0;
+  private x2 = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  setFrequency(frequency: number, bandwidth: number): void {
+    const t = 1 / this.sampleRate;
+    const r = Math.exp(-Math.PI * bandwidth * t);
+    const c = -r * r;
+    const b = 2 * r * Math.cos(2 * Math.PI * frequency * t);
+    const a = 1 - b - c;
+
+    this.a = 1 / a;
+    this.b = -b / a;
+    this.c = -c / a;
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.x1 + this.c * this.x2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    return y;
+  }
+}
+
+export class KlattSynthesizer {
+  private readonly sampleRate: number;
+  private readonly source: GlottalSourceOptions;
+
+  private readonly cascade: Resonator[];
+  private readonly nasalPole: Resonator;
+  private readonly nasalZero: AntiResonator;
+  private readonly parallel: Resonator[];
+
+  // Source state
+  private periodLength = 0;
+  private periodPosition = 0;
+  private openLength = 0;
+  private pulseGain = 1;
+  private tiltState = 0;
+  private aspirationState = 0;
+  private dcState = 0;
+  private dcInput = 0;
+  private noiseSeed = 0x2545f491;
+
+  constructor(sampleRate: number, source: Partial<GlottalSourceOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.source = { ...DEFAULT_GLOTTAL_SOURCE, ...source };
+    this.cascade = Array.from({ length: 5 }, () => new Resonator(sampleRate));
+    this.nasalPole = new Resonator(sampleRate);
+    this.nasalZero = new AntiResonator(sampleRate);
+    this.parallel = Array.from({ length: 5 }, () => new Resonator(sampleRate, true));
+  }
+
+  // Render a sequence of parameter frames, each lasting frameDuration seconds
+  synthesize(frames: KlattFrame[], frameDuration: number): Float32Array {
+    const frameSamples = Math.max(1, Math.round(frameDuration * this.sampleRate));
+    const output = new Float32Array(frames.length * frameSamples);
+    const breathGain = dbToGain(this.source.breathiness);
+
+    let outIndex = 0;
+    for (let i = 0; i < frames.length; i++) {
+      const frame = frames[i];
+      const next = frames[i + 1] || frame;
+      this.updateFilters(frame);
+
+      const av0 = dbToGain(frame.av);
+      const ah0 = dbToGain(frame.ah);
+      const af0 = dbToGain(frame.af);
+      const dAv = (dbToGain(next.av) - av0) / frameSamples;
+      const dAh = (dbToGain(next.ah) - ah0) / frameSamples;
+      const dAf = (dbToGain(next.af) - af0) / frameSamples;
+      const df0 = (next.f0 - frame.f0) / frameSamples;
+
+      const parallelGains = [
+        dbToGain(frame.a2),
+        -dbToGain(frame.a3),
+        dbToGain(frame.a4),
+        -dbToGain(frame.a5),
+        dbToGain(frame.a6)
+      ];
+      const bypassGain = -dbToGain(frame.ab);
+
+      for (let n = 0; n < frameSamples; n++) {
+        const av = av0 + dAv * n;
+        const ah = ah0 + dAh * n;
+        const af = af0 + dAf * n;
+        const f0 = frame.f0 + df0 * n;
+
+        // Glottal source
+        const voiced = f0 > 0 && av > 0;
+        const glottal = this.nextGlottalSample(voiced ? f0 : 0);
+        const inClosedHalf = voiced && this.periodPosition > this.periodLength / 2;
+
+        // Noise is amplitude-modulated by the glottal cycle when voicing is on
+        const noiseModulation = inClosedHalf ? 0.5 : 1;
+        const noise = this.nextNoise() * noiseModulation;
+        this.aspirationState = 0.75 * this.aspirationState + 0.25 * noise;
+
+        const voicing = glottal * av;
+        const aspiration = this.aspirationState * (ah + (voiced ? av * breathGain : 0)) * 2;
+
+        // Cascade branch: nasal zero/pole followed by F5..F1
+        let cascadeOut = this.nasalZero.process(voicing + aspiration);
+        cascadeOut = this.nasalPole.process(cascadeOut);
+        for (let k = this.cascade.length - 1; k >= 0; k--) {
+          cascadeOut = this.cascade[k].process(cascadeOut);
+        }
+
+        // Parallel branch: frication noise through F2..F6 and the bypass path
+        const frication = this.nextNoise() * af * noiseModulation;
+        let parallelOut = bypassGain * frication;
+        for (let k = 0; k < this.parallel.length; k++) {
+          if (parallelGains[k] !== 0) {
+            parallelOut += this.parallel[k].process(frication * parallelGains[k]);
+          } else {
+            this.parallel[k].process(0);
+          }
+        }
+
+        const mixed = cascadeOut + parallelOut * PARALLEL_GAIN;
+
+        // Remove any DC drift from the glottal flow model
+        const dcBlocked = mixed - this.dcInput + 0.995 * this.dcState;
+        this.dcInput = mixed;
+        this.dcState = dcBlocked;
+
+        output[outIndex++] = dcBlocked;
+      }
+    }
+
+    return output;
+  }
+
+  private updateFilters(frame: KlattFrame): void {
+    const formants = [frame.f1, frame.f2, frame.f3, frame.f4, frame.f5];
+    const bandwidths = [frame.b1, frame.b2, frame.b3, frame.b4, frame.b5];
+    for (let k = 0; k < this.cascade.length; k++) {
+      this.cascade[k].setFrequency(formants[k], bandwidths[k]);
+    }
+    this.nasalPole.setFrequency(frame.fnp, frame.bnp);
+    this.nasalZero.setFrequency(frame.fnz, frame.bnz);
+
+    // Parallel resonators use wider bandwidths to shape broadband noise
+    this.parallel[0].setFrequency(frame.f2, Math.max(frame.b2 * 1.5, 150));
+    this.parallel[1].setFrequency(frame.f3, Math.max(frame.b3 * 1.5, 200));
+    this.parallel[2].setFrequency(frame.f4, Math.max(frame.b4, 300));
+    this.parallel[3].setFrequency(frame.f5, Math.max(frame.b5, 400));
+    this.parallel[4].setFrequency(frame.f6, 1000);
+  }
+
+  // KLGLOTT88 flow derivative: 2t - 3t^2 during the open phase, zero when closed
+  private nextGlottalSample(f0: number): number {
+    if (this.periodPosition >= this.periodLength) {
+      this.periodPosition = 0;
+      if (f0 > 0) {
+        const jitter = 1 + this.source.jitter * this.nextNoise();
+        this.periodLength = Math.max(2, Math.round(this.sampleRate / (f0 * jitter)));
+        this.openLength = Math.max(1, Math.round(this.periodLength * this.source.openQuotient));
+        this.pulseGain = 1 + this.source.shimmer * this.nextNoise();
+      } else {
+        // Idle "period" of 5 ms so voicing restarts promptly
+        this.periodLength = Math.round(this.sampleRate * 0.005);
+        this.openLength = 0;
+      }
+    }
+
+    let sample = 0;
+    if (this.periodPosition < this.openLength) {
+      const t = this.periodPosition / this.openLength;
+      sample = (2 * t - 3 * t * t) * this.pulseGain;
+    }
+    this.periodPosition++;
+
+    const tilt = this.source.spectralTilt;
+    this.tiltState = (1 - tilt) * sample + tilt * this.tiltState;
+    return this.tiltState;
+  }
+
+  // Deterministic white noise in [-1, 1] (xorshift32) so renders are reproducible
+  private nextNoise(): number {
+    let x = this.noiseSeed;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.noiseSeed = x >>> 0;
+    return this.noiseSeed / 0x80000000 - 1;
+  }
+}
@@ -0,0 +1,310 @@
+// Letter-to-sound rules for English (after Elovitz et al., NRL Report 7948)
+//
+// Each rule reads "left[match]right=PHONEMES". Contexts use the NRL symbols:
+//   ' ' word boundary     '#' one or more vowels    ':' zero or more consonants
+//   '^' one consonant     '.' a voiced consonant    '+' a front vowel (E, I, Y)
+//   '%' a suffix (ER, E, ES, ED, ING, ELY)          '&' a sibilant
+//   '@' a consonant that makes a following U long (T S R D L Z N J TH CH SH)
+
+const RULE_SOURCE: Record<string, string[]> = {
+  A: [
+    ' [A] =AX', ' [ARE] =AA R', ' [AR]O=AX R', '[AR]#=EH R', '^[AS]#=EY S', '[A]WA=AX',
+    '[AW]=AO', ' :[ANY]=EH N IY', '[A]^+#=EY', '#:[ALLY]=AX L IY', ' [AL]#=AX L',
+    '[AGAIN]=AX G EH N', '#:[AG]E=IH JH', '[A]^+:#=AE', ' :[A]^+ =EY', '[A]^%=EY',
+    ' [ARR]=AX R', '[ARR]=AE R', ' :[AR] =AA R', '[AR] =ER', '[AR]=AA R', '[AIR]=EH R',
+    '[AI]=EY', '[AY]=EY', '[AU]=AO', '#:[AL] =AX L', '#:[ALS] =AX L Z', '[ALK]=AO K',
+    '[AL]^=AO L', ' :[ABLE]=EY B AX L', '[ABLE]=AX B AX L', '[ANG]+=EY N JH', '[A]=AE'
+  ],
+  B: [' [BE]^#=B IH', '[BEING]=B IY IH NG', ' [BOTH] =B OW TH', ' [BUS]#=B IH Z', '[BUIL]=B IH L', '[B]=B'],
+  C: [
+    ' [CH]^=K', '^E[CH]=K', '[CH]=CH', ' S[CI]#=S AY', '[CI]A=SH', '[CI]O=SH', '[CI]EN=SH',
+    '[C]+=S', '[CK]=K', '[COM]%=K AH M', '[C]=K'
+  ],
+  D: [
+    '#:[DED] =D IH D', '.E[D] =D', '#^:E[D] =T', ' [DE]^#=D IH', ' [DO] =D UW', ' [DOES]=D AH Z',
+    ' [DOING]=D UW IH NG', ' [DOW]=D AW', '[DU]A=JH UW', '[D]=D'
+  ],
+  E: [
+    '#:[E] =', ' :[E] =IY', '#[ED] =D', '#:[E]D =', '[EV]ER=EH V', '[E]^%=IY',
+    '[ERI]#=IY R IY', '[ERI]=EH R IH', '#:[ER]#=ER', '[ER]#=EH R', '[ER]=ER', ' [EVEN]=IY V EH N',
+    '#:[E]W=', '@[EW]=UW', '[EW]=Y UW', '[E]O=IY', '#:&[ES] =IH Z', '#:[E]S =', '#:[ELY] =L IY',
+    '#:[EMENT]=M EH N T', '[EFUL]=F UH L', '[EE]=IY', '[EARN]=ER N', ' [EAR]^=ER', '[EAD]=EH D',
+    '#:[EA] =IY AX', '[EA]SU=EH', '[EA]=IY', '[EIGH]=EY', '[EI]=IY', ' [EYE]=AY', '[EY]=IY',
+    '[EU]=Y UW', '[E]=EH'
+  ],
+  F: ['[FUL]=F UH L', '[F]=F'],
+  G: [
+    '[GIV]=G IH V', ' [G]I^=G', '[GE]T=G EH', 'SU[GGES]=G JH EH S', '[GG]=G', ' B#[G]=G', '[G]+=JH',
+    '[GREAT]=G R EY T', '#[GH]=', '[G]=G'
+  ],
+  H: [' [HAV]=HH AE V', ' [HERE]=HH IY R', ' [HOUR]=AW ER', '[HOW]=HH AW', '[H]#=HH', '[H]='],
+  I: [
+    ' [IN]=IH N', ' [I] =AY', '[IN]D=AY N', '[IER]=IY ER', '#:R[IED]=IY D', '[IED] =AY D',
+    '[IEN]=IY EH N', '[IE]T=AY EH', ' :[I]%=AY', '[I]%=IY', '[IE]=IY', '[I]^+:#=IH', '[IR]#=AY R',
+    '[IZ]%=AY Z', '[IS]%=AY Z', '[I]D%=AY', '+^[I]^+=IH', '[I]T%=AY', '#^:[I]^+=IH', '[I]^+=AY',
+    '[IR]=ER', '[IGH]=AY', '[ILD]=AY L D', '[IGN] =AY N', '[IGN]^=AY N', '[IGN]%=AY N',
+    '[IQUE]=IY K', '[I]=IH'
+  ],
+  J: ['[J]=JH'],
+  K: [' [K]N=', '[K]=K'],
+  L: ['[LO]C#=L OW', 'L[L]=', '#^:[L]%=AX L', '[LEAD]=L IY D', '[L]=L'],
+  M: ['[MOV]=M UW V', '[M]=M'],
+  N: [
+    'E[NG]+=N JH', '[NG]R=NG G', '[NG]#=NG G', '[NGL]%=NG G AX L', '[NG]=NG', '[NK]=NG K',
+    ' [NOW] =N AW', '[N]=N'
+  ],
+  O: [
+    '[OF] =AX V', '[OROUGH]=ER OW', '#:[OR] =ER', '#:[ORS] =ER Z', '[OR]=AO R', ' [ONE]=W AH N',
+    '[OW]=OW', ' [OVER]=OW V ER', '[OV]=AH V', '[O]^%=OW', '[O]^EN=OW', '[O]^I#=OW', '[OL]D=OW L',
+    '[OUGHT]=AO T', '[OUGH]=AH F', ' [OU]=AW', 'H[OU]S#=AW', '[OUS]=AX S', '[OUR]=AO R',
+    '[OULD]=UH D', '^[OU]^L=AH', '[OUP]=UW P', '[OU]=AW', '[OY]=OY', '[OING]=OW IH NG', '[OI]=OY',
+    '[OOR]=AO R', '[OOK]=UH K', '[OOD]=UH D', '[OO]=UW', '[O]E=OW', '[O] =OW', '[OA]=OW',
+    ' [ONLY]=OW N L IY', ' [ONCE]=W AH N S', 'C[O]N=AA', '[O]NG=AO', ' :^[O]N=AH', 'I[ON]=AX N',
+    '#:[ON] =AX N', '#^[ON]=AX N', '[O]ST =OW', '[OF]^=AO F', '[OTHER]=AH DH ER', '[OSS] =AO S',
+    '#^:[OM]=AH M', '[O]=AA'
+  ],
+  P: ['[PH]=F', '[PEOP]=P IY P', '[POW]=P AW', '[PUT] =P UH T', '[P]=P'],
+  Q: ['[QUAR]=K W AO R', '[QU]=K W', '[Q]=K'],
+  R: [' [RE]^#=R IY', '[R]=R'],
+  S: [
+    '[SH]=SH', '#[SION]=ZH AX N', '[SOME]=S AH M', '#[SUR]#=ZH ER', '[SUR]#=SH ER', '#[SU]#=ZH UW',
+    '#[SSU]#=SH UW', '#[SED] =Z D', '#[S]#=Z', '[SAID]=S EH D', '^[SION]=SH AX N', '[S]S=',
+    '.[S] =Z', '#:.E[S] =Z', '#^:##[S] =Z', '#^:#[S] =S', 'U[S] =S', ' :#[S] =Z', ' [SCH]=S K',
+    '[S]C+=', '#[SM]=Z M', '#[SN]\'=Z AX N', '[S]=S'
+  ],
+  T: [
+    ' [THE] =DH AX', '[TO] =T UW', '[THAT] =DH AE T', ' [THIS] =DH IH S', ' [THEY]=DH EY',
+    ' [THERE]=DH EH R', '[THER]=DH ER', '[THEIR]=DH EH R', ' [THAN] =DH AE N', ' [THEM] =DH EH M',
+    '[THESE] =DH IY Z', ' [THEN]=DH EH N', '[THROUGH]=TH R UW', '[THOSE]=DH OW Z',
+    '[THOUGH] =DH OW', ' [THUS]=DH AH S', '[TH]=TH', '#:[TED] =T IH D', 'S[TI]#N=CH', '[TI]O=SH',
+    '[TI]A=SH', '[TIEN]=SH AX N', '[TUR]#=CH ER', '[TU]A=CH UW', ' [TWO]=T UW', '[T]=T'
+  ],
+  U: [
+    ' [UN]I=Y UW N', ' [UN]=AH N', ' [UPON]=AX P AO N', '@[UR]#=UH R', '[UR]#=Y UH R', '[UR]^=ER',
+    '[U]^ =AH', '[U]^^=AH', '[UY]=AY', ' G[U]#=', 'G[U]%=', 'G[U]#=W', '#N[U]=Y UW', '@[U]=UW',
+    '[U]=Y UW'
+  ],
+  V: ['[VIEW]=V Y UW', '[V]=V'],
+  W: [
+    ' [WERE]=W ER', '[WA]S=W AA', '[WA]T=W AA', '[WHERE]=W EH R', '[WHAT]=W AA T',
+    '[WHOL]=HH OW L', '[WHO]=HH UW', '[WH]=W', '[WAR]=W AO R', '[WOR]^=W ER', '[WR]=R', '[W]=W'
+  ],
+  X: ['[X]=K S'],
+  Y: [
+    '[YOUNG]=Y AH NG', ' [YOU]=Y UW', ' [YES]=Y EH S', ' [Y]=Y', '#^:[Y] =IY', '#^:[Y]I=IY',
+    ' :[Y] =AY', ' :[Y]#=AY', ' :[Y]^+:#=IH', ' :[Y]^#=AY', '[Y]=IH'
+  ],
+  Z: ['[Z]=Z']
+};
+
+interface LetterRule {
+  left: string;
+  match: string;
+  right: string;
+  phonemes: string[];
+}
+
+const RULE_PATTERN = /^(.*)\[(.+)\](.*)=(.*)$/;
+
+const RULES: Record<string, LetterRule[]> = Object.fromEntries(
+  Object.entries(RULE_SOURCE).map(([letter, sources]) => [
+    letter,
+    sources.map(source => {
+      const parsed = RULE_PATTERN.exec(source);
+      if (!parsed) {
+        throw new Error(`Malformed letter-to-sound rule: ${source}`);
+      }
+      const [, left, match, right, output] = parsed;
+      return {
+        left,
+        match,
+        right,
+        phonemes: output.trim() ? output.trim().split(/\s+/) : []
+      };
+    })
+  ])
+);
+
+const VOWELS = 'AEIOU';
+const VOICED_CONSONANTS = 'BDVGJLMNRWZ';
+const FRONT_VOWELS = 'EIY';
+const SIBILANTS = ['S', 'C', 'G', 'Z', 'X', 'J', 'CH', 'SH'];
+const LONG_U_CONSONANTS = ['T', 'S', 'R', 'D', 'L', 'Z', 'N', 'J', 'TH', 'CH', 'SH'];
+const SUFFIXES = ['ER', 'E', 'ES', 'ED', 'ING', 'ELY'];
+
+const isLetter = (ch: string) => ch >= 'A' && ch <= 'Z';
+const isVowelLetter = (ch: string) => VOWELS.includes(ch) && ch !== '';
+const isConsonantLetter = (ch: string) => isLetter(ch) && !isVowelLetter(ch);
+
+// Match a right-hand context starting at position, returning whether it fits
+function matchRight(context: string, word: string, position: number): boolean {
+  let pos = position;
+  for (let i = 0; i < context.length; i++) {
+    const symbol = context[i];
+    const ch = word[pos] || ' ';
+
+    switch (symbol) {
+      case ' ':
+        if (isLetter(ch)) return false;
+        pos++;
+        break;
+      case '#':
+        if (!isVowelLetter(ch)) return false;
+        while (isVowelLetter(word[pos] || '')) pos++;
+        break;
+      case ':':
+        while (isConsonantLetter(word[pos] || '')) pos++;
+        break;
+      case '^':
+        if (!isConsonantLetter(ch)) return false;
+        pos++;
+        break;
+      case '.':
+        if (!VOICED_CONSONANTS.includes(ch)) return false;
+        pos++;
+        break;
+      case '+':
+        if (!FRONT_VOWELS.includes(ch)) return false;
+        pos++;
+        break;
+      case '%': {
+        const suffix = SUFFIXES
+          .filter(s => word.startsWith(s, pos) && !isLetter(word[pos + s.length] || ' '))
+          .sort((a, b) => b.length - a.length)[0];
+        if (!suffix) return false;
+        pos += suffix.length;
+        break;
+      }
+      default:
+        if (ch !== symbol) return false;
+        pos++;
+    }
+  }
+  return true;
+}
+
+// Match a left-hand context ending just before position, scanning backwards
+function matchLeft(context: string, word: string, position: number): boolean {
+  let pos = position - 1;
+  for (let i = context.length - 1; i >= 0; i--) {
+    const symbol = context[i];
+    const ch = pos >= 0 ? word[pos] : ' ';
+
+    switch (symbol) {
+      case ' ':
+        if (isLetter(ch)) return false;
+        pos--;
+        break;
+      case '#':
+        if (!isVowelLetter(ch)) return false;
+        while (pos >= 0 && isVowelLetter(word[pos])) pos--;
+        break;
+      case ':':
+        while (pos >= 0 && isConsonantLetter(word[pos])) pos--;
+        break;
+      case '^':
+        if (!isConsonantLetter(ch)) return false;
+        pos--;
+        break;
+      case '.':
+        if (!VOICED_CONSONANTS.includes(ch)) return false;
+        pos--;
+        break;
+      case '+':
+        if (!FRONT_VOWELS.includes(ch)) return false;
+        pos--;
+        break;
+      case '&': {
+        const digraph = pos >= 1 ? word.slice(pos - 1, pos + 1) : '';
+        if (SIBILANTS.includes(digraph) && digraph.length === 2) {
+          pos -= 2;
+        } else if (SIBILANTS.includes(ch)) {
+          pos--;
+        } else {
+          return false;
+        }
+        break;
+      }
+      case '@': {
+        const digraph = pos >= 1 ? word.slice(pos - 1, pos + 1) : '';
+        if (LONG_U_CONSONANTS.includes(digraph) && digraph.length === 2) {
+          pos -= 2;
+        } else if (LONG_U_CONSONANTS.includes(ch)) {
+          pos--;
+        } else {
+          return false;
+        }
+        break;
+      }
+      default:
+        if (ch !== symbol) return false;
+        pos--;
+    }
+  }
+  return true;
+}
+
+// Convert a single word to ARPAbet phonemes (without stress marks)
+export function letterToSound(word: string): string[] {
+  const letters = word.toUpperCase().replace(/[^A-Z']/g, '');
+  const phonemes: string[] = [];
+
+  let position = 0;
+  while (position < letters.length) {
+    const ch = letters[position];
+    const rules = RULES[ch];
+    if (!rules) {
+      // Apostrophes and anything without rules are silent
+      position++;
+      continue;
+    }
+
+    const rule = rules.find(r =>
+      letters.startsWith(r.match, position) &&
+      matchLeft(r.left, letters, position) &&
+      matchRight(r.right, letters, position + r.match.length)
+    );
+
+    if (rule) {
+      phonemes.push(...rule.phonemes);
+      position += rule.match.length;
+    } else {
+      position++;
+    }
+  }
+
+  return phonemes;
+}
+
+const VOWEL_PHONEMES = new Set(['IY', 'IH', 'EH', 'AE', 'AA', 'AO', 'AH', 'AX', 'UH', 'UW', 'ER', 'EY', 'AY', 'AW', 'OY', 'OW']);
+const UNSTRESSED_PREFIXES = ['BE', 'RE', 'DE', 'A', 'CON', 'COM', 'EX', 'PRE', 'PRO'];
+
+// Add ARPAbet stress digits to a rule-derived transcription. Stress falls on
+// the first vowel, except after a common unstressed prefix or before "-tion".
+export function assignStress(word: string, phonemes: string[]): string[] {
+  const vowelPositions = phonemes
+    .map((phoneme, index) => (VOWEL_PHONEMES.has(phoneme) ? index : -1))
+    .filter(index => index >= 0);
+
+  let stressed = vowelPositions[0];
+  const upper = word.toUpperCase();
+
+  if (vowelPositions.length > 1) {
+    if (/(TION|SION|CIAN|TIAN)S?$/.test(upper)) {
+      stressed = vowelPositions[vowelPositions.length - 2];
+    } else if (UNSTRESSED_PREFIXES.some(prefix => upper.startsWith(prefix) && upper.length > prefix.length + 3)) {
+      stressed = vowelPositions[1];
+    }
+  }
+
+  return phonemes.map((phoneme, index) => {
+    if (!VOWEL_PHONEMES.has(phoneme)) return phoneme;
+    if (index === stressed) return `${phoneme === 'AX' ? 'AH' : phoneme}1`;
+    return `${phoneme}0`;
+  });
+}
+
+// Transcribe a word into stressed ARPAbet phonemes using the rules alone
+export function transcribeWord(word: string): string[] {
+  return assignStress(word, letterToSound(word));
+}
@@ -0,0 +1,669 @@
+// Bundled English pronunciation lexicon
+//
+// Entries use CMU Pronouncing Dictionary conventions: ARPAbet phonemes with
+// stress digits on vowels (1 primary, 2 secondary, 0 unstressed). The list
+// covers the most frequent English words plus common words whose spelling
+// the letter-to-sound rules get wrong.
+
+const LEXICON_SOURCE = `
+A AH0
+ABOUT AH0 B AW1 T
+ABOVE AH0 B AH1 V
+ACROSS AH0 K R AO1 S
+ACTUALLY AE1 K CH UW0 AH0 L IY0
+ADD AE1 D
+AFTER AE1 F T ER0
+AGAIN AH0 G EH1 N
+AGAINST AH0 G EH1 N S T
+AGE EY1 JH
+AGO AH0 G OW1
+AIR EH1 R
+ALL AO1 L
+ALMOST AO1 L M OW2 S T
+ALONE AH0 L OW1 N
+ALONG AH0 L AO1 NG
+ALREADY AO0 L R EH1 D IY0
+ALSO AO1 L S OW0
+ALWAYS AO1 L W EY2 Z
+AM AE1 M
+AMONG AH0 M AH1 NG
+AN AE1 N
+AND AH0 N D
+ANIMAL AE1 N AH0 M AH0 L
+ANOTHER AH0 N AH1 DH ER0
+ANSWER AE1 N S ER0
+ANY EH1 N IY0
+ANYONE EH1 N IY0 W AH2 N
+ANYTHING EH1 N IY0 TH IH2 NG
+APPLICATION AE2 P L AH0 K EY1 SH AH0 N
+APPROXIMATELY AH0 P R AA1 K S AH0 M AH0 T L IY0
+APRIL EY1 P R AH0 L
+ARE AA1 R
+AREA EH1 R IY0 AH0
+AROUND ER0 AW1 N D
+ARROWS EH1 R OW0 Z
+AS AE1 Z
+ASK AE1 S K
+AT AE1 T
+AUDIO AA1 D IY0 OW2
+AUGUST AA1 G AH0 S T
+AVENUE AE1 V AH0 N UW2
+AWAY AH0 W EY1
+AY EY1
+BACK B AE1 K
+BAD B AE1 D
+BARE B EH1 R
+BE B IY1
+BEAUTIFUL B Y UW1 T AH0 F AH0 L
+BECAME B IH0 K EY1 M
+BECAUSE B IH0 K AH1 Z
+BECOME B IH0 K AH1 M
+BEEN B IH1 N
+BEFORE B IH0 F AO1 R
+BEGAN B IH0 G AE1 N
+BEGIN B IH0 G IH1 N
+BEHIND B IH0 HH AY1 N D
+BEING B IY1 IH0 NG
+BELIEVE B IH0 L IY1 V
+BELOW B IH0 L OW1
+BEST B EH1 S T
+BETTER B EH1 T ER0
+BETWEEN B IH0 T W IY1 N
+BIG B IH1 G
+BILLION B IH1 L Y AH0 N
+BLUE B L UW1
+BODY B AA1 D IY0
+BOOK B UH1 K
+BOTH B OW1 TH
+BOULEVARD B UH1 L AH0 V AA2 R D
+BOY B OY1
+BREAD B R EH1 D
+BREAK B R EY1 K
+BRING B R IH1 NG
+BROUGHT B R AO1 T
+BROWN B R AW1 N
+BUILD B IH1 L D
+BUSINESS B IH1 Z N AH0 S
+BUSY B IH1 Z IY0
+BUT B AH1 T
+BUY B AY1
+BY B AY1
+CALL K AO1 L
+CAME K EY1 M
+CAN K AE1 N
+CANNOT K AE1 N AA0 T
+CAR K AA1 R
+CARE K EH1 R
+CARRY K AE1 R IY0
+CASE K EY1 S
+CELSIUS S EH1 L S IY0 AH0 S
+CENT S EH1 N T
+CENTIMETER S EH1 N T AH0 M IY2 T ER0
+CETERA S EH1 T ER0 AH0
+CHANGE CH EY1 N JH
+CHARACTER K EH1 R IH0 K T ER0
+CHILD CH AY1 L D
+CHILDREN CH IH1 L D R AH0 N
+CITY S IH1 T IY0
+CLOSE K L OW1 Z
+COLD K OW1 L D
+COLON K OW1 L AH0 N
+COLOR K AH1 L ER0
+COME K AH1 M
+COMPANY K AH1 M P AH0 N IY0
+COMPUTER K AH0 M P Y UW1 T ER0
+CONTAINS K AH0 N T EY1 N Z
+CONVERT K AH0 N V ER1 T
+CONVERTS K AH0 N V ER1 T S
+COULD K UH1 D
+COUNTRY K AH1 N T R IY0
+COURSE K AO1 R S
+CUSTOMIZABLE K AH1 S T AH0 M AY2 Z AH0 B AH0 L
+DASH D AE1 SH
+DATA D EY1 T AH0
+DAY D EY1
+DEAD D EH1 D
+DECEMBER D IH0 S EH1 M B ER0
+DEGREE D IH0 G R IY1
+DIFFERENT D IH1 F ER0 AH0 N T
+DIRTY D ER1 T IY0
+DO D UW1
+DOCTOR D AA1 K T ER0
+DOES D AH1 Z
+DOESN'T D AH1 Z AH0 N T
+DOG D AO1 G
+DOING D UW1 IH0 NG
+DOLLAR D AA1 L ER0
+DON'T D OW1 N T
+DONE D AH1 N
+DOOR D AO1 R
+DOT D AA1 T
+DOWN D AW1 N
+DOWNLOAD D AW1 N L OW2 D
+DRIVE D R AY1 V
+DRY D R AY1
+DURING D UH1 R IH0 NG
+EACH IY1 CH
+EARLY ER1 L IY0
+EARTH ER1 TH
+EAT IY1 T
+EDUCATION EH2 JH AH0 K EY1 SH AH0 N
+EIGHT EY1 T
+EIGHTEEN EY1 T IY1 N
+EIGHTEENTH EY1 T IY1 N TH
+EIGHTH EY1 T TH
+EIGHTIETH EY1 T IY0 AH0 TH
+EIGHTY EY1 T IY0
+EITHER IY1 DH ER0
+ELEVEN IH0 L EH1 V AH0 N
+ELEVENTH IH0 L EH1 V AH0 N TH
+ELSE EH1 L S
+EM EH1 M
+END EH1 N D
+ENDS EH1 N D Z
+ENGLISH IH1 NG G L IH0 SH
+ENJOY EH0 N JH OY1
+ENOUGH IH0 N AH1 F
+EQUALS IY1 K W AH0 L Z
+ET EH1 T
+EURO Y UH1 R OW0
+EVEN IY1 V IH0 N
+EVENING IY1 V N IH0 NG
+EVER EH1 V ER0
+EVERY EH1 V ER0 IY0
+EVERYONE EH1 V R IY0 W AH2 N
+EVERYTHING EH1 V R IY0 TH IH2 NG
+EXAMPLE IH0 G Z AE1 M P AH0 L
+EYE AY1
+EYES AY1 Z
+FACE F EY1 S
+FACT F AE1 K T
+FAHRENHEIT F EH1 R AH0 N HH AY2 T
+FAMILY F AE1 M AH0 L IY0
+FAR F AA1 R
+FATHER F AA1 DH ER0
+FEBRUARY F EH1 B Y AH0 W EH2 R IY0
+FEEL F IY1 L
+FEET F IY1 T
+FEW F Y UW1
+FIFTEEN F IH0 F T IY1 N
+FIFTEENTH F IH0 F T IY1 N TH
+FIFTH F IH1 F TH
+FIFTIETH F IH1 F T IY0 AH0 TH
+FIFTY F IH1 F T IY0
+FILE F AY1 L
+FILLED F IH1 L D
+FIND F AY1 N D
+FINE F AY1 N
+FIRE F AY1 ER0
+FIRST F ER1 S T
+FIVE F AY1 V
+FOOD F UW1 D
+FOOT F UH1 T
+FOR F AO1 R
+FORTIETH F AO1 R T IY0 AH0 TH
+FORTUNE F AO1 R CH AH0 N
+FORTY F AO1 R T IY0
+FOUND F AW1 N D
+FOUR F AO1 R
+FOURTEEN F AO1 R T IY1 N
+FOURTEENTH F AO1 R T IY1 N TH
+FOURTH F AO1 R TH
+FOX F AA1 K S
+FRIDAY F R AY1 D EY2
+FRIEND F R EH1 N D
+FROM F R AH1 M
+FULL F UH1 L
+FUTURE F Y UW1 CH ER0
+GAME G EY1 M
+GAVE G EY1 V
+GENERATE JH EH1 N ER0 EY2 T
+GET G EH1 T
+GIGABYTE G IH1 G AH0 B AY2 T
+GIGAHERTZ G IH1 G AH0 HH ER2 T S
+GIRL G ER1 L
+GIVE G IH1 V
+GIVEN G IH1 V AH0 N
+GO G OW1
+GOES G OW1 Z
+GOING G OW1 IH0 NG
+GOOD G UH1 D
+GOT G AA1 T
+GOVERNMENT G AH1 V ER0 N M AH0 N T
+GRAM G R AE1 M
+GREAT G R EY1 T
+GREEN G R IY1 N
+GROUND G R AW1 N D
+GROUP G R UW1 P
+GROW G R OW1
+HAD HH AE1 D
+HALF HH AE1 F
+HAND HH AE1 N D
+HAPPEN HH AE1 P AH0 N
+HAPPY HH AE1 P IY0
+HARD HH AA1 R D
+HAS HH AE1 Z
+HAVE HH AE1 V
+HE HH IY1
+HEAD HH EH1 D
+HEAR HH IY1 R
+HEART HH AA1 R T
+HELLO HH AH0 L OW1
+HELP HH EH1 L P
+HER HH ER1
+HERE HH IY1 R
+HERTZ HH ER1 T S
+HIGH HH AY1
+HIM HH IH1 M
+HIS HH IH1 Z
+HISTORY HH IH1 S T ER0 IY0
+HOBBIT HH AA1 B IH0 T
+HOLE HH OW1 L
+HOME HH OW1 M
+HOUR AW1 ER0
+HOUSE HH AW1 S
+HOW HH AW1
+HOWEVER HH AW2 EH1 V ER0
+HUNDRED HH AH1 N D R AH0 D
+HUNDREDTH HH AH1 N D R AH0 D TH
+I AY1
+IDEA AY0 D IY1 AH0
+IF IH1 F
+IMPORTANT IH2 M P AO1 R T AH0 N T
+IN IH0 N
+INCH IH1 N CH
+INCORPORATED IH0 N K AO1 R P ER0 EY2 T IH0 D
+INFORMATION IH2 N F ER0 M EY1 SH AH0 N
+INSIDE IH0 N S AY1 D
+INTEREST IH1 N T R AH0 S T
+INTO IH1 N T UW0
+IS IH1 Z
+ISLAND AY1 L AH0 N D
+IT IH1 T
+IT'S IH1 T S
+ITS IH1 T S
+JANUARY JH AE1 N Y UW0 EH2 R IY0
+JULY JH UW0 L AY1
+JUMPS JH AH1 M P S
+JUNE JH UW1 N
+JUNIOR JH UW1 N Y ER0
+JUST JH AH1 S T
+KEEP K IY1 P
+KILOBYTE K IH1 L AH0 B AY2 T
+KILOGRAM K IH1 L AH0 G R AE2 M
+KILOHERTZ K IH1 L AH0 HH ER2 T S
+KILOMETER K IH0 L AA1 M AH0 T ER0
+KILOWATT K IH1 L AH0 W AA2 T
+KIND K AY1 N D
+KNEW N UW1
+KNOW N OW1
+KNOWLEDGE N AA1 L IH0 JH
+LANGUAGE L AE1 NG G W AH0 JH
+LARGE L AA1 R JH
+LAST L AE1 S T
+LATE L EY1 T
+LATER L EY1 T ER0
+LAZY L EY1 Z IY0
+LEARN L ER1 N
+LEAST L IY1 S T
+LEAVE L IY1 V
+LEFT L EH1 F T
+LESS L EH1 S
+LET L EH1 T
+LETTER L EH1 T ER0
+LIFE L AY1 F
+LIGHT L AY1 T
+LIKE L AY1 K
+LIMITED L IH1 M AH0 T IH0 D
+LINE L AY1 N
+LISTEN L IH1 S AH0 N
+LITER L IY1 T ER0
+LITTLE L IH1 T AH0 L
+LIVE L IH1 V
+LIVED L IH1 V D
+LONG L AO1 NG
+LOOK L UH1 K
+LOVE L AH1 V
+MADE M EY1 D
+MAKE M EY1 K
+MAN M AE1 N
+MANY M EH1 N IY0
+MARCH M AA1 R CH
+MAY M EY1
+ME M IY1
+MEAN M IY1 N
+MEGABIT M EH1 G AH0 B IH2 T
+MEGABYTE M EH1 G AH0 B AY2 T
+MEGAHERTZ M EH1 G AH0 HH ER2 T S
+MEN M EH1 N
+METER M IY1 T ER0
+MIGHT M AY1 T
+MILE M AY1 L
+MILLIGRAM M IH1 L AH0 G R AE2 M
+MILLILITER M IH1 L AH0 L IY2 T ER0
+MILLIMETER M IH1 L AH0 M IY2 T ER0
+MILLION M IH1 L Y AH0 N
+MILLIONTH M IH1 L Y AH0 N TH
+MILLISECOND M IH1 L AH0 S EH2 K AH0 N D
+MIND M AY1 N D
+MINUS M AY1 N AH0 S
+MINUTE M IH1 N AH0 T
+MISSUS M IH1 S IH0 Z
+MISTER M IH1 S T ER0
+MIZ M IH1 Z
+MONDAY M AH1 N D EY2
+MONEY M AH1 N IY0
+MORE M AO1 R
+MORNING M AO1 R N IH0 NG
+MOST M OW1 S T
+MOTHER M AH1 DH ER0
+MOVE M UW1 V
+MUCH M AH1 CH
+MUSIC M Y UW1 Z IH0 K
+MUST M AH1 S T
+MY M AY1
+NAME N EY1 M
+NASTY N AE1 S T IY0
+NATURAL N AE1 CH ER0 AH0 L
+NATURE N EY1 CH ER0
+NEAR N IH1 R
+NEED N IY1 D
+NEVER N EH1 V ER0
+NEW N UW1
+NEWS N UW1 Z
+NEXT N EH1 K S T
+NIGHT N AY1 T
+NINE N AY1 N
+NINETEEN N AY1 N T IY1 N
+NINETEENTH N AY1 N T IY1 N TH
+NINETIETH N AY1 N T IY0 AH0 TH
+NINETY N AY1 N T IY0
+NINTH N AY1 N TH
+NO N OW1
+NOBLER N OW1 B L ER0
+NONE N AH1 N
+NOR N AO1 R
+NOT N AA1 T
+NOTHING N AH1 TH IH0 NG
+NOVEMBER N OW0 V EH1 M B ER0
+NOW N AW1
+NUMBER N AH1 M B ER0
+O'CLOCK AH0 K L AA1 K
+OCEAN OW1 SH AH0 N
+OCTOBER AA0 K T OW1 B ER0
+OF AH1 V
+OFF AO1 F
+OFTEN AO1 F AH0 N
+OH OW1
+OLD OW1 L D
+ON AA1 N
+ONCE W AH1 N S
+ONE W AH1 N
+ONLY OW1 N L IY0
+OOZY UW1 Z IY0
+OPEN OW1 P AH0 N
+OR AO1 R
+ORDER AO1 R D ER0
+OTHER AH1 DH ER0
+OUNCE AW1 N S
+OUR AW1 ER0
+OUT AW1 T
+OUTRAGEOUS AW0 T R EY1 JH AH0 S
+OVER OW1 V ER0
+OWN OW1 N
+PAGE P EY1 JH
+PAPER P EY1 P ER0
+PART P AA1 R T
+PEE P IY1
+PENCE P EH1 N S
+PENNY P EH1 N IY0
+PEOPLE P IY1 P AH0 L
+PER P ER1
+PERCENT P ER0 S EH1 N T
+PERFECT P ER1 F IH0 K T
+PERHAPS P ER0 HH AE1 P S
+PERSON P ER1 S AH0 N
+PIECE P IY1 S
+PLACE P L EY1 S
+PLAY P L EY1
+PLEASE P L IY1 Z
+PLUS P L AH1 S
+POINT P OY1 N T
+POUND P AW1 N D
+POWER P AW1 ER0
+PROBLEM P R AA1 B L AH0 M
+PROFESSOR P R AH0 F EH1 S ER0
+PUT P UH1 T
+QUADRILLION K W AA0 D R IH1 L Y AH0 N
+QUESTION K W EH1 S CH AH0 N
+QUICK K W IH1 K
+QUITE K W AY1 T
+RATE R EY1 T
+READ R IY1 D
+READY R EH1 D IY0
+REAL R IY1 L
+REALLY R IH1 L IY0
+REASON R IY1 Z AH0 N
+RED R EH1 D
+REMEMBER R IH0 M EH1 M B ER0
+RIGHT R AY1 T
+RIVER R IH1 V ER0
+ROAD R OW1 D
+ROOM R UW1 M
+RUN R AH1 N
+SAID S EH1 D
+SAINT S EY1 N T
+SAME S EY1 M
+SANDY S AE1 N D IY0
+SATURDAY S AE1 T ER0 D EY2
+SAW S AO1
+SAY S EY1
+SAYS S EH1 Z
+SCHOOL S K UW1 L
+SEA S IY1
+SECOND S EH1 K AH0 N D
+SEE S IY1
+SEEM S IY1 M
+SENIOR S IY1 N Y ER0
+SENTENCE S EH1 N T AH0 N S
+SEPTEMBER S EH0 P T EH1 M B ER0
+SET S EH1 T
+SETTINGS S EH1 T IH0 NG Z
+SEVEN S EH1 V AH0 N
+SEVENTEEN S EH1 V AH0 N T IY1 N
+SEVENTEENTH S EH1 V AH0 N T IY1 N TH
+SEVENTH S EH1 V AH0 N TH
+SEVENTIETH S EH1 V AH0 N T IY0 AH0 TH
+SEVENTY S EH1 V AH0 N T IY0
+SHALL SH AE1 L
+SHE SH IY1
+SHORT SH AO1 R T
+SHOULD SH UH1 D
+SHOW SH OW1
+SIDE S AY1 D
+SINCE S IH1 N S
+SIT S IH1 T
+SIX S IH1 K S
+SIXTEEN S IH0 K S T IY1 N
+SIXTEENTH S IH0 K S T IY1 N TH
+SIXTH S IH1 K S TH
+SIXTIETH S IH1 K S T IY0 AH0 TH
+SIXTY S IH1 K S T IY0
+SLASH S L AE1 SH
+SLINGS S L IH1 NG Z
+SMALL S M AO1 L
+SMELL S M EH1 L
+SO S OW1
+SOME S AH1 M
+SOMEONE S AH1 M W AH2 N
+SOMETHING S AH1 M TH IH0 NG
+SOMETIMES S AH1 M T AY2 M Z
+SOUND S AW1 N D
+SPEAK S P IY1 K
+SPEECH S P IY1 CH
+SPEED S P IY1 D
+START S T AA1 R T
+STATE S T EY1 T
+STILL S T IH1 L
+STOP S T AA1 P
+STORY S T AO1 R IY0
+STREET S T R IY1 T
+STUDENT S T UW1 D AH0 N T
+STUDY S T AH1 D IY0
+SUCH S AH1 CH
+SUFFER S AH1 F ER0
+SUN S AH1 N
+SUNDAY S AH1 N D EY2
+SURE SH UH1 R
+SYNTHESIS S IH1 N TH AH0 S AH0 S
+SYNTHESIZER S IH1 N TH AH0 S AY2 Z ER0
+SYSTEM S IH1 S T AH0 M
+TABLE T EY1 B AH0 L
+TAKE T EY1 K
+TALK T AO1 K
+TECHNOLOGY T EH0 K N AA1 L AH0 JH IY0
+TELL T EH1 L
+TEN T EH1 N
+TENTH T EH1 N TH
+TERABYTE T EH1 R AH0 B AY2 T
+TEST T EH1 S T
+TESTING T EH1 S T IH0 NG
+TEXT T EH1 K S T
+THAN DH AE1 N
+THANK TH AE1 NG K
+THAT DH AE1 T
+THE DH AH0
+THEIR DH EH1 R
+THEM DH EH1 M
+THEN DH EH1 N
+THERE DH EH1 R
+THESE DH IY1 Z
+THEY DH EY1
+THING TH IH1 NG
+THINGS TH IH1 NG Z
+THINK TH IH1 NG K
+THIRD TH ER1 D
+THIRTEEN TH ER1 T IY1 N
+THIRTEENTH TH ER1 T IY1 N TH
+THIRTIETH TH ER1 T IY0 AH0 TH
+THIRTY TH ER1 T IY0
+THIS DH IH1 S
+THOSE DH OW1 Z
+THOUGH DH OW1
+THOUGHT TH AO1 T
+THOUSAND TH AW1 Z AH0 N D
+THOUSANDTH TH AW1 Z AH0 N D TH
+THREE TH R IY1
+THROUGH TH R UW1
+THURSDAY TH ER1 Z D EY2
+TIME T AY1 M
+TIS T IH1 Z
+TO T UW1
+TODAY T AH0 D EY1
+TOGETHER T AH0 G EH1 DH ER0
+TOO T UW1
+TOOK T UH1 K
+TOOL T UW1 L
+TOWARD T AH0 W AO1 R D
+TRILLION T R IH1 L Y AH0 N
+TROUBLE T R AH1 B AH0 L
+TROUBLES T R AH1 B AH0 L Z
+TRUE T R UW1
+TRY T R AY1
+TUESDAY T UW1 Z D EY2
+TURN T ER1 N
+TWELFTH T W EH1 L F TH
+TWELVE T W EH1 L V
+TWENTIETH T W EH1 N T IY0 AH0 TH
+TWENTY T W EH1 N T IY0
+TWO T UW1
+UNDER AH1 N D ER0
+UNDERSCORE AH1 N D ER0 S K AO2 R
+UNDERSTAND AH2 N D ER0 S T AE1 N D
+UNTIL AH0 N T IH1 L
+UP AH1 P
+UPON AH0 P AA1 N
+US AH1 S
+USE Y UW1 Z
+USED Y UW1 Z D
+USUALLY Y UW1 ZH AH0 W AH0 L IY0
+VERSUS V ER1 S AH0 S
+VERY V EH1 R IY0
+VOICE V OY1 S
+VOLT V OW1 L T
+WALK W AO1 K
+WANT W AA1 N T
+WAS W AA1 Z
+WATER W AO1 T ER0
+WATT W AA1 T
+WAY W EY1
+WE W IY1
+WEDNESDAY W EH1 N Z D EY2
+WELCOME W EH1 L K AH0 M
+WELL W EH1 L
+WENT W EH1 N T
+WERE W ER1
+WET W EH1 T
+WHAT W AH1 T
+WHEN W EH1 N
+WHERE W EH1 R
+WHETHER W EH1 DH ER0
+WHICH W IH1 CH
+WHILE W AY1 L
+WHITE W AY1 T
+WHO HH UW1
+WHOLE HH OW1 L
+WHOSE HH UW1 Z
+WHY W AY1
+WILL W IH1 L
+WITH W IH1 DH
+WITHIN W IH0 DH IH1 N
+WITHOUT W IH0 TH AW1 T
+WOMAN W UH1 M AH0 N
+WOMEN W IH1 M AH0 N
+WORD W ER1 D
+WORDS W ER1 D Z
+WORK W ER1 K
+WORLD W ER1 L D
+WORMS W ER1 M Z
+WOULD W UH1 D
+WRITE R AY1 T
+WRITTEN R IH1 T AH0 N
+WRONG R AO1 NG
+WWW D AH1 B AH0 L Y UW0 D AH1 B AH0 L Y UW0 D AH1 B AH0 L Y UW0
+YARD Y AA1 R D
+YEAR Y IH1 R
+YEN Y EH1 N
+YES Y EH1 S
+YET Y EH1 T
+YOU Y UW1
+YOUNG Y AH1 NG
+YOUR Y AO1 R
+ZERO Z IH1 R OW0
+`;
+
+let lexicon: Map<string, string[]> | null = null;
+
+// Parse the bundled source on first use
+function getLexicon(): Map<string, string[]> {
+  if (!lexicon) {
+    lexicon = new Map();
+    for (const line of LEXICON_SOURCE.split('\n')) {
+      const [word, ...phonemes] = line.trim().split(/\s+/);
+      if (word && phonemes.length > 0) {
+        lexicon.set(word, phonemes);
+      }
+    }
+  }
+  return lexicon;
+}
+
+// Look up a word's pronunciation, case-insensitively
+export function lookupWord(word: string): string[] | undefined {
+  const entry = getLexicon().get(word.toUpperCase());
+  return entry ? [...entry] : undefined;
+}
+
+export function lexiconSize(): number {
+  return getLexicon().size;
+}
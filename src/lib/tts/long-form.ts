@@ -0,0 +1,105 @@
+// Long-form rendering
+//
+// Renders a sequence of independently synthesized parts and stitches them into
+// one 16-bit PCM stream. Each part is faded in and out over a few milliseconds
+// so the joins cannot click, and the event loop gets a turn between parts so
+// a long book does not stall the server.
+
+import { RenderedSpeech, WordTiming } from './speech-renderer';
+import { yieldToEventLoop } from './dsp-utils';
+
+export interface LongFormPart {
+  render: () => RenderedSpeech;
+  pauseAfter: number; // silence to add after the part, in seconds
+}
+
+export interface PcmAudio {
+  chunks: Int16Array[];
+  sampleRate: number;
+  sampleCount: number;
+  duration: number;
+  words: WordTiming[]; // timed against the joined stream
+}
+
+const FADE_SECONDS = 0.004;
+
+// Silence every rendered part already has at each end
+const PART_EDGE_SILENCE = 0.1;
+
+// Silence to add between two parts for a pause of the given length
+export function gapForPause(pause: number): number {
+  return Math.max(0, pause - 2 * PART_EDGE_SILENCE);
+}
+
+// Float samples to 16-bit PCM with raised-cosine fades at both ends
+function toPcm16(samples: Float32Array, fadeLength: number): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  const fade = Math.min(fadeLength, Math.floor(samples.length / 2));
+
+  for (let i = 0; i < samples.length; i++) {
+    let gain = 1;
+    if (i < fade) gain = 0.5 - 0.5 * Math.cos((Math.PI * i) / fade);
+    else if (i >= samples.length - fade) gain = 0.5 - 0.5 * Math.cos((Math.PI * (samples.length - 1 - i)) / fade);
+    const sample = Math.max(-1, Math.min(1, samples[i] * gain));
+    pcm[i] = Math.round(sample * 32767);
+  }
+
+  return pcm;
+}
+
+// One synthesized part, and the silence after it, ready to send
+export interface LongFormChunk {
+  samples: Int16Array; // the part followed by its pause
+  sampleRate: number;
+  words: WordTiming[]; // timed against the joined stream
+  completed: number; // parts rendered so far
+  total: number;
+}
+
+// Render the parts in order, handing each one over as soon as it is
+// synthesized. An aborted signal stops the render between parts.
+export async function* streamLongForm(parts: LongFormPart[], signal?: AbortSignal): AsyncGenerator<LongFormChunk> {
+  let sampleCount = 0;
+
+  for (let index = 0; index < parts.length; index++) {
+    signal?.throwIfAborted();
+    const part = parts[index];
+    const rendered = part.render();
+    const sampleRate = rendered.sampleRate;
+
+    const offset = sampleCount / sampleRate;
+    const words = rendered.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset }));
+
+    const pcm = toPcm16(rendered.samples, Math.round(FADE_SECONDS * sampleRate));
+    const gap = index < parts.length - 1 ? Math.round(part.pauseAfter * sampleRate) : 0;
+    const samples = new Int16Array(pcm.length + Math.max(0, gap));
+    samples.set(pcm);
+    sampleCount += samples.length;
+
+    yield { samples, sampleRate, words, completed: index + 1, total: parts.length };
+    await yieldToEventLoop();
+  }
+}
+
+// Render every part in order and join them with the requested pauses. An
+// aborted signal stops the render between parts.
+export async function renderLongForm(
+  parts: LongFormPart[],
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<PcmAudio> {
+  const chunks: Int16Array[] = [];
+  const words: WordTiming[] = [];
+  let sampleRate = 0;
+  let sampleCount = 0;
+
+  for await (const chunk of streamLongForm(parts, signal)) {
+    chunks.push(chunk.samples);
+    words.push(...chunk.words);
+    sampleRate = chunk.sampleRate;
+    sampleCount += chunk.samples.length;
+    onProgress?.(chunk.completed, chunk.total);
+  }
+
+  return { chunks, sampleRate, sampleCount, duration: sampleRate > 0 ? sampleCount / sampleRate : 0, words };
+}
@@ -0,0 +1,268 @@
+// Loudness measurement and normalization
+//
+// Integrated loudness follows ITU-R BS.1770-4: the signal is K-weighted (a
+// high shelf for the head's acoustic effect, then a high-pass), its mean
+// square is taken over 400 ms blocks overlapping by 75%, and blocks are gated
+// at -70 LUFS and then 10 LU below the ungated loudness. True peak is read
+// from a 4x oversampled copy, which catches peaks between samples that a
+// decoder or DAC will reconstruct.
+//
+// Normalization applies one gain to reach the target, then a look-ahead
+// limiter holds peaks under the ceiling. Audio is processed a chunk at a
+// time; long-form chunks end in silence, so the limiter never needs to look
+// across a join.
+
+import { PcmAudio } from './long-form';
+import { dbToGain, gainToDb, yieldToEventLoop } from './dsp-utils';
+import { LoudnessMeasurement } from '../loudness';
+
+export interface LoudnessAnalysis {
+  integrated: number | null; // LUFS, null for silence
+  truePeak: number | null; // dBTP, null for silence
+}
+
+const BLOCK_SECONDS = 0.4;
+const BLOCKS_PER_WINDOW = 4; // 75% overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU
+
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+const LIMITER_LOOKAHEAD = 0.005; // seconds
+const LIMITER_RELEASE = 0.05; // seconds
+const LIMITER_MARGIN = 0.3; // dB under the ceiling, for peaks between samples
+const MAKEUP_PASSES = 3;
+const LOUDNESS_TOLERANCE = 0.1; // LU
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Biquad coefficients as [b0, b1, b2, a1, a2]
+type Biquad = [number, number, number, number, number];
+
+// The two K-weighting stages, derived for any sample rate from their analog
+// prototypes (the coefficients the standard lists are these at 48 kHz)
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = [
+    (Vh + (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - Vh)) / a0,
+    (Vh - (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q + K * K) / a0
+  ];
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = [1, -2, 1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0];
+
+  return [shelf, highPass];
+}
+
+// Polyphase interpolation filter: a Hann-windowed sinc cut off at the input's
+// Nyquist frequency, split into one short filter per output phase
+function interpolationPhases(): Float64Array[] {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: OVERSAMPLING }, () => new Float64Array(TAPS_PER_PHASE));
+  for (let i = 0; i < length; i++) {
+    const x = (i - center) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 0.5)) / length);
+    phases[i % OVERSAMPLING][Math.floor(i / OVERSAMPLING)] = sinc * window;
+  }
+  return phases;
+}
+
+const PHASES = interpolationPhases();
+
+// Measures a signal fed to it in pieces, samples scaled to -1..1
+class LoudnessMeter {
+  private filters: [Biquad, Biquad];
+  private state = new Float64Array(4); // two samples of history per stage
+  // Recent input for the interpolator, written twice so the taps can read it
+  // without wrapping
+  private history = new Float64Array(2 * TAPS_PER_PHASE);
+  private historyIndex = 0;
+  private stepLength: number;
+  private stepSum = 0;
+  private stepCount = 0;
+  private steps: number[] = []; // mean square of each quarter block
+  private peak = 0;
+
+  constructor(sampleRate: number) {
+    this.filters = kWeighting(sampleRate);
+    this.stepLength = Math.round((BLOCK_SECONDS / BLOCKS_PER_WINDOW) * sampleRate);
+  }
+
+  write(samples: ArrayLike<number>, scale: number): void {
+    const [[b0, b1, b2, a1, a2], [c0, c1, c2, d1, d2]] = this.filters;
+    const state = this.state;
+    const history = this.history;
+
+    for (let n = 0; n < samples.length; n++) {
+      const x = samples[n] * scale;
+
+      // K-weighting, transposed direct form II
+      const y = b0 * x + state[0];
+      state[0] = b1 * x - a1 * y + state[1];
+      state[1] = b2 * x - a2 * y;
+      const z = c0 * y + state[2];
+      state[2] = c1 * y - d1 * z + state[3];
+      state[3] = c2 * y - d2 * z;
+
+      this.stepSum += z * z;
+      if (++this.stepCount === this.stepLength) {
+        this.steps.push(this.stepSum / this.stepLength);
+        this.stepSum = 0;
+        this.stepCount = 0;
+      }
+
+      // True peak, over the sample and the oversampled points around it
+      this.peak = Math.max(this.peak, Math.abs(x));
+      history[this.historyIndex] = x;
+      history[this.historyIndex + TAPS_PER_PHASE] = x;
+      this.historyIndex = (this.historyIndex + 1) % TAPS_PER_PHASE;
+      const newest = this.historyIndex + TAPS_PER_PHASE - 1;
+      for (let phase = 0; phase < OVERSAMPLING; phase++) {
+        const taps = PHASES[phase];
+        let sum = 0;
+        for (let k = 0; k < TAPS_PER_PHASE; k++) sum += taps[k] * history[newest - k];
+        this.peak = Math.max(this.peak, Math.abs(sum));
+      }
+    }
+  }
+
+  result(): LoudnessAnalysis {
+    const blocks: number[] = [];
+    for (let i = 0; i + BLOCKS_PER_WINDOW <= this.steps.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < BLOCKS_PER_WINDOW; j++) sum += this.steps[i + j];
+      blocks.push(sum / BLOCKS_PER_WINDOW);
+    }
+    // Audio shorter than one block is measured as a single block
+    if (blocks.length === 0) {
+      const count = this.steps.length * this.stepLength + this.stepCount;
+      const sum = this.steps.reduce((total, step) => total + step * this.stepLength, this.stepSum);
+      if (count > 0) blocks.push(sum / count);
+    }
+
+    const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+    const audible = blocks.filter(block => block > 0 && blockLoudness(block) > ABSOLUTE_GATE);
+    let integrated: number | null = null;
+    if (audible.length > 0) {
+      const threshold = blockLoudness(mean(audible)) + RELATIVE_GATE;
+      const gated = audible.filter(block => blockLoudness(block) > threshold);
+      integrated = blockLoudness(mean(gated));
+    }
+
+    return { integrated, truePeak: this.peak > 0 ? gainToDb(this.peak) : null };
+  }
+}
+
+export async function measureLoudness(audio: PcmAudio): Promise<LoudnessAnalysis> {
+  const meter = new LoudnessMeter(audio.sampleRate);
+  for (const chunk of audio.chunks) {
+    meter.write(chunk, 1 / 32768);
+    await yieldToEventLoop();
+  }
+  return meter.result();
+}
+
+// Apply a gain and hold sample peaks under a threshold (both on the 16-bit
+// scale). The gain each sample needs is spread back over the look-ahead, so
+// reductions ramp in before the peak arrives, and recovers over the release.
+function limitChunk(chunk: Int16Array, gain: number, threshold: number, sampleRate: number): Int16Array {
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+  const length = chunk.length;
+
+  // Gain each sample needs on its own
+  const needed = new Float32Array(length);
+  let limited = false;
+  for (let i = 0; i < length; i++) {
+    const level = Math.abs(chunk[i] * gain);
+    needed[i] = level > threshold ? threshold / level : 1;
+    if (needed[i] < 1) limited = true;
+  }
+
+  const output = new Int16Array(length);
+  if (!limited) {
+    for (let i = 0; i < length; i++) output[i] = Math.max(-32768, Math.min(32767, Math.round(chunk[i] * gain)));
+    return output;
+  }
+
+  // Lowest need over the look-ahead window at each sample, then averaged over
+  // the window before it: every value in that average is at or below what the
+  // current sample needs, so the result never lets a peak through
+  const ahead = new Float32Array(length);
+  const window: number[] = []; // indices with rising needs, a sliding minimum
+  for (let i = length - 1; i >= 0; i--) {
+    while (window.length > 0 && needed[window[window.length - 1]] >= needed[i]) window.pop();
+    window.push(i);
+    if (window[0] > i + lookahead) window.shift();
+    ahead[i] = needed[window[0]];
+  }
+
+  let sum = 0;
+  let envelope = 1;
+  for (let i = 0; i < length; i++) {
+    sum += ahead[i] - (i >= lookahead ? ahead[i - lookahead] : 1);
+    const smoothed = (sum + lookahead) / lookahead;
+    envelope = smoothed < envelope ? smoothed : envelope + (smoothed - envelope) * release;
+    output[i] = Math.max(-32768, Math.min(32767, Math.round(chunk[i] * gain * envelope)));
+  }
+  return output;
+}
+
+// Bring the audio to the target integrated loudness with true peaks at or
+// under the ceiling. Silence is returned unchanged.
+export async function normalizeLoudness(
+  audio: PcmAudio,
+  target: number,
+  ceiling: number
+): Promise<{ audio: PcmAudio; measurement: LoudnessMeasurement }> {
+  const before = await measureLoudness(audio);
+  if (before.integrated === null) {
+    return { audio, measurement: { ...before, gain: 0 } };
+  }
+
+  const process = async (gain: number, threshold: number) => {
+    const chunks: Int16Array[] = [];
+    for (const chunk of audio.chunks) {
+      chunks.push(limitChunk(chunk, gain, threshold, audio.sampleRate));
+      await yieldToEventLoop();
+    }
+    const processed = { ...audio, chunks };
+    return { processed, analysis: await measureLoudness(processed) };
+  };
+
+  let gain = dbToGain(target - before.integrated);
+  let threshold = dbToGain(ceiling - LIMITER_MARGIN) * 32768;
+  let { processed, analysis } = await process(gain, threshold);
+
+  // Limiting takes some loudness with it; make that up with more gain, which
+  // the limiter then has to work harder against, a few times at most
+  for (let pass = 0; pass < MAKEUP_PASSES; pass++) {
+    if (analysis.integrated === null || target - analysis.integrated < LOUDNESS_TOLERANCE) break;
+    gain *= dbToGain(target - analysis.integrated);
+    ({ processed, analysis } = await process(gain, threshold));
+  }
+
+  // The limiter works on samples; if a peak between them still pokes over
+  // the ceiling, take the excess off the whole file
+  if (analysis.truePeak !== null && analysis.truePeak > ceiling) {
+    const excess = dbToGain(ceiling - analysis.truePeak);
+    gain *= excess;
+    threshold *= excess;
+    ({ processed, analysis } = await process(gain, threshold));
+  }
+
+  const change = analysis.integrated === null ? 0 : analysis.integrated - before.integrated;
+  return { audio: processed, measurement: { ...analysis, gain: change } };
+}
@@ -0,0 +1,194 @@
+// Metadata tag writers
+//
+// One AudioMetadata, three tag formats: a LIST/INFO chunk for WAV, an ID3v2.4
+// tag for MP3 and a Vorbis comment block for Ogg Opus and FLAC. Text is
+// written as UTF-8 throughout. Fields a format has no standard slot for
+// (voice, settings, source hash) go in its free-form comment or user fields.
+
+import { AudioMetadata } from '../audio-metadata';
+
+const encoder = new TextEncoder();
+
+// ISO 639-2 codes for the ID3 language fields
+const ISO_639_2: Record<string, string> = {
+  en: 'eng', de: 'deu', fr: 'fra', es: 'spa', it: 'ita', pt: 'por', nl: 'nld',
+  sv: 'swe', da: 'dan', no: 'nor', fi: 'fin', pl: 'pol', ru: 'rus', ja: 'jpn', zh: 'zho', ko: 'kor'
+};
+
+function languageCode(language?: string): string | undefined {
+  return language ? ISO_639_2[language.split('-')[0].toLowerCase()] : undefined;
+}
+
+// Voice, settings and source hash as "Label: value" lines
+function generationLines(metadata: AudioMetadata): string[] {
+  const lines: string[] = [];
+  if (metadata.voice) lines.push(`Voice: ${metadata.voice}`);
+  lines.push(`Settings: ${metadata.settings}`);
+  lines.push(`Source SHA-256: ${metadata.sourceHash}`);
+  return lines;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function uint32LE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+// Vorbis comments as FIELD=value pairs
+export function vorbisComments(metadata: AudioMetadata): string[] {
+  const comments: [string, string | undefined][] = [
+    ['TITLE', metadata.title],
+    ['ARTIST', metadata.author],
+    ['ALBUM', metadata.album],
+    ['COMMENT', metadata.comment],
+    ['LANGUAGE', metadata.language],
+    ['DATE', metadata.createdAt],
+    ['ENCODER', metadata.software],
+    ['VOICE', metadata.voice],
+    ['SETTINGS', metadata.settings],
+    ['SOURCE_SHA256', metadata.sourceHash],
+    ['SOURCE_TEXT', metadata.sourceText]
+  ];
+  return comments.filter(([, value]) => value).map(([field, value]) => `${field}=${value}`);
+}
+
+// Vendor string and comment list, as OpusTags and FLAC's VORBIS_COMMENT
+// block both lay them out
+export function vorbisCommentBody(vendor: string, comments: string[]): Uint8Array {
+  const parts = [uint32LE(encoder.encode(vendor).length), encoder.encode(vendor), uint32LE(comments.length)];
+  for (const comment of comments) {
+    const bytes = encoder.encode(comment);
+    parts.push(uint32LE(bytes.length), bytes);
+  }
+  return concat(parts);
+}
+
+// RIFF LIST chunk of INFO sub-chunks, each a null-terminated string padded
+// to an even length
+export function riffInfoChunk(metadata: AudioMetadata): Uint8Array {
+  const entries: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.author],
+    ['IPRD', metadata.album],
+    ['ICMT', [metadata.comment, ...generationLines(metadata)].filter(Boolean).join('\n')],
+    ['ILNG', metadata.language],
+    ['ICRD', metadata.createdAt],
+    ['ISFT', metadata.software],
+    ['ISBJ', metadata.sourceText]
+  ];
+
+  const parts = [encoder.encode('INFO')];
+  for (const [id, value] of entries) {
+    if (!value) continue;
+    const text = encoder.encode(value);
+    const size = text.length + 1;
+    const chunk = new Uint8Array(8 + size + (size % 2));
+    chunk.set(encoder.encode(id));
+    new DataView(chunk.buffer).setUint32(4, size, true);
+    chunk.set(text, 8);
+    parts.push(chunk);
+  }
+
+  const body = concat(parts);
+  return concat([encoder.encode('LIST'), uint32LE(body.length), body]);
+}
+
+// Four bytes of seven bits each, as ID3v2 sizes are stored
+function synchsafe(value: number): Uint8Array {
+  return new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+const UTF8 = 3;
+
+function id3Frame(id: string, content: Uint8Array): Uint8Array {
+  return concat([encoder.encode(id), synchsafe(content.length), new Uint8Array(2), content]);
+}
+
+function id3Text(id: string, value: string): Uint8Array {
+  return id3Frame(id, concat([new Uint8Array([UTF8]), encoder.encode(value)]));
+}
+
+// TXXX, COMM and USLT frames: a description (after the language for the
+// last two) terminated by a null, then the value
+function id3Described(id: string, description: string, value: string, language?: string): Uint8Array {
+  const prefix = language === undefined ? [] : [encoder.encode(language)];
+  return id3Frame(id, concat([new Uint8Array([UTF8]), ...prefix, encoder.encode(description), new Uint8Array(1), encoder.encode(value)]));
+}
+
+export interface Id3Chapter {
+  title: string;
+  start: number; // seconds
+  end: number;
+}
+
+// A table of contents holds at most this many entries
+export const MAX_ID3_CHAPTERS = 255;
+
+const NO_BYTE_OFFSET = 0xffffffff;
+const CTOC_TOP_LEVEL = 0x02;
+const CTOC_ORDERED = 0x01;
+
+function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+// ID3v2 Chapter Frame Addendum: a CHAP frame per chapter, timed in
+// milliseconds and titled with an embedded TIT2, and a top-level, ordered
+// CTOC frame listing them
+function id3ChapterFrames(chapters: Id3Chapter[], title?: string): Uint8Array[] {
+  if (chapters.length > MAX_ID3_CHAPTERS) {
+    throw new Error(`An ID3 table of contents holds at most ${MAX_ID3_CHAPTERS} chapters`);
+  }
+  const elementIds = chapters.map((_, index) => encoder.encode(`chp${index}\0`));
+  const frames = chapters.map((chapter, index) => id3Frame('CHAP', concat([
+    elementIds[index],
+    uint32BE(Math.round(chapter.start * 1000)),
+    uint32BE(Math.round(chapter.end * 1000)),
+    uint32BE(NO_BYTE_OFFSET),
+    uint32BE(NO_BYTE_OFFSET),
+    id3Text('TIT2', chapter.title)
+  ])));
+  frames.unshift(id3Frame('CTOC', concat([
+    encoder.encode('toc\0'),
+    new Uint8Array([CTOC_TOP_LEVEL | CTOC_ORDERED, chapters.length]),
+    ...elementIds,
+    ...(title ? [id3Text('TIT2', title)] : [])
+  ])));
+  return frames;
+}
+
+// ID3v2.4 tag to prepend to an MP3 stream, with chapter markers when the
+// stream is an audiobook
+export function id3v2Tag(metadata: AudioMetadata, chapters: Id3Chapter[] = []): Uint8Array {
+  const language = languageCode(metadata.language);
+  const frames: Uint8Array[] = [];
+  if (metadata.title) frames.push(id3Text('TIT2', metadata.title));
+  if (metadata.author) frames.push(id3Text('TPE1', metadata.author));
+  if (metadata.album) frames.push(id3Text('TALB', metadata.album));
+  if (language) frames.push(id3Text('TLAN', language));
+  // ID3 timestamps stop at whole seconds and carry no zone
+  frames.push(id3Text('TDRC', metadata.createdAt.slice(0, 19)));
+  frames.push(id3Text('TSSE', metadata.software));
+  if (metadata.comment) frames.push(id3Described('COMM', '', metadata.comment, language ?? 'XXX'));
+  if (metadata.voice) frames.push(id3Described('TXXX', 'VOICE', metadata.voice));
+  frames.push(id3Described('TXXX', 'SETTINGS', metadata.settings));
+  frames.push(id3Described('TXXX', 'SOURCE_SHA256', metadata.sourceHash));
+  if (metadata.sourceText) frames.push(id3Described('USLT', '', metadata.sourceText, language ?? 'XXX'));
+  if (chapters.length) frames.push(...id3ChapterFrames(chapters, metadata.title));
+
+  const body = concat(frames);
+  const header = concat([encoder.encode('ID3'), new Uint8Array([4, 0, 0]), synchsafe(body.length)]);
+  return concat([header, body]);
+}
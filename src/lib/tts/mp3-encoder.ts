@@ -0,0 +1,64 @@
+// MP3 encoding
+//
+// Rendered PCM is encoded with LAME, compiled to WebAssembly and run
+// in-process, so no native tools are needed on the server. Constant bitrate
+// suits hosts that derive duration from file size; variable bitrate gives
+// smaller files at the same quality and takes the bitrate as a target average.
+// The WebAssembly build writes no LAME tag, so VBR files get a Xing frame here.
+
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { PcmAudio } from './long-form';
+import { yieldToEventLoop } from './dsp-utils';
+import { id3v2Tag } from './metadata-tags';
+import { xingFrame } from './mp3-frames';
+import { DEFAULT_MP3_BITRATE, Mp3Bitrate, Mp3BitrateMode } from '../audio-formats';
+import { AudioMetadata } from '../audio-metadata';
+
+export interface Mp3Options {
+  mode?: Mp3BitrateMode;
+  bitrate?: Mp3Bitrate;
+  metadata?: AudioMetadata;
+}
+
+// Typical mono speech bitrates of LAME's -V0 to -V9 presets
+const VBR_PRESET_BITRATES = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+
+// The VBR preset whose average bitrate is closest to the target
+function vbrQualityFor(bitrate: number): number {
+  let best = 0;
+  VBR_PRESET_BITRATES.forEach((presetBitrate, quality) => {
+    if (Math.abs(presetBitrate - bitrate) < Math.abs(VBR_PRESET_BITRATES[best] - bitrate)) best = quality;
+  });
+  return best;
+}
+
+// Encode PCM audio to an MP3 file
+export async function encodeMp3(audio: PcmAudio, options: Mp3Options = {}): Promise<Blob> {
+  const bitrate = options.bitrate ?? DEFAULT_MP3_BITRATE;
+  const encoder = await createMp3Encoder();
+  const base = { channels: 1 as const, sampleRate: audio.sampleRate };
+  encoder.configure(options.mode === 'vbr'
+    ? { ...base, vbrQuality: vbrQualityFor(bitrate) }
+    : { ...base, bitrate });
+
+  // The encoder reuses its output buffer, so every frame batch is copied out
+  const frames: Uint8Array[] = [];
+  for (const chunk of audio.chunks) {
+    const samples = new Float32Array(chunk.length);
+    for (let i = 0; i < chunk.length; i++) samples[i] = chunk[i] / 32768;
+    frames.push(encoder.encode([samples]).slice());
+    await yieldToEventLoop();
+  }
+  frames.push(encoder.finalize().slice());
+
+  const tag = options.metadata ? [id3v2Tag(options.metadata)] : [];
+  if (options.mode !== 'vbr') return new Blob([...tag, ...frames], { type: 'audio/mpeg' });
+
+  const joined = new Uint8Array(frames.reduce((total, batch) => total + batch.length, 0));
+  let position = 0;
+  for (const batch of frames) {
+    joined.set(batch, position);
+    position += batch.length;
+  }
+  return new Blob([...tag, xingFrame(joined), joined], { type: 'audio/mpeg' });
+}
@@ -0,0 +1,142 @@
+// MP3 frames
+//
+// Reads the frame headers of MPEG Layer III audio, which is all it takes to
+// walk a file frame by frame: to join the chapters of an audiobook, and to
+// describe a VBR file in a Xing frame. A VBR file's frames vary in size, so
+// without one players guess its duration from the first frame's bitrate and
+// seek to the wrong place.
+
+export interface Mp3Frames {
+  data: Uint8Array; // audio frames only, without tags
+  sampleCount: number;
+  sampleRate: number;
+}
+
+// Layer III bitrates in kbps by index, for MPEG-1 and for MPEG-2 and 2.5
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// Sample rates by version bits: 0 is MPEG-2.5, 2 MPEG-2, 3 MPEG-1
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000]
+};
+
+interface FrameHeader {
+  length: number;
+  samples: number;
+  sampleRate: number;
+  sideInfoLength: number;
+}
+
+function readFrameHeader(data: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (data[offset + 1] >> 3) & 0x3;
+  const layer = (data[offset + 1] >> 1) & 0x3;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x3;
+  const padding = (data[offset + 2] >> 1) & 0x1;
+  const mono = data[offset + 3] >> 6 === 3;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const sampleRate = MPEG_SAMPLE_RATES[version][sampleRateIndex];
+  const bitrate = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  return {
+    length: Math.floor(((mpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding,
+    samples: mpeg1 ? 1152 : 576,
+    sampleRate,
+    sideInfoLength: mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17)
+  };
+}
+
+// The audio frames of an MP3 file, without its ID3 tags or the Xing/Info
+// frame that describes the file as a whole
+export function readMp3Frames(data: Uint8Array): Mp3Frames {
+  let offset = 0;
+  if (data[0] === 0x49 && data[1] === 0x44 && data[2] === 0x33) { // "ID3"
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    offset = 10 + size + (data[5] & 0x10 ? 10 : 0);
+  }
+  let end = data.length;
+  if (end >= 128 && data[end - 128] === 0x54 && data[end - 127] === 0x41 && data[end - 126] === 0x47) end -= 128; // "TAG"
+
+  const frames: Uint8Array[] = [];
+  let sampleCount = 0;
+  let sampleRate = 0;
+  let first = true;
+  while (offset + 4 <= end) {
+    const header = readFrameHeader(data, offset);
+    if (!header || offset + header.length > end) {
+      offset++; // skip junk until the next frame
+      continue;
+    }
+    const frame = data.subarray(offset, offset + header.length);
+    const marker = String.fromCharCode(...frame.subarray(4 + header.sideInfoLength, 8 + header.sideInfoLength));
+    if (!(first && (marker === 'Xing' || marker === 'Info'))) {
+      if (sampleRate && header.sampleRate !== sampleRate) throw new Error('The MP3 changes sample rate part way through');
+      sampleRate = header.sampleRate;
+      sampleCount += header.samples;
+      frames.push(frame);
+    }
+    first = false;
+    offset += header.length;
+  }
+  if (!sampleRate) throw new Error('The file has no MP3 audio frames');
+
+  const joined = new Uint8Array(frames.reduce((total, frame) => total + frame.length, 0));
+  let position = 0;
+  for (const frame of frames) {
+    joined.set(frame, position);
+    position += frame.length;
+  }
+  return { data: joined, sampleCount, sampleRate };
+}
+
+// Flags for the fields a Xing frame carries: frame count, byte count and a
+// table of contents, 100 bytes that map a percentage of the duration to a
+// position in the file
+const XING_FIELDS = 0x1 | 0x2 | 0x4;
+const XING_LENGTH = 4 + 4 + 4 + 4 + 100;
+
+// A Xing frame for the audio frames that follow it: a silent frame in the
+// first frame's format whose side information is taken up by the totals of
+// the file, which players read for its duration and to seek in it
+export function xingFrame(audio: Uint8Array): Uint8Array {
+  const offsets: number[] = [];
+  for (let offset = 0; offset + 4 <= audio.length;) {
+    const header = readFrameHeader(audio, offset);
+    if (!header) throw new Error('The encoder wrote something other than MP3 frames');
+    offsets.push(offset);
+    offset += header.length;
+  }
+  if (offsets.length === 0) throw new Error('There are no MP3 frames to describe');
+
+  // The first frame's header without CRC or padding, at the lowest bitrate
+  // that leaves room for the fields
+  const frameHeader = audio.slice(0, 4);
+  frameHeader[1] |= 0x01;
+  let header: FrameHeader | null = null;
+  for (let index = 1; index < 15 && !header; index++) {
+    frameHeader[2] = (index << 4) | (frameHeader[2] & 0x0d);
+    const candidate = readFrameHeader(frameHeader, 0);
+    if (candidate && candidate.length >= 4 + candidate.sideInfoLength + XING_LENGTH) header = candidate;
+  }
+  if (!header) throw new Error('The MP3 frame format has no room for a Xing frame');
+
+  const frame = new Uint8Array(header.length);
+  frame.set(frameHeader);
+  const view = new DataView(frame.buffer);
+  let position = 4 + header.sideInfoLength;
+  frame.set([0x58, 0x69, 0x6e, 0x67], position); // "Xing"
+  view.setUint32(position + 4, XING_FIELDS);
+  view.setUint32(position + 8, offsets.length);
+  const bytes = frame.length + audio.length;
+  view.setUint32(position + 12, bytes);
+  position += 16;
+  for (let percent = 0; percent < 100; percent++) {
+    const offset = frame.length + offsets[Math.floor((percent / 100) * offsets.length)];
+    frame[position + percent] = Math.min(255, Math.floor((offset / bytes) * 256));
+  }
+  return frame;
+}
@@ -0,0 +1,326 @@
+// Music bed mixing
+//
+// Lays the rendered voice over a music bed. The bed runs from the intro,
+// before the voice starts, to the end of the outro, looping an uploaded file
+// as often as it takes (with a short crossfade at the loop point) or cutting
+// it off when it is longer. It fades in and out at the ends of the mix and is
+// ducked under the voice: a detector reading the speech a little ahead turns
+// the bed down just before each phrase starts and lets it back up in the
+// pauses.
+//
+// The built-in beds are generated as they are mixed, from the sample
+// position alone, so a long book does not need the whole bed in memory.
+
+import { PcmAudio } from './long-form';
+import { dbToGain, gainToDb, yieldToEventLoop } from './dsp-utils';
+import { createResampler } from './resampler';
+import { MusicBedInput, MusicBedName } from '../music-bed';
+
+export interface WavInfo {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number; // bytes
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const LOOP_CROSSFADE = 0.05; // seconds
+const DUCK_LOOKAHEAD = 0.08; // seconds
+const DUCK_THRESHOLD = -45; // dBFS of speech where ducking starts
+const DUCK_KNEE = 12; // dB over the threshold to full ducking
+const DUCK_ATTACK = 0.04; // seconds
+const DUCK_RELEASE = 0.4; // seconds
+const DETECTOR_RELEASE = 0.2; // seconds
+
+const timeCoefficient = (seconds: number, sampleRate: number) => 1 - Math.exp(-1 / (seconds * sampleRate));
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Reads the header of a PCM or float WAV file; null for anything else
+export function readWavInfo(bytes: Uint8Array): WavInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && size >= 16) {
+      let formatTag = view.getUint16(body, true);
+      // The extensible format keeps the real one in its subformat GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 26) formatTag = view.getUint16(body + 24, true);
+      format = {
+        formatTag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data' && format) {
+      const dataLength = Math.min(size, bytes.length - body);
+      const supported =
+        (format.formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(format.bitsPerSample)) ||
+        (format.formatTag === WAVE_FORMAT_IEEE_FLOAT && format.bitsPerSample === 32);
+      if (!supported || format.channels < 1 || format.sampleRate < 8000) return null;
+      return { ...format, dataOffset: body, dataLength };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+// Decode a WAV file to mono floats at its own sample rate
+function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } | null {
+  const info = readWavInfo(bytes);
+  if (!info) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + info.dataOffset, info.dataLength);
+  const bytesPerSample = info.bitsPerSample / 8;
+  const frameSize = bytesPerSample * info.channels;
+  const frames = Math.floor(info.dataLength / frameSize);
+
+  const read = (offset: number): number => {
+    if (info.formatTag === WAVE_FORMAT_IEEE_FLOAT) return view.getFloat32(offset, true);
+    switch (info.bitsPerSample) {
+      case 8:
+        return (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return view.getInt16(offset, true) / 32768;
+      case 24:
+        return ((view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16))) / 8388608;
+      default:
+        return view.getInt32(offset, true) / 2147483648;
+    }
+  };
+
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < info.channels; channel++) sum += read(frame * frameSize + channel * bytesPerSample);
+    samples[frame] = sum / info.channels;
+  }
+  return { samples, sampleRate: info.sampleRate };
+}
+
+// A bed that yields the next samples each time it is read, scaled to -1..1.
+// The generated beds sit around -14 dBFS RMS, as mastered music roughly does.
+type BedSource = (length: number) => Float32Array;
+
+// An uploaded file, resampled and looped. The loop is shortened by the
+// crossfade, which blends the end of the file into its start.
+function uploadedBed(bytes: Uint8Array, sampleRate: number): BedSource | null {
+  const decoded = decodeWav(bytes);
+  if (!decoded || decoded.samples.length === 0) return null;
+  const resampler = createResampler(decoded.sampleRate, sampleRate);
+  const head = resampler.process(decoded.samples);
+  const tail = resampler.flush();
+  let loop = new Float32Array(head.length + tail.length);
+  loop.set(head);
+  loop.set(tail, head.length);
+
+  const crossfade = Math.round(LOOP_CROSSFADE * sampleRate);
+  if (loop.length > crossfade * 4) {
+    const blended = loop.slice(0, loop.length - crossfade);
+    for (let i = 0; i < crossfade; i++) {
+      const mix = i / crossfade;
+      blended[i] = loop[i] * mix + loop[loop.length - crossfade + i] * (1 - mix);
+    }
+    loop = blended;
+  }
+
+  let position = 0;
+  return length => {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      output[i] = loop[position];
+      position = (position + 1) % loop.length;
+    }
+    return output;
+  };
+}
+
+// Sine by table lookup, for a phase in cycles
+const SINE_TABLE_SIZE = 4096;
+const SINE_TABLE = Float32Array.from({ length: SINE_TABLE_SIZE + 1 }, (_, i) => Math.sin((2 * Math.PI * i) / SINE_TABLE_SIZE));
+
+function sine(phase: number): number {
+  const position = (phase - Math.floor(phase)) * SINE_TABLE_SIZE;
+  const index = Math.floor(position);
+  return SINE_TABLE[index] + (SINE_TABLE[index + 1] - SINE_TABLE[index]) * (position - index);
+}
+
+// Cmaj9, Am9, Fmaj9, G6, as MIDI notes
+const CHORDS = [
+  [48, 55, 62, 64, 71],
+  [45, 52, 59, 60, 67],
+  [41, 48, 55, 57, 64],
+  [43, 50, 59, 62, 64]
+];
+const CHORD_FREQUENCIES = CHORDS.map(chord => chord.map(midiToFrequency));
+const CHORD_SECONDS = 8;
+const CHORD_CROSSFADE = 2; // seconds
+const DETUNE = 0.0035; // ratio between the two oscillators of a pad voice
+
+// Each chord voice is a detuned pair whose level drifts slowly
+function padChord(chord: number[], t: number): number {
+  let sum = 0;
+  for (let v = 0; v < chord.length; v++) {
+    const frequency = chord[v];
+    const drift = 0.6 + 0.4 * sine(t * (0.05 + 0.03 * v) + v / chord.length);
+    sum += drift * (sine(t * frequency * (1 - DETUNE)) + sine(t * frequency * (1 + DETUNE)));
+  }
+  return sum / (2 * chord.length);
+}
+
+function ambientSample(t: number): number {
+  const slot = Math.floor(t / CHORD_SECONDS);
+  const within = t - slot * CHORD_SECONDS;
+  const current = padChord(CHORD_FREQUENCIES[slot % CHORDS.length], t);
+  if (within < CHORD_SECONDS - CHORD_CROSSFADE) return current;
+  // Raised-cosine crossfade into the next chord
+  const mix = 0.5 - 0.5 * Math.cos((Math.PI * (within - CHORD_SECONDS + CHORD_CROSSFADE)) / CHORD_CROSSFADE);
+  return current * (1 - mix) + padChord(CHORD_FREQUENCIES[(slot + 1) % CHORDS.length], t) * mix;
+}
+
+const PULSE_STEP = 60 / 90 / 2; // eighth notes at 90 BPM
+const PULSE_PATTERN = [0, 2, 4, 2, 1, 3, 4, 3]; // indices into the chord, above its root
+const PULSE_DECAY = 0.25; // seconds
+
+function pluck(note: number, age: number): number {
+  if (age < 0) return 0;
+  const frequency = midiToFrequency(note);
+  const envelope = Math.min(1, age / 0.005) * Math.exp(-age / PULSE_DECAY);
+  return envelope * (sine(age * frequency) + 0.3 * sine(age * frequency * 2));
+}
+
+function pulseSample(t: number): number {
+  const step = Math.floor(t / PULSE_STEP);
+  const noteAt = (index: number) => {
+    const chord = CHORDS[Math.floor((index * PULSE_STEP) / CHORD_SECONDS) % CHORDS.length];
+    return chord[PULSE_PATTERN[index % PULSE_PATTERN.length]] + 12;
+  };
+  // The previous note is still ringing when the next one starts
+  const plucks = pluck(noteAt(step), t - step * PULSE_STEP) + (step > 0 ? pluck(noteAt(step - 1), t - (step - 1) * PULSE_STEP) : 0);
+  return 0.45 * plucks + 0.35 * ambientSample(t);
+}
+
+// Small seeded generator, so a bed sounds the same every render
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let x = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function droneSource(sampleRate: number): BedSource {
+  const noise = random(1);
+  let filtered = 0;
+  let position = 0;
+  return length => {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++, position++) {
+      const t = position / sampleRate;
+      // Root, fifth and octave with a touch of second harmonic
+      let tone = 0;
+      for (const [note, level] of [[36, 0.5], [43, 0.3], [48, 0.25]]) {
+        const frequency = midiToFrequency(note);
+        tone += level * (sine(t * frequency) + 0.2 * sine(t * frequency * 2));
+      }
+      tone *= 0.75 + 0.25 * sine(t * 0.07);
+      // Low-passed noise whose cutoff sweeps slowly, for air
+      const cutoff = 300 + 250 * sine(t * 0.031);
+      filtered += (noise() * 2 - 1 - filtered) * (1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate));
+      output[i] = 0.42 * tone + 0.35 * filtered;
+    }
+    return output;
+  };
+}
+
+function generatedBed(name: MusicBedName, sampleRate: number): BedSource {
+  if (name === 'drone') return droneSource(sampleRate);
+  const sample = name === 'pulse' ? pulseSample : ambientSample;
+  let position = 0;
+  return length => {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++, position++) output[i] = 1.2 * sample(position / sampleRate);
+    return output;
+  };
+}
+
+// Mix the voice over the bed. The intro delays the voice, so its word
+// timings move with it. Throws when uploaded data is not a WAV file the mixer
+// can read, and the signal's reason when it is aborted.
+export async function mixMusicBed(audio: PcmAudio, music: MusicBedInput, signal?: AbortSignal): Promise<PcmAudio> {
+  const { sampleRate } = audio;
+  const bed =
+    music.bed === 'upload'
+      ? uploadedBed(Buffer.from(music.data ?? '', 'base64'), sampleRate)
+      : generatedBed(music.bed, sampleRate);
+  if (!bed) throw new Error('The music bed is not a PCM or float WAV file');
+
+  const intro = Math.round(music.intro * sampleRate);
+  const outro = Math.round(music.outro * sampleRate);
+  const total = intro + audio.sampleCount + outro;
+  const fadeIn = Math.min(Math.round(music.fadeIn * sampleRate), total);
+  const fadeOut = Math.min(Math.round(music.fadeOut * sampleRate), total);
+  const volume = dbToGain(music.volume);
+  const lookahead = Math.round(DUCK_LOOKAHEAD * sampleRate);
+  const detectorRelease = 1 - timeCoefficient(DETECTOR_RELEASE, sampleRate);
+  const attack = timeCoefficient(DUCK_ATTACK, sampleRate);
+  const release = timeCoefficient(DUCK_RELEASE, sampleRate);
+
+  // Speech with silence for the intro and outro; the detector reads across
+  // from one piece into the next
+  const pieces = [new Int16Array(intro), ...audio.chunks, new Int16Array(outro)];
+  const chunks: Int16Array[] = [];
+  let position = 0;
+  let envelope = 0;
+  let ducking = 0; // dB
+
+  for (let p = 0; p < pieces.length; p++) {
+    const speech = pieces[p];
+    const next = pieces[p + 1];
+    const bedSamples = bed(speech.length);
+    const output = new Int16Array(speech.length);
+
+    for (let i = 0; i < speech.length; i++, position++) {
+      const ahead = i + lookahead;
+      const upcoming = ahead < speech.length ? speech[ahead] : next && ahead - speech.length < next.length ? next[ahead - speech.length] : 0;
+      const level = Math.abs(upcoming) / 32768;
+      envelope = level > envelope ? level : envelope * detectorRelease;
+
+      const amount = Math.max(0, Math.min(1, (gainToDb(envelope) - DUCK_THRESHOLD) / DUCK_KNEE));
+      const target = amount * music.ducking;
+      ducking += (target - ducking) * (target > ducking ? attack : release);
+
+      let fade = 1;
+      if (position < fadeIn) fade = Math.sin((Math.PI / 2) * (position / fadeIn));
+      if (total - position <= fadeOut) fade *= Math.sin((Math.PI / 2) * ((total - position) / fadeOut));
+
+      const mixed = speech[i] + bedSamples[i] * volume * dbToGain(-ducking) * fade * 32767;
+      output[i] = Math.max(-32768, Math.min(32767, Math.round(mixed)));
+    }
+
+    if (output.length > 0) chunks.push(output);
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+  }
+
+  const offset = intro / sampleRate;
+  return {
+    chunks,
+    sampleRate,
+    sampleCount: total,
+    duration: total / sampleRate,
+    words: audio.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset }))
+  };
+}
@@ -0,0 +1,125 @@
+// Ogg container writer
+//
+// Packets are laced into pages of up to 255 segments (RFC 3533). A page may
+// be flushed early so headers sit on pages of their own, as Ogg Opus
+// requires, and a packet larger than one page continues on the next. Each
+// page carries the granule position of the last packet that ends on it, or
+// -1 when none does.
+
+export interface OggWriter {
+  writePacket(data: Uint8Array, granulePosition: number, flush?: boolean): void;
+  flush(): void;
+  finish(): Uint8Array[];
+}
+
+const HEADER_SIZE = 27;
+const MAX_SEGMENTS = 255;
+
+const CONTINUED_PACKET = 0x01;
+const BEGINNING_OF_STREAM = 0x02;
+const END_OF_STREAM = 0x04;
+
+// CRC-32 with polynomial 0x04c11db7, unreflected and with no final xor
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ page[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function sealPage(page: Uint8Array): void {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  view.setUint32(22, 0, true);
+  view.setUint32(22, oggCrc(page), true);
+}
+
+export function createOggWriter(serialNumber: number): OggWriter {
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+  let segments: number[] = [];
+  let body: Uint8Array[] = [];
+  let bodyLength = 0;
+  let pageGranule = -1;
+  let continued = false;
+
+  const flushPage = (last: boolean) => {
+    if (segments.length === 0) return;
+
+    const page = new Uint8Array(HEADER_SIZE + segments.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    page[4] = 0; // version
+    page[5] = (continued ? CONTINUED_PACKET : 0) | (sequence === 0 ? BEGINNING_OF_STREAM : 0) | (last ? END_OF_STREAM : 0);
+    view.setBigInt64(6, BigInt(pageGranule), true);
+    view.setUint32(14, serialNumber >>> 0, true);
+    view.setUint32(18, sequence++, true);
+    page[26] = segments.length;
+    page.set(segments, HEADER_SIZE);
+    let offset = HEADER_SIZE + segments.length;
+    for (const part of body) {
+      page.set(part, offset);
+      offset += part.length;
+    }
+    sealPage(page);
+    pages.push(page);
+
+    segments = [];
+    body = [];
+    bodyLength = 0;
+    pageGranule = -1;
+  };
+
+  return {
+    writePacket(data, granulePosition, flush = false) {
+      // A packet is laced as 255-byte segments and a shorter final one,
+      // which is empty when the length is a multiple of 255
+      const count = Math.floor(data.length / 255) + 1;
+      for (let index = 0; index < count; index++) {
+        if (segments.length === MAX_SEGMENTS) {
+          flushPage(false);
+          continued = index > 0;
+        }
+        const start = index * 255;
+        const size = index < count - 1 ? 255 : data.length - start;
+        segments.push(size);
+        body.push(data.subarray(start, start + size));
+        bodyLength += size;
+      }
+      pageGranule = granulePosition;
+      if (flush) {
+        flushPage(false);
+        continued = false;
+      }
+    },
+
+    flush() {
+      flushPage(false);
+      continued = false;
+    },
+
+    // Close the stream, marking its last page
+    finish() {
+      if (segments.length > 0) {
+        flushPage(true);
+      } else if (pages.length > 0) {
+        const last = pages[pages.length - 1];
+        last[5] |= END_OF_STREAM;
+        sealPage(last);
+      }
+      return pages;
+    }
+  };
+}
@@ -0,0 +1,115 @@
+// Ogg Opus encoding
+//
+// Opus only runs at 48 kHz here, so rendered PCM is resampled first and then
+// encoded in 20 ms frames with libopus (compiled to WebAssembly) before being
+// wrapped in Ogg pages as RFC 7845 describes: an OpusHead page, an OpusTags
+// page, then audio pages of about a second each.
+
+import OpusScript from 'opusscript';
+import { PcmAudio } from './long-form';
+import { vorbisCommentBody, vorbisComments } from './metadata-tags';
+import { createOggWriter } from './ogg';
+import { yieldToEventLoop } from './dsp-utils';
+import { createResampler } from './resampler';
+import { DEFAULT_OPUS_BITRATE, DEFAULT_OPUS_COMPLEXITY, OPUS_BITRATE_RANGE, OPUS_COMPLEXITY_RANGE } from '../audio-formats';
+import { AudioMetadata } from '../audio-metadata';
+
+export interface OpusOptions {
+  bitrate?: number; // kbps
+  complexity?: number; // 0 (fastest) to 10 (best)
+  metadata?: AudioMetadata;
+}
+
+const OPUS_SAMPLE_RATE = 48000;
+const FRAME_SIZE = 960; // 20 ms
+const FRAMES_PER_PAGE = 50;
+// Encoder lookahead the decoder drops from the start: 2.5 ms plus 4 ms of
+// delay compensation at 48 kHz
+const PRE_SKIP = 312;
+const OPUS_SET_COMPLEXITY = 4010;
+const VENDOR = 'libopus (opusscript)';
+
+function opusHead(inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family
+  return head;
+}
+
+function opusTags(metadata?: AudioMetadata): Uint8Array {
+  const body = vorbisCommentBody(VENDOR, metadata ? vorbisComments(metadata) : []);
+  const tags = new Uint8Array(8 + body.length);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  tags.set(body, 8);
+  return tags;
+}
+
+// Encode PCM audio to an Ogg Opus file
+export async function encodeOpus(audio: PcmAudio, options: OpusOptions = {}): Promise<Blob> {
+  const [minBitrate, maxBitrate] = OPUS_BITRATE_RANGE;
+  const bitrate = Math.max(minBitrate, Math.min(maxBitrate, options.bitrate ?? DEFAULT_OPUS_BITRATE));
+  const [minComplexity, maxComplexity] = OPUS_COMPLEXITY_RANGE;
+  const complexity = Math.max(minComplexity, Math.min(maxComplexity, Math.round(options.complexity ?? DEFAULT_OPUS_COMPLEXITY)));
+
+  const encoder = new OpusScript(OPUS_SAMPLE_RATE, 1, OpusScript.Application.AUDIO);
+  encoder.setBitrate(bitrate * 1000);
+  encoder.encoderCTL(OPUS_SET_COMPLEXITY, complexity);
+
+  const ogg = createOggWriter(Math.floor(Math.random() * 0xffffffff));
+  ogg.writePacket(opusHead(audio.sampleRate), 0, true);
+  ogg.writePacket(opusTags(options.metadata), 0, true);
+
+  const resampler = createResampler(audio.sampleRate, OPUS_SAMPLE_RATE);
+  const frame = new Int16Array(FRAME_SIZE);
+  const frameBytes = Buffer.from(frame.buffer);
+  let filled = 0;
+  let encodedSamples = 0;
+  let outputSamples = 0;
+  // Granule positions count decoded samples, pre-skip included; the last one
+  // is capped so players trim the padding after the end of the speech
+  let granuleLimit = Infinity;
+
+  const encodeFrame = () => {
+    const packet = encoder.encode(frameBytes, FRAME_SIZE);
+    encodedSamples += FRAME_SIZE;
+    ogg.writePacket(new Uint8Array(packet), Math.min(encodedSamples, granuleLimit));
+    if ((encodedSamples / FRAME_SIZE) % FRAMES_PER_PAGE === 0) ogg.flush();
+    filled = 0;
+  };
+
+  const push = (samples: Float32Array) => {
+    outputSamples += samples.length;
+    for (let i = 0; i < samples.length; i++) {
+      frame[filled++] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+      if (filled === FRAME_SIZE) encodeFrame();
+    }
+  };
+
+  try {
+    for (const chunk of audio.chunks) {
+      const samples = new Float32Array(chunk.length);
+      for (let i = 0; i < chunk.length; i++) samples[i] = chunk[i] / 32768;
+      push(resampler.process(samples));
+      await yieldToEventLoop();
+    }
+    push(resampler.flush());
+
+    // Feed silence until the lookahead has pushed the last real sample out
+    granuleLimit = outputSamples + PRE_SKIP;
+    while (encodedSamples < granuleLimit) {
+      frame.fill(0, filled);
+      filled = FRAME_SIZE;
+      encodeFrame();
+    }
+
+    return new Blob(ogg.finish(), { type: 'audio/ogg; codecs=opus' });
+  } finally {
+    encoder.delete();
+  }
+}
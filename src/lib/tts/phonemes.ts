@@ -0,0 +1,205 @@
+// Phoneme inventory for the formant synthesizer (ARPAbet symbols)
+//
+// Formant targets follow the adult male values from Klatt (1980) and
+// durations follow Klatt (1979). Amplitudes are in dB on the synthesizer's
+// own scale, where 60 dB corresponds to a unit-amplitude source.
+
+export type PhonemeKind =
+  | 'vowel'
+  | 'diphthong'
+  | 'approximant'
+  | 'nasal'
+  | 'fricative'
+  | 'plosive'
+  | 'affricate'
+  | 'aspirate';
+
+export type FormantSet = [number, number, number];
+
+export interface FricationSpec {
+  af: number;   // noise source amplitude
+  a2: number;   // parallel formant amplitudes
+  a3: number;
+  a4: number;
+  a5: number;
+  a6: number;
+  ab: number;   // bypass (flat spectrum) amplitude
+  f6?: number;  // centre of the highest parallel resonator, Hz
+}
+
+export interface PhonemeSpec {
+  symbol: string;
+  kind: PhonemeKind;
+  voiced: boolean;
+  inherentDuration: number; // ms
+  minDuration: number;      // ms
+  formants: FormantSet;
+  bandwidths: FormantSet;
+  glide?: FormantSet;       // off-glide target for diphthongs
+  nasal?: boolean;
+  frication?: FricationSpec;
+  burst?: FricationSpec;
+  aspiration?: number;      // ms of aspiration after a voiceless release
+}
+
+export const NO_FRICATION: FricationSpec = { af: 0, a2: 0, a3: 0, a4: 0, a5: 0, a6: 0, ab: 0 };
+
+const vowel = (
+  symbol: string,
+  inherentDuration: number,
+  minDuration: number,
+  formants: FormantSet,
+  bandwidths: FormantSet,
+  glide?: FormantSet
+): PhonemeSpec => ({
+  symbol,
+  kind: glide ? 'diphthong' : 'vowel',
+  voiced: true,
+  inherentDuration,
+  minDuration,
+  formants,
+  bandwidths,
+  glide
+});
+
+const PHONEME_LIST: PhonemeSpec[] = [
+  // Monophthongs
+  vowel('IY', 155, 55, [310, 2020, 2960], [45, 200, 400]),
+  vowel('IH', 135, 40, [400, 1800, 2570], [50, 100, 140]),
+  vowel('EH', 150, 70, [530, 1680, 2500], [60, 90, 200]),
+  vowel('AE', 230, 80, [620, 1660, 2430], [70, 150, 320]),
+  vowel('AA', 240, 100, [700, 1220, 2600], [130, 70, 160]),
+  vowel('AO', 240, 100, [600, 990, 2570], [90, 100, 80]),
+  vowel('AH', 140, 60, [620, 1220, 2550], [80, 50, 140]),
+  vowel('AX', 120, 55, [500, 1400, 2300], [100, 60, 110]),
+  vowel('UH', 160, 60, [450, 1100, 2350], [80, 100, 80]),
+  vowel('UW', 210, 70, [350, 1250, 2200], [65, 110, 140], [320, 900, 2200]),
+  vowel('ER', 180, 80, [470, 1270, 1540], [100, 60, 110], [420, 1310, 1540]),
+
+  // Diphthongs
+  vowel('EY', 180, 100, [480, 1720, 2520], [70, 100, 200], [330, 2200, 2600]),
+  vowel('AY', 250, 150, [660, 1200, 2550], [100, 70, 200], [400, 1880, 2500]),
+  vowel('AW', 260, 100, [640, 1230, 2550], [80, 70, 140], [420, 940, 2350]),
+  vowel('OY', 280, 150, [550, 960, 2400], [80, 50, 130], [360, 1820, 2450]),
+  vowel('OW', 220, 80, [540, 1100, 2300], [80, 70, 70], [450, 900, 2300]),
+
+  // Approximants
+  { symbol: 'W', kind: 'approximant', voiced: true, inherentDuration: 80, minDuration: 60, formants: [290, 610, 2150], bandwidths: [50, 80, 60] },
+  { symbol: 'Y', kind: 'approximant', voiced: true, inherentDuration: 80, minDuration: 40, formants: [260, 2070, 3020], bandwidths: [40, 250, 500] },
+  { symbol: 'R', kind: 'approximant', voiced: true, inherentDuration: 80, minDuration: 30, formants: [310, 1060, 1380], bandwidths: [70, 100, 120] },
+  { symbol: 'L', kind: 'approximant', voiced: true, inherentDuration: 80, minDuration: 40, formants: [310, 1050, 2880], bandwidths: [50, 100, 280] },
+
+  // Nasals
+  { symbol: 'M', kind: 'nasal', voiced: true, inherentDuration: 70, minDuration: 60, formants: [480, 1270, 2130], bandwidths: [40, 200, 200], nasal: true },
+  { symbol: 'N', kind: 'nasal', voiced: true, inherentDuration: 60, minDuration: 50, formants: [480, 1340, 2470], bandwidths: [40, 300, 300], nasal: true },
+  { symbol: 'NG', kind: 'nasal', voiced: true, inherentDuration: 95, minDuration: 60, formants: [480, 2000, 2900], bandwidths: [40, 300, 300], nasal: true },
+
+  // Fricatives
+  {
+    symbol: 'F', kind: 'fricative', voiced: false, inherentDuration: 100, minDuration: 80,
+    formants: [340, 1100, 2080], bandwidths: [200, 120, 150],
+    frication: { af: 54, a2: 0, a3: 0, a4: 0, a5: 0, a6: 0, ab: 46 }
+  },
+  {
+    symbol: 'V', kind: 'fricative', voiced: true, inherentDuration: 60, minDuration: 40,
+    formants: [220, 1100, 2080], bandwidths: [60, 90, 120],
+    frication: { af: 46, a2: 0, a3: 0, a4: 0, a5: 0, a6: 0, ab: 50 }
+  },
+  {
+    symbol: 'TH', kind: 'fricative', voiced: false, inherentDuration: 90, minDuration: 60,
+    formants: [320, 1290, 2540], bandwidths: [200, 90, 200],
+    frication: { af: 54, a2: 0, a3: 0, a4: 0, a5: 0, a6: 36, ab: 44 }
+  },
+  {
+    symbol: 'DH', kind: 'fricative', voiced: true, inherentDuration: 50, minDuration: 30,
+    formants: [270, 1290, 2540], bandwidths: [60, 80, 170],
+    frication: { af: 44, a2: 0, a3: 0, a4: 0, a5: 0, a6: 30, ab: 44 }
+  },
+  {
+    symbol: 'S', kind: 'fricative', voiced: false, inherentDuration: 105, minDuration: 60,
+    formants: [320, 1390, 2530], bandwidths: [200, 80, 200],
+    frication: { af: 60, a2: 0, a3: 0, a4: 0, a5: 46, a6: 56, ab: 0, f6: 6200 }
+  },
+  {
+    symbol: 'Z', kind: 'fricative', voiced: true, inherentDuration: 75, minDuration: 40,
+    formants: [240, 1390, 2530], bandwidths: [70, 60, 180],
+    frication: { af: 52, a2: 0, a3: 0, a4: 0, a5: 44, a6: 52, ab: 0, f6: 6000 }
+  },
+  {
+    symbol: 'SH', kind: 'fricative', voiced: false, inherentDuration: 105, minDuration: 80,
+    formants: [300, 1840, 2750], bandwidths: [200, 100, 300],
+    frication: { af: 60, a2: 0, a3: 60, a4: 60, a5: 50, a6: 40, ab: 0 }
+  },
+  {
+    symbol: 'ZH', kind: 'fricative', voiced: true, inherentDuration: 70, minDuration: 40,
+    formants: [280, 1820, 2740], bandwidths: [70, 100, 300],
+    frication: { af: 52, a2: 0, a3: 50, a4: 52, a5: 44, a6: 36, ab: 0 }
+  },
+  {
+    symbol: 'HH', kind: 'aspirate', voiced: false, inherentDuration: 80, minDuration: 20,
+    formants: [500, 1500, 2500], bandwidths: [300, 200, 300]
+  },
+
+  // Plosives: formants are the consonant loci, bursts excite the parallel branch
+  {
+    symbol: 'P', kind: 'plosive', voiced: false, inherentDuration: 85, minDuration: 50,
+    formants: [400, 1100, 2150], bandwidths: [300, 150, 220],
+    burst: { af: 58, a2: 0, a3: 0, a4: 0, a5: 0, a6: 0, ab: 54 }, aspiration: 45
+  },
+  {
+    symbol: 'B', kind: 'plosive', voiced: true, inherentDuration: 85, minDuration: 60,
+    formants: [200, 1100, 2150], bandwidths: [60, 110, 130],
+    burst: { af: 52, a2: 0, a3: 0, a4: 0, a5: 0, a6: 0, ab: 50 }
+  },
+  {
+    symbol: 'T', kind: 'plosive', voiced: false, inherentDuration: 75, minDuration: 50,
+    formants: [400, 1600, 2600], bandwidths: [300, 120, 250],
+    burst: { af: 60, a2: 0, a3: 0, a4: 46, a5: 52, a6: 54, ab: 0, f6: 5200 }, aspiration: 50
+  },
+  {
+    symbol: 'D', kind: 'plosive', voiced: true, inherentDuration: 75, minDuration: 50,
+    formants: [200, 1600, 2600], bandwidths: [60, 100, 170],
+    burst: { af: 54, a2: 0, a3: 0, a4: 44, a5: 48, a6: 50, ab: 0, f6: 5000 }
+  },
+  {
+    symbol: 'K', kind: 'plosive', voiced: false, inherentDuration: 80, minDuration: 60,
+    formants: [300, 1990, 2850], bandwidths: [250, 160, 330],
+    burst: { af: 60, a2: 0, a3: 58, a4: 50, a5: 40, a6: 0, ab: 0 }, aspiration: 55
+  },
+  {
+    symbol: 'G', kind: 'plosive', voiced: true, inherentDuration: 80, minDuration: 60,
+    formants: [200, 1990, 2850], bandwidths: [60, 150, 280],
+    burst: { af: 54, a2: 0, a3: 54, a4: 46, a5: 36, a6: 0, ab: 0 }
+  },
+
+  // Affricates: a stop closure released into a fricative
+  {
+    symbol: 'CH', kind: 'affricate', voiced: false, inherentDuration: 70, minDuration: 50,
+    formants: [350, 1800, 2820], bandwidths: [200, 90, 300],
+    frication: { af: 60, a2: 0, a3: 54, a4: 56, a5: 48, a6: 40, ab: 0 }
+  },
+  {
+    symbol: 'JH', kind: 'affricate', voiced: true, inherentDuration: 70, minDuration: 50,
+    formants: [260, 1800, 2820], bandwidths: [60, 80, 270],
+    frication: { af: 52, a2: 0, a3: 50, a4: 52, a5: 44, a6: 36, ab: 0 }
+  }
+];
+
+export const PHONEMES: Record<string, PhonemeSpec> = Object.fromEntries(
+  PHONEME_LIST.map(spec => [spec.symbol, spec])
+);
+
+// Check whether a symbol (with or without a stress digit) is a known phoneme
+export function isPhoneme(symbol: string): boolean {
+  return stripStress(symbol) in PHONEMES;
+}
+
+// Remove the ARPAbet stress digit from a vowel symbol ("AH1" -> "AH")
+export function stripStress(symbol: string): string {
+  return symbol.replace(/[012]$/, '');
+}
+
+export function isVowel(symbol: string): boolean {
+  const spec = PHONEMES[stripStress(symbol)];
+  return !!spec && (spec.kind === 'vowel' || spec.kind === 'diphthong');
+}
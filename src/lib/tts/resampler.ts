@@ -0,0 +1,133 @@
+// Sample-rate conversion
+//
+// A polyphase windowed-sinc resampler for any pair of integer rates. The
+// rates are reduced to a ratio up/down; output sample n sits at input position
+// n * down / up, and each of the up fractional positions gets its own
+// Kaiser-windowed sinc kernel. The cutoff follows the lower of the two
+// Nyquist frequencies so downsampling does not alias.
+//
+// Input arrives in pieces (one per rendered part), so the resampler keeps
+// enough history to filter across the joins.
+
+export interface Resampler {
+  process(input: Float32Array): Float32Array;
+  flush(): Float32Array;
+}
+
+const HALF_TAPS = 16;
+const KAISER_BETA = 8.6;
+const PASSBAND = 0.94; // share of the lower Nyquist frequency kept
+
+function gcd(a: number, b: number): number {
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+// Zeroth-order modified Bessel function of the first kind
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+// One kernel per output phase, each normalized to unity gain at DC
+function createKernels(up: number, halfTaps: number, cutoff: number): Float32Array {
+  const taps = halfTaps * 2;
+  const kernels = new Float32Array(up * taps);
+  const windowScale = besselI0(KAISER_BETA);
+
+  for (let phase = 0; phase < up; phase++) {
+    let sum = 0;
+    for (let j = 0; j < taps; j++) {
+      const distance = j - halfTaps + 1 - phase / up;
+      const ratio = distance / halfTaps;
+      const window = Math.abs(ratio) < 1 ? besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / windowScale : 0;
+      const value = cutoff * sinc(cutoff * distance) * window;
+      kernels[phase * taps + j] = value;
+      sum += value;
+    }
+    for (let j = 0; j < taps; j++) kernels[phase * taps + j] /= sum;
+  }
+
+  return kernels;
+}
+
+export function createResampler(fromRate: number, toRate: number): Resampler {
+  if (fromRate === toRate) {
+    return { process: input => input, flush: () => new Float32Array(0) };
+  }
+
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+  const scale = Math.min(1, toRate / fromRate);
+  // Downsampling widens the kernel to keep the transition band narrow
+  const halfTaps = Math.ceil(HALF_TAPS / scale);
+  const taps = halfTaps * 2;
+  const kernels = createKernels(up, halfTaps, scale * PASSBAND);
+
+  // Buffered input, starting with the zeros that precede the signal
+  let buffer = new Float32Array(halfTaps - 1);
+  let bufferStart = -(halfTaps - 1); // input index of buffer[0]
+  let received = 0;
+  let produced = 0;
+
+  const append = (input: Float32Array) => {
+    const joined = new Float32Array(buffer.length + input.length);
+    joined.set(buffer);
+    joined.set(input, buffer.length);
+    buffer = joined;
+  };
+
+  // Produce every output sample whose kernel lies within the buffered input
+  const run = (limit: number): Float32Array => {
+    const available = bufferStart + buffer.length;
+    const capacity = Math.max(0, Math.ceil(((available - halfTaps + 1) * up) / down) - produced + 1);
+    const output = new Float32Array(Math.min(capacity, limit - produced));
+    let count = 0;
+
+    while (produced < limit && count < output.length) {
+      const position = produced * down;
+      const index = Math.floor(position / up);
+      if (index + halfTaps >= available) break;
+
+      const phase = position - index * up;
+      const kernel = phase * taps;
+      const offset = index - halfTaps + 1 - bufferStart;
+      let sum = 0;
+      for (let j = 0; j < taps; j++) sum += buffer[offset + j] * kernels[kernel + j];
+      output[count++] = sum;
+      produced++;
+    }
+
+    // Keep only the input the next kernel still needs
+    const next = Math.floor((produced * down) / up) - halfTaps + 1;
+    if (next > bufferStart) {
+      buffer = buffer.slice(next - bufferStart);
+      bufferStart = next;
+    }
+
+    return output.subarray(0, count);
+  };
+
+  return {
+    process(input) {
+      append(input);
+      received += input.length;
+      return run(Infinity);
+    },
+    flush() {
+      append(new Float32Array(halfTaps + 1));
+      return run(Math.ceil((received * up) / down));
+    }
+  };
+}
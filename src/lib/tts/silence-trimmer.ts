@@ -0,0 +1,147 @@
+// Silence trimming
+//
+// Finds the silences in rendered speech and shortens them: the one before
+// the first word and the one after the last are cut down to the padding, and
+// any other longer than the maximum loses its middle, so what is left fades
+// out of one word and into the next as before. A level follower with a short
+// release decides what is silent, so the gaps between syllables never count.
+//
+// Audio is fed in chunks and a silence may span several, so each silence is
+// held back until the sound after it, or the end, shows what kind it is.
+
+import { PcmAudio } from './long-form';
+import { dbToGain } from './dsp-utils';
+import { SilenceSettings } from '../silence';
+
+export interface SilenceTrimmer {
+  process(chunk: Int16Array): Int16Array; // the audio that can be sent so far
+  finish(): Int16Array; // the silence held back at the end
+  cuts: SilenceCut[];
+}
+
+// A stretch of the input left out of the output, in samples
+export interface SilenceCut {
+  position: number;
+  length: number;
+}
+
+const DETECTOR_RELEASE = 0.01; // seconds
+
+function join(pieces: Int16Array[]): Int16Array {
+  if (pieces.length === 1) return pieces[0];
+  const joined = new Int16Array(pieces.reduce((total, piece) => total + piece.length, 0));
+  let offset = 0;
+  for (const piece of pieces) {
+    joined.set(piece, offset);
+    offset += piece.length;
+  }
+  return joined;
+}
+
+export function createSilenceTrimmer(settings: SilenceSettings, sampleRate: number): SilenceTrimmer {
+  const threshold = dbToGain(settings.threshold) * 32768;
+  const decay = Math.exp(-1 / (DETECTOR_RELEASE * sampleRate));
+  const padding = Math.round(settings.padding * sampleRate);
+  const maxSilence = settings.maxSilence === null ? null : Math.round(settings.maxSilence * sampleRate);
+  const cuts: SilenceCut[] = [];
+
+  let envelope = 0;
+  let position = 0; // input samples seen
+  let heardSound = false;
+  let silence: Int16Array[] = []; // held back, as views of the input
+  let silenceStart = 0;
+  let silenceLength = 0;
+
+  // Let out a held silence once the sound after it, or the end, arrives
+  const releaseSilence = (atEnd: boolean): Int16Array[] => {
+    if (silenceLength === 0) return [];
+    const samples = join(silence);
+    silence = [];
+    const length = silenceLength;
+    silenceLength = 0;
+
+    let keep: [number, number][] = [[0, length]];
+    if (!heardSound && settings.trimStart) {
+      keep = [[Math.max(0, length - padding), length]];
+      if (atEnd && settings.trimEnd) keep = [[0, Math.min(length, padding)]];
+    } else if (atEnd && settings.trimEnd) {
+      keep = [[0, Math.min(length, padding)]];
+    } else if (heardSound && !atEnd && maxSilence !== null && length > maxSilence) {
+      const half = Math.floor(maxSilence / 2);
+      keep = [[0, half], [length - (maxSilence - half), length]];
+    }
+
+    const kept: Int16Array[] = [];
+    let cursor = 0;
+    for (const [start, end] of keep) {
+      if (start > cursor) cuts.push({ position: silenceStart + cursor, length: start - cursor });
+      if (end > start) kept.push(samples.subarray(start, end));
+      cursor = end;
+    }
+    if (cursor < length) cuts.push({ position: silenceStart + cursor, length: length - cursor });
+    return kept;
+  };
+
+  return {
+    cuts,
+    process(chunk) {
+      const output: Int16Array[] = [];
+      let runStart = 0;
+      let runSilent: boolean | null = null;
+
+      const endRun = (end: number) => {
+        if (runSilent === null || end === runStart) return;
+        const run = chunk.subarray(runStart, end);
+        if (runSilent) {
+          if (silenceLength === 0) silenceStart = position + runStart;
+          silence.push(run);
+          silenceLength += run.length;
+        } else {
+          output.push(...releaseSilence(false), run);
+          heardSound = true;
+        }
+      };
+
+      for (let i = 0; i < chunk.length; i++) {
+        const level = Math.abs(chunk[i]);
+        envelope = level > envelope ? level : envelope * decay;
+        const silent = envelope < threshold;
+        if (silent !== runSilent) {
+          endRun(i);
+          runStart = i;
+          runSilent = silent;
+        }
+      }
+      endRun(chunk.length);
+      position += chunk.length;
+      return output.length > 0 ? join(output) : new Int16Array(0);
+    },
+    finish() {
+      const kept = releaseSilence(true);
+      return kept.length > 0 ? join(kept) : new Int16Array(0);
+    }
+  };
+}
+
+// Where a moment of the input ends up once the cuts are made, in seconds
+function trimmedTime(seconds: number, cuts: SilenceCut[], sampleRate: number): number {
+  const sample = seconds * sampleRate;
+  let removed = 0;
+  for (const cut of cuts) {
+    if (cut.position >= sample) break;
+    removed += Math.min(cut.length, sample - cut.position);
+  }
+  return (sample - removed) / sampleRate;
+}
+
+export function trimSilence(audio: PcmAudio, settings: SilenceSettings): PcmAudio {
+  const trimmer = createSilenceTrimmer(settings, audio.sampleRate);
+  const chunks = [...audio.chunks.map(chunk => trimmer.process(chunk)), trimmer.finish()].filter(chunk => chunk.length > 0);
+  const sampleCount = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const words = audio.words.map(word => ({
+    ...word,
+    start: trimmedTime(word.start, trimmer.cuts, audio.sampleRate),
+    end: trimmedTime(word.end, trimmer.cuts, audio.sampleRate)
+  }));
+  return { ...audio, chunks, sampleCount, duration: sampleCount / audio.sampleRate, words };
+}
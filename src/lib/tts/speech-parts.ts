@@ -0,0 +1,132 @@
+// Speech request rendering
+//
+// Turns the text, SSML or dialogue script of an API request into the parts
+// long-form rendering synthesizes one at a time. Audio and caption requests
+// share it, so captions are timed against exactly the audio a download would
+// contain.
+
+import { renderSpeech, renderSsml, RenderedSpeech } from './speech-renderer';
+import { gapForPause, LongFormPart } from './long-form';
+import { normalizeText, toSourceRange } from '../text-normalizer';
+import { chunkText, RENDER_CHUNK_LENGTH } from '../text-chunker';
+import { normalizeSsml, parseSsml, splitSsmlDocument, InputFormat } from '../ssml';
+import { castVoice, DEFAULT_TURN_GAP, parseScript, SpeakerVoiceInput } from '../dialogue-script';
+import { DEFAULT_PAUSES, PauseSettings } from '../silence';
+
+export interface AudioSettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceName?: string;
+  locale?: string;
+}
+
+// Clamp request values to what the renderer supports
+export function resolveAudioSettings(input: { rate: number; pitch: number; volume: number; voiceName?: string; locale?: unknown }): AudioSettings {
+  return {
+    rate: Math.max(0.1, Math.min(10, input.rate)),
+    pitch: Math.max(0, Math.min(2, input.pitch)),
+    volume: Math.max(0, Math.min(1, input.volume)),
+    voiceName: input.voiceName,
+    locale: typeof input.locale === 'string' ? input.locale : undefined
+  };
+}
+
+// Voices by speaker name and the pause between turns, for script input
+export interface ScriptSettings {
+  cast: Record<string, AudioSettings>;
+  turnGap: number; // seconds
+}
+
+// Each speaker's voice, with the request's settings filling in what a speaker
+// leaves out
+export function resolveScriptSettings(
+  speakers: Record<string, SpeakerVoiceInput> | undefined,
+  turnGap: number | undefined,
+  base: AudioSettings
+): ScriptSettings {
+  const cast: Record<string, AudioSettings> = {};
+  for (const [name, voice] of Object.entries(speakers ?? {})) {
+    cast[name] = resolveAudioSettings({
+      rate: voice.rate ?? base.rate,
+      pitch: voice.pitch ?? base.pitch,
+      volume: voice.volume ?? base.volume,
+      voiceName: voice.voiceName ?? base.voiceName,
+      locale: voice.locale ?? base.locale
+    });
+  }
+  return { cast, turnGap: turnGap ?? DEFAULT_TURN_GAP };
+}
+
+const SENTENCE_FINAL = /[.!?]["'”’)\]]*$/;
+
+// Split the input into parts that are synthesized one at a time
+export function buildParts(
+  text: string,
+  format: InputFormat,
+  settings: AudioSettings,
+  script: ScriptSettings = { cast: {}, turnGap: DEFAULT_TURN_GAP },
+  chunkLength = RENDER_CHUNK_LENGTH,
+  pauses: PauseSettings = DEFAULT_PAUSES
+): LongFormPart[] {
+  // Expand numbers, dates and abbreviations into words
+  const normalization = { locale: settings.locale };
+
+  if (format === 'ssml') {
+    const document = parseSsml(text, normalization);
+    return splitSsmlDocument(document, chunkLength).map(piece => {
+      const last = piece.segments[piece.segments.length - 1];
+      const sentenceEnd = last?.type === 'text' && SENTENCE_FINAL.test(last.text.trim());
+      return {
+        render: () => renderSsml(normalizeSsml(piece, normalization), settings, { pauses }),
+        pauseAfter: sentenceEnd ? gapForPause(pauses.sentence) / settings.rate : 0
+      };
+    });
+  }
+
+  // Each turn is plain text in its speaker's voice, followed by the turn gap
+  // rather than a paragraph pause
+  if (format === 'script') {
+    return parseScript(text).turns.flatMap(turn => {
+      const voice = castVoice(script.cast, turn.speaker) ?? settings;
+      const parts = buildTextParts(turn.text, turn.start, voice, chunkLength, pauses);
+      if (parts.length > 0) parts[parts.length - 1].pauseAfter = script.turnGap;
+      return parts;
+    });
+  }
+
+  return buildTextParts(text, 0, settings, chunkLength, pauses);
+}
+
+// Plain text parts, with word ranges offset into the request text
+function buildTextParts(
+  text: string,
+  offset: number,
+  settings: AudioSettings,
+  chunkLength: number,
+  pauses: PauseSettings
+): LongFormPart[] {
+  const normalization = { locale: settings.locale };
+
+  return chunkText(text, { maxLength: chunkLength }).map(chunk => {
+    let pauseAfter = 0;
+    if (chunk.paragraphEnd) pauseAfter = gapForPause(pauses.paragraph);
+    else if (SENTENCE_FINAL.test(chunk.text)) pauseAfter = gapForPause(pauses.sentence);
+    return {
+      render: (): RenderedSpeech => {
+        const normalized = normalizeText(chunk.text, normalization);
+        const rendered = renderSpeech(normalized.text, settings, { pauses });
+        // Point word ranges back at the request text rather than the chunk's
+        // normalized form
+        const words = rendered.words.map(word => {
+          if (!word.range) return word;
+          const range = toSourceRange(normalized, word.range.start, word.range.end);
+          const start = offset + chunk.start;
+          return { ...word, range: { start: start + range.start, end: start + range.end } };
+        });
+        return { ...rendered, words };
+      },
+      pauseAfter: pauseAfter / settings.rate
+    };
+  });
+}
@@ -0,0 +1,665 @@
+// Rule-based text-to-speech renderer
+//
+// Text is split into phrases and words, transcribed to phonemes, timed with
+// Klatt's duration rules, given an intonation contour and finally turned into
+// formant-synthesizer parameter frames. SSML documents go through the same
+// pipeline with per-word rate, pitch, volume and emphasis.
+
+import { dbToGain } from './dsp-utils';
+import { KlattFrame, KlattSynthesizer } from './klatt-synthesizer';
+import { FormantSet, FricationSpec, NO_FRICATION, PHONEMES, PhonemeSpec, stripStress } from './phonemes';
+import { pronounceWord, spellWord } from './g2p';
+import { resolveVoiceProfile, VoiceProfile } from './voices';
+import type { EmphasisLevel, SsmlDocument } from '../ssml';
+import type { TextRange } from '../text-chunker';
+import { DEFAULT_PAUSES, PauseSettings } from '../silence';
+
+export interface SpeechSettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceName?: string;
+}
+
+export interface RenderOptions {
+  sampleRate?: number;
+  pauses?: PauseSettings; // after commas, sentences and paragraphs
+}
+
+// When a word is heard, in seconds from the start of the rendered audio
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+  range?: TextRange; // position in the rendered text; plain text input only
+  sentenceEnd: boolean;
+}
+
+export interface RenderedSpeech {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+  words: WordTiming[];
+}
+
+export const DEFAULT_SAMPLE_RATE = 44100;
+
+const FRAME_DURATION = 0.005;
+const EDGE_SILENCE = 0.1;
+const PEAK_LEVEL = 0.9;
+
+function pauseDurations(pauses: PauseSettings): Record<Boundary, number> {
+  return {
+    none: 0,
+    comma: pauses.comma,
+    period: pauses.sentence,
+    question: pauses.sentence,
+    exclamation: pauses.sentence,
+    paragraph: pauses.paragraph
+  };
+}
+
+const PAUSE_DURATIONS = pauseDurations(DEFAULT_PAUSES);
+
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'it', 'as', 'that', 'than', 'he', 'she', 'we',
+  'they', 'you', 'i', 'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'its', 'our', 'their',
+  'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would', 'can', 'could', 'shall', 'should',
+  'may', 'might', 'must', 'so', 'if', 'into', 'nor'
+]);
+
+const EMPHASIS_ACCENT: Record<EmphasisLevel, number> = {
+  strong: 1,
+  moderate: 0.5,
+  none: 0,
+  reduced: -1
+};
+
+type Boundary = 'none' | 'comma' | 'period' | 'question' | 'exclamation' | 'paragraph';
+
+// Prosody multipliers from SSML; emphasis adds to the pitch accent
+interface WordStyle {
+  rate: number;
+  pitch: number;
+  volume: number;
+  emphasis: number;
+}
+
+const PLAIN_STYLE: WordStyle = { rate: 1, pitch: 1, volume: 1, emphasis: 0 };
+
+interface PhraseWord {
+  text: string;
+  phonemes: string[];
+  style: WordStyle;
+  range?: TextRange;
+}
+
+interface Phrase {
+  words: PhraseWord[];
+  boundary: Boundary;
+  pause?: number; // explicit pause from an SSML break, in seconds
+}
+
+interface PhraseList {
+  phrases: Phrase[];
+  leadingPause: number;
+}
+
+interface Segment {
+  spec: PhonemeSpec;
+  stress: number;
+  duration: number;
+  wordIndex: number;
+  wordInitial: boolean;
+  functionWord: boolean;
+  style: WordStyle;
+}
+
+interface Phase {
+  duration: number;
+  formants: FormantSet;
+  bandwidths: FormantSet;
+  glide?: FormantSet;
+  transitionIn: number;
+  coarticulateOut: boolean;
+  nasality: number;
+  av: number;
+  ah: number;
+  af: number;
+  parallel: FricationSpec;
+  accent: number;
+  pitch: number;
+  gain: number; // dB added to the source amplitudes
+  phraseIndex: number;
+  wordIndex: number; // within the phrase, or -1 for pauses
+}
+
+// Formant state carried across phase boundaries: F1-F3, B1-B3 and nasality
+type TractState = [number, number, number, number, number, number, number];
+
+const NEUTRAL_FORMANTS: FormantSet = [500, 1500, 2500];
+const NEUTRAL_BANDWIDTHS: FormantSet = [80, 90, 150];
+
+const SENTENCE_BOUNDARIES: Boundary[] = ['period', 'question', 'exclamation', 'paragraph'];
+
+// Collects words into intonation phrases
+function createPhraseList() {
+  const list: PhraseList = { phrases: [], leadingPause: 0 };
+  let words: PhraseWord[] = [];
+
+  const closePhrase = (boundary: Boundary) => {
+    const { phrases } = list;
+    if (words.length > 0) {
+      phrases.push({ words, boundary });
+      words = [];
+    } else if (phrases.length > 0 && boundary === 'paragraph') {
+      phrases[phrases.length - 1].boundary = 'paragraph';
+    }
+  };
+
+  // An SSML break ends the current phrase with exactly that pause
+  const addBreak = (seconds: number) => {
+    const { phrases } = list;
+    if (words.length > 0) {
+      closePhrase('comma');
+      phrases[phrases.length - 1].pause = seconds;
+    } else if (phrases.length > 0) {
+      const last = phrases[phrases.length - 1];
+      last.pause = Math.max(last.pause ?? PAUSE_DURATIONS[last.boundary], seconds);
+    } else {
+      list.leadingPause += seconds;
+    }
+  };
+
+  const addWord = (word: PhraseWord) => words.push(word);
+
+  // Split text into words and punctuation boundaries. Spelled text arrives as
+  // single letters between number words: "B two B". Words keep their range in
+  // the text when it is the whole input, so timings can point back into it
+  const addText = (text: string, style: WordStyle, spell = false, trackRanges = false) => {
+    const tokenPattern = /[A-Za-z]+(?:'[A-Za-z]+)*|[.!?]+|[,;:()–—]|\n\s*\n/g;
+    for (const match of text.matchAll(tokenPattern)) {
+      const token = match[0];
+      if (/^[A-Za-z]/.test(token)) {
+        const phonemes = spell && token.length === 1 ? spellWord(token) : pronounceWord(token).phonemes;
+        const range = trackRanges ? { start: match.index, end: match.index + token.length } : undefined;
+        addWord({ text: token, phonemes, style, range });
+      } else if (token.includes('?')) {
+        closePhrase('question');
+      } else if (token.includes('!')) {
+        closePhrase('exclamation');
+      } else if (token.includes('.')) {
+        closePhrase('period');
+      } else if (token.trim() === '') {
+        closePhrase('paragraph');
+      } else {
+        closePhrase('comma');
+      }
+    }
+  };
+
+  const finish = (): PhraseList => {
+    closePhrase('period');
+    return list;
+  };
+
+  return { addText, addWord, addBreak, finish };
+}
+
+// Split text into intonation phrases at punctuation
+function parsePhrases(text: string): PhraseList {
+  const list = createPhraseList();
+  list.addText(text, PLAIN_STYLE, false, true);
+  return list.finish();
+}
+
+// Turn SSML segments into phrases, keeping each segment's prosody
+function ssmlPhrases(document: SsmlDocument): PhraseList {
+  const list = createPhraseList();
+
+  for (const segment of document.segments) {
+    if (segment.type === 'break') {
+      list.addBreak(segment.duration);
+      continue;
+    }
+
+    const style: WordStyle = {
+      rate: segment.prosody.rate,
+      pitch: segment.prosody.pitch,
+      volume: segment.prosody.volume,
+      emphasis: EMPHASIS_ACCENT[segment.emphasis]
+    };
+    if (segment.phonemes) {
+      list.addWord({ text: segment.text.trim(), phonemes: segment.phonemes, style });
+    } else {
+      list.addText(segment.text, style, segment.spell);
+    }
+  }
+
+  return list.finish();
+}
+
+const isVocalic = (spec: PhonemeSpec) => spec.kind === 'vowel' || spec.kind === 'diphthong';
+const isObstruent = (spec: PhonemeSpec) =>
+  spec.kind === 'plosive' || spec.kind === 'affricate' || spec.kind === 'fricative';
+
+// Klatt (1979) duration rules, simplified
+function timePhrase(phrase: Phrase, rate: number): Segment[] {
+  const segments: Segment[] = [];
+
+  phrase.words.forEach((word, wordIndex) => {
+    const functionWord = FUNCTION_WORDS.has(word.text.toLowerCase());
+    word.phonemes.forEach((symbol, index) => {
+      const spec = PHONEMES[stripStress(symbol)];
+      if (!spec) return;
+      const stressDigit = /([012])$/.exec(symbol);
+      segments.push({
+        spec,
+        stress: stressDigit ? Number(stressDigit[1]) : 0,
+        duration: 0,
+        wordIndex,
+        wordInitial: index === 0,
+        functionWord,
+        style: word.style
+      });
+    });
+  });
+
+  const lastWord = phrase.words.length - 1;
+  const lastVowel = segments.reduce((last, segment, index) => (isVocalic(segment.spec) ? index : last), -1);
+
+  segments.forEach((segment, index) => {
+    const { spec } = segment;
+    const next = segments[index + 1];
+    const prev = segments[index - 1];
+    const sameWordNext = next && next.wordIndex === segment.wordIndex ? next : undefined;
+    const vowelsInWord = segments.filter(s => s.wordIndex === segment.wordIndex && isVocalic(s.spec)).length;
+    let percent = 1;
+
+    if (isVocalic(spec)) {
+      if (segment.wordIndex !== lastWord) percent *= 0.6;
+      if (vowelsInWord > 1) percent *= 0.8;
+      if (segment.stress === 0) percent *= 0.5;
+      if (segment.functionWord) percent *= 0.6;
+      if (sameWordNext && isObstruent(sameWordNext.spec)) {
+        percent *= sameWordNext.spec.voiced ? 1.2 : 0.75;
+      }
+    } else {
+      if (!segment.wordInitial) percent *= 0.85;
+      const inCluster = (prev && !isVocalic(prev.spec) && prev.wordIndex === segment.wordIndex) ||
+        (sameWordNext && !isVocalic(sameWordNext.spec));
+      if (inCluster) percent *= 0.7;
+    }
+
+    // Phrase-final lengthening of the last syllable
+    if (segment.wordIndex === lastWord && index >= lastVowel) percent *= 1.4;
+
+    const ms = spec.minDuration + (spec.inherentDuration - spec.minDuration) * percent;
+    segment.duration = Math.max(0.012, ms / 1000 / (rate * segment.style.rate));
+  });
+
+  return segments;
+}
+
+const silentPhase = (duration: number, phraseIndex: number): Phase => ({
+  duration,
+  formants: NEUTRAL_FORMANTS,
+  bandwidths: NEUTRAL_BANDWIDTHS,
+  transitionIn: 0,
+  coarticulateOut: false,
+  nasality: 0,
+  av: 0,
+  ah: 0,
+  af: 0,
+  parallel: NO_FRICATION,
+  accent: 0,
+  pitch: 1,
+  gain: 0,
+  phraseIndex,
+  wordIndex: -1
+});
+
+// Volume multiplier to a dB offset, floored so silence stays finite
+const volumeToDb = (volume: number) => Math.max(-60, 20 * Math.log10(Math.max(volume, 1e-3)));
+
+const lerpSet = (a: FormantSet, b: FormantSet, t: number): FormantSet =>
+  [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+// Expand timed segments into source/filter phases (closures, bursts, aspiration)
+function buildPhases(segments: Segment[], phraseIndex: number, baseRate: number): Phase[] {
+  const phases: Phase[] = [];
+
+  segments.forEach((segment, index) => {
+    const { spec, duration, style } = segment;
+    const prev = segments[index - 1];
+    const next = segments[index + 1];
+    const rate = baseRate * style.rate;
+    const transition = (seconds: number) => seconds / Math.max(1, Math.sqrt(rate));
+    const base: Phase = {
+      ...silentPhase(duration, phraseIndex),
+      formants: spec.formants,
+      bandwidths: spec.bandwidths,
+      pitch: style.pitch,
+      gain: volumeToDb(style.volume),
+      wordIndex: segment.wordIndex
+    };
+    // Emphasis strengthens the accent and lets function words carry one
+    const accented = segment.stress === 1 && (!segment.functionWord || style.emphasis > 0);
+
+    switch (spec.kind) {
+      case 'vowel':
+      case 'diphthong':
+        phases.push({
+          ...base,
+          glide: spec.glide,
+          transitionIn: transition(prev && !isVocalic(prev.spec) ? 0.045 : 0.03),
+          coarticulateOut: !!next && !isVocalic(next.spec),
+          av: segment.stress > 0 ? 60 : 57,
+          accent: accented ? Math.max(0, 1 + style.emphasis) : 0
+        });
+        break;
+
+      case 'approximant':
+        phases.push({ ...base, transitionIn: transition(0.03), av: 55 });
+        break;
+
+      case 'nasal':
+        phases.push({ ...base, transitionIn: transition(0.02), nasality: 1, av: 54 });
+        break;
+
+      case 'fricative': {
+        const frication = spec.frication || NO_FRICATION;
+        phases.push({
+          ...base,
+          transitionIn: transition(0.02),
+          av: spec.voiced ? 47 : 0,
+          af: frication.af,
+          parallel: frication
+        });
+        break;
+      }
+
+      case 'aspirate': {
+        // /h/ takes the vocal tract shape of the following vowel
+        const shape = next && isVocalic(next.spec) ? next.spec : spec;
+        phases.push({ ...base, formants: shape.formants, bandwidths: spec.bandwidths, ah: 50 });
+        break;
+      }
+
+      case 'plosive': {
+        const burst = spec.burst || NO_FRICATION;
+        const burstDuration = 0.01;
+        const beforePause = !next;
+        const released = next && (isVocalic(next.spec) || next.spec.kind === 'approximant');
+        const afterS = prev && prev.spec.symbol === 'S' && prev.wordIndex === segment.wordIndex;
+        const aspirated = !spec.voiced && released && !afterS && spec.aspiration;
+
+        phases.push({
+          ...base,
+          duration: Math.max(0.01, duration - burstDuration),
+          av: spec.voiced ? 40 : 0
+        });
+        phases.push({
+          ...base,
+          duration: burstDuration,
+          av: spec.voiced ? 40 : 0,
+          af: burst.af - (beforePause ? 8 : 0),
+          parallel: burst
+        });
+        if (aspirated && next) {
+          const aspiration = ((spec.aspiration || 0) / 1000) * (next.stress > 0 ? 1 : 0.6);
+          phases.push({
+            ...base,
+            duration: Math.max(0.01, aspiration / Math.sqrt(rate)),
+            formants: lerpSet(spec.formants, next.spec.formants, 0.5),
+            bandwidths: next.spec.bandwidths,
+            transitionIn: aspiration,
+            ah: 56
+          });
+        }
+        break;
+      }
+
+      case 'affricate': {
+        const frication = spec.frication || NO_FRICATION;
+        phases.push({ ...base, duration: duration * 0.5, av: spec.voiced ? 40 : 0 });
+        phases.push({
+          ...base,
+          duration: duration * 0.5,
+          av: spec.voiced ? 46 : 0,
+          af: frication.af,
+          parallel: frication
+        });
+        break;
+      }
+    }
+  });
+
+  return phases;
+}
+
+// Vocal tract state at a point inside a phase, starting from the previous state
+function tractAt(phase: Phase, local: number, from: TractState, next: Phase | undefined): TractState {
+  const transitionIn = Math.min(phase.transitionIn, phase.duration * 0.7);
+
+  let formants = phase.formants;
+  if (phase.glide) {
+    const glideStart = transitionIn * 0.5;
+    const progress = Math.min(1, Math.max(0, (local - glideStart) / (phase.duration - glideStart)));
+    const eased = progress * progress * (3 - 2 * progress);
+    formants = lerpSet(phase.formants, phase.glide, eased);
+  }
+
+  const target: TractState = [...formants, ...phase.bandwidths, phase.nasality] as TractState;
+  let state = target;
+
+  if (transitionIn > 0 && local < transitionIn) {
+    const t = local / transitionIn;
+    state = target.map((value, k) => from[k] + (value - from[k]) * t) as TractState;
+  }
+
+  // Anticipate the place of articulation of a following consonant
+  if (phase.coarticulateOut && next) {
+    const window = Math.min(0.04, phase.duration * 0.3);
+    const start = phase.duration - window;
+    if (local > start) {
+      const t = 0.5 * (local - start) / window;
+      const nextTarget = [...next.formants, ...next.bandwidths, next.nasality];
+      state = state.map((value, k) => value + (nextTarget[k] - value) * t) as TractState;
+    }
+  }
+
+  return state;
+}
+
+// Offset a source amplitude in dB, leaving silent sources silent
+const withGain = (amplitude: number, gain: number) => (amplitude > 0 ? Math.max(0, amplitude + gain) : 0);
+
+// Sample the phases into fixed-rate synthesizer frames, noting the frame each
+// phase starts on in phaseStarts
+function phasesToFrames(phases: Phase[], phraseBoundaries: Boundary[], profile: VoiceProfile, pitch: number, phaseStarts: number[]): KlattFrame[] {
+  const frames: KlattFrame[] = [];
+  const scale = profile.formantScale;
+  const pitchFactor = Math.pow(2, (pitch - 1) * 0.75);
+  const baseF0 = profile.baseF0 * pitchFactor;
+  const range = profile.pitchRange;
+
+  // Phrase extents for declination and boundary tones
+  const phraseExtents = new Map<number, { start: number; end: number }>();
+  let cursor = 0;
+  for (const phase of phases) {
+    const extent = phraseExtents.get(phase.phraseIndex);
+    if (phase.av > 0 || phase.af > 0 || phase.ah > 0) {
+      if (!extent) {
+        phraseExtents.set(phase.phraseIndex, { start: cursor, end: cursor + phase.duration });
+      } else {
+        extent.end = cursor + phase.duration;
+      }
+    }
+    cursor += phase.duration;
+  }
+
+  let state: TractState = [...NEUTRAL_FORMANTS, ...NEUTRAL_BANDWIDTHS, 0] as TractState;
+  let phaseStart = 0;
+  let time = 0;
+
+  phases.forEach((phase, index) => {
+    const next = phases[index + 1];
+    const from = state;
+    const phaseEnd = phaseStart + phase.duration;
+    phaseStarts.push(frames.length);
+
+    while (time < phaseEnd) {
+      const local = time - phaseStart;
+      const [f1, f2, f3, b1, b2, b3, nasality] = tractAt(phase, local, from, next);
+
+      // Intonation: declination, pitch accents and boundary tones
+      let f0 = baseF0 * phase.pitch;
+      const extent = phraseExtents.get(phase.phraseIndex);
+      if (extent) {
+        const length = Math.max(0.001, extent.end - extent.start);
+        const position = Math.min(1, Math.max(0, (time - extent.start) / length));
+        f0 *= 1 + range * (0.3 - 0.5 * position);
+
+        const remaining = extent.end - time;
+        const toneWindow = Math.min(0.3, length * 0.5);
+        if (remaining < toneWindow && remaining > 0) {
+          const t = 1 - remaining / toneWindow;
+          const boundary = phraseBoundaries[phase.phraseIndex];
+          if (boundary === 'question') f0 *= 1 + range * 1.6 * t;
+          else if (boundary === 'comma') f0 *= 1 + range * 0.3 * t;
+          else f0 *= 1 - range * 0.8 * t;
+        }
+      }
+      if (phase.accent > 0) {
+        f0 *= 1 + range * 0.6 * phase.accent * Math.sin((Math.PI * local) / phase.duration);
+      }
+
+      frames.push({
+        f0,
+        av: withGain(phase.av, phase.gain),
+        ah: withGain(phase.ah, phase.gain),
+        af: withGain(phase.af, phase.gain),
+        f1: f1 * scale,
+        f2: f2 * scale,
+        f3: f3 * scale,
+        f4: 3300 * scale,
+        f5: 3750 * scale,
+        b1,
+        b2,
+        b3,
+        b4: 250,
+        b5: 200,
+        fnp: 270,
+        bnp: 100,
+        fnz: 270 + 180 * nasality,
+        bnz: 100,
+        a2: phase.parallel.a2,
+        a3: phase.parallel.a3,
+        a4: phase.parallel.a4,
+        a5: phase.parallel.a5,
+        a6: phase.parallel.a6,
+        ab: phase.parallel.ab,
+        f6: (phase.parallel.f6 || 4900) * Math.sqrt(scale)
+      });
+
+      time += FRAME_DURATION;
+    }
+
+    state = tractAt(phase, phase.duration, from, next);
+    phaseStart = phaseEnd;
+  });
+
+  return frames;
+}
+
+// Each word runs from the first frame of its first phase to the end of its
+// last phase
+function wordTimings(phrases: Phrase[], phases: Phase[], phaseStarts: number[], frameCount: number, frameSeconds: number): WordTiming[] {
+  const extents = new Map<string, { start: number; end: number }>();
+  phases.forEach((phase, index) => {
+    if (phase.wordIndex < 0) return;
+    const key = `${phase.phraseIndex}:${phase.wordIndex}`;
+    const end = index + 1 < phases.length ? phaseStarts[index + 1] : frameCount;
+    const extent = extents.get(key);
+    if (extent) extent.end = end;
+    else extents.set(key, { start: phaseStarts[index], end });
+  });
+
+  const words: WordTiming[] = [];
+  phrases.forEach((phrase, phraseIndex) => {
+    phrase.words.forEach((word, wordIndex) => {
+      const extent = extents.get(`${phraseIndex}:${wordIndex}`);
+      if (!extent) return; // nothing pronounceable
+      words.push({
+        text: word.text,
+        start: extent.start * frameSeconds,
+        end: extent.end * frameSeconds,
+        range: word.range,
+        sentenceEnd: wordIndex === phrase.words.length - 1 && SENTENCE_BOUNDARIES.includes(phrase.boundary)
+      });
+    });
+  });
+  return words;
+}
+
+// Time, shape and synthesize a list of phrases
+function renderPhrases(list: PhraseList, settings: SpeechSettings, options: RenderOptions): RenderedSpeech {
+  const sampleRate = options.sampleRate || DEFAULT_SAMPLE_RATE;
+  const rate = Math.max(0.1, settings.rate || 1);
+  const profile = resolveVoiceProfile(settings.voiceName);
+  const pauses = options.pauses ? pauseDurations(options.pauses) : PAUSE_DURATIONS;
+  const { phrases } = list;
+
+  const phases: Phase[] = [silentPhase(EDGE_SILENCE + list.leadingPause, 0)];
+  phrases.forEach((phrase, phraseIndex) => {
+    const segments = timePhrase(phrase, rate);
+    phases.push(...buildPhases(segments, phraseIndex, rate));
+    const natural = phraseIndex === phrases.length - 1 ? EDGE_SILENCE : pauses[phrase.boundary] / rate;
+    phases.push(silentPhase(phrase.pause ?? natural, phraseIndex));
+  });
+
+  const phaseStarts: number[] = [];
+  const frames = phasesToFrames(phases, phrases.map(p => p.boundary), profile, settings.pitch, phaseStarts);
+  const synthesizer = new KlattSynthesizer(sampleRate, profile.source);
+  const samples = synthesizer.synthesize(frames, FRAME_DURATION);
+  const words = wordTimings(phrases, phases, phaseStarts, frames.length, samples.length / frames.length / sampleRate);
+
+  // Normalise to a consistent peak, then apply the requested volume. The
+  // peak is taken as if prosody volume and emphasis had not been applied, so
+  // a part spoken softly throughout stays soft next to the parts around it;
+  // loud ones are only held under the ceiling. Each phase is scaled back by
+  // the louder of its own gain and the one before, whose sound still rings
+  // into it.
+  const samplesPerFrame = samples.length / Math.max(1, frames.length);
+  let peak = 0;
+  let scaledPeak = 0;
+  phases.forEach((phase, index) => {
+    const from = Math.floor(phaseStarts[index] * samplesPerFrame);
+    const to = Math.floor((phaseStarts[index + 1] ?? frames.length) * samplesPerFrame);
+    const gain = Math.max(phase.gain, phases[index - 1]?.gain ?? phase.gain);
+    const unscale = dbToGain(-gain);
+    for (let i = from; i < to; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]) * unscale);
+      scaledPeak = Math.max(scaledPeak, Math.abs(samples[i]));
+    }
+  });
+  const ceiling = Math.min(PEAK_LEVEL / peak, PEAK_LEVEL / scaledPeak);
+  const gain = peak > 0 ? ceiling * Math.max(0, Math.min(1, settings.volume)) : 0;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gain;
+  }
+
+  return { samples, sampleRate, duration: samples.length / sampleRate, words };
+}
+
+// Render text to mono floating-point PCM
+export function renderSpeech(text: string, settings: SpeechSettings, options: RenderOptions = {}): RenderedSpeech {
+  return renderPhrases(parsePhrases(text), settings, options);
+}
+
+// Render a parsed SSML document, honouring breaks, prosody, emphasis and phonemes
+export function renderSsml(document: SsmlDocument, settings: SpeechSettings, options: RenderOptions = {}): RenderedSpeech {
+  return renderPhrases(ssmlPhrases(document), settings, options);
+}
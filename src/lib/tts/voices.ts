@@ -0,0 +1,60 @@
+// Voice profiles for the server-side formant synthesizer
+//
+// Browser voice names (e.g. "Google UK English Female", "Samantha") are mapped
+// onto a small set of synthetic speakers that differ in pitch, vocal tract
+// length and glottal source characteristics.
+
+import { GlottalSourceOptions } from './klatt-synthesizer';
+
+export interface VoiceProfile {
+  id: 'male' | 'female' | 'child';
+  baseF0: number;        // average speaking pitch, Hz
+  pitchRange: number;    // fraction of baseF0 used for accents and boundary tones
+  formantScale: number;  // vocal tract length factor relative to the adult male tables
+  source: Partial<GlottalSourceOptions>;
+}
+
+export const VOICE_PROFILES: Record<VoiceProfile['id'], VoiceProfile> = {
+  male: {
+    id: 'male',
+    baseF0: 110,
+    pitchRange: 0.25,
+    formantScale: 1,
+    source: { openQuotient: 0.45, spectralTilt: 0.15, breathiness: 28 }
+  },
+  female: {
+    id: 'female',
+    baseF0: 200,
+    pitchRange: 0.3,
+    formantScale: 1.16,
+    source: { openQuotient: 0.6, spectralTilt: 0.3, breathiness: 36 }
+  },
+  child: {
+    id: 'child',
+    baseF0: 260,
+    pitchRange: 0.3,
+    formantScale: 1.3,
+    source: { openQuotient: 0.6, spectralTilt: 0.3, breathiness: 34 }
+  }
+};
+
+// Common names of female system voices across macOS, Windows, Android and Chrome
+const FEMALE_VOICE_NAMES = [
+  'female', 'woman', 'samantha', 'victoria', 'karen', 'moira', 'tessa', 'fiona', 'veena',
+  'zira', 'susan', 'hazel', 'heera', 'kathy', 'allison', 'ava', 'serena', 'anna', 'amelie',
+  'alice', 'ellen', 'sara', 'paulina', 'monica', 'zuzana', 'aria', 'jenny', 'libby', 'sonia',
+  'natasha', 'catherine', 'kate', 'joanna', 'salli', 'kimberly', 'ivy', 'emma', 'amy'
+];
+
+const CHILD_VOICE_NAMES = ['child', 'kid', 'junior', 'justin'];
+
+// Pick the synthetic voice that best matches a browser voice name
+export function resolveVoiceProfile(voiceName?: string): VoiceProfile {
+  const name = (voiceName || '').toLowerCase();
+  const hasWord = (candidates: string[]) =>
+    candidates.some(candidate => new RegExp(`\\b${candidate}\\b`).test(name));
+
+  if (hasWord(CHILD_VOICE_NAMES)) return VOICE_PROFILES.child;
+  if (hasWord(FEMALE_VOICE_NAMES)) return VOICE_PROFILES.female;
+  return VOICE_PROFILES.male;
+}
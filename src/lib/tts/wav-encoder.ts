@@ -0,0 +1,217 @@
+// WAV encoding
+//
+// Writes RIFF/WAVE files from rendered 16-bit PCM. The output can be 16- or
+// 24-bit integer PCM, 32-bit float, or 8-bit G.711 μ-law or A-law for
+// telephony, at any sample rate the resampler is given. Speech is rendered in
+// mono, so a stereo file carries the same signal on both channels.
+
+import { PcmAudio } from './long-form';
+import { createResampler } from './resampler';
+import { yieldToEventLoop } from './dsp-utils';
+import { riffInfoChunk } from './metadata-tags';
+import { DEFAULT_WAV_BIT_DEPTH, WavBitDepth, WavEncoding } from '../audio-formats';
+import { AudioMetadata } from '../audio-metadata';
+
+export interface WavOptions {
+  sampleRate?: number; // defaults to the rendered rate
+  bitDepth?: WavBitDepth;
+  channels?: number;
+  encoding?: WavEncoding;
+  metadata?: AudioMetadata;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// KSDATAFORMAT_SUBTYPE_PCM, 00000001-0000-0010-8000-00aa00389b71
+const PCM_SUBFORMAT = [0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+const SPEAKER_FRONT_CENTER = 0x4;
+const SPEAKER_FRONT_LEFT_RIGHT = 0x3;
+
+const UNKNOWN_LENGTH = 0xffffffff;
+
+// How one sample is stored; samples arrive as floats on the 16-bit scale
+// (-32768 to 32767) so 16-bit input passes through unchanged
+interface SampleCodec {
+  formatTag: number;
+  bytesPerSample: number;
+  write: (view: DataView, offset: number, sample: number) => void;
+}
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// G.711 μ-law: sign, 3-bit segment and 4-bit step, inverted
+function linearToMulaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+// G.711 A-law on the 13-bit magnitude, with even bits inverted
+function linearToAlaw(sample: number): number {
+  let value = sample >> 3;
+  let mask = 0xd5;
+  if (value < 0) {
+    mask = 0x55;
+    value = -value - 1;
+  }
+  const segment = ALAW_SEGMENT_ENDS.findIndex(end => value <= end);
+  if (segment < 0) return 0x7f ^ mask;
+  const step = segment < 2 ? (value >> 1) & 0x0f : (value >> segment) & 0x0f;
+  return ((segment << 4) | step) ^ mask;
+}
+
+const toInt16 = (sample: number) => Math.max(-32768, Math.min(32767, Math.round(sample)));
+
+function sampleCodec(encoding: WavEncoding, bitDepth: WavBitDepth): SampleCodec {
+  if (encoding === 'mulaw') {
+    return { formatTag: WAVE_FORMAT_MULAW, bytesPerSample: 1, write: (view, offset, sample) => view.setUint8(offset, linearToMulaw(toInt16(sample))) };
+  }
+  if (encoding === 'alaw') {
+    return { formatTag: WAVE_FORMAT_ALAW, bytesPerSample: 1, write: (view, offset, sample) => view.setUint8(offset, linearToAlaw(toInt16(sample))) };
+  }
+  if (bitDepth === 32) {
+    return { formatTag: WAVE_FORMAT_IEEE_FLOAT, bytesPerSample: 4, write: (view, offset, sample) => view.setFloat32(offset, sample / 32768, true) };
+  }
+  if (bitDepth === 24) {
+    return {
+      formatTag: WAVE_FORMAT_EXTENSIBLE,
+      bytesPerSample: 3,
+      write: (view, offset, sample) => {
+        const value = Math.max(-8388608, Math.min(8388607, Math.round(sample * 256)));
+        view.setUint8(offset, value & 0xff);
+        view.setInt16(offset + 1, value >> 8, true);
+      }
+    };
+  }
+  return { formatTag: WAVE_FORMAT_PCM, bytesPerSample: 2, write: (view, offset, sample) => view.setInt16(offset, toInt16(sample), true) };
+}
+
+// RIFF header with fmt, fact (for the non-PCM tags), LIST/INFO (when there is
+// metadata) and data chunk headers
+function wavHeader(codec: SampleCodec, sampleRate: number, channels: number, frameCount: number, info?: Uint8Array): ArrayBuffer {
+  const extensible = codec.formatTag === WAVE_FORMAT_EXTENSIBLE;
+  const needsFact = codec.formatTag !== WAVE_FORMAT_PCM && !extensible;
+  const fmtSize = extensible ? 40 : codec.formatTag === WAVE_FORMAT_PCM ? 16 : 18;
+  const blockAlign = channels * codec.bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const headerSize = 12 + 8 + fmtSize + (needsFact ? 12 : 0) + (info?.length ?? 0) + 8;
+
+  const buffer = new ArrayBuffer(headerSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  // RIFF chunk descriptor; chunks are word-aligned, so an odd data chunk is
+  // followed by a pad byte that the RIFF size includes
+  writeString(0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize + (dataSize % 2), true);
+  writeString(8, 'WAVE');
+
+  // fmt sub-chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, codec.formatTag, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, codec.bytesPerSample * 8, true);
+  let offset = 36;
+  if (fmtSize > 16) {
+    view.setUint16(offset, fmtSize - 18, true); // Extension size
+    offset += 2;
+  }
+  if (extensible) {
+    view.setUint16(offset, codec.bytesPerSample * 8, true); // Valid bits per sample
+    view.setUint32(offset + 2, channels === 1 ? SPEAKER_FRONT_CENTER : SPEAKER_FRONT_LEFT_RIGHT, true);
+    new Uint8Array(buffer).set(PCM_SUBFORMAT, offset + 6);
+    offset += 22;
+  }
+
+  // fact sub-chunk: the frame count, which compressed formats cannot derive
+  if (needsFact) {
+    writeString(offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frameCount, true);
+    offset += 12;
+  }
+
+  if (info) {
+    new Uint8Array(buffer).set(info, offset);
+    offset += info.length;
+  }
+
+  // data sub-chunk
+  writeString(offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+
+  return buffer;
+}
+
+// Header for 16-bit mono PCM sent while it is still being rendered. The
+// length isn't known yet, so the RIFF and data sizes hold the largest value,
+// which players read as "until the stream ends".
+export function wavStreamHeader(sampleRate: number, metadata?: AudioMetadata): ArrayBuffer {
+  const info = metadata && riffInfoChunk(metadata);
+  const header = wavHeader(sampleCodec('pcm', 16), sampleRate, 1, 0, info);
+  const view = new DataView(header);
+  view.setUint32(4, UNKNOWN_LENGTH, true);
+  view.setUint32(header.byteLength - 4, UNKNOWN_LENGTH, true);
+  return header;
+}
+
+// Encode PCM audio to a WAV file
+export async function encodeWav(audio: PcmAudio, options: WavOptions = {}): Promise<Blob> {
+  const sampleRate = options.sampleRate ?? audio.sampleRate;
+  const channels = options.channels ?? 1;
+  const codec = sampleCodec(options.encoding ?? 'pcm', options.bitDepth ?? DEFAULT_WAV_BIT_DEPTH);
+  const info = options.metadata && riffInfoChunk(options.metadata);
+
+  // Rendered audio is already 16-bit mono PCM, so it needs no conversion
+  if (codec.formatTag === WAVE_FORMAT_PCM && channels === 1 && sampleRate === audio.sampleRate) {
+    const header = wavHeader(codec, sampleRate, channels, audio.sampleCount, info);
+    return new Blob([header, ...audio.chunks], { type: 'audio/wav' });
+  }
+
+  const resampler = createResampler(audio.sampleRate, sampleRate);
+  const parts: ArrayBuffer[] = [];
+  let frameCount = 0;
+
+  const write = (samples: Float32Array) => {
+    const buffer = new ArrayBuffer(samples.length * channels * codec.bytesPerSample);
+    const view = new DataView(buffer);
+    let offset = 0;
+    for (let i = 0; i < samples.length; i++) {
+      for (let channel = 0; channel < channels; channel++) {
+        codec.write(view, offset, samples[i]);
+        offset += codec.bytesPerSample;
+      }
+    }
+    parts.push(buffer);
+    frameCount += samples.length;
+  };
+
+  for (const chunk of audio.chunks) {
+    write(resampler.process(Float32Array.from(chunk)));
+    await yieldToEventLoop();
+  }
+  write(resampler.flush());
+
+  const dataSize = frameCount * channels * codec.bytesPerSample;
+  if (dataSize % 2 === 1) parts.push(new ArrayBuffer(1));
+
+  return new Blob([wavHeader(codec, sampleRate, channels, frameCount, info), ...parts], { type: 'audio/wav' });
+}
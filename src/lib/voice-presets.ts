@@ -0,0 +1,116 @@
+// Voice presets
+//
+// Named rate, pitch and volume combinations, with an optional voice, that
+// are applied to VoiceSettings in one click. Built-in presets leave the voice
+// alone; user presets remember the voice by name and language and fall back
+// to a voice for the same language when that one is not installed. User
+// presets are exported and imported as JSON files for sharing.
+
+import type { SavedVoiceSettings } from './audio-utils';
+import { createId } from './projects';
+
+export interface VoicePreset {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  settings: SavedVoiceSettings; // a null voice name keeps the current voice
+}
+
+export const BUILT_IN_PRESETS: VoicePreset[] = [
+  {
+    id: 'narrator',
+    name: 'Narrator',
+    builtIn: true,
+    settings: { rate: 0.9, pitch: 1, volume: 1, voiceName: null, voiceLang: null }
+  },
+  {
+    id: 'announcement',
+    name: 'Announcement',
+    builtIn: true,
+    settings: { rate: 0.8, pitch: 0.9, volume: 1, voiceName: null, voiceLang: null }
+  },
+  {
+    id: 'fast-preview',
+    name: 'Fast preview',
+    builtIn: true,
+    settings: { rate: 1.8, pitch: 1, volume: 0.8, voiceName: null, voiceLang: null }
+  }
+];
+
+// Limits of the VoiceSettings sliders
+export const PRESET_RANGES = {
+  rate: [0.5, 2],
+  pitch: [0.5, 2],
+  volume: [0, 1]
+} as const;
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+// Identifies an exported presets file
+const PRESET_FILE_TYPE = 'text-to-audio/voice-presets';
+const PRESET_FILE_VERSION = 1;
+
+// One preset as written to a presets file
+interface PresetFileEntry {
+  name: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceName: string | null;
+  voiceLang: string | null;
+}
+
+export function createPreset(name: string, settings: SavedVoiceSettings): VoicePreset {
+  return { id: createId(), name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH), builtIn: false, settings };
+}
+
+// Add presets, replacing user presets of the same name
+export function mergePresets(existing: VoicePreset[], added: VoicePreset[]): VoicePreset[] {
+  const names = new Set(added.map(preset => preset.name.toLowerCase()));
+  return [...existing.filter(preset => !names.has(preset.name.toLowerCase())), ...added];
+}
+
+export function exportPresets(presets: VoicePreset[]): string {
+  const entries: PresetFileEntry[] = presets.map(({ name, settings }) => ({ name, ...settings }));
+  return JSON.stringify({ type: PRESET_FILE_TYPE, version: PRESET_FILE_VERSION, presets: entries }, null, 2);
+}
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.max(min, Math.min(max, value));
+
+// Read a presets file. Throws with a message for the user when the file is
+// not one; entries with missing numbers are skipped and values are clamped to
+// the slider ranges.
+export function importPresets(json: string): VoicePreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const file = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (file.type !== PRESET_FILE_TYPE || !Array.isArray(file.presets)) {
+    throw new Error('The file is not a voice presets export');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error('The presets file was made by a newer version of this app');
+  }
+
+  const presets: VoicePreset[] = [];
+  for (const entry of file.presets as unknown[]) {
+    const fields = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const { name, rate, pitch, volume, voiceName, voiceLang } = fields;
+    if (typeof name !== 'string' || !name.trim()) continue;
+    if (![rate, pitch, volume].every(value => typeof value === 'number' && Number.isFinite(value))) continue;
+    presets.push(createPreset(name, {
+      rate: clamp(rate as number, PRESET_RANGES.rate),
+      pitch: clamp(pitch as number, PRESET_RANGES.pitch),
+      volume: clamp(volume as number, PRESET_RANGES.volume),
+      voiceName: typeof voiceName === 'string' ? voiceName : null,
+      voiceLang: typeof voiceLang === 'string' ? voiceLang : null
+    }));
+  }
+
+  if (presets.length === 0) throw new Error('The file has no usable presets');
+  return presets;
+}
@@ -0,0 +1,206 @@
+// ZIP archives
+//
+// DOCX and EPUB files are ZIP archives of XML. This reads the central
+// directory and inflates entries with the platform's DecompressionStream, so
+// no archive library is needed. Stored and deflated entries are supported;
+// ZIP64, encryption and multi-disk archives are not, and none of them occur in
+// documents saved by word processors or e-book tools. Archives are written
+// uncompressed, since they hold audio that does not compress further.
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflated
+  compressedSize: number;
+  size: number;
+  headerOffset: number; // of the local file header
+}
+
+export interface ZipArchive {
+  entries: Map<string, ZipEntry>;
+  read(name: string): Promise<Uint8Array | null>;
+  readText(name: string): Promise<string | null>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+// The end record sits at the end of the file, before an optional comment
+function findEndRecord(view: DataView): number {
+  const last = view.byteLength - 22;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Throws when the data is not a ZIP archive this can read
+export function openZip(data: ArrayBuffer): ZipArchive {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const end = data.byteLength >= 22 ? findEndRecord(view) : -1;
+  if (end < 0) throw new Error('The file is not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const utf8 = new TextDecoder();
+  const latin1 = new TextDecoder('latin1');
+  const entries = new Map<string, ZipEntry>();
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The ZIP directory is damaged');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = (flags & FLAG_UTF8 ? utf8 : latin1).decode(nameBytes);
+
+    if (!(flags & FLAG_ENCRYPTED) && !name.endsWith('/')) {
+      entries.set(name, {
+        name,
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        size: view.getUint32(offset + 24, true),
+        headerOffset: view.getUint32(offset + 42, true)
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const header = entry.headerOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`The ZIP entry ${name} is damaged`);
+    }
+    // The local header repeats the name but may have its own extra field
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const compressed = bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === METHOD_STORED) return compressed;
+    if (entry.method === METHOD_DEFLATED) return inflate(compressed);
+    throw new Error(`The ZIP entry ${name} uses an unsupported compression method`);
+  };
+
+  return {
+    entries,
+    read,
+    readText: async (name: string) => {
+      const content = await read(name);
+      return content ? utf8.decode(content) : null;
+    }
+  };
+}
+
+// Resolve a path inside an archive against the file that refers to it
+export function resolveZipPath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of href.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, in local time as archivers expect
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+// An archive of stored files, each up to 4 GB
+export function createZip(files: ZipFile[], modified = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    // Fields shared by the local header (from offset 4) and the directory
+    // entry (from offset 6)
+    const common = new DataView(new ArrayBuffer(26));
+    common.setUint16(0, 20, true); // version needed
+    common.setUint16(2, FLAG_UTF8, true);
+    common.setUint16(4, METHOD_STORED, true);
+    common.setUint16(6, time, true);
+    common.setUint16(8, date, true);
+    common.setUint32(10, crc, true);
+    common.setUint32(14, file.data.length, true);
+    common.setUint32(18, file.data.length, true);
+    common.setUint16(22, name.length, true);
+    const shared = new Uint8Array(common.buffer);
+
+    const local = new Uint8Array(30 + name.length);
+    new DataView(local.buffer).setUint32(0, LOCAL_FILE_HEADER, true);
+    local.set(shared, 4);
+    local.set(name, 30);
+    parts.push(local, file.data);
+
+    const entry = new Uint8Array(46 + name.length);
+    const view = new DataView(entry.buffer);
+    view.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(4, 20, true); // version made by
+    entry.set(shared, 6);
+    view.setUint32(42, offset, true);
+    entry.set(name, 46);
+    directory.push(entry);
+
+    offset += local.length + file.data.length;
+  }
+
+  const directorySize = directory.reduce((total, entry) => total + entry.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+}